@@ -4,6 +4,7 @@ import { GoogleGenAI, Chat, FunctionDeclaration, Type } from "@google/genai";
 import { usePortfolio } from '../context/PortfolioContext';
 import { MessageSquare, X, Send, Loader2, Sparkles, Bot, ChevronDown, CheckCircle2, Mic, MicOff } from 'lucide-react';
 import { MOCK_MARKET_ASSETS } from '../constants';
+import { formatMoney } from '../services/fx';
 
 const AIAssistant: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
@@ -14,7 +15,7 @@ const AIAssistant: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const { activePortfolio, addTransaction } = usePortfolio();
+  const { activePortfolio, addTransaction, baseCurrency, holdingValue, cashValue } = usePortfolio();
   const [chatSession, setChatSession] = useState<Chat | null>(null);
 
   // Initialize the AI client
@@ -40,7 +41,7 @@ const AIAssistant: React.FC = () => {
   useEffect(() => {
     if (isOpen && !chatSession) {
         const totalVal = activePortfolio.totalValue;
-        const cash = activePortfolio.cashBalance;
+        const cash = cashValue;
         const holdingsCount = activePortfolio.holdings.length;
         
         // Sort for gainers/losers
@@ -55,7 +56,7 @@ const AIAssistant: React.FC = () => {
 
         // Calculate Sector Weights
         const sectorWeights = activePortfolio.holdings.reduce((acc, h) => {
-            const val = h.shares * h.currentPrice;
+            const val = holdingValue(h);
             acc[h.sector] = (acc[h.sector] || 0) + val;
             return acc;
         }, {} as Record<string, number>);
@@ -67,7 +68,7 @@ const AIAssistant: React.FC = () => {
 
         // Calculate Detailed Metrics
         const totalYield = totalVal > 0 
-            ? activePortfolio.holdings.reduce((acc, h) => acc + (h.shares * h.currentPrice * (h.dividendYield/100)), 0) / totalVal * 100 
+            ? activePortfolio.holdings.reduce((acc, h) => acc + (holdingValue(h) * (h.dividendYield/100)), 0) / totalVal * 100 
             : 0;
 
         // Aggregate Financial Health Metrics (Debt/Equity, Free Cash Flow Proxy)
@@ -78,7 +79,7 @@ const AIAssistant: React.FC = () => {
         // Calculate Aggregate Snowflake Score
         let aggSnowflake = { value: 0, future: 0, past: 0, health: 0, dividend: 0 };
         activePortfolio.holdings.forEach(h => {
-             const weight = (h.shares * h.currentPrice) / totalVal;
+             const weight = holdingValue(h) / totalVal;
              aggSnowflake.value += h.snowflake.value * weight;
              aggSnowflake.future += h.snowflake.future * weight;
              aggSnowflake.past += h.snowflake.past * weight;
@@ -118,7 +119,7 @@ const AIAssistant: React.FC = () => {
             return 1.0;
         }
         const portfolioBeta = totalVal > 0 
-            ? activePortfolio.holdings.reduce((acc, h) => acc + (calculateBeta(h.sector, h.assetType) * ((h.shares * h.currentPrice)/totalVal)), 0)
+            ? activePortfolio.holdings.reduce((acc, h) => acc + (calculateBeta(h.sector, h.assetType) * (holdingValue(h)/totalVal)), 0)
             : 1.0;
         
         // Simulated Sharpe Ratio (Return - RiskFree) / StdDev
@@ -128,14 +129,15 @@ const AIAssistant: React.FC = () => {
         const sharpeRatio = (expectedReturn - 0.04) / estimatedVol;
 
         const topConcentration = sortedByPerformance.length > 0 
-            ? (sortedByPerformance[0].shares * sortedByPerformance[0].currentPrice / totalVal * 100).toFixed(1)
+            ? (holdingValue(sortedByPerformance[0]) / totalVal * 100).toFixed(1)
             : '0';
 
         const portfolioContext = `
             CURRENT PORTFOLIO SNAPSHOT (${new Date().toLocaleDateString()}):
             Portfolio Name: ${activePortfolio.name}
-            Total Net Asset Value: $${totalVal.toFixed(2)}
-            Cash Available: $${cash.toFixed(2)}
+            Reporting Currency: ${baseCurrency}
+            Total Net Asset Value: ${formatMoney(totalVal, baseCurrency)}
+            Cash Available: ${formatMoney(cash, baseCurrency)}
             Number of Holdings: ${holdingsCount}
             
             RISK & PERFORMANCE METRICS:
@@ -159,7 +161,7 @@ const AIAssistant: React.FC = () => {
             
             HOLDINGS DETAIL:
             ${activePortfolio.holdings.map(h => 
-                `- ${h.symbol} (${h.name}): ${h.shares} sh @ $${h.currentPrice.toFixed(2)}. Total Val: $${(h.shares * h.currentPrice).toFixed(0)}. Sector: ${h.sector}. Yield: ${h.dividendYield}%. SafetyScore: ${h.safetyScore}.`
+                `- ${h.symbol} (${h.name}): ${h.shares} sh @ ${formatMoney(h.currentPrice, h.currency || 'USD')}. Total Val: ${formatMoney(holdingValue(h), baseCurrency, 0)}. Sector: ${h.sector}. Yield: ${h.dividendYield}%. SafetyScore: ${h.safetyScore}.`
             ).join('\n')}
         `;
 
@@ -1,15 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Search, Plus, TrendingUp, DollarSign, Calendar, Car, Home, CreditCard, Landmark, Globe, Briefcase } from 'lucide-react';
+import { X, Search, Plus, TrendingUp, DollarSign, Calendar, Car, Home, CreditCard, Landmark, Globe, Briefcase, AlertTriangle } from 'lucide-react';
 import { MOCK_MARKET_ASSETS } from '../constants';
 import { usePortfolio } from '../context/PortfolioContext';
 import { ManualAssetType } from '../types';
-import { EXCHANGE_RATES } from '../services/marketData';
+import { BASE_CURRENCIES, formatMoney, toMajorUnits } from '../services/fx';
+import { cashAccounts, tracksCash } from '../services/cashLedger';
+import { resolveSymbol } from '../services/symbolResolver';
 
 type ModalTab = 'investment' | 'asset' | 'liability';
 
 const AddAssetModal: React.FC = () => {
-  const { closeAddAssetModal, addTransaction, addManualAsset, addLiability, preSelectedAssetTicker, portfolios, activePortfolioId } = usePortfolio();
+  const { closeAddAssetModal, addTransaction, addManualAsset, addLiability, preSelectedAssetTicker, portfolios, activePortfolioId, activePortfolio } = usePortfolio();
   const [activeTab, setActiveTab] = useState<ModalTab>('investment');
   
   // Portfolio Selection
@@ -35,6 +37,7 @@ const AddAssetModal: React.FC = () => {
   const [liabilityAmount, setLiabilityAmount] = useState('');
   const [interestRate, setInterestRate] = useState('');
   const [monthlyPayment, setMonthlyPayment] = useState('');
+  const [termYears, setTermYears] = useState('');
 
   // Ensure target portfolio matches active if it changes
   useEffect(() => {
@@ -46,7 +49,8 @@ const AddAssetModal: React.FC = () => {
   // Pre-select asset if ticker is passed
   useEffect(() => {
       if (preSelectedAssetTicker) {
-          const asset = MOCK_MARKET_ASSETS.find(a => a.symbol === preSelectedAssetTicker);
+          const symbol = resolveSymbol(preSelectedAssetTicker).symbol;
+          const asset = MOCK_MARKET_ASSETS.find(a => a.symbol === symbol);
           if (asset) {
               setSelectedAssetId(asset.id);
               setPrice(asset.currentPrice.toString());
@@ -57,15 +61,32 @@ const AddAssetModal: React.FC = () => {
       }
   }, [preSelectedAssetTicker]);
 
-  // Filter logic for Investments
+  // Filter logic for Investments. A broker ticker (VUSA_UK_EQ), exchange notation (LSE:VUSA)
+  // or ISIN looked up before finds the instrument it names first.
+  const resolved = searchTerm.trim() ? resolveSymbol(searchTerm) : null;
+  const resolvedAsset = resolved && resolved.source !== 'unresolved' ? MOCK_MARKET_ASSETS.find(a => a.symbol === resolved.symbol) : undefined;
   const results = searchTerm.length > 0 
-    ? MOCK_MARKET_ASSETS.filter(a => 
-        a.symbol.toLowerCase().includes(searchTerm.toLowerCase()) || 
-        a.name.toLowerCase().includes(searchTerm.toLowerCase())
-      ).slice(0, 4)
+    ? [
+        ...(resolvedAsset ? [resolvedAsset] : []),
+        ...MOCK_MARKET_ASSETS.filter(a => 
+          a !== resolvedAsset && (
+          a.symbol.toLowerCase().includes(searchTerm.toLowerCase()) || 
+          a.name.toLowerCase().includes(searchTerm.toLowerCase()))
+        )
+      ].slice(0, 4)
     : [];
 
   const selectedAsset = MOCK_MARKET_ASSETS.find(a => a.id === selectedAssetId);
+  const tradeCurrency = selectedAsset?.currency || 'USD';
+  const totalCost = parseFloat(shares || '0') * parseFloat(price || '0');
+
+  // Buys are paid from the cash account in the asset's currency once the ledger tracks cash.
+  // Only the active portfolio's ledger is loaded, so other targets are not checked.
+  const settlement = toMajorUnits(totalCost, tradeCurrency);
+  const availableCash = cashAccounts(activePortfolio)[settlement.currency] || 0;
+  const insufficientFunds = targetPortfolioId === activePortfolioId
+      && tracksCash(activePortfolio.transactions)
+      && settlement.amount > availableCash + 0.005;
 
   const handleInvestmentSubmit = (e: React.FormEvent) => {
       e.preventDefault();
@@ -98,7 +119,10 @@ const AddAssetModal: React.FC = () => {
               type: liabilityType,
               amount: parseFloat(liabilityAmount),
               interestRate: parseFloat(interestRate) || 0,
-              monthlyPayment: parseFloat(monthlyPayment) || 0
+              monthlyPayment: parseFloat(monthlyPayment) || 0,
+              // The balance is what is owed today; the schedule takes it down from here
+              balanceDate: new Date().toISOString().split('T')[0],
+              termMonths: parseFloat(termYears) > 0 ? Math.round(parseFloat(termYears) * 12) : undefined
           }, targetPortfolioId);
           closeAddAssetModal();
       }
@@ -163,7 +187,7 @@ const AddAssetModal: React.FC = () => {
                             <input 
                                 autoFocus
                                 type="text" 
-                                placeholder="Search by symbol or name..." 
+                                placeholder="Search by symbol, name or ISIN..." 
                                 className="w-full bg-slate-950 border border-slate-700 rounded-xl py-3 pl-12 pr-4 text-white focus:ring-1 focus:ring-brand-500 focus:border-brand-500 outline-none"
                                 value={searchTerm}
                                 onChange={e => setSearchTerm(e.target.value)}
@@ -276,9 +300,15 @@ const AddAssetModal: React.FC = () => {
                             <div className="flex justify-between text-sm mb-4 px-2">
                                 <span className="text-slate-400">Total Cost</span>
                                 <span className="font-bold text-white text-lg">
-                                    ${(parseFloat(shares || '0') * parseFloat(price || '0')).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                                    {formatMoney(totalCost, tradeCurrency)}
                                 </span>
                             </div>
+                            {insufficientFunds && (
+                                <div className="flex items-start gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 mb-4">
+                                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                                    Insufficient funds: the {settlement.currency} cash account holds {formatMoney(availableCash, settlement.currency)}. Record a deposit or currency conversion first, or the balance will go negative.
+                                </div>
+                            )}
                             <button 
                                 type="submit"
                                 className="w-full bg-brand-600 hover:bg-brand-500 text-white font-bold py-3.5 rounded-xl transition-all shadow-lg shadow-brand-600/20 flex items-center justify-center gap-2"
@@ -346,8 +376,8 @@ const AddAssetModal: React.FC = () => {
                                     value={assetCurrency}
                                     onChange={e => setAssetCurrency(e.target.value)}
                                 >
-                                    {Object.keys(EXCHANGE_RATES).map(curr => (
-                                        <option key={curr} value={curr}>{curr}</option>
+                                    {BASE_CURRENCIES.map(curr => (
+                                        <option key={curr.code} value={curr.code}>{curr.code}</option>
                                     ))}
                                 </select>
                             </div>
@@ -461,6 +491,19 @@ const AddAssetModal: React.FC = () => {
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-medium text-slate-400 mb-1.5">Remaining Term (years)</label>
+                        <input 
+                            type="number" 
+                            step="any"
+                            className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white focus:border-brand-500 outline-none"
+                            placeholder="Optional, e.g. 25"
+                            value={termYears}
+                            onChange={e => setTermYears(e.target.value)}
+                        />
+                        <p className="text-xs text-slate-500 mt-1.5">The balance is paid down from today using the monthly payment, or level payments over this term.</p>
+                    </div>
+
                     <button 
                         type="submit"
                         className="w-full bg-red-600 hover:bg-red-500 text-white font-bold py-3.5 rounded-xl transition-all shadow-lg shadow-red-600/20 flex items-center justify-center gap-2 mt-4"
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer } from 'recharts';
+import { usePortfolio } from '../context/PortfolioContext';
+import { amortize, AmortizationSchedule, AmortizationScenario, balanceOn, isAmortizing, monthlyPaymentFor, yearlySummary } from '../services/amortization';
+import { currencySymbol, formatMoney } from '../services/fx';
+
+const inputClass = 'w-full bg-white dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white rounded-lg px-3 py-2 text-sm focus:border-brand-500 outline-none';
+
+const formatPayoff = (date: string | null) =>
+    date ? new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) : 'Never';
+
+// Payoff projection for a loan, with what-if extra payments and refinancing
+const AmortizationPanel: React.FC = () => {
+    const { activePortfolio, baseCurrency, toBase } = usePortfolio();
+    const loans = (activePortfolio.liabilities || []).filter(isAmortizing);
+    const [selectedId, setSelectedId] = useState('');
+    const [extraMonthly, setExtraMonthly] = useState('');
+    const [lumpSum, setLumpSum] = useState('');
+    const [refinanceOn, setRefinanceOn] = useState(false);
+    const [refiRate, setRefiRate] = useState('');
+    const [refiYears, setRefiYears] = useState('');
+    const [refiCosts, setRefiCosts] = useState('');
+
+    const loan = loans.find(l => l.id === selectedId) || loans[0];
+
+    // The schedule is projected from today's balance so the scenario starts now
+    const today = new Date().toISOString().split('T')[0];
+    const current = loan ? { ...loan, amount: balanceOn(loan, today), balanceDate: today } : undefined;
+
+    const scenario: AmortizationScenario = {
+        extraMonthly: parseFloat(extraMonthly) || 0,
+        lumpSum: parseFloat(lumpSum) > 0 ? { month: 1, amount: parseFloat(lumpSum) } : undefined,
+        refinance: refinanceOn && parseFloat(refiRate) >= 0 && parseFloat(refiYears) > 0
+            ? { month: 0, interestRate: parseFloat(refiRate), termMonths: Math.round(parseFloat(refiYears) * 12), costs: parseFloat(refiCosts) || 0 }
+            : undefined
+    };
+    const hasScenario = !!(scenario.extraMonthly || scenario.lumpSum || scenario.refinance);
+
+    const baseline: AmortizationSchedule | null = useMemo(() => (current ? amortize(current) : null), [current?.id, current?.amount, current?.interestRate, current?.monthlyPayment, current?.termMonths]);
+    const projected: AmortizationSchedule | null = useMemo(
+        () => (current && hasScenario ? amortize(current, scenario) : null),
+        [current?.id, current?.amount, hasScenario, extraMonthly, lumpSum, refinanceOn, refiRate, refiYears, refiCosts]
+    );
+
+    const chartData: { year: number; interest: number; principal: number; balance: number; scenarioBalance?: number }[] = useMemo(() => {
+        if (!baseline) return [];
+        const shown = yearlySummary(projected || baseline);
+        const baseBalances = new Map(yearlySummary(baseline).map(y => [y.year, y.balance]));
+        const scenarioBalances = new Map(shown.map(y => [y.year, y]));
+        const years = Array.from(new Set([...baseBalances.keys(), ...scenarioBalances.keys()])).sort((a, b) => a - b);
+        return years.map(year => ({
+            year,
+            interest: toBase(scenarioBalances.get(year)?.interest || 0),
+            principal: toBase(scenarioBalances.get(year)?.principal || 0),
+            balance: toBase(baseBalances.get(year) ?? 0),
+            scenarioBalance: projected ? toBase(scenarioBalances.get(year)?.balance ?? 0) : undefined
+        }));
+    }, [baseline, projected, baseCurrency]);
+
+    if (!loan || !current || !baseline) return null;
+
+    const months = (s: AmortizationSchedule) => s.payoffDate ? s.rows.length : null;
+    const interestSaved = projected ? baseline.totalInterest - projected.totalInterest : 0;
+    const monthsSaved = projected && months(baseline) !== null && months(projected) !== null ? months(baseline)! - months(projected)! : 0;
+
+    const refinance = scenario.refinance;
+    const payment = refinance ? monthlyPaymentFor(current.amount + (refinance.costs || 0), refinance.interestRate, refinance.termMonths) : baseline.monthlyPayment;
+    const stats = [
+        { label: 'Balance Today', value: formatMoney(toBase(current.amount), baseCurrency) },
+        { label: 'Monthly Payment', value: formatMoney(toBase(payment), baseCurrency) },
+        { label: 'Payoff', value: formatPayoff((projected || baseline).payoffDate) },
+        { label: 'Interest Left', value: formatMoney(toBase((projected || baseline).totalInterest), baseCurrency) }
+    ];
+
+    return (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <Calculator className="w-5 h-5 text-brand-500" /> Loan Payoff
+                    </h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Projected from today's balance. Try extra payments or a refinance to see the effect.</p>
+                </div>
+                {loans.length > 1 && (
+                    <select value={loan.id} onChange={e => setSelectedId(e.target.value)} className={`${inputClass} md:w-56 cursor-pointer`}>
+                        {loans.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                    </select>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {stats.map(s => (
+                    <div key={s.label} className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg p-4">
+                        <div className="text-xs text-slate-500 font-bold uppercase mb-1">{s.label}</div>
+                        <div className="text-lg font-bold text-slate-900 dark:text-white">{s.value}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={chartData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.3} vertical={false} />
+                            <XAxis dataKey="year" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                            <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={v => `${currencySymbol(baseCurrency)}${Math.round(v / 1000)}k`} />
+                            <RechartsTooltip
+                                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px' }}
+                                formatter={(value: number, name: string) => [formatMoney(value, baseCurrency, 0), name]}
+                            />
+                            <Legend verticalAlign="top" height={36} />
+                            <Bar dataKey="principal" name="Principal" stackId="paid" fill="#10b981" />
+                            <Bar dataKey="interest" name="Interest" stackId="paid" fill="#ef4444" radius={[4, 4, 0, 0]} />
+                            <Line type="monotone" dataKey="balance" name={projected ? 'Balance (current plan)' : 'Balance'} stroke="#6366f1" strokeWidth={2} dot={false} />
+                            {projected && <Line type="monotone" dataKey="scenarioBalance" name="Balance (scenario)" stroke="#f59e0b" strokeWidth={2} dot={false} />}
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                </div>
+
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">Extra / Month</label>
+                            <input type="number" min="0" step="any" value={extraMonthly} onChange={e => setExtraMonthly(e.target.value)} placeholder="0" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">One-off Payment</label>
+                            <input type="number" min="0" step="any" value={lumpSum} onChange={e => setLumpSum(e.target.value)} placeholder="0" className={inputClass} />
+                        </div>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={refinanceOn} onChange={e => setRefinanceOn(e.target.checked)} className="accent-brand-500" />
+                        Refinance now
+                    </label>
+                    {refinanceOn && (
+                        <div className="grid grid-cols-3 gap-3">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">Rate %</label>
+                                <input type="number" min="0" step="0.01" value={refiRate} onChange={e => setRefiRate(e.target.value)} placeholder={String(loan.interestRate)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">Years</label>
+                                <input type="number" min="1" step="1" value={refiYears} onChange={e => setRefiYears(e.target.value)} placeholder="30" className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">Costs</label>
+                                <input type="number" min="0" step="any" value={refiCosts} onChange={e => setRefiCosts(e.target.value)} placeholder="0" className={inputClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {projected && (
+                        <div className={`rounded-lg p-4 text-sm border ${interestSaved >= 0 ? 'bg-emerald-50 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/20 text-emerald-700 dark:text-emerald-400' : 'bg-red-50 dark:bg-red-500/10 border-red-200 dark:border-red-500/20 text-red-700 dark:text-red-400'}`}>
+                            <div className="font-bold">
+                                {interestSaved >= 0 ? 'Saves' : 'Costs'} {formatMoney(toBase(Math.abs(interestSaved)), baseCurrency, 0)} in interest
+                            </div>
+                            <div className="text-xs mt-1">
+                                {monthsSaved > 0 && `Paid off ${Math.floor(monthsSaved / 12)}y ${monthsSaved % 12}m sooner, in ${formatPayoff(projected.payoffDate)}.`}
+                                {monthsSaved < 0 && `Paid off ${Math.floor(-monthsSaved / 12)}y ${-monthsSaved % 12}m later, in ${formatPayoff(projected.payoffDate)}.`}
+                                {monthsSaved === 0 && `Paid off in ${formatPayoff(projected.payoffDate)}.`}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AmortizationPanel;
@@ -1,9 +1,13 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Legend, BarChart, Bar, PieChart, Pie, Cell, Treemap } from 'recharts';
 import { usePortfolio } from '../context/PortfolioContext';
 import { Activity, Layers, Grid, Info, Percent, AlertTriangle, TrendingUp, Target, PieChart as PieChartIcon, ShieldCheck, Zap, Scale, Wallet, Calendar, ChevronDown, Plus, X, LayoutGrid } from 'lucide-react';
 import SnowflakeChart from './SnowflakeChart';
+import { computePeriodPerformance, downsample, loadBenchmarkHistory, loadPortfolioDailyValues, rebaseToReturns, BenchmarkKey, DailyValue, PeriodPerformance } from '../services/performance';
+import { PricePoint } from '../services/marketData';
+import { summarizeWithholding } from '../services/withholdingTax';
+import { formatMoney } from '../services/fx';
 
 const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
@@ -77,10 +81,31 @@ const CustomizedTreemapContent = (props: any) => {
 };
 
 const AnalyticsView: React.FC = () => {
-  const { activePortfolio } = usePortfolio();
+  const { activePortfolio, marketDataProviders, taxProfile, baseCurrency, fxRates, holdingValue } = usePortfolio();
   const { holdings, totalValue } = activePortfolio;
   const [benchmarkTimeframe, setBenchmarkTimeframe] = useState<'1M' | '6M' | '1Y' | 'YTD' | 'ALL'>('1Y');
-  const [selectedBenchmark, setSelectedBenchmark] = useState<'sp500' | 'nasdaq' | 'btc'>('sp500');
+  const [selectedBenchmark, setSelectedBenchmark] = useState<BenchmarkKey>('sp500');
+
+  // Performance history rebuilt from the transaction ledger
+  const [dailyValues, setDailyValues] = useState<DailyValue[]>([]);
+  const [benchmarkHistory, setBenchmarkHistory] = useState<Partial<Record<BenchmarkKey, PricePoint[]>>>({});
+  const [loadingPerformance, setLoadingPerformance] = useState(false);
+
+  useEffect(() => {
+      let cancelled = false;
+      const loadPerformance = async () => {
+          setLoadingPerformance(true);
+          const values = await loadPortfolioDailyValues(activePortfolio, marketDataProviders, { rates: fxRates, base: baseCurrency });
+          const benchmarks = values.length > 0 ? await loadBenchmarkHistory(values[0].date, marketDataProviders) : {};
+          if (!cancelled) {
+              setDailyValues(values);
+              setBenchmarkHistory(benchmarks);
+              setLoadingPerformance(false);
+          }
+      };
+      loadPerformance();
+      return () => { cancelled = true; };
+  }, [activePortfolio.id, activePortfolio.transactions.length, marketDataProviders, fxRates, baseCurrency]);
   
   // Stock Comparison State
   const [selectedComparisonAssets, setSelectedComparisonAssets] = useState<string[]>(
@@ -95,7 +120,7 @@ const AnalyticsView: React.FC = () => {
     
     const acc = { value: 0, future: 0, past: 0, health: 0, dividend: 0, total: 0 };
     holdings.forEach(h => {
-        const val = h.shares * h.currentPrice;
+        const val = holdingValue(h);
         if (val > 0) {
             const weight = val / totalValue;
             acc.value += (h.snowflake?.value || 0) * weight;
@@ -121,7 +146,7 @@ const AnalyticsView: React.FC = () => {
   const treemapData = useMemo(() => {
       const sectorMap = new Map<string, number>();
       holdings.forEach(h => {
-          const val = h.shares * h.currentPrice;
+          const val = holdingValue(h);
           if (Number.isFinite(val) && val > 0) {
              sectorMap.set(h.sector, (sectorMap.get(h.sector) || 0) + val);
           }
@@ -135,17 +160,26 @@ const AnalyticsView: React.FC = () => {
           }))
           .filter(item => item.size > 0)
           .sort((a, b) => b.size - a.size);
-  }, [holdings]);
+  }, [holdings, fxRates, baseCurrency]);
 
   // 5. Income Analytics (SWS Style)
   const portfolioYield = useMemo(() => {
       if (!totalValue || totalValue <= 0) return 0;
-      const weightedYield = holdings.reduce((acc, h) => acc + (h.shares * h.currentPrice * (h.dividendYield/100)), 0) / totalValue * 100;
+      const weightedYield = holdings.reduce((acc, h) => acc + (holdingValue(h) * (h.dividendYield/100)), 0) / totalValue * 100;
       return Number.isFinite(weightedYield) ? weightedYield : 0;
   }, [totalValue, holdings]);
 
+  // The same yield after dividend withholding tax
+  const netYield = useMemo(() => {
+      if (!totalValue || totalValue <= 0) return 0;
+      const { net } = summarizeWithholding(holdings.map(h => ({ holding: h, income: holdingValue(h) * (h.dividendYield / 100) })), taxProfile);
+      const value = net / totalValue * 100;
+      return Number.isFinite(value) ? value : 0;
+  }, [totalValue, holdings, taxProfile.residence, taxProfile.accountType]);
+
   const yieldComparisonData = [
       { name: 'Portfolio', value: parseFloat(portfolioYield.toFixed(2)), fill: '#10b981' },
+      { name: 'Portfolio (Net)', value: parseFloat(netYield.toFixed(2)), fill: '#059669' },
       { name: 'Market Avg', value: 1.5, fill: '#64748b' },
       { name: 'High Yielders', value: 4.2, fill: '#f59e0b' },
   ];
@@ -160,7 +194,7 @@ const AnalyticsView: React.FC = () => {
             else if(h.dividendYield > 1) pr = 25;
             else pr = 0;
             
-            const val = h.shares * h.currentPrice;
+            const val = holdingValue(h);
             return acc + (pr * (val/totalValue));
         }, 0);
       return Number.isFinite(ratio) ? ratio : 0;
@@ -194,36 +228,27 @@ const AnalyticsView: React.FC = () => {
       return 'bg-emerald-100 dark:bg-emerald-500/20 text-emerald-600 dark:text-emerald-400';
   };
 
-  // Memoized Benchmark Data to prevent jitter on hover
+  const periodPerformance: PeriodPerformance | null = useMemo(() => computePeriodPerformance(dailyValues, benchmarkTimeframe), [dailyValues, benchmarkTimeframe]);
+
+  // Portfolio TWR vs. benchmark price return over the selected period
   const benchmarkData = useMemo(() => {
-      let labels: string[] = [];
-      
-      if (benchmarkTimeframe === '1M') labels = Array.from({length: 30}, (_,i) => `Day ${i+1}`);
-      else if (benchmarkTimeframe === '6M') labels = Array.from({length: 26}, (_,i) => `Wk ${i+1}`);
-      else if (benchmarkTimeframe === 'YTD') labels = Array.from({length: 20}, (_,i) => `Wk ${i+1}`);
-      else if (benchmarkTimeframe === '1Y') labels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      else labels = Array.from({length: 60}, (_,i) => `M${i+1}`); // ALL = 5 years
-      
-      const vol = benchmarkTimeframe === '1M' ? 0.5 : benchmarkTimeframe === '6M' ? 1.5 : 2.5;
-      let pVal = 0, sVal = 0, nVal = 0, bVal = 0;
-
-      return labels.map((label) => {
-          // Seeded random-like walk for stability across renders if we had a seed, 
-          // but here useMemo protects us from re-execution unless timeframe changes.
-          pVal += (Math.random() * vol * 2) - (vol * 0.8) + 0.5; // Slight upward bias
-          sVal += (Math.random() * vol * 1.5) - (vol * 0.6) + 0.3;
-          nVal += (Math.random() * vol * 2.5) - (vol * 1.0) + 0.4;
-          bVal += (Math.random() * vol * 4.0) - (vol * 1.5) + 0.5; // High vol for BTC
-          
-          return {
-              date: label,
-              portfolio: parseFloat(pVal.toFixed(2)),
-              sp500: parseFloat(sVal.toFixed(2)),
-              nasdaq: parseFloat(nVal.toFixed(2)),
-              btc: parseFloat(bVal.toFixed(2))
-          };
-      });
-  }, [benchmarkTimeframe]);
+      if (!periodPerformance) return [];
+      const points = downsample(periodPerformance.series, 60);
+      const dates = points.map(p => p.date);
+      const rebased = (key: BenchmarkKey) => rebaseToReturns(benchmarkHistory[key] || [], dates);
+      const sp500 = rebased('sp500');
+      const nasdaq = rebased('nasdaq');
+      const btc = rebased('btc');
+      const round = (val: number | null) => val === null ? null : parseFloat(val.toFixed(2));
+
+      return points.map((p, i) => ({
+          date: new Date(p.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: benchmarkTimeframe === 'ALL' ? '2-digit' : undefined }),
+          portfolio: parseFloat(p.twr.toFixed(2)),
+          sp500: round(sp500[i]),
+          nasdaq: round(nasdaq[i]),
+          btc: round(btc[i])
+      }));
+  }, [periodPerformance, benchmarkHistory, benchmarkTimeframe]);
 
   // Stock Comparison Data Generation
   const comparisonData = useMemo(() => {
@@ -262,7 +287,7 @@ const AnalyticsView: React.FC = () => {
   const sectorPerfData = useMemo(() => {
       // 1. Identify Top 3 Sectors
       const sectorWeights = holdings.reduce((acc, h) => {
-          const val = h.shares * h.currentPrice;
+          const val = holdingValue(h);
           acc[h.sector] = (acc[h.sector] || 0) + val;
           return acc;
       }, {} as Record<string, number>);
@@ -288,7 +313,7 @@ const AnalyticsView: React.FC = () => {
           });
           return dataPoint;
       });
-  }, [holdings]);
+  }, [holdings, fxRates, baseCurrency]);
 
   const topSectorKeys = sectorPerfData.length > 0 
       ? Object.keys(sectorPerfData[0]).filter(k => k !== 'month')
@@ -466,7 +491,7 @@ const AnalyticsView: React.FC = () => {
                       >
                           <RechartsTooltip 
                               contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
-                              formatter={(value: number) => [`$${value.toLocaleString()}`, 'Value']}
+                              formatter={(value: number) => [formatMoney(value, baseCurrency), 'Value']}
                           />
                       </Treemap>
                   </ResponsiveContainer>
@@ -487,6 +512,16 @@ const AnalyticsView: React.FC = () => {
                             <Activity className="w-5 h-5 text-brand-500" /> Benchmark Comparison
                         </h3>
                         <p className="text-sm text-slate-500 dark:text-slate-400">Compare your Time-Weighted Return against major indices.</p>
+                        {periodPerformance && (
+                            <div className="flex flex-wrap gap-4 mt-2 text-xs">
+                                <span className="text-slate-500">TWR <span className={`font-bold ${periodPerformance.twr >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>{periodPerformance.twr >= 0 ? '+' : ''}{periodPerformance.twr.toFixed(2)}%</span></span>
+                                <span className="text-slate-500">MWR (IRR, ann.) <span className="font-bold text-slate-900 dark:text-white">{periodPerformance.mwr === null ? 'n/a' : `${periodPerformance.mwr.toFixed(2)}%`}</span></span>
+                                <span className="text-slate-500">Gain <span className={`font-bold ${periodPerformance.gain >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>{formatMoney(periodPerformance.gain, baseCurrency, 0)}</span></span>
+                                {periodPerformance.income !== 0 && (
+                                    <span className="text-slate-500">Income <span className="font-bold text-slate-900 dark:text-white">{formatMoney(periodPerformance.income, baseCurrency, 0)}</span></span>
+                                )}
+                            </div>
+                        )}
                     </div>
                     <div className="flex flex-col sm:flex-row gap-3 w-full lg:w-auto">
                         {/* Benchmark Selector */}
@@ -516,7 +551,12 @@ const AnalyticsView: React.FC = () => {
                         </div>
                     </div>
                 </div>
-                <div className="h-[250px] sm:h-[300px] w-full -ml-2">
+                <div className="h-[250px] sm:h-[300px] w-full -ml-2 relative">
+                    {benchmarkData.length === 0 && (
+                        <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-500 z-10">
+                            {loadingPerformance ? 'Rebuilding performance history...' : 'Record transactions to see your performance history.'}
+                        </div>
+                    )}
                     <ResponsiveContainer width="100%" height="100%">
                         <LineChart data={benchmarkData}>
                             <CartesianGrid strokeDasharray="3 3" strokeDashoffset={2} vertical={false} strokeOpacity={0.1} />
@@ -527,8 +567,8 @@ const AnalyticsView: React.FC = () => {
                                 formatter={(value: number) => [`${value}%`]}
                             />
                             <Legend verticalAlign="top" height={36} iconType="circle" />
-                            <Line type="monotone" dataKey="portfolio" name="My Portfolio" stroke="#6366f1" strokeWidth={3} dot={{r: 4}} />
-                            <Line type="monotone" dataKey={selectedBenchmark} name={getBenchmarkLabel(selectedBenchmark)} stroke="#cbd5e1" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                            <Line type="monotone" dataKey="portfolio" name="My Portfolio" stroke="#6366f1" strokeWidth={3} dot={false} />
+                            <Line type="monotone" dataKey={selectedBenchmark} name={getBenchmarkLabel(selectedBenchmark)} stroke="#cbd5e1" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls />
                         </LineChart>
                     </ResponsiveContainer>
                 </div>
@@ -603,7 +643,8 @@ const AnalyticsView: React.FC = () => {
                    )}
                    <span className="text-xs text-slate-500 dark:text-slate-400">
                        Your yield of <strong className="text-slate-900 dark:text-white">{portfolioYield.toFixed(2)}%</strong> is 
-                       {portfolioYield > 1.5 ? ' higher ' : ' lower '} than the market average.
+                       {portfolioYield > 1.5 ? ' higher ' : ' lower '} than the market average
+                       ({netYield.toFixed(2)}% after withholding tax).
                    </span>
               </div>
           </div>
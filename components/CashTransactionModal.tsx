@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Wallet, X } from 'lucide-react';
+import { usePortfolio } from '../context/PortfolioContext';
+import { CashTransactionType } from '../types';
+import { cashAccounts, CASH_TRANSACTION_TYPES } from '../services/cashLedger';
+import { formatMoney } from '../services/fx';
+
+interface CashTransactionModalProps {
+    onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 outline-none';
+
+// Manual entry for ledger rows that move cash but not shares
+const CashTransactionModal: React.FC<CashTransactionModalProps> = ({ onClose }) => {
+    const { activePortfolio, addCashTransaction } = usePortfolio();
+    const [type, setType] = useState<CashTransactionType>('DEPOSIT');
+    const [amount, setAmount] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [symbol, setSymbol] = useState('');
+    const [currency, setCurrency] = useState('USD');
+    const [toCurrency, setToCurrency] = useState('EUR');
+    const [fxRate, setFxRate] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const needsSymbol = type === 'DIVIDEND' || type === 'TAX_WITHHELD';
+    const isConversion = type === 'FX_CONVERSION';
+    const parsedAmount = parseFloat(amount);
+    const accounts = Object.entries(cashAccounts(activePortfolio));
+    const canSave = parsedAmount > 0 && !!date && (!needsSymbol || !!symbol.trim()) && (!isConversion || parseFloat(fxRate) > 0);
+
+    const handleSave = async () => {
+        if (!canSave) return;
+        setIsSaving(true);
+        await addCashTransaction(type, parsedAmount, date, {
+            symbol: needsSymbol ? symbol.trim() : undefined,
+            currency,
+            toCurrency: isConversion ? toCurrency : undefined,
+            fxRate: isConversion ? parseFloat(fxRate) : undefined
+        });
+        setIsSaving(false);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up">
+                <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                        <Wallet className="w-5 h-5 text-brand-500" /> Record Cash Activity
+                    </h3>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Type</label>
+                        <select value={type} onChange={e => setType(e.target.value as CashTransactionType)} className={inputClass}>
+                            {CASH_TRANSACTION_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                        </select>
+                        <p className="text-xs text-slate-500 mt-2">{CASH_TRANSACTION_TYPES.find(t => t.id === type)?.description}</p>
+                    </div>
+
+                    {needsSymbol && (
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Paid By</label>
+                            <input
+                                list="cash-tx-symbols"
+                                value={symbol}
+                                onChange={e => setSymbol(e.target.value.toUpperCase())}
+                                placeholder="e.g. AAPL"
+                                className={inputClass}
+                            />
+                            <datalist id="cash-tx-symbols">
+                                {activePortfolio.holdings.map(h => <option key={h.id} value={h.symbol}>{h.name}</option>)}
+                            </datalist>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Amount</label>
+                            <input type="number" min="0" step="any" value={amount} onChange={e => setAmount(e.target.value)} placeholder="0.00" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Currency</label>
+                            <input value={currency} onChange={e => setCurrency(e.target.value.toUpperCase())} maxLength={3} className={inputClass} />
+                        </div>
+                    </div>
+                    {accounts.length > 0 && (
+                        <p className="text-xs text-slate-500 -mt-2">
+                            Balances: {accounts.map(([code, balance]) => formatMoney(balance, code)).join(' · ')}
+                        </p>
+                    )}
+
+                    {isConversion && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">To Currency</label>
+                                <input value={toCurrency} onChange={e => setToCurrency(e.target.value.toUpperCase())} maxLength={3} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Rate</label>
+                                <input type="number" min="0" step="any" value={fxRate} onChange={e => setFxRate(e.target.value)} placeholder={`${toCurrency} per ${currency}`} className={inputClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Date</label>
+                        <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="p-6 border-t border-slate-800 flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!canSave || isSaving}
+                        className="px-4 py-2 rounded-lg text-sm font-bold bg-brand-600 text-white hover:bg-brand-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CashTransactionModal;
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { GitMerge, Plus, X, RefreshCcw, Check } from 'lucide-react';
+import { usePortfolio } from '../context/PortfolioContext';
+import { AssetType, CorporateAction, CorporateActionType } from '../types';
+import { CORPORATE_ACTION_TYPES, describeCorporateAction, findProviderSplits, sortCorporateActions } from '../services/corporateActions';
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 outline-none';
+
+// Splits, ticker changes, mergers and spin-offs: recorded by hand or confirmed from provider data
+const CorporateActionsPanel: React.FC = () => {
+    const { activePortfolio, addCorporateAction, marketDataProviders } = usePortfolio();
+    const actions = sortCorporateActions(activePortfolio.corporateActions).reverse();
+
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [type, setType] = useState<CorporateActionType>('SPLIT');
+    const [symbol, setSymbol] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [ratio, setRatio] = useState('');
+    const [newSymbol, setNewSymbol] = useState('');
+    const [newName, setNewName] = useState('');
+    const [cashPerShare, setCashPerShare] = useState('');
+    const [allocation, setAllocation] = useState('');
+
+    const [isChecking, setIsChecking] = useState(false);
+    const [suggestions, setSuggestions] = useState<CorporateAction[] | null>(null);
+
+    const openForm = () => {
+        setType('SPLIT');
+        setSymbol(activePortfolio.holdings[0]?.symbol || '');
+        setRatio('');
+        setNewSymbol('');
+        setNewName('');
+        setCashPerShare('');
+        setAllocation('');
+        setIsFormOpen(true);
+    };
+
+    const ratioValue = parseFloat(ratio) || 0;
+    const cashValue = parseFloat(cashPerShare) || 0;
+    const needsNewSymbol = type === 'SYMBOL_CHANGE' || type === 'SPIN_OFF' || (type === 'MERGER' && ratioValue > 0);
+    const needsAllocation = type === 'SPIN_OFF' || (type === 'MERGER' && ratioValue > 0 && cashValue > 0);
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!symbol.trim()) return;
+        if ((type === 'SPLIT' || type === 'SPIN_OFF') && !(ratioValue > 0)) return;
+        if (type === 'MERGER' && !(ratioValue > 0) && !(cashValue > 0)) return;
+        if (needsNewSymbol && !newSymbol.trim()) return;
+
+        await addCorporateAction({
+            type,
+            symbol: symbol.trim(),
+            date,
+            ratio: type === 'SPLIT' || type === 'MERGER' || type === 'SPIN_OFF' ? ratioValue : undefined,
+            newSymbol: needsNewSymbol ? newSymbol.trim() : undefined,
+            newName: needsNewSymbol && newName.trim() ? newName.trim() : undefined,
+            cashPerShare: type === 'MERGER' && cashValue > 0 ? cashValue : undefined,
+            costBasisAllocation: needsAllocation ? Math.min(100, Math.max(0, parseFloat(allocation) || 0)) / 100 : undefined,
+            source: 'manual'
+        });
+        setIsFormOpen(false);
+    };
+
+    const checkProvider = async () => {
+        setIsChecking(true);
+        const crypto = new Set<string>(activePortfolio.holdings.filter(h => h.assetType === AssetType.CRYPTO).map(h => h.symbol.toUpperCase()));
+        try {
+            setSuggestions(await findProviderSplits(activePortfolio.transactions, activePortfolio.corporateActions || [], marketDataProviders, crypto));
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const applySuggestion = async (suggestion: CorporateAction) => {
+        const { id, ...action } = suggestion;
+        await addCorporateAction(action);
+        setSuggestions(prev => (prev || []).filter(s => s.id !== id));
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 shadow-sm animate-fade-in">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <GitMerge className="w-5 h-5 text-brand-500" /> Corporate Actions
+                    </h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Restates holdings, tax lots and performance history from the effective date.</p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={checkProvider}
+                        disabled={isChecking}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 transition-colors disabled:opacity-50"
+                    >
+                        <RefreshCcw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} /> Check for Splits
+                    </button>
+                    <button
+                        onClick={openForm}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold bg-brand-600 text-white hover:bg-brand-500 transition-colors"
+                    >
+                        <Plus className="w-4 h-4" /> Record Action
+                    </button>
+                </div>
+            </div>
+
+            {suggestions !== null && (
+                <div className="mb-4 border border-brand-500/30 bg-brand-500/5 rounded-lg p-4">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="text-sm font-bold text-slate-900 dark:text-white">Provider Splits</span>
+                        <button onClick={() => setSuggestions(null)} className="text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {suggestions.length === 0 && <p className="text-sm text-slate-500">No unrecorded splits found for your positions.</p>}
+                    {suggestions.map(s => (
+                        <div key={s.id} className="flex items-center justify-between py-2 text-sm border-t border-slate-200 dark:border-slate-800 first:border-t-0">
+                            <span className="text-slate-700 dark:text-slate-300">
+                                <span className="font-bold text-slate-900 dark:text-white">{s.symbol}</span> · {s.date} · {describeCorporateAction(s)}
+                            </span>
+                            <button onClick={() => applySuggestion(s)} className="flex items-center gap-1 px-2 py-1 rounded text-xs font-bold bg-emerald-500/10 text-emerald-500 border border-emerald-500/20 hover:bg-emerald-500/20 transition-colors">
+                                <Check className="w-3 h-3" /> Apply
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="text-slate-500 dark:text-slate-400 uppercase text-xs font-semibold border-b border-slate-200 dark:border-slate-800">
+                        <tr>
+                            <th className="py-3 pr-4">Date</th>
+                            <th className="py-3 pr-4">Type</th>
+                            <th className="py-3 pr-4">Asset</th>
+                            <th className="py-3 pr-4">Details</th>
+                            <th className="py-3 text-right">Source</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                        {actions.map(a => (
+                            <tr key={a.id}>
+                                <td className="py-3 pr-4 text-slate-700 dark:text-slate-300 whitespace-nowrap">{a.date}</td>
+                                <td className="py-3 pr-4">
+                                    <span className="px-2 py-1 rounded text-xs font-bold border bg-purple-100 dark:bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-200 dark:border-purple-500/20">
+                                        {CORPORATE_ACTION_TYPES.find(t => t.id === a.type)?.label}
+                                    </span>
+                                </td>
+                                <td className="py-3 pr-4 font-bold text-slate-900 dark:text-white">{a.symbol}</td>
+                                <td className="py-3 pr-4 text-slate-600 dark:text-slate-300">{describeCorporateAction(a)}</td>
+                                <td className="py-3 text-right text-xs text-slate-500 capitalize">{a.source || 'manual'}</td>
+                            </tr>
+                        ))}
+                        {actions.length === 0 && (
+                            <tr>
+                                <td colSpan={5} className="text-center py-8 text-slate-500">No corporate actions recorded.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {isFormOpen && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+                    <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto animate-fade-in-up">
+                        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+                            <div>
+                                <h3 className="text-xl font-bold text-white">Record Corporate Action</h3>
+                                <div className="text-xs text-slate-400">{CORPORATE_ACTION_TYPES.find(t => t.id === type)?.description}</div>
+                            </div>
+                            <button onClick={() => setIsFormOpen(false)} className="text-slate-400 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={submit} className="p-6 space-y-4">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Type</label>
+                                    <select value={type} onChange={e => setType(e.target.value as CorporateActionType)} className={inputClass}>
+                                        {CORPORATE_ACTION_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Effective Date</label>
+                                    <input type="date" required value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Symbol</label>
+                                <input list="corporate-action-symbols" required value={symbol} onChange={e => setSymbol(e.target.value.toUpperCase())} className={inputClass} />
+                                <datalist id="corporate-action-symbols">
+                                    {activePortfolio.holdings.map(h => <option key={h.id} value={h.symbol}>{h.name}</option>)}
+                                </datalist>
+                            </div>
+                            {type !== 'SYMBOL_CHANGE' && (
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-2">
+                                        {type === 'SPLIT' ? 'New Shares per Old Share' : type === 'MERGER' ? 'Acquirer Shares per Share (0 for cash only)' : 'New Shares per Share Held'}
+                                    </label>
+                                    <input type="number" step="any" min="0" required={type !== 'MERGER'} value={ratio} onChange={e => setRatio(e.target.value)} placeholder={type === 'SPLIT' ? '10 (or 0.1 for 1-for-10)' : ''} className={inputClass} />
+                                </div>
+                            )}
+                            {needsNewSymbol && (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">New Symbol</label>
+                                        <input required value={newSymbol} onChange={e => setNewSymbol(e.target.value.toUpperCase())} className={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-400 uppercase mb-2">New Name</label>
+                                        <input value={newName} onChange={e => setNewName(e.target.value)} className={inputClass} />
+                                    </div>
+                                </div>
+                            )}
+                            {type === 'MERGER' && (
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Cash per Share</label>
+                                    <input type="number" step="any" min="0" value={cashPerShare} onChange={e => setCashPerShare(e.target.value)} className={inputClass} />
+                                </div>
+                            )}
+                            {needsAllocation && (
+                                <div>
+                                    <label className="block text-xs font-bold text-slate-400 uppercase mb-2">
+                                        {type === 'SPIN_OFF' ? '% of Cost Basis to New Shares' : '% of Cost Basis Kept by Stock'}
+                                    </label>
+                                    <input type="number" step="any" min="0" max="100" required value={allocation} onChange={e => setAllocation(e.target.value)} className={inputClass} />
+                                    <p className="text-[11px] text-slate-500 mt-1">Use the allocation published by the company (e.g. on Form 8937).</p>
+                                </div>
+                            )}
+                            <button type="submit" className="w-full px-4 py-3 bg-brand-600 hover:bg-brand-500 text-white font-bold rounded-xl transition-colors">
+                                Record Action
+                            </button>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CorporateActionsPanel;
@@ -6,9 +6,14 @@ import { generatePortfolioInsight } from '../services/geminiService';
 import { usePortfolio } from '../context/PortfolioContext';
 import { useTheme } from '../context/ThemeContext';
 import { MOCK_NEWS } from '../constants';
+import PriceBadge from './PriceBadge';
+import { summarizeWithholding } from '../services/withholdingTax';
+import { currencySymbol, formatMoney } from '../services/fx';
+import { Holding } from '../types';
+import { ProviderQuote } from '../services/providers/types';
 
 // New Ticker Component
-const StockTicker: React.FC<{ holdings: any[] }> = ({ holdings }) => {
+const StockTicker: React.FC<{ holdings: Holding[]; quotes: Record<string, ProviderQuote> }> = ({ holdings, quotes }) => {
     if (!holdings || holdings.length === 0) {
         return (
             <div className="w-full bg-slate-950 border-b border-slate-800 py-2 flex items-center justify-center">
@@ -22,15 +27,19 @@ const StockTicker: React.FC<{ holdings: any[] }> = ({ holdings }) => {
             <div className="flex animate-scroll whitespace-nowrap">
                 {/* Duplicate list multiple times for seamless loop even with few items */}
                 {[...holdings, ...holdings, ...holdings, ...holdings, ...holdings].map((h, i) => {
-                    const dailyMove = (Math.random() * 2 - 1); 
+                    // Only a provider's reported change is shown; without one the column stays empty
+                    const dailyMove = quotes[h.symbol.toUpperCase()]?.changePercent;
                     return (
                         <div key={`${h.id}-${i}`} className="flex items-center gap-2 px-6 border-r border-slate-800/50">
                             <span className="font-bold text-slate-300 text-xs">{h.symbol}</span>
-                            <span className="text-white text-xs font-mono">${(h.currentPrice || 0).toFixed(2)}</span>
-                            <span className={`text-[10px] flex items-center ${dailyMove >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                                {dailyMove >= 0 ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
-                                {Math.abs(dailyMove).toFixed(2)}%
-                            </span>
+                            <span className="text-white text-xs font-mono">{formatMoney(h.currentPrice || 0, h.currency || 'USD')}</span>
+                            <PriceBadge holding={h} />
+                            {dailyMove !== undefined && (
+                                <span className={`text-[10px] flex items-center ${dailyMove >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                    {dailyMove >= 0 ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
+                                    {Math.abs(dailyMove).toFixed(2)}%
+                                </span>
+                            )}
                         </div>
                     );
                 })}
@@ -52,7 +61,7 @@ const StockTicker: React.FC<{ holdings: any[] }> = ({ holdings }) => {
 };
 
 const DashboardView: React.FC = () => {
-  const { activePortfolio, isMarketOpen, toggleMarketOpen, alerts, addAlert, removeAlert } = usePortfolio();
+  const { activePortfolio, marketQuotes, isMarketOpen, toggleMarketOpen, alerts, addAlert, removeAlert, taxProfile, baseCurrency, toBase, holdingValue, cashValue } = usePortfolio();
   const { theme } = useTheme();
   const [insight, setInsight] = useState<string | null>(null);
   const [loadingInsight, setLoadingInsight] = useState(false);
@@ -63,6 +72,7 @@ const DashboardView: React.FC = () => {
   const [newAlertSymbol, setNewAlertSymbol] = useState('');
   const [newAlertPrice, setNewAlertPrice] = useState('');
   const [newAlertCondition, setNewAlertCondition] = useState<'ABOVE' | 'BELOW'>('ABOVE');
+  const [newAlertCooldown, setNewAlertCooldown] = useState('0');
   
   // Smart Triggers State (Mocked)
   const [smartTriggers, setSmartTriggers] = useState({
@@ -82,24 +92,26 @@ const DashboardView: React.FC = () => {
   
   const portfolioBeta = activePortfolio.totalValue > 0 
     ? activePortfolio.holdings.reduce((acc: number, h) => {
-        const val = Number(h.shares) * Number(h.currentPrice);
+        const val = holdingValue(h);
         const weight = val / Number(activePortfolio.totalValue);
         const beta = calculateBeta(h.sector || 'Unknown', String(h.assetType));
         return acc + (beta * weight);
     }, 0)
     : 1.0;
 
+  // Yield-based dividend income, gross and after withholding tax for this account
+  const dividendIncome = summarizeWithholding(activePortfolio.holdings.map(h => ({
+      holding: h,
+      income: holdingValue(h) * (Number(h.dividendYield || 0) / 100)
+  })), taxProfile);
+
   const portfolioYield = activePortfolio.totalValue > 0 
-    ? (activePortfolio.holdings.reduce((acc: number, h) => {
-        const val = Number(h.shares) * Number(h.currentPrice);
-        const income = val * (Number(h.dividendYield || 0) / 100);
-        return acc + income;
-    }, 0) / Number(activePortfolio.totalValue)) * 100 
+    ? (dividendIncome.net / Number(activePortfolio.totalValue)) * 100 
     : 0;
 
   // Detailed AI Data Prep - Use explicit typing for reduce
   const sectorWeights = activePortfolio.holdings.reduce((acc: Record<string, number>, h) => {
-      const val = Number(h.shares) * Number(h.currentPrice);
+      const val = holdingValue(h);
       const sector = h.sector || 'Unknown';
       const current = acc[sector] || 0;
       acc[sector] = current + val;
@@ -114,12 +126,12 @@ const DashboardView: React.FC = () => {
       }
   });
 
-  const totalCostBasis = activePortfolio.holdings.reduce((acc: number, h) => acc + (Number(h.shares) * Number(h.avgPrice)), 0);
+  const totalCostBasis = activePortfolio.holdings.reduce((acc: number, h) => acc + toBase(Number(h.shares) * Number(h.avgPrice), h.currency), 0);
   const costBasisSummary = activePortfolio.totalValue > 0 
-      ? `Total Cost: $${totalCostBasis.toLocaleString()}, Unrealized P/L: $${(Number(activePortfolio.totalValue) - totalCostBasis).toLocaleString()}` 
+      ? `Total Cost: ${formatMoney(totalCostBasis, baseCurrency)}, Unrealized P/L: ${formatMoney(Number(activePortfolio.totalValue) - totalCostBasis, baseCurrency)}` 
       : "No holdings";
 
-  const recentTx = (activePortfolio.transactions || []).slice(0, 3).map(t => `${t.type} ${t.shares} ${t.symbol} @ $${t.price}`);
+  const recentTx = (activePortfolio.transactions || []).slice(0, 3).map(t => `${t.type} ${t.shares} ${t.symbol} @ ${formatMoney(t.price, t.currency || 'USD')}`);
 
   // Auto-generate insight on mount/update
   useEffect(() => {
@@ -142,11 +154,6 @@ const DashboardView: React.FC = () => {
     }
   }, [activePortfolio.id, activePortfolio.holdings.length]); 
 
-  // Calculate total dividend income dynamically
-  const annualDividendIncome = activePortfolio.holdings.reduce((acc, h) => {
-      return acc + (Number(h.shares) * Number(h.currentPrice) * (Number(h.dividendYield || 0) / 100));
-  }, 0);
-
   // Snowball Analytics Style: Compound Projection Data
   const projectionData = Array.from({ length: 15 }, (_, i) => {
       const year = new Date().getFullYear() + i;
@@ -169,10 +176,12 @@ const DashboardView: React.FC = () => {
   const handleCreateAlert = (e: React.FormEvent) => {
       e.preventDefault();
       if (newAlertSymbol && newAlertPrice) {
-          addAlert(newAlertSymbol.toUpperCase(), parseFloat(newAlertPrice), newAlertCondition);
+          const cooldown = parseInt(newAlertCooldown, 10);
+          addAlert(newAlertSymbol.toUpperCase(), parseFloat(newAlertPrice), newAlertCondition, cooldown > 0 ? cooldown : undefined);
           setIsAddingAlert(false);
           setNewAlertSymbol('');
           setNewAlertPrice('');
+          setNewAlertCooldown('0');
       }
   };
 
@@ -185,7 +194,7 @@ const DashboardView: React.FC = () => {
       
       {/* Ticker Tape Area */}
       <div className="-mx-4 md:-mx-8 mb-6 border-b border-slate-200 dark:border-slate-800">
-          <StockTicker holdings={activePortfolio.holdings} />
+          <StockTicker holdings={activePortfolio.holdings} quotes={marketQuotes} />
       </div>
 
       <div className="flex flex-col md:flex-row md:items-end justify-between mb-8 gap-4">
@@ -284,7 +293,7 @@ const DashboardView: React.FC = () => {
           </div>
           <div className="text-slate-500 dark:text-slate-400 text-sm mb-1 font-medium">Net Worth</div>
           <div className="text-3xl font-bold text-slate-900 dark:text-white tracking-tight transition-all duration-500">
-              ${(Number(activePortfolio.totalValue) + Number(activePortfolio.cashBalance)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              {formatMoney(Number(activePortfolio.totalValue) + cashValue, baseCurrency)}
           </div>
           <div className="text-emerald-500 dark:text-emerald-400 text-xs font-bold flex items-center gap-1 mt-3 bg-emerald-50 dark:bg-emerald-400/10 w-fit px-2 py-1 rounded-full">
             <TrendingUp className="w-3 h-3" /> +$2,430.50 (2.4%)
@@ -293,7 +302,7 @@ const DashboardView: React.FC = () => {
 
         <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-6 rounded-2xl shadow-sm hover:shadow-md transition-all relative overflow-hidden">
           <div className="text-slate-500 dark:text-slate-400 text-sm mb-1 font-medium">Cash Balance</div>
-          <div className="text-3xl font-bold text-slate-900 dark:text-white tracking-tight">${Number(activePortfolio.cashBalance).toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+          <div className="text-3xl font-bold text-slate-900 dark:text-white tracking-tight">{formatMoney(cashValue, baseCurrency)}</div>
           <div className="text-slate-500 text-xs mt-3 flex items-center gap-1">
              <AlertCircle className="w-3 h-3" /> Available to deploy
           </div>
@@ -302,7 +311,10 @@ const DashboardView: React.FC = () => {
         <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-6 rounded-2xl shadow-sm hover:shadow-md transition-all relative overflow-hidden">
            <div className="text-slate-500 dark:text-slate-400 text-sm mb-1 font-medium">Annual Income</div>
            <div className="text-3xl font-bold text-slate-900 dark:text-white tracking-tight transition-all duration-500">
-               ${Number(annualDividendIncome).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+               {formatMoney(dividendIncome.net, baseCurrency)}
+           </div>
+           <div className="text-slate-500 text-xs mt-1">
+               Net · {formatMoney(dividendIncome.gross, baseCurrency)} gross, {formatMoney(dividendIncome.withheld, baseCurrency)} withheld
            </div>
            <div className="text-brand-600 dark:text-brand-400 text-xs font-bold flex items-center gap-1 mt-3 bg-brand-50 dark:bg-brand-400/10 w-fit px-2 py-1 rounded-full">
             <ArrowUpRight className="w-3 h-3" /> +12% YoY
@@ -337,7 +349,7 @@ const DashboardView: React.FC = () => {
                         <YAxis 
                             stroke="#64748b" 
                             fontSize={12} 
-                            tickFormatter={(val) => `$${val/1000}k`} 
+                            tickFormatter={(val) => `${currencySymbol(baseCurrency)}${val/1000}k`} 
                             tickLine={false} 
                             axisLine={false} 
                         />
@@ -349,7 +361,7 @@ const DashboardView: React.FC = () => {
                                 borderRadius: '12px', 
                                 boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'
                             }}
-                            formatter={(value: number) => [`$${value.toLocaleString()}`, '']}
+                            formatter={(value: number) => [formatMoney(value, baseCurrency, 0), '']}
                         />
                         <Area type="monotone" dataKey="value" name="Projected Value" stroke="#6366f1" fillOpacity={1} fill="url(#colorVal)" strokeWidth={2} />
                         <Area type="monotone" dataKey="contributions" name="Total Invested" stroke={theme === 'dark' ? "#475569" : "#94a3b8"} fill="transparent" strokeDasharray="5 5" strokeWidth={2} />
@@ -397,9 +409,15 @@ const DashboardView: React.FC = () => {
                             alerts.map(alert => (
                                 <div key={alert.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-950/50 rounded-xl border border-slate-200 dark:border-slate-800 group hover:border-brand-500/30 transition-colors">
                                     <div>
-                                        <div className="font-bold text-slate-900 dark:text-white text-sm">{alert.symbol}</div>
+                                        <div className="font-bold text-slate-900 dark:text-white text-sm flex items-center gap-2">
+                                            {alert.symbol}
+                                            {!alert.isActive && (
+                                                <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-500 border border-emerald-500/20">Triggered</span>
+                                            )}
+                                        </div>
                                         <div className="text-xs text-slate-500">
                                             Trigger if {alert.condition.toLowerCase()} <span className="font-bold text-slate-700 dark:text-slate-300">${alert.targetPrice}</span>
+                                            {alert.cooldownMinutes ? ` · re-arms after ${alert.cooldownMinutes}m` : ''}
                                         </div>
                                     </div>
                                     <button 
@@ -499,6 +517,15 @@ const DashboardView: React.FC = () => {
                                     onChange={e => setNewAlertPrice(e.target.value)}
                                     required
                                 />
+                                <select 
+                                    className="w-full bg-slate-100 dark:bg-slate-800 border border-transparent rounded px-3 py-2 text-sm text-slate-900 dark:text-white outline-none"
+                                    value={newAlertCooldown}
+                                    onChange={e => setNewAlertCooldown(e.target.value)}
+                                >
+                                    <option value="0">Fire once</option>
+                                    <option value="60">Re-arm after 1 hour</option>
+                                    <option value="1440">Re-arm after 1 day</option>
+                                </select>
                             </div>
                             <div className="flex gap-2 mt-2">
                                 <button type="submit" className="flex-1 bg-emerald-500 hover:bg-emerald-400 text-white text-sm font-bold py-2 rounded transition-colors">Save</button>
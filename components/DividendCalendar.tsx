@@ -1,20 +1,34 @@
 import React, { useState } from 'react';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, X, DollarSign, ChevronsLeft, ChevronsRight, Clock } from 'lucide-react';
-import { Holding } from '../types';
+import { DividendFrequency, DividendStatus, Holding } from '../types';
+import { usePortfolio } from '../context/PortfolioContext';
+import { formatMoney } from '../services/fx';
 
+// One scheduled payment for a holding
 export interface CalendarDividend extends Holding {
-  amount: string;
+  paymentId: string;
+  amount: string; // Gross income from this payment at the current share count
+  withheld: number; // Expected withholding tax on it
+  net: number;
+  perShare: number;
+  exDate: string;
+  payDate: string; // YYYY-MM-DD
   payDay: number;
-  payDayStr: string;
-  payoutRatio: number;
-  paymentMonths: number[]; // Month indices (0-11) when this dividend is paid
+  status: DividendStatus;
+  frequency: DividendFrequency;
 }
 
+const STATUS_LABELS: Record<DividendStatus, string> = { paid: 'Paid', declared: 'Declared', projected: 'Projected' };
+
+const formatShortDate = (iso: string) =>
+  new Date(`${iso}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
 interface DividendCalendarProps {
   dividends: CalendarDividend[];
 }
 
 const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
+  const { baseCurrency } = usePortfolio();
   const [viewDate, setViewDate] = useState(new Date());
   const [selectedDateInfo, setSelectedDateInfo] = useState<{day: number, payments: CalendarDividend[]} | null>(null);
 
@@ -36,8 +50,10 @@ const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
   const resetToToday = () => setViewDate(new Date());
 
   // Filter dividends for the currently displayed month
-  const monthlyDividends = dividends.filter(d => d.paymentMonths.includes(currentMonth));
+  const monthKey = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
+  const monthlyDividends = dividends.filter(d => d.payDate.startsWith(monthKey));
   const totalMonthlyIncome = monthlyDividends.reduce((acc, d) => acc + parseFloat(d.amount), 0);
+  const totalMonthlyNet = monthlyDividends.reduce((acc, d) => acc + d.net, 0);
 
   const days = Array.from({ length: daysInMonth }, (_, i) => i + 1);
   const weeks: (number | null)[][] = [];
@@ -72,7 +88,10 @@ const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
                             <span className="text-xs bg-brand-600 text-white px-2 py-0.5 rounded-full">Current</span>
                         )}
                     </h2>
-                    <div className="text-sm text-slate-400">Estimated Income: <span className="text-emerald-400 font-bold">${totalMonthlyIncome.toFixed(2)}</span></div>
+                    <div className="text-sm text-slate-400">
+                        Estimated Income: <span className="text-emerald-400 font-bold">{formatMoney(totalMonthlyNet, baseCurrency)}</span> net
+                        {totalMonthlyIncome - totalMonthlyNet > 0.005 && <span className="text-slate-500"> · {formatMoney(totalMonthlyIncome, baseCurrency)} gross, {formatMoney(totalMonthlyIncome - totalMonthlyNet, baseCurrency)} withheld</span>}
+                    </div>
                 </div>
             </div>
             <div className="flex items-center gap-2 w-full lg:w-auto justify-between lg:justify-end">
@@ -110,7 +129,7 @@ const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
                         {weekArray.map((day, dIdx) => {
                             const isToday = day === new Date().getDate() && currentMonth === new Date().getMonth() && currentYear === new Date().getFullYear();
                             const dayPayments = day ? monthlyDividends.filter(d => d.payDay === day) : [];
-                            const dailyTotal = dayPayments.reduce((acc, curr) => acc + parseFloat(curr.amount), 0);
+                            const dailyTotal = dayPayments.reduce((acc, curr) => acc + curr.net, 0);
                             
                             return (
                                 <div 
@@ -129,18 +148,18 @@ const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
                                                 </span>
                                                 {dailyTotal > 0 && (
                                                     <span className="text-[10px] font-bold text-emerald-400 bg-emerald-400/10 px-2 py-1 rounded-full border border-emerald-400/20">
-                                                        ${Math.round(dailyTotal)}
+                                                        {formatMoney(dailyTotal, baseCurrency, 0)}
                                                     </span>
                                                 )}
                                             </div>
                                             <div className="space-y-1.5">
                                                 {dayPayments.slice(0, 3).map(p => (
-                                                    <div key={p.id} className="flex items-center justify-between bg-slate-800 border border-slate-700/50 rounded px-2 py-1.5 hover:border-slate-600 transition-colors">
+                                                    <div key={p.paymentId} className="flex items-center justify-between bg-slate-800 border border-slate-700/50 rounded px-2 py-1.5 hover:border-slate-600 transition-colors">
                                                         <div className="flex items-center gap-2">
-                                                            <div className="w-1.5 h-1.5 rounded-full bg-brand-500"></div>
+                                                            <div className={`w-1.5 h-1.5 rounded-full ${p.status === 'projected' ? 'bg-slate-500' : 'bg-brand-500'}`}></div>
                                                             <span className="text-[10px] font-bold text-slate-200 truncate max-w-[50px]">{p.symbol}</span>
                                                         </div>
-                                                        <span className="text-[10px] text-slate-400">${Math.round(parseFloat(p.amount))}</span>
+                                                        <span className="text-[10px] text-slate-400">{formatMoney(p.net, baseCurrency, 0)}</span>
                                                     </div>
                                                 ))}
                                                 {dayPayments.length > 3 && (
@@ -172,6 +191,14 @@ const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
                 <div className="w-3 h-3 rounded bg-emerald-400/10 border border-emerald-400/20"></div>
                 <span>Payout Day</span>
             </div>
+            <div className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-brand-500"></div>
+                <span>Paid / Declared</span>
+            </div>
+            <div className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-slate-500"></div>
+                <span>Projected</span>
+            </div>
         </div>
 
         {/* Detailed View Modal */}
@@ -185,7 +212,7 @@ const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
                                 {monthNames[currentMonth]} {selectedDateInfo.day}, {currentYear}
                             </h3>
                             <p className="text-sm text-slate-400 mt-1">
-                                Total Payments: <span className="text-emerald-400 font-bold">${selectedDateInfo.payments.reduce((a,b) => a + parseFloat(b.amount), 0).toFixed(2)}</span>
+                                Total Payments: <span className="text-emerald-400 font-bold">{formatMoney(selectedDateInfo.payments.reduce((a,b) => a + b.net, 0), baseCurrency)}</span> net
                             </p>
                         </div>
                         <button 
@@ -197,26 +224,26 @@ const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
                     </div>
                     <div className="p-2 max-h-[60vh] overflow-y-auto">
                         {selectedDateInfo.payments.map(payment => {
-                            // Simulate Ex-Date (usually 2-4 weeks before pay date)
-                            const exDateDay = Math.max(1, payment.payDay - 14);
-                            
                             return (
-                                <div key={payment.id} className="p-4 hover:bg-slate-800/50 rounded-xl transition-colors flex items-center justify-between group border-b border-slate-800/50 last:border-0">
+                                <div key={payment.paymentId} className="p-4 hover:bg-slate-800/50 rounded-xl transition-colors flex items-center justify-between group border-b border-slate-800/50 last:border-0">
                                     <div className="flex items-center gap-4">
                                         <div className="w-12 h-12 rounded-lg bg-slate-800 flex items-center justify-center font-bold text-slate-300 border border-slate-700 group-hover:border-brand-500/50 transition-colors shadow-sm">
                                             {payment.symbol[0]}
                                         </div>
                                         <div>
-                                            <div className="font-bold text-white flex items-center gap-2">{payment.symbol} <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-400">{payment.assetType}</span></div>
-                                            <div className="text-xs text-slate-500">{payment.name}</div>
+                                            <div className="font-bold text-white flex items-center gap-2">{payment.symbol} <span className="text-[10px] bg-slate-800 px-1.5 py-0.5 rounded text-slate-400">{STATUS_LABELS[payment.status]}</span></div>
+                                            <div className="text-xs text-slate-500">{payment.name} · {formatMoney(payment.perShare, payment.currency || 'USD', 4)}/share {payment.frequency.toLowerCase()}</div>
                                         </div>
                                     </div>
                                     <div className="text-right">
                                         <div className="font-bold text-emerald-400 flex items-center justify-end gap-1 text-lg">
-                                            <DollarSign className="w-4 h-4" />{payment.amount}
+                                            <DollarSign className="w-4 h-4" />{payment.net.toFixed(2)}
                                         </div>
+                                        {payment.withheld > 0 && (
+                                            <div className="text-[10px] text-slate-500">{formatMoney(parseFloat(payment.amount), baseCurrency)} gross · {formatMoney(payment.withheld, baseCurrency)} withheld</div>
+                                        )}
                                         <div className="flex items-center justify-end gap-1 text-[10px] text-slate-500 mt-1">
-                                            <Clock className="w-3 h-3" /> Ex-Date: {monthNames[currentMonth].substring(0,3)} {exDateDay}
+                                            <Clock className="w-3 h-3" /> Ex-Date: {formatShortDate(payment.exDate)}
                                         </div>
                                     </div>
                                 </div>
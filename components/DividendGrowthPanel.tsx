@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingUp, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { usePortfolio } from '../context/PortfolioContext';
+import { Holding } from '../types';
+import { DividendChangeType, DividendGrowth, dividendGrowth, GROWTH_WINDOWS } from '../services/dividendChanges';
+import { formatMoney } from '../services/fx';
+
+const CHANGE_STYLES: Record<DividendChangeType, { label: string; style: string }> = {
+    raise: { label: 'Raise', style: 'text-emerald-600 dark:text-emerald-400 bg-emerald-100 dark:bg-emerald-400/10 border-emerald-200 dark:border-emerald-400/20' },
+    cut: { label: 'Cut', style: 'text-orange-600 dark:text-orange-400 bg-orange-100 dark:bg-orange-400/10 border-orange-200 dark:border-orange-400/20' },
+    suspension: { label: 'Suspended', style: 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-400/10 border-red-200 dark:border-red-400/20' },
+    special: { label: 'Special', style: 'text-indigo-600 dark:text-indigo-400 bg-indigo-100 dark:bg-indigo-400/10 border-indigo-200 dark:border-indigo-400/20' }
+};
+
+const formatCagr = (value: number | null) => {
+    if (value === null) return <span className="text-slate-400">-</span>;
+    return <span className={value >= 0 ? 'text-emerald-500' : 'text-red-500'}>{value >= 0 ? '+' : ''}{value.toFixed(1)}%</span>;
+};
+
+// Per-holding dividend track record: consecutive yearly raises, growth rates and the latest change,
+// plus the holding's dividend reinvestment setting
+const DividendGrowthPanel: React.FC = () => {
+    const { activePortfolio, dividendSchedules, updateHolding } = usePortfolio();
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    const rows: (DividendGrowth & { frequency: string; holding: Holding })[] = useMemo(() => activePortfolio.holdings
+        .filter(h => dividendSchedules[h.symbol.toUpperCase()])
+        .map(holding => {
+            const schedule = dividendSchedules[holding.symbol.toUpperCase()];
+            return { ...dividendGrowth(schedule), frequency: schedule.frequency, holding };
+        })
+        .sort((a, b) => b.streakYears - a.streakYears || a.symbol.localeCompare(b.symbol)),
+        [activePortfolio.holdings, dividendSchedules]);
+
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-slate-200 dark:border-slate-800">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5 text-brand-500" /> Dividend Growth
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400">Growth rates compare trailing 12-month regular dividends per share; specials are excluded. With DRIP on, recorded dividends buy more shares.</p>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 uppercase text-xs font-semibold border-b border-slate-200 dark:border-slate-800">
+                        <tr>
+                            <th className="px-6 py-3">Asset</th>
+                            <th className="px-6 py-3">Frequency</th>
+                            <th className="px-6 py-3 text-right">Streak</th>
+                            {GROWTH_WINDOWS.map(years => <th key={years} className="px-6 py-3 text-right">{years}Y CAGR</th>)}
+                            <th className="px-6 py-3">Last Change</th>
+                            <th className="px-6 py-3 text-center">DRIP</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                        {rows.map(row => (
+                            <React.Fragment key={row.symbol}>
+                                <tr
+                                    onClick={() => setExpanded(expanded === row.symbol ? null : row.symbol)}
+                                    className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors cursor-pointer"
+                                >
+                                    <td className="px-6 py-3 font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                                        {expanded === row.symbol ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                                        {row.symbol}
+                                    </td>
+                                    <td className="px-6 py-3 text-slate-500 dark:text-slate-400">{row.frequency}</td>
+                                    <td className="px-6 py-3 text-right font-bold text-slate-900 dark:text-white">{row.streakYears > 0 ? `${row.streakYears} yr${row.streakYears === 1 ? '' : 's'}` : '-'}</td>
+                                    {GROWTH_WINDOWS.map(years => <td key={years} className="px-6 py-3 text-right font-mono">{formatCagr(row.cagr[years])}</td>)}
+                                    <td className="px-6 py-3">
+                                        {row.lastChange ? (
+                                            <span className={`text-xs font-bold px-2 py-0.5 rounded border whitespace-nowrap ${CHANGE_STYLES[row.lastChange.type].style}`}>
+                                                {CHANGE_STYLES[row.lastChange.type].label}
+                                                {row.lastChange.type !== 'special' && row.lastChange.type !== 'suspension' && ` ${row.lastChange.changePct >= 0 ? '+' : ''}${row.lastChange.changePct.toFixed(1)}%`}
+                                                <span className="font-normal opacity-75"> {row.lastChange.exDate}</span>
+                                            </span>
+                                        ) : <span className="text-slate-400">-</span>}
+                                    </td>
+                                    <td className="px-6 py-3 text-center">
+                                        <button
+                                            onClick={e => { e.stopPropagation(); updateHolding(row.holding.id, { drip: !row.holding.drip }); }}
+                                            className={`inline-flex items-center gap-1 px-2 py-1 rounded-md border text-xs font-bold transition-colors ${row.holding.drip ? 'bg-emerald-100 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/30 text-emerald-600 dark:text-emerald-400' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+                                        >
+                                            <RefreshCw className="w-3 h-3" /> {row.holding.drip ? 'On' : 'Off'}
+                                        </button>
+                                    </td>
+                                </tr>
+                                {expanded === row.symbol && (
+                                    <tr className="bg-slate-50 dark:bg-slate-950/50">
+                                        <td colSpan={5 + GROWTH_WINDOWS.length} className="px-6 py-3">
+                                            <div className="flex flex-wrap gap-2">
+                                                {row.annual.map(a => (
+                                                    <div key={a.year} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-xs">
+                                                        <div className="text-slate-500">{a.year}</div>
+                                                        <div className="font-mono font-bold text-slate-900 dark:text-white">{formatMoney(a.total, row.holding.currency || 'USD', 4)}</div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default DividendGrowthPanel;
@@ -1,9 +1,18 @@
 
 import React, { useState, useMemo } from 'react';
 import { Info, CheckCircle2, TrendingUp, ShieldCheck, AlertOctagon, ZapOff, XCircle, Calendar as CalendarIcon, BarChart3, Clock, Sliders, RefreshCw, AlertTriangle, Wallet, BarChart2, ArrowDownUp, ArrowUp, ArrowDown, Droplets, ListFilter, LayoutGrid } from 'lucide-react';
-import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Legend, Cell, BarChart } from 'recharts';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Legend, BarChart } from 'recharts';
 import DividendCalendar, { CalendarDividend } from './DividendCalendar';
+import ReceivedIncomePanel from './ReceivedIncomePanel';
 import { usePortfolio } from '../context/PortfolioContext';
+import { DividendStatus } from '../types';
+import { scheduledPayments } from '../services/dividendSchedule';
+import { describeDividendChange, detectDividendChanges, DividendChange } from '../services/dividendChanges';
+import DividendGrowthPanel from './DividendGrowthPanel';
+import { dripProfiles, projectDripIncome, DripProjectionYear } from '../services/dripProjection';
+import { applyWithholding, withholdingRate } from '../services/withholdingTax';
+import ForeignTaxPanel from './ForeignTaxPanel';
+import { currencySymbol, formatMoney } from '../services/fx';
 
 const InfoTooltip = ({ content }: { content: string }) => (
   <div className="group relative flex items-center justify-center ml-1.5">
@@ -23,19 +32,27 @@ const getSafetyGrade = (score: number) => {
     return { grade: 'F', color: 'text-red-600 dark:text-red-400', bg: 'bg-red-100 dark:bg-red-400/10', border: 'border-red-200 dark:border-red-400/20', label: 'Very Unsafe' };
 };
 
-const getPayoutColor = (ratio: number, sector: string) => {
-    const isReit = sector === 'Real Estate';
-    const safeLimit = isReit ? 90 : 60;
-    const warningLimit = isReit ? 100 : 90;
-    if (ratio <= safeLimit) return 'text-emerald-600 dark:text-emerald-400 bg-emerald-100 dark:bg-emerald-400/10 border-emerald-200 dark:border-emerald-400/20';
-    if (ratio <= warningLimit) return 'text-yellow-600 dark:text-yellow-400 bg-yellow-100 dark:bg-yellow-400/10 border-yellow-200 dark:border-yellow-400/20';
-    return 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-400/10 border-red-200 dark:border-red-400/20';
+const STATUS_STYLES: Record<DividendStatus, { label: string; style: string }> = {
+    paid: { label: 'Paid', style: 'text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-400/10 border-slate-200 dark:border-slate-400/20' },
+    declared: { label: 'Declared', style: 'text-emerald-600 dark:text-emerald-400 bg-emerald-100 dark:bg-emerald-400/10 border-emerald-200 dark:border-emerald-400/20' },
+    projected: { label: 'Projected', style: 'text-indigo-600 dark:text-indigo-400 bg-indigo-100 dark:bg-indigo-400/10 border-indigo-200 dark:border-indigo-400/20' }
+};
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+// Share of a dividend that survives the recession scenario, by safety score
+const recessionPayout = (safetyScore: number) => {
+    if (safetyScore >= 80) return 1;
+    if (safetyScore >= 60) return 0.75;
+    if (safetyScore >= 40) return 0.5;
+    return 0;
 };
 
 // Helper Component for Dividend Row (DRY)
 const DividendRow: React.FC<{ payment: CalendarDividend, isCut: boolean }> = ({ payment, isCut }) => {
+    const { baseCurrency } = usePortfolio();
     const safety = getSafetyGrade(payment.safetyScore);
-    const payoutStyle = getPayoutColor(payment.payoutRatio, payment.sector);
+    const status = STATUS_STYLES[payment.status];
     const snowflakeScore = payment.snowflake?.total || 0;
 
     const getSnowflakeStyle = (score: number) => {
@@ -66,10 +83,11 @@ const DividendRow: React.FC<{ payment: CalendarDividend, isCut: boolean }> = ({
                   </div>
                   {/* Amount shown here on mobile for visibility */}
                   <div className="text-right md:hidden">
-                      <div className="text-[10px] text-slate-500 uppercase mb-0.5">Est. Pay</div>
+                      <div className="text-[10px] text-slate-500 uppercase mb-0.5">{payment.status === 'projected' ? 'Est. Pay' : 'Pay'}</div>
                       <div className={`font-bold font-mono ${isCut ? 'text-red-400 line-through' : 'text-slate-900 dark:text-white'}`}>
-                          ${payment.amount}
+                          {formatMoney(payment.net, baseCurrency)}
                       </div>
+                      {payment.withheld > 0 && <div className="text-[10px] text-slate-500 font-mono">{formatMoney(parseFloat(payment.amount), baseCurrency)} gross</div>}
                   </div>
               </div>
 
@@ -78,10 +96,10 @@ const DividendRow: React.FC<{ payment: CalendarDividend, isCut: boolean }> = ({
                   
                   <div className="flex items-center gap-2 md:gap-4 overflow-x-auto no-scrollbar">
                       <div className="text-left md:text-center min-w-[60px]">
-                          <div className="text-[10px] text-slate-500 uppercase mb-1 hidden md:block">Payout</div>
-                          <div className="text-[10px] text-slate-500 uppercase mb-0.5 md:hidden">Payout</div>
-                          <span className={`text-xs font-bold px-2 py-0.5 rounded border whitespace-nowrap ${payoutStyle}`}>
-                              {payment.payoutRatio}%
+                          <div className="text-[10px] text-slate-500 uppercase mb-1 hidden md:block">Ex {payment.exDate.slice(5)}</div>
+                          <div className="text-[10px] text-slate-500 uppercase mb-0.5 md:hidden">Ex {payment.exDate.slice(5)}</div>
+                          <span className={`text-xs font-bold px-2 py-0.5 rounded border whitespace-nowrap ${status.style}`}>
+                              {status.label}
                           </span>
                       </div>
                       
@@ -104,10 +122,13 @@ const DividendRow: React.FC<{ payment: CalendarDividend, isCut: boolean }> = ({
 
                   {/* Desktop Amount */}
                   <div className="hidden md:block text-right pl-4 border-l border-slate-100 dark:border-slate-800 min-w-[80px]">
-                      <div className="text-[10px] text-slate-500 uppercase mb-1">Amount</div>
+                      <div className="text-[10px] text-slate-500 uppercase mb-1">Net Amount</div>
                       <div className={`font-bold font-mono ${isCut ? 'text-red-400 line-through' : 'text-slate-900 dark:text-white'}`}>
-                          ${payment.amount}
+                          {formatMoney(payment.net, baseCurrency)}
                       </div>
+                      {payment.withheld > 0 && (
+                          <div className="text-[10px] text-slate-500 font-mono whitespace-nowrap">{formatMoney(parseFloat(payment.amount), baseCurrency)} − {formatMoney(payment.withheld, baseCurrency)} tax</div>
+                      )}
                   </div>
               </div>
           </div>
@@ -116,150 +137,161 @@ const DividendRow: React.FC<{ payment: CalendarDividend, isCut: boolean }> = ({
 };
 
 const DividendsView: React.FC = () => {
-  const { activePortfolio } = usePortfolio();
+  const { activePortfolio, dividendSchedules: schedules, isLoadingDividends: loadingSchedules, taxProfile, baseCurrency, toBase } = usePortfolio();
+  const { residence, accountType } = taxProfile;
   const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list');
   const [recessionMode, setRecessionMode] = useState(false);
   const [sortBy, setSortBy] = useState<'date' | 'amount' | 'yield' | 'safety'>('date');
   
   // Projection State
-  const [projectedCagr, setProjectedCagr] = useState(7); // Annual Dividend Growth Rate
-  const [reinvestMode, setReinvestMode] = useState(true); // DRIP Toggle
+  const [projectedCagr, setProjectedCagr] = useState(7); // Growth for holdings without a dividend history
 
   const holdings = activePortfolio.holdings;
+  const [dismissedAlerts, setDismissedAlerts] = useState(false);
 
   // Memoized Calculations to prevent re-runs
   const dividendData = useMemo(() => {
-      const alerts = holdings
-        .filter(h => h.dividendYield > 0 && h.safetyScore < 50)
-        .map(h => ({
-            id: h.id,
-            symbol: h.symbol,
-            type: 'danger',
-            message: `DIVIDEND CUT ANNOUNCED: ${h.symbol} has announced a suspension of its dividend due to cash flow constraints. Safety Score: ${h.safetyScore}/100.`
-        }));
-
-      // Prepare data for dividend view
-      const raw: CalendarDividend[] = holdings
-        .filter(h => h.dividendYield > 0)
-        .map(h => {
-            const annualIncome = h.shares * h.currentPrice * (h.dividendYield / 100);
-            const deterministicDay = (h.symbol.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % 28) + 1;
-            
-            const paymentGroup = h.symbol.charCodeAt(0) % 3;
-            const paymentMonths = [0, 1, 2, 3].map(i => i * 3 + paymentGroup);
-
-            let basePayout = 0;
-            if (h.sector === 'Real Estate') basePayout = 85;
-            else if (h.sector === 'Technology') basePayout = 25;
-            else if (h.sector === 'Energy') basePayout = 45;
-            else basePayout = 50;
-
-            const variance = (h.symbol.charCodeAt(0) % 20) - 10; 
-            const payoutRatio = Math.max(0, Math.min(150, basePayout + variance));
-
+      // Current suspensions, and cuts reported in the last six months
+      const since = toISODate(new Date(Date.now() - 183 * 24 * 60 * 60 * 1000));
+      const alerts: DividendChange[] = holdings
+        .map(h => schedules[h.symbol.toUpperCase()])
+        .filter(Boolean)
+        .flatMap(schedule => detectDividendChanges(schedule))
+        .filter(c => c.type === 'suspension' || (c.type === 'cut' && c.exDate >= since));
+
+      // Every scheduled payment (paid, declared and projected) at today's share counts, with the expected withholding.
+      // Income is in the base currency at the pay date's rate (the latest rate for future payments).
+      const raw: CalendarDividend[] = scheduledPayments(schedules, holdings, '0000-01-01', '9999-12-31')
+        .map(({ holding, dividend, income: localIncome }) => {
+            const income = toBase(localIncome, holding.currency, dividend.payDate);
+            const tax = applyWithholding(income, holding.country, { residence, accountType });
             return {
-                ...h,
-                amount: (annualIncome / 4).toFixed(2),
-                payDay: deterministicDay, 
-                payDayStr: deterministicDay.toString(),
-                payoutRatio,
-                paymentMonths
+                ...holding,
+                paymentId: `${holding.id}-${dividend.exDate}`,
+                amount: income.toFixed(2),
+                withheld: tax.withheldAmount,
+                net: tax.net,
+                perShare: dividend.amount,
+                exDate: dividend.exDate,
+                payDate: dividend.payDate,
+                payDay: parseInt(dividend.payDate.slice(8, 10), 10),
+                status: dividend.status || 'projected',
+                frequency: dividend.frequency
             };
         });
-        
-      return { alerts, raw };
-  }, [holdings]);
 
-  const { alerts: dividendAlerts, raw: rawDividends } = dividendData;
+      const today = toISODate(new Date());
+      const yearAhead = toISODate(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000));
+      const upcoming = raw.filter(d => d.payDate > today && d.payDate <= yearAhead);
+
+      // Dividend payers the providers and the ledger know nothing about
+      const unscheduled = holdings.filter(h => h.dividendYield > 0 && !schedules[h.symbol.toUpperCase()]);
+
+      return { alerts, raw, upcoming, unscheduled };
+  }, [holdings, schedules, residence, accountType, toBase]);
+
+  const { alerts: dividendAlerts, raw: rawDividends, upcoming: upcomingDividends, unscheduled } = dividendData;
 
   // --- Group Dividends by Month for List View (Date Sort) ---
   const monthsList = useMemo(() => {
-      const currentMonthIndex = new Date().getMonth();
+      const now = new Date();
       return Array.from({ length: 12 }, (_, i) => {
-          const monthIndex = (currentMonthIndex + i) % 12;
-          const monthName = new Date(2023, monthIndex, 1).toLocaleString('default', { month: 'long' });
-          const yearOffset = (currentMonthIndex + i) >= 12 ? 1 : 0;
-          const year = new Date().getFullYear() + yearOffset;
+          const monthStart = new Date(now.getFullYear(), now.getMonth() + i, 1);
+          const monthName = monthStart.toLocaleString('default', { month: 'long' });
+          const year = monthStart.getFullYear();
+          const monthKey = `${year}-${String(monthStart.getMonth() + 1).padStart(2, '0')}`;
           
-          // Find dividends paying in this month index
+          // Find dividends paying in this calendar month
           const payments = rawDividends
-              .filter(d => d.paymentMonths.includes(monthIndex))
+              .filter(d => d.payDate.startsWith(monthKey))
               .sort((a, b) => a.payDay - b.payDay);
           
           const totalIncome = payments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
+          const netIncome = payments.reduce((sum, p) => sum + p.net, 0);
 
           return {
               name: monthName,
               year,
               payments,
-              totalIncome
+              totalIncome,
+              netIncome
           };
       });
   }, [rawDividends]);
 
   // --- Flat Sorted List for other Sort Modes ---
   const sortedDividends = useMemo(() => {
-      const data = [...rawDividends];
+      const data = [...upcomingDividends];
       if (sortBy === 'amount') return data.sort((a, b) => parseFloat(b.amount) - parseFloat(a.amount));
       if (sortBy === 'yield') return data.sort((a, b) => b.dividendYield - a.dividendYield);
       if (sortBy === 'safety') return data.sort((a, b) => b.safetyScore - a.safetyScore);
       return data; 
-  }, [rawDividends, sortBy]);
+  }, [upcomingDividends, sortBy]);
 
   // --- Income Calculations ---
   const incomeStats = useMemo(() => {
       let projectedIncome = 0;
-      rawDividends.forEach(h => {
-          const annual = parseFloat(h.amount) * 4;
-          if (h.safetyScore >= 80) projectedIncome += annual;
-          else if (h.safetyScore >= 60) projectedIncome += annual * 0.75;
-          else if (h.safetyScore >= 40) projectedIncome += annual * 0.50;
-          else projectedIncome += 0;
+      upcomingDividends.forEach(h => {
+          projectedIncome += h.net * recessionPayout(h.safetyScore);
       });
 
-      const currentAnnualIncome = rawDividends.reduce((acc, curr) => acc + (parseFloat(curr.amount) * 4), 0);
+      // Declared and projected payments over the next 12 months; the stress test works on what is actually received
+      const grossAnnualIncome = upcomingDividends.reduce((acc, curr) => acc + parseFloat(curr.amount), 0);
+      const annualWithheld = upcomingDividends.reduce((acc, curr) => acc + curr.withheld, 0);
+      const currentAnnualIncome = grossAnnualIncome - annualWithheld;
       const stressedIncome = projectedIncome;
       const riskExposure = currentAnnualIncome - stressedIncome;
-      const portfolioYield = activePortfolio.totalValue > 0 ? (currentAnnualIncome / activePortfolio.totalValue) : 0;
 
-      return { currentAnnualIncome, stressedIncome, riskExposure, portfolioYield };
-  }, [rawDividends, activePortfolio.totalValue]);
+      return { grossAnnualIncome, annualWithheld, currentAnnualIncome, stressedIncome, riskExposure };
+  }, [upcomingDividends]);
 
-  const { currentAnnualIncome, stressedIncome, riskExposure, portfolioYield } = incomeStats;
+  const { grossAnnualIncome, annualWithheld, currentAnnualIncome, stressedIncome, riskExposure } = incomeStats;
 
   // --- Long Term Projection Data ---
+  // Each holding compounds at its own yield and dividend growth; only DRIP holdings buy more shares
+  const profiles = useMemo(() => dripProfiles(holdings, schedules, projectedCagr), [holdings, schedules, projectedCagr]);
+  const dripCount = profiles.filter(p => p.drip).length;
+
   const longTermProjectionData = useMemo(() => {
       const projectionYears = [1, 3, 5, 10, 15, 20, 25, 30];
-      const baseIncomeForProjection = recessionMode ? stressedIncome : currentAnnualIncome;
-      
-      return projectionYears.map(year => {
-          const growthRate = recessionMode ? projectedCagr * 0.5 : projectedCagr;
-          const effectiveRate = (growthRate / 100) + (reinvestMode ? portfolioYield : 0);
+      // After withholding, so DRIP holdings reinvest what they would actually receive; dividend and price in the base currency
+      const netProfiles = profiles.map(p => {
+          const rate = toBase(1, p.holding.currency);
           return {
-              year: `Year ${year}`,
-              income: Math.round(baseIncomeForProjection * Math.pow(1 + effectiveRate, year)),
+              ...p,
+              holding: { ...p.holding, currentPrice: p.holding.currentPrice * rate },
+              annualDividend: p.annualDividend * rate * (1 - withholdingRate(p.holding.country, { residence, accountType }).withheld)
           };
       });
-  }, [recessionMode, stressedIncome, currentAnnualIncome, projectedCagr, reinvestMode, portfolioYield]);
+      const scenario = recessionMode
+          ? netProfiles.map(p => ({ ...p, annualDividend: p.annualDividend * recessionPayout(p.holding.safetyScore), growthRate: p.growthRate * 0.5 }))
+          : netProfiles;
+
+      return projectDripIncome(scenario, projectionYears).map((row: DripProjectionYear) => ({
+          year: `Year ${row.year}`,
+          reinvested: Math.round(row.reinvested),
+          cash: Math.round(row.cash)
+      }));
+  }, [profiles, recessionMode, residence, accountType, toBase]);
 
   return (
     <div className="max-w-6xl mx-auto space-y-6 animate-fade-in pb-10">
         {/* Alert Banner for Dividend Cuts */}
-        {dividendAlerts.length > 0 && (
+        {dividendAlerts.length > 0 && !dismissedAlerts && (
             <div className="bg-red-100 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-xl p-4 animate-fade-in-up">
                 <div className="flex items-start gap-3">
                     <AlertOctagon className="w-5 h-5 text-red-500 dark:text-red-400 mt-0.5 shrink-0" />
                     <div className="flex-1">
                         <h4 className="text-sm font-bold text-red-600 dark:text-red-400">Portfolio Alert: Dividend Cuts</h4>
                         <div className="mt-1 space-y-1">
-                            {dividendAlerts.map(alert => (
+                            {dividendAlerts.map((alert: DividendChange) => (
                                 <div key={alert.id} className="text-xs text-slate-600 dark:text-slate-300">
-                                    {alert.message}
+                                    {describeDividendChange(alert)}
                                 </div>
                             ))}
                         </div>
                     </div>
-                    <button className="text-slate-500 hover:text-slate-900 dark:hover:text-white">
+                    <button onClick={() => setDismissedAlerts(true)} className="text-slate-500 hover:text-slate-900 dark:hover:text-white">
                         <XCircle className="w-5 h-5" />
                     </button>
                 </div>
@@ -314,8 +346,8 @@ const DividendsView: React.FC = () => {
 
             <div className="relative pt-4 pb-2">
                 <div className="flex justify-between text-sm font-medium text-slate-500 dark:text-slate-400 mb-2">
-                    <span>Projected Cut: <span className="text-red-500">-${Math.round(riskExposure).toLocaleString()}</span></span>
-                    <span>Safe Income: <span className="text-emerald-500">${Math.round(stressedIncome).toLocaleString()}</span></span>
+                    <span>Projected Cut: <span className="text-red-500">{formatMoney(-riskExposure, baseCurrency, 0)}</span></span>
+                    <span>Safe Income: <span className="text-emerald-500">{formatMoney(stressedIncome, baseCurrency, 0)}</span></span>
                 </div>
                 <div className="w-full h-6 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden flex border border-slate-200 dark:border-slate-700">
                     {/* Safe Portion */}
@@ -332,6 +364,12 @@ const DividendsView: React.FC = () => {
             </div>
         </div>
 
+        {viewMode === 'list' && <ReceivedIncomePanel />}
+
+        {viewMode === 'list' && <DividendGrowthPanel />}
+
+        {viewMode === 'list' && <ForeignTaxPanel payments={upcomingDividends} />}
+
         {/* Forecasting & History Section - Only show in list mode */}
         {viewMode === 'list' && (
         <>
@@ -345,21 +383,35 @@ const DividendsView: React.FC = () => {
                         <h3 className="text-slate-500 dark:text-slate-400 text-sm font-medium mb-4">Next 12 Months</h3>
                         <div className="mb-6">
                             <div className={`text-4xl font-bold tracking-tight transition-colors duration-500 ${recessionMode ? 'text-red-500' : 'text-slate-900 dark:text-white'}`}>
-                                ${Math.round(recessionMode ? stressedIncome : currentAnnualIncome).toLocaleString()}
+                                {formatMoney(recessionMode ? stressedIncome : currentAnnualIncome, baseCurrency, 0)}
                             </div>
                             <div className="text-sm text-slate-500 mt-1">
-                                {recessionMode ? 'Recession Scenario Income' : 'Projected Annual Income'}
+                                {recessionMode ? 'Recession Scenario Income (Net)' : 'Projected Annual Income (Net)'}
                             </div>
                         </div>
                         <div className="space-y-3">
+                            <div className="flex justify-between items-center">
+                                <span className="text-sm text-slate-500 dark:text-slate-400">Gross Income</span>
+                                <span className="text-sm font-bold text-slate-900 dark:text-white">{formatMoney(grossAnnualIncome, baseCurrency, 0)}</span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <span className="text-sm text-slate-500 dark:text-slate-400">Withholding Tax</span>
+                                <span className="text-sm font-bold text-red-500 dark:text-red-400">{formatMoney(-annualWithheld, baseCurrency, 0)}</span>
+                            </div>
                             <div className="flex justify-between items-center">
                                 <span className="text-sm text-slate-500 dark:text-slate-400">Yield on Cost</span>
                                 <span className="text-sm font-bold text-indigo-500 dark:text-indigo-400">
-                                    {(activePortfolio.totalValue > 0 ? (currentAnnualIncome / activePortfolio.totalValue * 1.2) * 100 : 0).toFixed(2)}%
+                                    {(activePortfolio.totalValue > 0 ? (grossAnnualIncome / activePortfolio.totalValue * 1.2) * 100 : 0).toFixed(2)}%
                                 </span>
                             </div>
                             <div className="flex justify-between items-center">
                                 <span className="text-sm text-slate-500 dark:text-slate-400">Current Yield</span>
+                                <span className="text-sm font-bold text-emerald-500 dark:text-emerald-400">
+                                    {(activePortfolio.totalValue > 0 ? (grossAnnualIncome / activePortfolio.totalValue) * 100 : 0).toFixed(2)}%
+                                </span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <span className="text-sm text-slate-500 dark:text-slate-400">Net Yield</span>
                                 <span className="text-sm font-bold text-emerald-500 dark:text-emerald-400">
                                     {(activePortfolio.totalValue > 0 ? (currentAnnualIncome / activePortfolio.totalValue) * 100 : 0).toFixed(2)}%
                                 </span>
@@ -375,13 +427,14 @@ const DividendsView: React.FC = () => {
                             <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
                                 <Clock className="w-5 h-5 text-brand-500" /> Passive Income Forecaster
                             </h3>
+                            <p className="text-xs text-slate-500 mt-1">Each holding grows at its own dividend growth rate; the default applies where there is no history</p>
                         </div>
                         
                         <div className="flex flex-wrap items-center gap-3 bg-slate-100 dark:bg-slate-950 p-1.5 rounded-lg border border-slate-200 dark:border-slate-800 w-full md:w-auto">
                             <div className="flex items-center gap-2 px-2 w-full sm:w-auto justify-between">
                                 <div className="flex items-center gap-1">
                                     <Sliders className="w-3 h-3 text-slate-400" />
-                                    <span className="text-xs font-bold text-slate-500 uppercase whitespace-nowrap">Growth: {projectedCagr}%</span>
+                                    <span className="text-xs font-bold text-slate-500 uppercase whitespace-nowrap">Default Growth: {projectedCagr}%</span>
                                 </div>
                                 <input 
                                     type="range" 
@@ -394,13 +447,13 @@ const DividendsView: React.FC = () => {
                                 />
                             </div>
                             <div className="hidden sm:block w-px h-6 bg-slate-300 dark:bg-slate-800"></div>
-                            <button 
-                                onClick={() => setReinvestMode(!reinvestMode)}
-                                className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 py-1.5 rounded-md border transition-all text-xs font-bold ${reinvestMode ? 'bg-emerald-100 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/30 text-emerald-600 dark:text-emerald-400' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+                            <div
+                                title="Turn DRIP on or off per holding in the Dividend Growth table"
+                                className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-3 py-1.5 rounded-md border text-xs font-bold ${dripCount > 0 ? 'bg-emerald-100 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/30 text-emerald-600 dark:text-emerald-400' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-500'}`}
                             >
-                                {reinvestMode ? <RefreshCw className="w-3 h-3" /> : <ZapOff className="w-3 h-3" />}
-                                {reinvestMode ? 'DRIP On' : 'DRIP Off'}
-                            </button>
+                                {dripCount > 0 ? <RefreshCw className="w-3 h-3" /> : <ZapOff className="w-3 h-3" />}
+                                DRIP {dripCount}/{profiles.length}
+                            </div>
                         </div>
                      </div>
                      
@@ -409,17 +462,15 @@ const DividendsView: React.FC = () => {
                             <BarChart data={longTermProjectionData}>
                                 <CartesianGrid strokeDasharray="3 3" strokeDashoffset={2} vertical={false} strokeOpacity={0.1} />
                                 <XAxis dataKey="year" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
-                                <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(val) => `$${val/1000}k`} tickLine={false} axisLine={false} />
+                                <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(val) => `${currencySymbol(baseCurrency)}${val/1000}k`} tickLine={false} axisLine={false} />
                                 <RechartsTooltip 
                                     cursor={{ fill: '#1e293b', opacity: 0.5 }}
                                     contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
-                                    formatter={(value: number) => [`$${value.toLocaleString()}`, 'Projected Income']}
+                                    formatter={(value: number, name: string) => [`${formatMoney(value, baseCurrency, 0)} net`, name]}
                                 />
-                                <Bar dataKey="income" fill={recessionMode ? '#ef4444' : '#6366f1'} radius={[4, 4, 0, 0]}>
-                                    {longTermProjectionData.map((entry, index) => (
-                                        <Cell key={`cell-${index}`} fillOpacity={0.5 + (index / longTermProjectionData.length) * 0.5} />
-                                    ))}
-                                </Bar>
+                                <Legend wrapperStyle={{ fontSize: '12px' }} />
+                                <Bar dataKey="reinvested" name="Reinvested (DRIP)" stackId="income" fill={recessionMode ? '#f87171' : '#10b981'} />
+                                <Bar dataKey="cash" name="Taken as Cash" stackId="income" fill={recessionMode ? '#ef4444' : '#6366f1'} radius={[4, 4, 0, 0]} />
                             </BarChart>
                         </ResponsiveContainer>
                      </div>
@@ -464,8 +515,11 @@ const DividendsView: React.FC = () => {
                                         <h4 className="font-bold text-slate-900 dark:text-white text-base md:text-lg">{monthData.name} {monthData.year}</h4>
                                     </div>
                                     <div className="text-right">
-                                        <div className="text-[10px] text-slate-500 uppercase tracking-wider font-bold">Est. Income</div>
-                                        <div className="text-emerald-500 font-bold font-mono text-base md:text-lg">${monthData.totalIncome.toFixed(2)}</div>
+                                        <div className="text-[10px] text-slate-500 uppercase tracking-wider font-bold">Est. Net Income</div>
+                                        <div className="text-emerald-500 font-bold font-mono text-base md:text-lg">{formatMoney(monthData.netIncome, baseCurrency)}</div>
+                                        {monthData.totalIncome - monthData.netIncome > 0.005 && (
+                                            <div className="text-[10px] text-slate-500 font-mono">{formatMoney(monthData.totalIncome, baseCurrency)} gross · {formatMoney(monthData.totalIncome - monthData.netIncome, baseCurrency)} withheld</div>
+                                        )}
                                     </div>
                                 </div>
 
@@ -473,7 +527,7 @@ const DividendsView: React.FC = () => {
                                 <div className="divide-y divide-slate-200 dark:divide-slate-800">
                                     {monthData.payments.map(payment => {
                                         const isCut = recessionMode && payment.safetyScore < 60;
-                                        return <DividendRow key={`${payment.id}-${monthData.name}`} payment={payment} isCut={isCut} />;
+                                        return <DividendRow key={payment.paymentId} payment={payment} isCut={isCut} />;
                                     })}
                                 </div>
                             </div>
@@ -485,7 +539,7 @@ const DividendsView: React.FC = () => {
                         <div className="divide-y divide-slate-200 dark:divide-slate-800">
                             {sortedDividends.map(payment => {
                                 const isCut = recessionMode && payment.safetyScore < 60;
-                                return <DividendRow key={payment.id} payment={payment} isCut={isCut} />;
+                                return <DividendRow key={payment.paymentId} payment={payment} isCut={isCut} />;
                             })}
                         </div>
                     </div>
@@ -494,8 +548,15 @@ const DividendsView: React.FC = () => {
                 {rawDividends.length === 0 && (
                     <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-12 text-center">
                         <Droplets className="w-12 h-12 text-slate-400 dark:text-slate-600 mx-auto mb-4" />
-                        <h3 className="text-lg font-bold text-slate-900 dark:text-white">No Dividends Found</h3>
-                        <p className="text-slate-500 dark:text-slate-400 mt-2">Add dividend-paying stocks to your portfolio to see your income schedule.</p>
+                        <h3 className="text-lg font-bold text-slate-900 dark:text-white">{loadingSchedules ? 'Loading Dividend Schedules...' : 'No Dividends Found'}</h3>
+                        {!loadingSchedules && <p className="text-slate-500 dark:text-slate-400 mt-2">Add dividend-paying stocks to your portfolio to see your income schedule.</p>}
+                    </div>
+                )}
+
+                {!loadingSchedules && unscheduled.length > 0 && (
+                    <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400 bg-amber-100 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/20 rounded-lg p-3">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        No dividend history for {unscheduled.map(h => h.symbol).join(', ')}. Enable a market data provider with dividend data, or record received dividends, to include them in the schedule.
                     </div>
                 )}
             </div>
@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { Landmark } from 'lucide-react';
+import { usePortfolio } from '../context/PortfolioContext';
+import { useAuth } from '../context/AuthContext';
+import { AccountType } from '../types';
+import { CalendarDividend } from './DividendCalendar';
+import { ACCOUNT_TYPES, ForeignTaxSummary, recordedForeignTax, RecordedForeignTax, summarizeWithholding, TAX_RESIDENCES } from '../services/withholdingTax';
+import { formatMoney, transactionsInBase } from '../services/fx';
+
+interface ForeignTaxPanelProps {
+    payments: CalendarDividend[]; // Scheduled payments over the next 12 months
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(rate * 100 % 1 === 0 ? 0 : 2)}%`;
+
+const selectClass = 'bg-white dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-white rounded-lg px-3 py-1.5 text-xs focus:border-brand-500 outline-none cursor-pointer';
+
+// Withholding tax on the coming year's dividends, and what can be reclaimed or credited
+const ForeignTaxPanel: React.FC<ForeignTaxPanelProps> = ({ payments }) => {
+    const { activePortfolio, taxProfile, updateAccountType, baseCurrency, fxRates } = usePortfolio();
+    const { updateTaxResidence } = useAuth();
+    const { residence, accountType } = taxProfile;
+
+    const summary: ForeignTaxSummary = useMemo(
+        () => summarizeWithholding(payments.map(p => ({ holding: p, income: parseFloat(p.amount) })), { residence, accountType }),
+        [payments, residence, accountType]
+    );
+    const recorded: RecordedForeignTax[] = useMemo(
+        () => recordedForeignTax(transactionsInBase(activePortfolio.transactions, baseCurrency, fxRates), activePortfolio.holdings, { residence, accountType }),
+        [activePortfolio.transactions, activePortfolio.holdings, residence, accountType, baseCurrency, fxRates]
+    );
+    const recordedReclaimable = recorded.reduce((sum, r) => sum + r.reclaimable, 0);
+
+    const stats = [
+        { label: 'Gross (12M)', value: summary.gross, style: 'text-slate-900 dark:text-white' },
+        { label: 'Withheld', value: summary.withheld, style: 'text-red-500' },
+        { label: 'Net', value: summary.net, style: 'text-emerald-500' },
+        { label: 'Reclaimable', value: summary.reclaimable, style: 'text-indigo-500' },
+        { label: 'Tax Credit', value: summary.creditable, style: 'text-brand-500' }
+    ];
+
+    return (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-6">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <Landmark className="w-5 h-5 text-brand-500" /> Withholding Tax
+                    </h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400">{ACCOUNT_TYPES.find(a => a.id === accountType)?.description}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select value={residence} onChange={e => updateTaxResidence(e.target.value)} className={selectClass} title="Tax residence">
+                        {TAX_RESIDENCES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                    </select>
+                    <select value={accountType} onChange={e => updateAccountType(e.target.value as AccountType)} className={selectClass} title="Account type">
+                        {ACCOUNT_TYPES.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                {stats.map(s => (
+                    <div key={s.label} className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg p-4">
+                        <div className="text-xs text-slate-500 font-bold uppercase mb-1">{s.label}</div>
+                        <div className={`text-lg font-bold ${s.style}`}>{formatMoney(s.value, baseCurrency)}</div>
+                    </div>
+                ))}
+            </div>
+
+            {summary.byCountry.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead className="text-slate-500 dark:text-slate-400 uppercase text-xs font-semibold border-b border-slate-200 dark:border-slate-800">
+                            <tr>
+                                <th className="py-2 pr-4">Source</th>
+                                <th className="py-2 px-4 text-right">Withheld Rate</th>
+                                <th className="py-2 px-4 text-right">Treaty Rate</th>
+                                <th className="py-2 px-4 text-right">Gross</th>
+                                <th className="py-2 px-4 text-right">Withheld</th>
+                                <th className="py-2 px-4 text-right">Reclaimable</th>
+                                <th className="py-2 pl-4 text-right">Tax Credit</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {summary.byCountry.map(row => (
+                                <tr key={row.country}>
+                                    <td className="py-2 pr-4 font-bold text-slate-900 dark:text-white">{row.country}</td>
+                                    <td className="py-2 px-4 text-right font-mono">{formatRate(row.withheldRate)}</td>
+                                    <td className="py-2 px-4 text-right font-mono">{formatRate(row.treatyRate)}</td>
+                                    <td className="py-2 px-4 text-right font-mono">{formatMoney(row.gross, baseCurrency)}</td>
+                                    <td className="py-2 px-4 text-right font-mono text-red-500">{formatMoney(row.withheld, baseCurrency)}</td>
+                                    <td className="py-2 px-4 text-right font-mono text-indigo-500">{formatMoney(row.reclaimable, baseCurrency)}</td>
+                                    <td className="py-2 pl-4 text-right font-mono">{formatMoney(row.creditable, baseCurrency)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {recorded.length > 0 && (
+                <div className="mt-6">
+                    <div className="text-xs text-slate-500 font-bold uppercase mb-2">
+                        Recorded Foreign Tax · {formatMoney(recordedReclaimable, baseCurrency)} reclaimable above treaty rates
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {recorded.map(r => (
+                            <div key={`${r.year}-${r.country}`} className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-3 py-2 text-xs">
+                                <div className="text-slate-500">{r.year} · {r.country}</div>
+                                <div className="font-mono text-slate-900 dark:text-white">{formatMoney(r.withheld, baseCurrency)} withheld</div>
+                                {r.reclaimable > 0.005 && <div className="font-mono text-indigo-500">{formatMoney(r.reclaimable, baseCurrency)} reclaimable</div>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ForeignTaxPanel;
@@ -0,0 +1,521 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, ArrowLeft, ArrowRight, Briefcase, CheckCircle, Columns, Copy, FileSpreadsheet, Link2, Loader2, Trash2, UploadCloud, X } from 'lucide-react';
+import { usePortfolio } from '../context/PortfolioContext';
+import { readCsvHeaders } from '../services/import/brokerCsv';
+import { detectFileFormat, IMPORT_FILE_EXTENSIONS, parseImportFile } from '../services/import/formats';
+import { buildCustomProfile, deleteCustomProfile, listProfiles, saveCustomProfile } from '../services/import/profiles';
+import { BrokerProfile, DecimalSeparator, ImportDateFormat, ImportField, ImportParseResult, ImportPreview, ImportResult, ImportRowStatus, SkippedRow } from '../services/import/types';
+import { formatMoney } from '../services/fx';
+import { searchSymbolsFromProviders } from '../services/providers/registry';
+import { lookupInstrument, resolveSymbol, saveSymbolOverride } from '../services/symbolResolver';
+
+interface ImportModalProps {
+    onClose: () => void;
+}
+
+// Fields offered on the column-mapping screen, in the order an export usually lists them
+const MAPPABLE_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+    { field: 'date', label: 'Date', required: true },
+    { field: 'action', label: 'Action / Type' },
+    { field: 'symbol', label: 'Symbol' },
+    { field: 'name', label: 'Name' },
+    { field: 'isin', label: 'ISIN' },
+    { field: 'quantity', label: 'Quantity' },
+    { field: 'price', label: 'Price' },
+    { field: 'amount', label: 'Amount' },
+    { field: 'currency', label: 'Currency' },
+    { field: 'fees', label: 'Fees' }
+];
+
+const DATE_FORMATS: { id: ImportDateFormat; label: string }[] = [
+    { id: 'YMD', label: 'Year-Month-Day' },
+    { id: 'DMY', label: 'Day/Month/Year' },
+    { id: 'MDY', label: 'Month/Day/Year' }
+];
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white focus:border-brand-500 outline-none';
+const labelClass = 'block text-xs font-bold text-slate-500 uppercase mb-1.5';
+
+const AUTO_DETECT = 'auto';
+
+// The header each field reads under `profile`, to start the mapping screen from what was detected
+const mappingFromProfile = (profile: BrokerProfile | undefined, headers: string[]): Partial<Record<ImportField, string>> => {
+    const mapping: Partial<Record<ImportField, string>> = {};
+    if (!profile) return mapping;
+    MAPPABLE_FIELDS.forEach(({ field }) => {
+        const header = (profile.columns[field] || []).find(c => headers.includes(c));
+        if (header) mapping[field] = header;
+    });
+    return mapping;
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+    new: { label: 'New', className: 'bg-emerald-500/10 text-emerald-400' },
+    duplicate: { label: 'Already imported', className: 'bg-slate-700/50 text-slate-400' },
+    error: { label: 'Error', className: 'bg-red-500/10 text-red-400' }
+};
+
+const formatShares = (n: number) => (+n.toFixed(6)).toLocaleString();
+
+// Symbols in the file the resolver could not place, each as the file wrote it
+const unrecognisedSymbols = (preview: ImportPreview): string[] => Array.from(new Set(
+    preview.rows.filter(r => r.warnings.length > 0 && r.row.symbol).map(r => r.row.sourceSymbol || r.row.symbol)
+));
+
+// The symbols worth asking the providers about: ISINs, CUSIPs and FIGIs not seen before, and bare tickers with an ISIN that names the listing
+const pendingLookups = (rows: ImportParseResult['transactions']) => {
+    const pending = new Map<string, { isin?: string; name?: string }>();
+    rows.forEach(row => {
+        if (!row.symbol) return;
+        const instrument = resolveSymbol(row.symbol, { isin: row.isin });
+        if (instrument.source === 'unresolved' || (instrument.source === 'parsed' && row.isin)) pending.set(row.symbol, { isin: row.isin, name: row.name });
+    });
+    return pending;
+};
+
+interface ImportReviewProps {
+    preview: ImportPreview;
+    skipped: SkippedRow[];
+    onMapSymbol: (identifier: string, target: string) => boolean;
+}
+
+// Dry run of an import: every parsed row with its status, the rows the file could not read, and the holdings it would change
+const ImportReview: React.FC<ImportReviewProps> = ({ preview, skipped, onMapSymbol }) => {
+    const [targets, setTargets] = useState<Record<string, string>>({});
+    const [invalid, setInvalid] = useState<string[]>([]);
+    const count = (status: ImportRowStatus) => preview.rows.filter(r => r.status === status).length;
+    const warnings = preview.rows.reduce((n, r) => n + r.warnings.length, 0);
+    const unrecognised = unrecognisedSymbols(preview);
+
+    const mapSymbol = (identifier: string) => {
+        const ok = onMapSymbol(identifier, targets[identifier] || '');
+        setInvalid(ok ? invalid.filter(i => i !== identifier) : [...invalid, identifier]);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-4 gap-3">
+                <div className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+                    <div className="text-xs font-bold text-slate-500 uppercase">To Import</div>
+                    <div className="text-xl font-bold text-emerald-400">{count('new')}</div>
+                </div>
+                <div className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+                    <div className="text-xs font-bold text-slate-500 uppercase">Duplicates</div>
+                    <div className="text-xl font-bold text-slate-300">{count('duplicate')}</div>
+                </div>
+                <div className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+                    <div className="text-xs font-bold text-slate-500 uppercase">Errors</div>
+                    <div className="text-xl font-bold text-red-400">{count('error') + skipped.length}</div>
+                </div>
+                <div className="bg-slate-950 border border-slate-800 rounded-lg p-3">
+                    <div className="text-xs font-bold text-slate-500 uppercase">Warnings</div>
+                    <div className="text-xl font-bold text-amber-400">{warnings}</div>
+                </div>
+            </div>
+
+            {count('duplicate') > 0 && (
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <Copy className="w-4 h-4" /> Rows already in this portfolio are recognised by their content and left out, so importing a file twice does not double it.
+                </div>
+            )}
+
+            <div>
+                <div className={labelClass}>Transactions</div>
+                <div className="border border-slate-800 rounded-lg max-h-64 overflow-y-auto">
+                    <table className="w-full text-xs">
+                        <thead className="bg-slate-950 text-slate-500 sticky top-0">
+                            <tr>
+                                <th className="text-left font-medium px-3 py-2">Date</th>
+                                <th className="text-left font-medium px-3 py-2">Type</th>
+                                <th className="text-left font-medium px-3 py-2">Symbol</th>
+                                <th className="text-right font-medium px-3 py-2">Qty</th>
+                                <th className="text-right font-medium px-3 py-2">Price / Amount</th>
+                                <th className="text-left font-medium px-3 py-2">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {preview.rows.map((r, i) => {
+                                const currency = r.row.currency || 'USD';
+                                const isTrade = r.row.shares > 0 && r.row.amount === undefined;
+                                return (
+                                    <tr key={`${r.importId}-${i}`} className={r.status === 'new' ? 'text-slate-200' : 'text-slate-500'}>
+                                        <td className="px-3 py-2 whitespace-nowrap">{r.row.date}</td>
+                                        <td className="px-3 py-2">{r.row.type}</td>
+                                        <td className="px-3 py-2 font-mono">{r.row.symbol || '-'}</td>
+                                        <td className="px-3 py-2 text-right font-mono">{r.row.shares ? formatShares(r.row.shares) : '-'}</td>
+                                        <td className="px-3 py-2 text-right font-mono">
+                                            {isTrade ? formatMoney(r.row.price, currency, 2) : formatMoney(r.row.amount ?? r.row.shares * r.row.price, currency, 2)}
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            <span className={`px-1.5 py-0.5 rounded font-bold ${STATUS_STYLES[r.status].className}`}>{STATUS_STYLES[r.status].label}</span>
+                                            {[...r.errors, ...r.warnings].map(m => (
+                                                <div key={m} className={`mt-1 ${r.errors.includes(m) ? 'text-red-400' : 'text-amber-400'}`}>{m}</div>
+                                            ))}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {unrecognised.length > 0 && (
+                <div>
+                    <div className={labelClass}>Unrecognised Symbols</div>
+                    <p className="text-xs text-slate-500 mb-2">Enter the ticker each one should be, e.g. VUSA.L or LSE:VUSA. The mapping is remembered for later imports and broker syncs.</p>
+                    <div className="space-y-2">
+                        {unrecognised.map(identifier => (
+                            <div key={identifier} className="flex items-center gap-2">
+                                <span className="w-36 shrink-0 font-mono text-xs text-amber-400 truncate" title={identifier}>{identifier}</span>
+                                <input
+                                    value={targets[identifier] || ''}
+                                    onChange={(e) => setTargets({ ...targets, [identifier]: e.target.value })}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') mapSymbol(identifier); }}
+                                    placeholder="Ticker"
+                                    className={`${inputClass} py-1.5 text-xs ${invalid.includes(identifier) ? 'border-red-500' : ''}`}
+                                />
+                                <button onClick={() => mapSymbol(identifier)} disabled={!targets[identifier]} className="px-3 py-1.5 text-xs text-slate-300 hover:text-white border border-slate-700 rounded-lg flex items-center gap-1.5 transition-colors disabled:opacity-50 shrink-0">
+                                    <Link2 className="w-3.5 h-3.5" /> Map
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {skipped.length > 0 && (
+                <div>
+                    <div className={labelClass}>Rows Not Read</div>
+                    <ul className="text-xs text-red-400/80 space-y-0.5 max-h-24 overflow-y-auto">
+                        {skipped.map(s => <li key={s.line}>Line {s.line}: {s.reason}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            <div>
+                <div className={labelClass}>Holdings After Import</div>
+                {preview.changes.length === 0 ? (
+                    <p className="text-xs text-slate-500">No holdings change.</p>
+                ) : (
+                    <div className="border border-slate-800 rounded-lg divide-y divide-slate-800">
+                        {preview.changes.map(c => {
+                            const delta = c.sharesAfter - c.sharesBefore;
+                            return (
+                                <div key={c.symbol} className="flex items-center justify-between px-3 py-2 text-xs">
+                                    <div>
+                                        <span className="font-bold text-white">{c.symbol}</span>
+                                        <span className="text-slate-500 ml-2">{c.name !== c.symbol ? c.name : ''}</span>
+                                    </div>
+                                    <div className="flex items-center gap-3 font-mono">
+                                        <span className="text-slate-400">{formatShares(c.sharesBefore)} → {formatShares(c.sharesAfter)}</span>
+                                        <span className={delta >= 0 ? 'text-emerald-400' : 'text-red-400'}>{delta >= 0 ? '+' : ''}{formatShares(delta)}</span>
+                                        {c.sharesBefore === 0 && <span className="text-brand-400 font-sans font-bold">New</span>}
+                                        {c.sharesAfter === 0 && <span className="text-slate-500 font-sans font-bold">Closed</span>}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Reads a broker CSV with a detected or chosen profile, and lets the user map columns for exports no profile knows
+const ImportModal: React.FC<ImportModalProps> = ({ onClose }) => {
+    const { importPortfolio, previewImport, portfolios, activePortfolioId, marketDataProviders } = usePortfolio();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [targetPortfolio, setTargetPortfolio] = useState(activePortfolioId);
+    const [file, setFile] = useState<File | null>(null);
+    const [text, setText] = useState('');
+    const [profiles, setProfiles] = useState<BrokerProfile[]>(listProfiles());
+    const [profileId, setProfileId] = useState(AUTO_DETECT);
+    const [isMapping, setIsMapping] = useState(false);
+    const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+    const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YMD');
+    const [decimal, setDecimal] = useState<DecimalSeparator>('.');
+    const [mappingName, setMappingName] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const [step, setStep] = useState<'select' | 'review' | 'done'>('select');
+    const [outcome, setOutcome] = useState<ImportResult | null>(null);
+    const [isResolving, setIsResolving] = useState(false);
+    // Bumped when symbol lookups or overrides change how rows resolve
+    const [resolution, setResolution] = useState(0);
+
+    const chosenProfile = profiles.find(p => p.id === profileId);
+    const result: ImportParseResult | null = useMemo(
+        () => (file && text ? parseImportFile(file.name, text, chosenProfile) : null),
+        [file, text, chosenProfile]
+    );
+    const isCsv = !!file && detectFileFormat(file.name, text) === 'csv';
+    const headers: string[] = useMemo(() => (isCsv ? readCsvHeaders(text) : []), [isCsv, text]);
+    const preview: ImportPreview | null = useMemo(
+        () => (step === 'review' && result ? previewImport(result.transactions, targetPortfolio) : null),
+        [step, result, targetPortfolio, resolution]
+    );
+    const toImport = preview ? preview.rows.filter(r => r.status === 'new').map(r => r.row) : [];
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!e.target.files || e.target.files.length === 0) return;
+        const selected = e.target.files[0];
+        setFile(selected);
+        setProfileId(AUTO_DETECT);
+        setIsMapping(false);
+        const reader = new FileReader();
+        reader.onload = (ev) => setText((ev.target?.result as string) || '');
+        reader.readAsText(selected);
+    };
+
+    const openMapping = () => {
+        const source = result?.profile;
+        setMapping(mappingFromProfile(source, headers));
+        setDateFormat(source?.dateFormat || 'YMD');
+        setDecimal(source?.decimal || '.');
+        setMappingName(file ? file.name.replace(/\.[^.]+$/, '') : '');
+        setIsMapping(true);
+    };
+
+    const handleSaveMapping = () => {
+        const profile = buildCustomProfile(mappingName, mapping, dateFormat, decimal);
+        saveCustomProfile(profile);
+        setProfiles(listProfiles());
+        setProfileId(profile.id);
+        setIsMapping(false);
+    };
+
+    const handleDeleteProfile = (id: string) => {
+        deleteCustomProfile(id);
+        setProfiles(listProfiles());
+        setProfileId(AUTO_DETECT);
+    };
+
+    const startReview = async () => {
+        if (!result) return;
+        setStep('review');
+        const pending = pendingLookups(result.transactions);
+        if (pending.size === 0) return;
+        setIsResolving(true);
+        const search = (query: string) => searchSymbolsFromProviders(query, 'stock', marketDataProviders);
+        for (const [symbol, hints] of pending) {
+            await lookupInstrument(symbol, search, hints);
+        }
+        setIsResolving(false);
+        setResolution(n => n + 1);
+    };
+
+    const handleMapSymbol = (identifier: string, target: string) => {
+        if (!saveSymbolOverride(identifier, target)) return false;
+        setResolution(n => n + 1);
+        return true;
+    };
+
+    const handleImport = async () => {
+        if (toImport.length === 0) return;
+        setIsImporting(true);
+        const imported = await importPortfolio(`Imported ${new Date().toLocaleDateString()}`, toImport, targetPortfolio);
+        setIsImporting(false);
+        setOutcome(imported);
+        setStep('done');
+    };
+
+    const customProfiles = profiles.filter(p => p.custom);
+    const canSaveMapping = !!mapping.date && (!!mapping.amount || (!!mapping.symbol && !!mapping.quantity));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh] animate-fade-in-up">
+                <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="bg-brand-600/20 p-2 rounded-lg">
+                            <FileSpreadsheet className="w-6 h-6 text-brand-500" />
+                        </div>
+                        <h3 className="text-xl font-bold text-white">Import Portfolio Data</h3>
+                    </div>
+                    <button onClick={onClose}><X className="w-5 h-5 text-slate-400 hover:text-white" /></button>
+                </div>
+
+                {step === 'done' && outcome ? (
+                    <div className="p-8 flex flex-col items-center text-center gap-3">
+                        <CheckCircle className="w-10 h-10 text-emerald-500" />
+                        <p className="text-white font-bold">Imported {outcome.imported} transaction{outcome.imported === 1 ? '' : 's'}</p>
+                        {outcome.duplicates > 0 && (
+                            <p className="text-sm text-slate-400">{outcome.duplicates} {outcome.duplicates === 1 ? 'was' : 'were'} already in the portfolio and skipped.</p>
+                        )}
+                    </div>
+                ) : step === 'review' && preview && result ? (
+                    <div className="p-8 overflow-y-auto space-y-4">
+                        {isResolving && (
+                            <div className="flex items-center gap-2 text-xs text-slate-400">
+                                <Loader2 className="w-4 h-4 animate-spin" /> Looking up ISINs and broker tickers...
+                            </div>
+                        )}
+                        <ImportReview preview={preview} skipped={result.skipped} onMapSymbol={handleMapSymbol} />
+                    </div>
+                ) : (
+                    <div className="p-8 overflow-y-auto space-y-6">
+                        <div>
+                            <label className={labelClass}>Target Portfolio</label>
+                            <div className="relative">
+                                <Briefcase className="absolute left-3 top-3 w-4 h-4 text-slate-500" />
+                                <select
+                                    value={targetPortfolio}
+                                    onChange={(e) => setTargetPortfolio(e.target.value)}
+                                    className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-white focus:border-brand-500 outline-none appearance-none cursor-pointer"
+                                >
+                                    {portfolios.map(p => (
+                                        <option key={p.id} value={p.id}>{p.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        <input type="file" accept={IMPORT_FILE_EXTENSIONS} className="hidden" ref={fileInputRef} onChange={handleFileChange} />
+                        <div onClick={() => fileInputRef.current?.click()} className={`border-2 border-dashed rounded-xl p-10 flex flex-col items-center justify-center text-center cursor-pointer transition-colors group ${file ? 'border-brand-500 bg-brand-500/5' : 'border-slate-700 hover:border-brand-500 bg-slate-950/50'}`}>
+                            {file ? (
+                                <>
+                                    <FileSpreadsheet className="w-12 h-12 text-brand-500 mb-3" />
+                                    <p className="text-lg font-medium text-white mb-1">{file.name}</p>
+                                    <p className="text-sm text-slate-500">{(file.size / 1024).toFixed(2)} KB</p>
+                                </>
+                        ) : (
+                                <>
+                                    <UploadCloud className="w-16 h-16 text-slate-600 group-hover:text-brand-500 mb-4 transition-colors" />
+                                    <p className="text-lg font-medium text-white mb-2">Drop your CSV, OFX/QFX or QIF file here</p>
+                                    <p className="text-sm text-slate-500 mb-6">or click to browse from your computer</p>
+                                    <span className="px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-medium hover:bg-slate-700 transition-colors">Select File</span>
+                                </>
+                            )}
+                        </div>
+
+                        {text && (
+                            <div className="space-y-4">
+                                {isCsv && (
+                                    <div className="flex items-end gap-3">
+                                        <div className="flex-1">
+                                            <label className={labelClass}>Broker Format</label>
+                                            <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={inputClass}>
+                                                <option value={AUTO_DETECT}>Auto-detect{profileId === AUTO_DETECT && result ? ` (${result.source})` : ''}</option>
+                                                {customProfiles.length > 0 && (
+                                                    <optgroup label="My mappings">
+                                                        {customProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                    </optgroup>
+                                                )}
+                                                <optgroup label="Brokers">
+                                                    {profiles.filter(p => !p.custom).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                                </optgroup>
+                                            </select>
+                                        </div>
+                                        {chosenProfile?.custom && (
+                                            <button onClick={() => handleDeleteProfile(chosenProfile.id)} className="p-2.5 text-slate-500 hover:text-red-400 border border-slate-700 rounded-lg transition-colors" title="Delete this mapping">
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        <button onClick={() => (isMapping ? setIsMapping(false) : openMapping())} className="px-3 py-2.5 text-sm text-slate-300 hover:text-white border border-slate-700 rounded-lg flex items-center gap-2 transition-colors">
+                                            <Columns className="w-4 h-4" /> Map columns
+                                        </button>
+                                    </div>
+                                )}
+
+                                {result && result.transactions.length > 0 ? (
+                                    <div className="flex items-center gap-2 text-sm text-emerald-400">
+                                        <CheckCircle className="w-4 h-4" />
+                                        {result.transactions.length} entries read as {result.source}
+                                        {result.skipped.length > 0 && <span className="text-slate-500">, {result.skipped.length} rows skipped</span>}
+                                    </div>
+                            ) : (
+                                    <div className="flex items-center gap-2 text-sm text-amber-400">
+                                        <AlertCircle className="w-4 h-4" />
+                                        {isCsv ? 'No transactions could be read. Pick your broker or map the columns yourself.' : 'No transactions could be read from this statement.'}
+                                    </div>
+                                )}
+                                {result && result.skipped.length > 0 && (
+                                    <ul className="text-xs text-slate-500 space-y-0.5 max-h-24 overflow-y-auto">
+                                        {result.skipped.slice(0, 20).map(s => <li key={s.line}>Line {s.line}: {s.reason}</li>)}
+                                        {result.skipped.length > 20 && <li>…and {result.skipped.length - 20} more</li>}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+
+                        {isMapping && isCsv && (
+                            <div className="border border-slate-700 rounded-xl p-4 space-y-4 bg-slate-950/50">
+                                <div className="grid grid-cols-2 gap-3">
+                                    {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+                                        <div key={field}>
+                                            <label className={labelClass}>{label}{required ? ' *' : ''}</label>
+                                            <select
+                                                value={mapping[field] || ''}
+                                                onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                                                className={inputClass}
+                                            >
+                                                <option value="">Not in file</option>
+                                                {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div>
+                                        <label className={labelClass}>Date Format</label>
+                                        <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)} className={inputClass}>
+                                            {DATE_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Decimal Mark</label>
+                                        <select value={decimal} onChange={(e) => setDecimal(e.target.value as DecimalSeparator)} className={inputClass}>
+                                            <option value=".">1,234.56</option>
+                                            <option value=",">1.234,56</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Save As</label>
+                                        <input value={mappingName} onChange={(e) => setMappingName(e.target.value)} placeholder="My broker" className={inputClass} />
+                                    </div>
+                                </div>
+                                <div className="flex items-center justify-between">
+                                    <p className="text-xs text-slate-500">Needs a date plus an amount, or a symbol and quantity. Saved mappings are recognised automatically next time.</p>
+                                    <button onClick={handleSaveMapping} disabled={!canSaveMapping} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 shrink-0 ml-3">
+                                        Save mapping
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="text-xs text-slate-500">
+                            Supported formats: CSV exports from Trading 212, Interactive Brokers, Charles Schwab, Fidelity, Degiro, Freetrade, Vanguard and Coinbase (or any CSV with your own column mapping), and OFX/QFX or QIF statements from banks and brokers.
+                        </div>
+                    </div>
+                )}
+
+                <div className="p-6 bg-slate-950 border-t border-slate-800 flex justify-end gap-3">
+                    {step === 'done' ? (
+                        <button onClick={onClose} className="px-6 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-bold transition-colors">Done</button>
+                    ) : step === 'review' ? (
+                        <>
+                            <button onClick={() => setStep('select')} className="px-4 py-2 text-slate-400 hover:text-white transition-colors flex items-center gap-2">
+                                <ArrowLeft className="w-4 h-4" /> Back
+                            </button>
+                            <button onClick={handleImport} disabled={toImport.length === 0 || isImporting || isResolving} className="px-6 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-bold transition-colors disabled:opacity-50 flex items-center gap-2">
+                                {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                                {isImporting ? 'Importing...' : `Import ${toImport.length} Transaction${toImport.length === 1 ? '' : 's'}`}
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <button onClick={onClose} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
+                            <button onClick={startReview} disabled={!result || result.transactions.length === 0} className="px-6 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-bold transition-colors disabled:opacity-50 flex items-center gap-2">
+                                Review Import <ArrowRight className="w-4 h-4" />
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportModal;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Home, Trash2, X } from 'lucide-react';
+import { AreaChart, Area, XAxis, YAxis, Tooltip as RechartsTooltip, ResponsiveContainer } from 'recharts';
+import { usePortfolio } from '../context/PortfolioContext';
+import { ManualAsset, ManualAssetValuation, ValuationModel } from '../types';
+import { defaultValuationModel, valuationSeries, valueOn, VALUATION_MODELS } from '../services/manualAssetValuation';
+import { formatMoney } from '../services/fx';
+
+interface ManualAssetModalProps {
+    asset: ManualAsset;
+    onClose: () => void;
+}
+
+type ModelChoice = ValuationModel['type'] | 'none';
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-white focus:border-brand-500 outline-none';
+const labelClass = 'block text-xs font-bold text-slate-400 uppercase mb-2';
+
+// Revalue a property, vehicle or other manual asset, and set how it is valued between revaluations
+const ManualAssetModal: React.FC<ManualAssetModalProps> = ({ asset, onClose }) => {
+    const { updateManualAsset, deleteManualAsset } = usePortfolio();
+    const currency = asset.currency || 'USD';
+    const initialModel = asset.valuationModel || defaultValuationModel(asset.type);
+
+    const [name, setName] = useState(asset.name);
+    const [newValue, setNewValue] = useState('');
+    const [purchasePrice, setPurchasePrice] = useState(asset.purchasePrice ? String(asset.purchasePrice) : '');
+    const [purchaseDate, setPurchaseDate] = useState(asset.purchaseDate || '');
+    const [valuations, setValuations] = useState<ManualAssetValuation[]>(asset.valuations || []);
+    const [modelChoice, setModelChoice] = useState<ModelChoice>(asset.valuationModel ? asset.valuationModel.type : 'none');
+    const [annualRate, setAnnualRate] = useState(String('annualRate' in initialModel ? initialModel.annualRate : 15));
+    const [usefulLife, setUsefulLife] = useState(String(initialModel.type === 'straight-line' ? initialModel.usefulLifeYears : 10));
+    const [salvageValue, setSalvageValue] = useState(initialModel.type !== 'appreciation' && initialModel.salvageValue ? String(initialModel.salvageValue) : '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const buildModel = (): ValuationModel | undefined => {
+        const salvage = parseFloat(salvageValue) || undefined;
+        switch (modelChoice) {
+            case 'appreciation': return { type: 'appreciation', annualRate: parseFloat(annualRate) || 0 };
+            case 'declining-balance': return { type: 'declining-balance', annualRate: parseFloat(annualRate) || 0, salvageValue: salvage };
+            case 'straight-line': return { type: 'straight-line', usefulLifeYears: parseFloat(usefulLife) || 0, salvageValue: salvage };
+            default: return undefined;
+        }
+    };
+
+    // What the asset would look like with the edits so far, for the preview
+    const preview: ManualAsset = {
+        ...asset,
+        purchasePrice: parseFloat(purchasePrice) || undefined,
+        purchaseDate: purchaseDate || undefined,
+        valuations,
+        value: valuations.length > 0 ? valuations[valuations.length - 1].value : asset.value,
+        valuationModel: buildModel()
+    };
+    const series = valuationSeries(preview);
+    const current = valueOn(preview);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const parsedValue = parseFloat(newValue);
+        await updateManualAsset(asset.id, {
+            name: name.trim() || asset.name,
+            purchasePrice: preview.purchasePrice,
+            purchaseDate: preview.purchaseDate,
+            valuations,
+            valuationModel: preview.valuationModel,
+            ...(parsedValue > 0 ? { value: parsedValue } : {})
+        });
+        setIsSaving(false);
+        onClose();
+    };
+
+    const handleDelete = async () => {
+        await deleteManualAsset(asset.id);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh] animate-fade-in-up">
+                <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                        <Home className="w-5 h-5 text-brand-500" /> {asset.name}
+                    </h3>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-5 overflow-y-auto">
+                    <div className="flex items-end justify-between">
+                        <div>
+                            <div className="text-xs font-bold text-slate-500 uppercase">Estimated Value Today</div>
+                            <div className="text-2xl font-bold text-white">{formatMoney(current, currency, 0)}</div>
+                        </div>
+                        {preview.purchasePrice && (
+                            <div className={`text-sm font-bold ${current >= preview.purchasePrice ? 'text-emerald-400' : 'text-red-400'}`}>
+                                {current >= preview.purchasePrice ? '+' : ''}{formatMoney(current - preview.purchasePrice, currency, 0)} since purchase
+                            </div>
+                        )}
+                    </div>
+
+                    {series.length > 1 && (
+                        <div className="h-32">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <AreaChart data={series}>
+                                    <XAxis dataKey="date" hide />
+                                    <YAxis hide domain={['auto', 'auto']} />
+                                    <RechartsTooltip
+                                        contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', borderRadius: '8px' }}
+                                        formatter={(value: number) => [formatMoney(value, currency, 0), 'Value']}
+                                    />
+                                    <Area type="monotone" dataKey="value" stroke="#6366f1" fill="#6366f1" fillOpacity={0.15} strokeWidth={2} />
+                                </AreaChart>
+                            </ResponsiveContainer>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>Name</label>
+                            <input value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Revalue ({currency})</label>
+                            <input type="number" min="0" step="any" value={newValue} onChange={e => setNewValue(e.target.value)} placeholder={String(Math.round(current))} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>Purchase Price</label>
+                            <input type="number" min="0" step="any" value={purchasePrice} onChange={e => setPurchasePrice(e.target.value)} placeholder="Optional" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Purchase Date</label>
+                            <input type="date" value={purchaseDate} onChange={e => setPurchaseDate(e.target.value)} className={`${inputClass} [color-scheme:dark]`} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Automatic Valuation</label>
+                        <select value={modelChoice} onChange={e => setModelChoice(e.target.value as ModelChoice)} className={inputClass}>
+                            <option value="none">None (only my valuations)</option>
+                            {VALUATION_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                        </select>
+                        {modelChoice !== 'none' && (
+                            <p className="text-xs text-slate-500 mt-2">{VALUATION_MODELS.find(m => m.id === modelChoice)?.description} Applied from the latest valuation.</p>
+                        )}
+                    </div>
+
+                    {modelChoice !== 'none' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            {modelChoice === 'straight-line' ? (
+                                <div>
+                                    <label className={labelClass}>Useful Life (years)</label>
+                                    <input type="number" min="1" step="any" value={usefulLife} onChange={e => setUsefulLife(e.target.value)} className={inputClass} />
+                                </div>
+                            ) : (
+                                <div>
+                                    <label className={labelClass}>{modelChoice === 'appreciation' ? 'Growth % / year' : 'Depreciation % / year'}</label>
+                                    <input type="number" step="0.1" value={annualRate} onChange={e => setAnnualRate(e.target.value)} className={inputClass} />
+                                </div>
+                            )}
+                            {modelChoice !== 'appreciation' && (
+                                <div>
+                                    <label className={labelClass}>Salvage Value</label>
+                                    <input type="number" min="0" step="any" value={salvageValue} onChange={e => setSalvageValue(e.target.value)} placeholder="0" className={inputClass} />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <div>
+                        <div className={labelClass}>Valuation History</div>
+                        {valuations.length === 0 ? (
+                            <p className="text-xs text-slate-500">No valuations recorded yet. Revalue the asset to start its history.</p>
+                        ) : (
+                            <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+                                {[...valuations].reverse().map(v => (
+                                    <div key={v.date} className="flex items-center justify-between px-3 py-2 text-sm">
+                                        <span className="text-slate-400">{v.date}</span>
+                                        <div className="flex items-center gap-3">
+                                            <span className="font-mono text-white">{formatMoney(v.value, currency, 0)}</span>
+                                            <button
+                                                onClick={() => setValuations(valuations.filter(x => x.date !== v.date))}
+                                                className="text-slate-500 hover:text-red-400 transition-colors"
+                                                title="Remove this valuation"
+                                            >
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-6 border-t border-slate-800 flex justify-between gap-3">
+                    <button onClick={handleDelete} className="px-4 py-2 rounded-lg text-sm font-medium text-red-400 hover:bg-red-500/10 border border-red-500/20 transition-colors flex items-center gap-2">
+                        <Trash2 className="w-4 h-4" /> Delete
+                    </button>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700 transition-colors">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="px-4 py-2 rounded-lg text-sm font-bold bg-brand-600 text-white hover:bg-brand-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSaving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ManualAssetModal;
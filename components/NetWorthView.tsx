@@ -1,37 +1,90 @@
-
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { usePortfolio } from '../context/PortfolioContext';
-import { Car, Home, Watch, TrendingUp, DollarSign, Landmark, CreditCard, Percent } from 'lucide-react';
+import { Car, Home, Watch, TrendingUp, TrendingDown, DollarSign, Landmark, CreditCard, Percent, Camera } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, Legend } from 'recharts';
-import { convertToUSD } from '../services/marketData';
+import { formatMoney, currencySymbol } from '../services/fx';
+import { downsample, getPeriodStartDate, loadPortfolioDailyValues, DailyValue, PerformancePeriod, PERFORMANCE_PERIODS } from '../services/performance';
+import { cashAccounts } from '../services/cashLedger';
+import { combineSnapshots, createSnapshot, snapshotHistory, upsertSnapshot } from '../services/netWorthSnapshots';
+import { amortize, balanceOn, isAmortizing, scheduledPayment } from '../services/amortization';
+import { NetWorthSnapshot } from '../types';
+import { describeValuationModel, gainSincePurchase, valueOn } from '../services/manualAssetValuation';
+import AmortizationPanel from './AmortizationPanel';
+import ManualAssetModal from './ManualAssetModal';
+
+type NetWorthScope = 'portfolio' | 'total';
 
 const NetWorthView: React.FC = () => {
-  const { activePortfolio } = usePortfolio();
+  const { activePortfolio, portfolios, marketDataProviders, baseCurrency, fxRates, toBase, cashValue, balanceSheet, netWorthSnapshots, recordNetWorthSnapshot } = usePortfolio();
+  const [period, setPeriod] = useState<PerformancePeriod>('1Y');
+  const [scope, setScope] = useState<NetWorthScope>('portfolio');
+  const [isRecording, setIsRecording] = useState(false);
+  const [editingAssetId, setEditingAssetId] = useState<string | null>(null);
 
   const manualAssets = activePortfolio.manualAssets || [];
   const liabilities = activePortfolio.liabilities || [];
+  const editingAsset = manualAssets.find(a => a.id === editingAssetId);
 
-  // Calculate Totals with Currency Conversion
-  const totalManualAssetsValue = manualAssets.reduce((acc, curr) => {
-      const valInUSD = convertToUSD(curr.value, curr.currency || 'USD');
-      return acc + valInUSD;
-  }, 0);
-
-  const totalAssetsValue = activePortfolio.totalValue + activePortfolio.cashBalance + totalManualAssetsValue;
-  const totalLiabilitiesValue = liabilities.reduce((acc, curr) => acc + curr.amount, 0);
+  const cashByCurrency = Object.entries(cashAccounts(activePortfolio)).sort((a, b) => toBase(b[1], b[0]) - toBase(a[1], a[0]));
+  const totalAssetsValue = balanceSheet.investments + balanceSheet.cash + balanceSheet.manualAssets;
+  const totalLiabilitiesValue = balanceSheet.liabilities;
   const netWorth = totalAssetsValue - totalLiabilitiesValue;
 
-  // Mock Net Worth History Trend
-  // Generating a more detailed historical dataset for the chart
-  const netWorthHistory = [
-      { date: 'Jan', assets: totalAssetsValue * 0.85, liabilities: totalLiabilitiesValue * 1.02, netWorth: (totalAssetsValue * 0.85) - (totalLiabilitiesValue * 1.02) },
-      { date: 'Feb', assets: totalAssetsValue * 0.88, liabilities: totalLiabilitiesValue * 1.01, netWorth: (totalAssetsValue * 0.88) - (totalLiabilitiesValue * 1.01) },
-      { date: 'Mar', assets: totalAssetsValue * 0.90, liabilities: totalLiabilitiesValue * 1.01, netWorth: (totalAssetsValue * 0.90) - (totalLiabilitiesValue * 1.01) },
-      { date: 'Apr', assets: totalAssetsValue * 0.92, liabilities: totalLiabilitiesValue * 1.00, netWorth: (totalAssetsValue * 0.92) - totalLiabilitiesValue },
-      { date: 'May', assets: totalAssetsValue * 0.96, liabilities: totalLiabilitiesValue * 0.99, netWorth: (totalAssetsValue * 0.96) - (totalLiabilitiesValue * 0.99) },
-      { date: 'Jun', assets: totalAssetsValue * 0.98, liabilities: totalLiabilitiesValue * 0.99, netWorth: (totalAssetsValue * 0.98) - (totalLiabilitiesValue * 0.99) },
-      { date: 'Jul', assets: totalAssetsValue, liabilities: totalLiabilitiesValue, netWorth: netWorth },
-  ];
+  // Today's figures at live prices; the user's total combines them with the other portfolios' latest snapshots
+  const current: NetWorthSnapshot | null = useMemo(() => {
+      const live = createSnapshot(balanceSheet, baseCurrency, activePortfolio.id);
+      if (scope === 'portfolio') return live;
+      const ids = Array.from(new Set([...portfolios.map(p => p.id), activePortfolio.id]));
+      return combineSnapshots(upsertSnapshot(netWorthSnapshots, live), ids, baseCurrency, fxRates);
+  }, [scope, balanceSheet.investments, balanceSheet.cash, balanceSheet.manualAssets, balanceSheet.liabilities, baseCurrency, activePortfolio.id, portfolios, netWorthSnapshots, fxRates]);
+
+  const history: NetWorthSnapshot[] = useMemo(
+      () => snapshotHistory(netWorthSnapshots, scope === 'portfolio' ? activePortfolio.id : undefined, period, baseCurrency, fxRates),
+      [netWorthSnapshots, scope, activePortfolio.id, period, baseCurrency, fxRates]
+  );
+
+  // Until a portfolio has a few days of snapshots, its investments are valued from the ledger
+  // against cached daily closes, loans follow their payment schedules and manual assets their
+  // valuation history; cash is held at today's balance
+  const [dailyValues, setDailyValues] = useState<DailyValue[]>([]);
+  const useEstimate = scope === 'portfolio' && history.length < 2;
+
+  useEffect(() => {
+      if (!useEstimate) return;
+      let cancelled = false;
+      loadPortfolioDailyValues(activePortfolio, marketDataProviders, { rates: fxRates, base: baseCurrency }).then(values => {
+          if (!cancelled) setDailyValues(values);
+      });
+      return () => { cancelled = true; };
+  }, [useEstimate, activePortfolio.id, activePortfolio.transactions.length, marketDataProviders, fxRates, baseCurrency]);
+
+  const netWorthHistory: { date: string; assets: number; liabilities: number; netWorth: number }[] = useMemo(() => {
+      const label = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: period === 'ALL' ? '2-digit' : undefined });
+      if (!useEstimate) {
+          return history.map(s => ({ date: label(s.date), assets: s.totalAssets, liabilities: s.liabilities, netWorth: s.netWorth }));
+      }
+      const today = new Date().toISOString().split('T')[0];
+      const start = getPeriodStartDate(period, today, dailyValues[0]?.date || today);
+      const inRange = dailyValues.filter(v => v.date >= start);
+      const points: { date: string; value: number }[] = inRange.length > 0 ? downsample(inRange, 60) : [{ date: today, value: activePortfolio.totalValue }];
+      return points.map(p => {
+          const assets = p.value + cashValue + manualAssets.reduce((sum, a) => sum + toBase(valueOn(a, p.date), a.currency), 0);
+          const owed = liabilities.reduce((sum, l) => sum + toBase(balanceOn(l, p.date)), 0);
+          return { date: label(p.date), assets, liabilities: owed, netWorth: assets - owed };
+      });
+  }, [useEstimate, history, dailyValues, period, cashValue, activePortfolio.totalValue, manualAssets, liabilities, fxRates, baseCurrency]);
+
+  // Change over the selected period, from its first point to today's live figure
+  const periodStartValue = netWorthHistory.length > 0 ? netWorthHistory[0].netWorth : 0;
+  const periodChange = current ? current.netWorth - periodStartValue : 0;
+  const periodChangePct = periodStartValue !== 0 ? (periodChange / Math.abs(periodStartValue)) * 100 : 0;
+  const lastRecorded = netWorthSnapshots.filter(s => scope === 'portfolio' ? s.portfolioId === activePortfolio.id : !s.portfolioId).pop();
+
+  const handleRecordSnapshot = async () => {
+      setIsRecording(true);
+      await recordNetWorthSnapshot();
+      setIsRecording(false);
+  };
 
   const getAssetIcon = (type: string) => {
       switch (type) {
@@ -50,17 +103,69 @@ const NetWorthView: React.FC = () => {
                 <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">Track everything you own and owe in one place.</p>
             </div>
             <div className="text-right">
-                <div className="text-4xl font-bold text-slate-950 dark:text-white">${netWorth.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
-                <div className="text-emerald-500 text-sm font-bold flex items-center justify-end gap-1">
-                    <TrendingUp className="w-4 h-4" /> +12.4% YTD
-                </div>
+                <div className="text-4xl font-bold text-slate-950 dark:text-white">{formatMoney(current ? current.netWorth : netWorth, baseCurrency, 0)}</div>
+                {netWorthHistory.length > 1 && (
+                    <div className={`text-sm font-bold flex items-center justify-end gap-1 ${periodChange >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
+                        {periodChange >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                        {periodChange >= 0 ? '+' : ''}{periodChangePct.toFixed(1)}% {period}
+                    </div>
+                )}
             </div>
         </div>
 
         {/* Historical Trend Chart */}
-        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 h-[350px] shadow-sm">
-            <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Net Worth Trend</h3>
-            <ResponsiveContainer width="100%" height="90%">
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 h-[400px] shadow-sm flex flex-col">
+            <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-white">Net Worth Trend</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {useEstimate
+                            ? 'Estimated from your transactions until daily snapshots build up.'
+                            : lastRecorded
+                                ? `Daily snapshots · last recorded ${new Date(lastRecorded.recordedAt).toLocaleString()}`
+                                : 'A snapshot is recorded each day you open the app.'}
+                    </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex bg-slate-100 dark:bg-slate-950 rounded-lg p-1">
+                        {([['portfolio', 'This Portfolio'], ['total', 'All Portfolios']] as [NetWorthScope, string][]).map(([id, label]) => (
+                            <button
+                                key={id}
+                                onClick={() => setScope(id)}
+                                className={`px-3 py-1 text-xs font-bold rounded-md transition-colors ${scope === id ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex bg-slate-100 dark:bg-slate-950 rounded-lg p-1">
+                        {PERFORMANCE_PERIODS.map(p => (
+                            <button
+                                key={p}
+                                onClick={() => setPeriod(p)}
+                                className={`px-3 py-1 text-xs font-bold rounded-md transition-colors ${period === p ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+                            >
+                                {p}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleRecordSnapshot}
+                        disabled={isRecording}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white transition-colors disabled:opacity-50"
+                        title="Record today's snapshot now"
+                    >
+                        <Camera className="w-3.5 h-3.5" /> {isRecording ? 'Saving...' : 'Snapshot'}
+                    </button>
+                </div>
+            </div>
+            {netWorthHistory.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-sm text-slate-500">
+                    No snapshots in this period yet.
+                </div>
+            ) : (
+            <div className="flex-1 min-h-0">
+            <ResponsiveContainer width="100%" height="100%">
                 <AreaChart data={netWorthHistory} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
                     <defs>
                         <linearGradient id="colorNw" x1="0" y1="0" x2="0" y2="1">
@@ -70,10 +175,10 @@ const NetWorthView: React.FC = () => {
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" strokeDashoffset={2} vertical={false} strokeOpacity={0.1} />
                     <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
-                    <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(val) => `$${val/1000}k`} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(val) => `${currencySymbol(baseCurrency)}${val/1000}k`} tickLine={false} axisLine={false} />
                     <RechartsTooltip 
                         contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
-                        formatter={(value: number) => [`$${Math.round(value).toLocaleString()}`]}
+                        formatter={(value: number) => [formatMoney(value, baseCurrency, 0)]}
                     />
                     <Legend verticalAlign="top" height={36} />
                     <Area type="monotone" name="Assets" dataKey="assets" stroke="#10b981" strokeWidth={2} fillOpacity={0} dot={false} />
@@ -81,6 +186,8 @@ const NetWorthView: React.FC = () => {
                     <Area type="monotone" name="Net Worth" dataKey="netWorth" stroke="#6366f1" fillOpacity={1} fill="url(#colorNw)" strokeWidth={3} />
                 </AreaChart>
             </ResponsiveContainer>
+            </div>
+            )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -89,7 +196,7 @@ const NetWorthView: React.FC = () => {
             <div className="space-y-4">
                 <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2 border-b border-slate-200 dark:border-slate-800 pb-2">
                     <TrendingUp className="w-5 h-5 text-emerald-500" /> Assets
-                    <span className="ml-auto text-emerald-500">${totalAssetsValue.toLocaleString()}</span>
+                    <span className="ml-auto text-emerald-500">{formatMoney(totalAssetsValue, baseCurrency)}</span>
                 </h2>
 
                 {/* Liquid Assets Group */}
@@ -103,16 +210,23 @@ const NetWorthView: React.FC = () => {
                                  </div>
                                  <span className="font-bold text-slate-900 dark:text-white">Stock Portfolio</span>
                              </div>
-                             <div className="font-bold text-slate-900 dark:text-white">${activePortfolio.totalValue.toLocaleString()}</div>
+                             <div className="font-bold text-slate-900 dark:text-white">{formatMoney(activePortfolio.totalValue, baseCurrency)}</div>
                          </div>
                          <div className="flex items-center justify-between p-4 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
                              <div className="flex items-center gap-3">
                                  <div className="w-8 h-8 rounded-lg bg-emerald-100 dark:bg-emerald-500/10 flex items-center justify-center text-emerald-600 dark:text-emerald-400">
                                      <DollarSign className="w-4 h-4" />
                                  </div>
-                                 <span className="font-bold text-slate-900 dark:text-white">Cash</span>
+                                 <div>
+                                     <div className="font-bold text-slate-900 dark:text-white">Cash</div>
+                                     {(cashByCurrency.length > 1 || cashByCurrency.some(([currency]) => currency !== baseCurrency)) && (
+                                         <div className="text-xs text-slate-500">
+                                             {cashByCurrency.map(([currency, amount]) => formatMoney(amount, currency)).join(' · ')}
+                                         </div>
+                                     )}
+                                 </div>
                              </div>
-                             <div className="font-bold text-slate-900 dark:text-white">${activePortfolio.cashBalance.toLocaleString()}</div>
+                             <div className="font-bold text-slate-900 dark:text-white">{formatMoney(cashValue, baseCurrency)}</div>
                          </div>
                     </div>
                 </div>
@@ -124,9 +238,11 @@ const NetWorthView: React.FC = () => {
                     </div>
                     <div className="divide-y divide-slate-200 dark:divide-slate-800">
                         {manualAssets.map(asset => {
-                             const valInUSD = convertToUSD(asset.value, asset.currency || 'USD');
+                             const value = valueOn(asset);
+                             const valInBase = toBase(value, asset.currency);
+                             const gain = gainSincePurchase(asset);
                              return (
-                                 <div key={asset.id} className="flex items-center justify-between p-4 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group cursor-pointer">
+                                 <div key={asset.id} onClick={() => setEditingAssetId(asset.id)} className="flex items-center justify-between p-4 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group cursor-pointer">
                                     <div className="flex items-center gap-3">
                                         <div className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 flex items-center justify-center group-hover:border-brand-500/50 transition-colors">
                                             {getAssetIcon(asset.type)}
@@ -134,16 +250,23 @@ const NetWorthView: React.FC = () => {
                                         <div>
                                             <div className="font-bold text-slate-900 dark:text-white">{asset.name}</div>
                                             <div className="text-xs text-slate-500 flex items-center gap-1">
-                                                {asset.purchasePrice && <span>Bot: ${asset.purchasePrice.toLocaleString()}</span>}
+                                                {asset.purchasePrice && <span>Bot: {formatMoney(asset.purchasePrice, asset.currency || 'USD', 0)}</span>}
                                                 {asset.purchaseDate && <span>• {asset.purchaseDate}</span>}
-                                                {asset.currency && asset.currency !== 'USD' && <span className="bg-slate-100 dark:bg-slate-800 px-1 rounded text-[10px]">{asset.currency}</span>}
+                                                {asset.currency && asset.currency !== baseCurrency && <span className="bg-slate-100 dark:bg-slate-800 px-1 rounded text-[10px]">{asset.currency}</span>}
+                                                {asset.valuationModel && <span className="bg-slate-100 dark:bg-slate-800 px-1 rounded text-[10px]">{describeValuationModel(asset.valuationModel)}</span>}
                                             </div>
                                         </div>
                                     </div>
                                     <div className="text-right">
-                                        <div className="font-bold text-slate-900 dark:text-white">${valInUSD.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
-                                        {asset.currency && asset.currency !== 'USD' && (
-                                            <div className="text-xs text-slate-500">{asset.value.toLocaleString()} {asset.currency}</div>
+                                        <div className="font-bold text-slate-900 dark:text-white">{formatMoney(valInBase, baseCurrency, 0)}</div>
+                                        {asset.currency && asset.currency !== baseCurrency && (
+                                            <div className="text-xs text-slate-500">{Math.round(value).toLocaleString()} {asset.currency}</div>
+                                        )}
+                                        {gain && (
+                                            <div className={`text-xs font-medium ${gain.gain >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
+                                                {gain.gain >= 0 ? '+' : ''}{formatMoney(toBase(gain.gain, asset.currency), baseCurrency, 0)} ({gain.gainPct >= 0 ? '+' : ''}{gain.gainPct.toFixed(1)}%)
+                                                {gain.annualizedPct !== null && <span className="text-slate-500"> · {gain.annualizedPct.toFixed(1)}%/yr</span>}
+                                            </div>
                                         )}
                                     </div>
                                 </div>
@@ -160,7 +283,7 @@ const NetWorthView: React.FC = () => {
             <div className="space-y-4">
                 <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2 border-b border-slate-200 dark:border-slate-800 pb-2">
                     <CreditCard className="w-5 h-5 text-red-500" /> Liabilities
-                    <span className="ml-auto text-red-500">-${totalLiabilitiesValue.toLocaleString()}</span>
+                    <span className="ml-auto text-red-500">{formatMoney(-totalLiabilitiesValue, baseCurrency)}</span>
                 </h2>
 
                 <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden shadow-sm">
@@ -168,7 +291,9 @@ const NetWorthView: React.FC = () => {
                         <span>Loans & Debt</span>
                     </div>
                     <div className="divide-y divide-slate-200 dark:divide-slate-800">
-                        {liabilities.map(liab => (
+                        {liabilities.map(liab => {
+                            const payoffDate = isAmortizing(liab) ? amortize(liab).payoffDate : null;
+                            return (
                             <div key={liab.id} className="flex items-center justify-between p-4 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group cursor-pointer">
                                 <div className="flex items-center gap-3">
                                     <div className="w-8 h-8 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-500/20 flex items-center justify-center">
@@ -176,12 +301,16 @@ const NetWorthView: React.FC = () => {
                                     </div>
                                     <div>
                                         <div className="font-bold text-slate-900 dark:text-white">{liab.name}</div>
-                                        <div className="text-xs text-slate-500">{liab.interestRate}% APR • ${liab.monthlyPayment}/mo</div>
+                                        <div className="text-xs text-slate-500">
+                                            {liab.interestRate}% APR • {formatMoney(toBase(scheduledPayment(liab)), baseCurrency, 0)}/mo
+                                            {payoffDate && <span> • Paid off {new Date(`${payoffDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}</span>}
+                                        </div>
                                     </div>
                                 </div>
-                                <div className="font-bold text-slate-900 dark:text-white">-${liab.amount.toLocaleString()}</div>
+                                <div className="font-bold text-slate-900 dark:text-white">{formatMoney(-toBase(balanceOn(liab)), baseCurrency)}</div>
                             </div>
-                        ))}
+                            );
+                        })}
                          {liabilities.length === 0 && (
                             <div className="p-6 text-center text-slate-500 text-sm">
                                 Debt free! Add a mortgage or loan to track it.
@@ -203,6 +332,10 @@ const NetWorthView: React.FC = () => {
             </div>
 
         </div>
+
+        <AmortizationPanel />
+
+        {editingAsset && <ManualAssetModal asset={editingAsset} onClose={() => setEditingAssetId(null)} />}
     </div>
   );
 };
@@ -2,10 +2,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, AreaChart, Area, XAxis, YAxis, CartesianGrid, LineChart, Line, ComposedChart, Legend, Treemap } from 'recharts';
 import { usePortfolio } from '../context/PortfolioContext';
-import { PieChart as PieIcon, List, Layers, Globe, Download, Map as MapIcon, History, TrendingUp, Scale, AlertCircle, RefreshCcw, LayoutGrid, CheckCircle2, AlertTriangle, ArrowUpRight, ArrowDownRight, Home, Car, Watch, DollarSign, ArrowUp, ArrowDown, ArrowUpDown, Plus, Pencil, Trash2, X, Save } from 'lucide-react';
+import { PieChart as PieIcon, List, Layers, Globe, Download, Map as MapIcon, History, TrendingUp, Scale, AlertCircle, RefreshCcw, LayoutGrid, CheckCircle2, AlertTriangle, ArrowUpRight, ArrowDownRight, Home, Car, Watch, DollarSign, ArrowUp, ArrowDown, ArrowUpDown, Plus, Pencil, Trash2, X, Save, FileText, Check, Undo2 } from 'lucide-react';
 import SnowflakeChart from './SnowflakeChart';
-import { Holding } from '../types';
-import { convertToUSD } from '../services/marketData';
+import PriceBadge from './PriceBadge';
+import TaxLotsPanel from './TaxLotsPanel';
+import TaxReportModal from './TaxReportModal';
+import CorporateActionsPanel from './CorporateActionsPanel';
+import CashTransactionModal from './CashTransactionModal';
+import { Holding, Transaction, TransactionType } from '../types';
+import { cashImpact, cashTransactionLabel, isCashTransaction } from '../services/cashLedger';
+import { currencyReturn, CurrencyReturn, currencySymbol, formatMoney } from '../services/fx';
+import { computePeriodPerformance, downsample, loadBenchmarkHistory, loadPortfolioDailyValues, simulateBenchmarkValues, DailyValue, PerformancePeriod, PeriodPerformance, PERFORMANCE_PERIODS } from '../services/performance';
+import { PricePoint } from '../services/marketData';
 
 const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
@@ -76,9 +84,30 @@ const CustomizedContent = (props: any) => {
     );
 };
 
+// Asset column of the transactions table; conversions show the currency pair instead of a symbol
+const transactionAsset = (tx: Transaction): string => {
+  if (tx.type === 'FX_CONVERSION') return `${tx.currency || '?'} → ${tx.toCurrency || '?'}`;
+  return tx.symbol || (isCashTransaction(tx) ? 'Cash' : '');
+};
+
+// Inline edit of a transactions table row, as typed
+interface TransactionDraft {
+  date: string;
+  type: TransactionType;
+  symbol: string;
+  shares: string;
+  price: string;
+  amount: string;
+}
+
+// The last edit or delete in the transactions table, kept so it can be undone
+type LedgerChange = { kind: 'update'; before: Transaction } | { kind: 'delete'; transaction: Transaction };
+
+const txInputClass = 'w-full bg-white dark:bg-slate-950 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-white rounded-md px-2 py-1 text-sm focus:border-brand-500 outline-none';
+
 const PortfolioView: React.FC = () => {
-  const { activePortfolio, viewStock, openAddAssetModal, updateHolding, deleteHolding } = usePortfolio();
-  const [viewMode, setViewMode] = useState<'allocation' | 'holdings' | 'transactions' | 'performance' | 'rebalancing'>('allocation');
+  const { activePortfolio, viewStock, openAddAssetModal, updateHolding, deleteHolding, updateTransaction, deleteTransaction, restoreTransaction, marketDataProviders, baseCurrency, fxRates, toBase, holdingValue, cashValue } = usePortfolio();
+  const [viewMode, setViewMode] = useState<'allocation' | 'holdings' | 'transactions' | 'performance' | 'rebalancing' | 'lots'>('allocation');
   const [holdingViewType, setHoldingViewType] = useState<'list' | 'cards'>('cards');
   
   // Sorting State
@@ -89,6 +118,20 @@ const PortfolioView: React.FC = () => {
   const [editShares, setEditShares] = useState<string>('');
   const [editAvgPrice, setEditAvgPrice] = useState<string>('');
 
+  // Transaction Edit State
+  const [editingTxId, setEditingTxId] = useState<string | null>(null);
+  const [txDraft, setTxDraft] = useState<TransactionDraft>({ date: '', type: 'BUY', symbol: '', shares: '', price: '', amount: '' });
+  const [lastLedgerChange, setLastLedgerChange] = useState<LedgerChange | null>(null);
+
+  // Tax Report State
+  const [showTaxReport, setShowTaxReport] = useState(false);
+  const [showCashModal, setShowCashModal] = useState(false);
+
+  // Performance State
+  const [performancePeriod, setPerformancePeriod] = useState<PerformancePeriod>('1Y');
+  const [dailyValues, setDailyValues] = useState<DailyValue[]>([]);
+  const [sp500History, setSp500History] = useState<PricePoint[]>([]);
+
   // Rebalancing State
   const [localTargets, setLocalTargets] = useState<Record<string, number>>({});
   const [totalTarget, setTotalTarget] = useState(0);
@@ -127,6 +170,18 @@ const PortfolioView: React.FC = () => {
       setSortConfig({ key, direction });
   };
 
+  // Gain in the base currency, split into the local price move and the exchange rate move
+  const holdingReturns: Record<string, CurrencyReturn> = useMemo(() => {
+      const byId: Record<string, CurrencyReturn> = {};
+      holdings.forEach(h => { byId[h.id] = currencyReturn(h, transactions, fxRates, baseCurrency); });
+      return byId;
+  }, [holdings, transactions, fxRates, baseCurrency]);
+  const portfolioReturn = Object.values(holdingReturns).reduce(
+      (acc, r) => ({ price: acc.price + r.priceReturn, fx: acc.fx + r.currencyReturn, cost: acc.cost + r.costBase }),
+      { price: 0, fx: 0, cost: 0 }
+  );
+  const portfolioReturnPct = portfolioReturn.cost > 0 ? ((portfolioReturn.price + portfolioReturn.fx) / portfolioReturn.cost) * 100 : 0;
+
   const sortedHoldings = useMemo(() => {
       if (!sortConfig) return holdings;
       
@@ -136,11 +191,11 @@ const PortfolioView: React.FC = () => {
 
           // Handle computed fields that aren't direct properties
           if (sortConfig.key === 'value') {
-              aValue = (a.shares || 0) * (a.currentPrice || 0);
-              bValue = (b.shares || 0) * (b.currentPrice || 0);
+              aValue = holdingValue(a);
+              bValue = holdingValue(b);
           } else if (sortConfig.key === 'return') {
-              aValue = ((a.shares || 0) * (a.currentPrice || 0)) - ((a.shares || 0) * (a.avgPrice || 0));
-              bValue = ((b.shares || 0) * (b.currentPrice || 0)) - ((b.shares || 0) * (b.avgPrice || 0));
+              aValue = holdingReturns[a.id]?.totalReturn || 0;
+              bValue = holdingReturns[b.id]?.totalReturn || 0;
           } else if (sortConfig.key === 'snowflake') {
               aValue = a.snowflake?.total || 0;
               bValue = b.snowflake?.total || 0;
@@ -161,7 +216,7 @@ const PortfolioView: React.FC = () => {
           if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
           return 0;
       });
-  }, [holdings, sortConfig]);
+  }, [holdings, sortConfig, holdingReturns]);
 
   const SortIcon = ({ columnKey }: { columnKey: string }) => {
       if (sortConfig?.key !== columnKey) return <ArrowUpDown className="w-3 h-3 text-slate-400" />;
@@ -181,7 +236,7 @@ const PortfolioView: React.FC = () => {
     const acc = { value: 0, future: 0, past: 0, health: 0, dividend: 0, total: 0 };
     
     activePortfolio.holdings.forEach(h => {
-        const val = (h.shares || 0) * (h.currentPrice || 0);
+        const val = holdingValue(h);
         // Ensure we don't divide by zero
         const weight = (val > 0 && activePortfolio.totalValue > 0) ? val / activePortfolio.totalValue : 0;
         const sf = h.snowflake || { value: 0, future: 0, past: 0, health: 0, dividend: 0, total: 0 };
@@ -212,7 +267,7 @@ const PortfolioView: React.FC = () => {
   const countryDataMap = new Map<string, number>();
 
   holdings.forEach(h => {
-      const val = (h.shares || 0) * (h.currentPrice || 0);
+      const val = holdingValue(h);
       if (isNaN(val) || val <= 0) return;
 
       const sector = h.sector || 'Unknown';
@@ -245,44 +300,44 @@ const PortfolioView: React.FC = () => {
       }))
       .sort((a,b) => b.size - a.size);
 
-  // Generate Mock Performance Data with Benchmark (1 Year / 365 Days)
-  const generateChartData = () => {
-      const data = [];
-      // Simulate starting from 1 year ago
-      let currentVal = activePortfolio && activePortfolio.totalValue > 0 ? activePortfolio.totalValue * 0.82 : 10000; 
-      let currentBench = activePortfolio && activePortfolio.totalValue > 0 ? activePortfolio.totalValue * 0.88 : 10000;
-      
-      for(let i=0; i<365; i++) {
-          const date = new Date();
-          date.setDate(date.getDate() - (365 - i));
-          const dateStr = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-          
-          // Daily movement simulation
-          const move = 1 + (Math.random() * 0.03 - 0.014); 
-          const benchMove = 1 + (Math.random() * 0.02 - 0.0095); 
-          
-          currentVal = currentVal * move;
-          currentBench = currentBench * benchMove;
-          
-          if (i > 350 && activePortfolio && activePortfolio.totalValue > 0) {
-              currentVal = currentVal + (activePortfolio.totalValue - currentVal) / (365 - i);
+  // Performance history replayed from the transaction ledger (only loaded when the tab is open)
+  useEffect(() => {
+      if (viewMode !== 'performance') return;
+      let cancelled = false;
+      (async () => {
+          const values = await loadPortfolioDailyValues(activePortfolio, marketDataProviders, { rates: fxRates, base: baseCurrency });
+          const benchmarks = values.length > 0 ? await loadBenchmarkHistory(values[0].date, marketDataProviders) : null;
+          if (!cancelled) {
+              setDailyValues(values);
+              // The benchmark is bought with the same base-currency flows, so it is valued in the base currency too
+              setSp500History((benchmarks?.sp500 || []).map(p => ({ date: p.date, close: toBase(p.close, 'USD', p.date) })));
           }
+      })();
+      return () => { cancelled = true; };
+  }, [viewMode, activePortfolio.id, transactions.length, marketDataProviders, fxRates, baseCurrency]);
 
-          data.push({
-              date: dateStr,
-              value: Math.round(currentVal),
-              benchmark: Math.round(currentBench)
-          });
-      }
-      return data;
-  };
-  
-  const chartData = generateChartData();
+  const periodPerformance: PeriodPerformance | null = useMemo(
+      () => computePeriodPerformance(dailyValues, performancePeriod),
+      [dailyValues, performancePeriod]
+  );
+
+  const chartData = useMemo(() => {
+      if (!periodPerformance) return [];
+      // Benchmark shadow portfolio starts with the period's opening value and follows the same flows
+      const seeded = periodPerformance.series.map((p, i) => ({ date: p.date, netFlow: i === 0 ? p.netFlow + periodPerformance.startValue : p.netFlow }));
+      const benchmark = simulateBenchmarkValues(seeded, sp500History);
+      const rows = periodPerformance.series.map((p, i) => ({
+          date: new Date(p.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' }),
+          value: Math.round(p.value),
+          benchmark: benchmark[i] === null ? null : Math.round(benchmark[i] as number)
+      }));
+      return downsample(rows, 180);
+  }, [periodPerformance, sp500History]);
 
   const handleExport = () => {
-      const headers = ['Symbol,Name,Shares,AvgPrice,CurrentPrice,Value,Sector,Country'];
+      const headers = [`Symbol,Name,Shares,Currency,AvgPrice,CurrentPrice,Value,Value (${baseCurrency}),Sector,Country`];
       const rows = holdings.map(h => 
-        `${h.symbol},"${h.name}",${h.shares},${h.avgPrice},${h.currentPrice},${h.shares * h.currentPrice},${h.sector},${h.country}`
+        `${h.symbol},"${h.name}",${h.shares},${h.currency || 'USD'},${h.avgPrice},${h.currentPrice},${h.shares * h.currentPrice},${holdingValue(h)},${h.sector},${h.country}`
       );
       const csvContent = "data:text/csv;charset=utf-8," + [headers, ...rows].join("\n");
       const encodedUri = encodeURI(csvContent);
@@ -321,6 +376,58 @@ const PortfolioView: React.FC = () => {
       }
   };
 
+  // Transaction Edit Helpers
+  const startTxEdit = (tx: Transaction) => {
+      setEditingTxId(tx.id);
+      setTxDraft({
+          date: tx.date.split('T')[0],
+          type: tx.type,
+          symbol: tx.symbol,
+          shares: String(tx.shares),
+          price: String(tx.price),
+          amount: String(tx.totalValue)
+      });
+  };
+
+  const saveTxEdit = async (tx: Transaction) => {
+      const updates: Partial<Omit<Transaction, 'id'>> = { date: txDraft.date || tx.date, type: txDraft.type, symbol: txDraft.symbol.trim() };
+      if (isCashTransaction(tx)) {
+          const amount = Math.abs(parseFloat(txDraft.amount));
+          if (!(amount > 0)) return;
+          updates.totalValue = amount;
+      } else {
+          const shares = parseFloat(txDraft.shares);
+          const price = parseFloat(txDraft.price);
+          // ADJUST entries carry signed share counts
+          if (isNaN(shares) || shares === 0 || (tx.type !== 'ADJUST' && shares < 0) || isNaN(price) || price < 0) return;
+          updates.shares = shares;
+          updates.price = price;
+          // A recorded total may include fees, so it is only recalculated when the trade itself changed
+          if (shares !== tx.shares || price !== tx.price) updates.totalValue = shares * price;
+      }
+      setEditingTxId(null);
+      setLastLedgerChange({ kind: 'update', before: tx });
+      await updateTransaction(tx.id, updates);
+  };
+
+  const removeTransaction = async (tx: Transaction) => {
+      if (editingTxId === tx.id) setEditingTxId(null);
+      const removed = await deleteTransaction(tx.id);
+      if (removed) setLastLedgerChange({ kind: 'delete', transaction: removed });
+  };
+
+  const undoLedgerChange = async () => {
+      if (!lastLedgerChange) return;
+      const change = lastLedgerChange;
+      setLastLedgerChange(null);
+      if (change.kind === 'update') {
+          const { id, ...fields } = change.before;
+          await updateTransaction(id, fields);
+      } else {
+          await restoreTransaction(change.transaction);
+      }
+  };
+
   const handleDelete = (e: React.MouseEvent, id: string) => {
       e.stopPropagation();
       deleteHolding(id);
@@ -385,6 +492,12 @@ const PortfolioView: React.FC = () => {
             >
                 <Download className="w-4 h-4" /> Export
             </button>
+            <button 
+                onClick={() => setShowTaxReport(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 transition-colors shadow-sm"
+            >
+                <FileText className="w-4 h-4" /> Tax Report
+            </button>
             <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg border border-slate-200 dark:border-slate-800 overflow-x-auto">
                 <button 
                     onClick={() => setViewMode('allocation')}
@@ -416,6 +529,12 @@ const PortfolioView: React.FC = () => {
                 >
                     <List className="w-4 h-4" /> History
                 </button>
+                <button 
+                    onClick={() => setViewMode('lots')}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-colors whitespace-nowrap ${viewMode === 'lots' ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
+                >
+                    <Layers className="w-4 h-4" /> Tax Lots
+                </button>
             </div>
         </div>
       </div>
@@ -448,7 +567,7 @@ const PortfolioView: React.FC = () => {
                                 </Pie>
                                 <RechartsTooltip 
                                     contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
-                                    formatter={(value: number) => [`$${value.toLocaleString()}`, 'Value']}
+                                    formatter={(value: number) => [formatMoney(value, baseCurrency), 'Value']}
                                 />
                             </PieChart>
                         </ResponsiveContainer>
@@ -490,7 +609,7 @@ const PortfolioView: React.FC = () => {
                                 </Pie>
                                 <RechartsTooltip 
                                     contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
-                                    formatter={(value: number) => [`$${value.toLocaleString()}`, 'Value']}
+                                    formatter={(value: number) => [formatMoney(value, baseCurrency), 'Value']}
                                 />
                             </PieChart>
                         </ResponsiveContainer>
@@ -532,7 +651,7 @@ const PortfolioView: React.FC = () => {
                                 </Pie>
                                 <RechartsTooltip 
                                     contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
-                                    formatter={(value: number) => [`$${value.toLocaleString()}`, 'Value']}
+                                    formatter={(value: number) => [formatMoney(value, baseCurrency), 'Value']}
                                 />
                             </PieChart>
                         </ResponsiveContainer>
@@ -568,7 +687,7 @@ const PortfolioView: React.FC = () => {
                             >
                                 <RechartsTooltip 
                                     contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
-                                    formatter={(value: number) => [`$${value.toLocaleString()}`]}
+                                    formatter={(value: number) => [formatMoney(value, baseCurrency)]}
                                 />
                             </Treemap>
                         </ResponsiveContainer>
@@ -591,11 +710,34 @@ const PortfolioView: React.FC = () => {
                         <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
                             <TrendingUp className="w-5 h-5 text-emerald-500" /> Performance History
                         </h3>
-                        <p className="text-sm text-slate-500 dark:text-slate-400">Comparison against S&P 500 Benchmark (1 Year)</p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">Rebuilt from your transactions, compared against the same contributions into the S&P 500</p>
+                        <div className="flex gap-1 mt-3 bg-slate-100 dark:bg-slate-950 p-1 rounded-lg border border-slate-200 dark:border-slate-800 w-fit">
+                            {PERFORMANCE_PERIODS.map(period => (
+                                <button
+                                    key={period}
+                                    onClick={() => setPerformancePeriod(period)}
+                                    className={`px-3 py-1 text-xs font-bold rounded-md transition-colors ${performancePeriod === period ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+                                >
+                                    {period}
+                                </button>
+                            ))}
+                        </div>
                     </div>
                     <div className="text-right">
-                        <div className="text-2xl font-bold text-slate-900 dark:text-white">${activePortfolio.totalValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
-                        <div className="text-sm text-emerald-500 font-medium">+24.5% Past Year</div>
+                        <div className="text-2xl font-bold text-slate-900 dark:text-white">{formatMoney(activePortfolio.totalValue, baseCurrency, 0)}</div>
+                        {periodPerformance ? (
+                            <>
+                                <div className={`text-sm font-medium ${periodPerformance.twr >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
+                                    {periodPerformance.twr >= 0 ? '+' : ''}{periodPerformance.twr.toFixed(2)}% TWR ({performancePeriod})
+                                </div>
+                                <div className="text-xs text-slate-500">
+                                    MWR {periodPerformance.mwr === null ? 'n/a' : `${periodPerformance.mwr.toFixed(2)}% p.a.`} · Gain {formatMoney(periodPerformance.gain, baseCurrency, 0)}
+                                    {periodPerformance.income !== 0 && ` (income ${formatMoney(periodPerformance.income, baseCurrency, 0)})`}
+                                </div>
+                            </>
+                        ) : (
+                            <div className="text-sm text-slate-500">No transaction history</div>
+                        )}
                     </div>
                </div>
                <div className="h-[400px]">
@@ -613,21 +755,21 @@ const PortfolioView: React.FC = () => {
                                 domain={['auto', 'auto']} 
                                 stroke="#94a3b8" 
                                 fontSize={12} 
-                                tickFormatter={(val) => `$${val/1000}k`} 
+                                tickFormatter={(val) => `${currencySymbol(baseCurrency)}${val/1000}k`} 
                                 tickLine={false} 
                                 axisLine={false} 
                             />
                             <RechartsTooltip 
                                 contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', borderRadius: '8px' }}
                                 formatter={(value: number, name: string) => [
-                                    `$${value.toLocaleString()}`, 
+                                    formatMoney(value, baseCurrency), 
                                     name === 'value' ? 'My Portfolio' : 'S&P 500 Benchmark'
                                 ]}
                                 labelFormatter={(label) => label}
                             />
                             <Legend verticalAlign="top" height={36} iconType="circle" />
                             <Area type="monotone" dataKey="value" name="My Portfolio" stroke="#10b981" fillOpacity={1} fill="url(#colorEquity)" strokeWidth={2} />
-                            <Line type="monotone" dataKey="benchmark" name="S&P 500 Benchmark" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                            <Line type="monotone" dataKey="benchmark" name="S&P 500 Benchmark" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls />
                         </ComposedChart>
                     </ResponsiveContainer>
                </div>
@@ -674,7 +816,7 @@ const PortfolioView: React.FC = () => {
                       </thead>
                       <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
                           {holdings.map((h) => {
-                              const value = (h.shares || 0) * (h.currentPrice || 0);
+                              const value = holdingValue(h);
                               const actualPct = activePortfolio.totalValue > 0 ? (value / activePortfolio.totalValue) * 100 : 0;
                               const targetPct = localTargets[h.id] || 0;
                               const drift = actualPct - targetPct;
@@ -692,7 +834,7 @@ const PortfolioView: React.FC = () => {
                                               <div className="text-xs text-slate-500 font-normal">{h.assetType}</div>
                                           </div>
                                       </td>
-                                      <td className="px-6 py-4 text-right text-slate-700 dark:text-slate-300">${h.currentPrice.toLocaleString()}</td>
+                                      <td className="px-6 py-4 text-right text-slate-700 dark:text-slate-300">{formatMoney(h.currentPrice, h.currency || 'USD')}</td>
                                       <td className="px-6 py-4 text-right text-slate-700 dark:text-slate-200 font-medium">{actualPct.toFixed(1)}%</td>
                                       <td className="px-6 py-4 text-right">
                                           <div className="flex items-center justify-end gap-1">
@@ -717,7 +859,7 @@ const PortfolioView: React.FC = () => {
                                           </span>
                                       </td>
                                       <td className="px-6 py-4 text-right font-mono text-slate-700 dark:text-slate-300">
-                                          {diffValue > 0 ? '+' : ''}${diffValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                          {diffValue > 0 ? '+' : ''}{formatMoney(diffValue, baseCurrency, 0)}
                                       </td>
                                       <td className="px-6 py-4 text-center">
                                           {Math.abs(diffValue) < 100 ? (
@@ -742,7 +884,7 @@ const PortfolioView: React.FC = () => {
               {/* Mobile Card View */}
               <div className="md:hidden grid grid-cols-1 gap-4 p-4">
                   {holdings.map((h) => {
-                      const value = (h.shares || 0) * (h.currentPrice || 0);
+                      const value = holdingValue(h);
                       const actualPct = activePortfolio.totalValue > 0 ? (value / activePortfolio.totalValue) * 100 : 0;
                       const targetPct = localTargets[h.id] || 0;
                       const drift = actualPct - targetPct;
@@ -762,7 +904,7 @@ const PortfolioView: React.FC = () => {
                                       </div>
                                   </div>
                                   <div className="text-right">
-                                      <div className="font-bold text-slate-700 dark:text-slate-200">${h.currentPrice}</div>
+                                      <div className="font-bold text-slate-700 dark:text-slate-200">{formatMoney(h.currentPrice, h.currency || 'USD')}</div>
                                       <div className="text-xs text-slate-500">Current Price</div>
                                   </div>
                               </div>
@@ -837,18 +979,25 @@ const PortfolioView: React.FC = () => {
                   <div className="lg:col-span-2 grid grid-cols-2 md:grid-cols-4 gap-4">
                       <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-5 rounded-xl flex flex-col justify-between shadow-sm">
                            <div className="text-slate-500 dark:text-slate-400 text-xs font-bold uppercase mb-1">Market Value</div>
-                           <div className="text-2xl font-bold text-slate-900 dark:text-white">${activePortfolio.totalValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
-                           <div className="text-emerald-500 text-xs flex items-center gap-1 mt-1"><TrendingUp className="w-3 h-3" /> +12.4%</div>
+                           <div className="text-2xl font-bold text-slate-900 dark:text-white">{formatMoney(activePortfolio.totalValue, baseCurrency, 0)}</div>
+                           <div className={`text-xs flex items-center gap-1 mt-1 ${portfolioReturnPct >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
+                               <TrendingUp className="w-3 h-3" /> {portfolioReturnPct >= 0 ? '+' : ''}{portfolioReturnPct.toFixed(1)}%
+                           </div>
+                           {Math.abs(portfolioReturn.fx) >= 0.5 && (
+                               <div className="text-slate-500 text-[10px] mt-0.5" title="Gain from local prices and from exchange rates since purchase">
+                                   Price {formatMoney(portfolioReturn.price, baseCurrency, 0)} · FX {formatMoney(portfolioReturn.fx, baseCurrency, 0)}
+                               </div>
+                           )}
                       </div>
                       <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-5 rounded-xl flex flex-col justify-between shadow-sm">
                            <div className="text-slate-500 dark:text-slate-400 text-xs font-bold uppercase mb-1">Cash</div>
-                           <div className="text-2xl font-bold text-slate-900 dark:text-white">${activePortfolio.cashBalance.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+                           <div className="text-2xl font-bold text-slate-900 dark:text-white">{formatMoney(cashValue, baseCurrency, 0)}</div>
                            <div className="text-slate-500 text-xs mt-1">Available</div>
                       </div>
                        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-5 rounded-xl flex flex-col justify-between shadow-sm">
                            <div className="text-slate-500 dark:text-slate-400 text-xs font-bold uppercase mb-1">Div Yield</div>
                            <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                               {(activePortfolio.totalValue > 0 ? holdings.reduce((a,b) => a + (b.dividendYield * (b.shares * b.currentPrice)), 0) / activePortfolio.totalValue : 0).toFixed(2)}%
+                               {(activePortfolio.totalValue > 0 ? holdings.reduce((a,b) => a + (b.dividendYield * holdingValue(b)), 0) / activePortfolio.totalValue : 0).toFixed(2)}%
                            </div>
                            <div className="text-emerald-500 text-xs mt-1">Income focus</div>
                       </div>
@@ -884,9 +1033,10 @@ const PortfolioView: React.FC = () => {
                   <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
                       {holdings.map(h => {
                           const valuation = getValuationStatus(h);
-                          const value = (h.shares || 0) * (h.currentPrice || 0);
-                          const pl = value - ((h.shares || 0) * (h.avgPrice || 0));
-                          const plPercent = ((h.shares || 0) * (h.avgPrice || 0)) > 0 ? (pl / ((h.shares || 0) * (h.avgPrice || 0))) * 100 : 0;
+                          const value = holdingValue(h);
+                          const returns = holdingReturns[h.id];
+                          const pl = returns ? returns.totalReturn : 0;
+                          const plPercent = returns && returns.costBase > 0 ? (pl / returns.costBase) * 100 : 0;
 
                           return (
                               <div key={h.id} onClick={() => viewStock(h.symbol)} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden hover:border-brand-500/50 transition-all cursor-pointer group flex flex-col shadow-sm">
@@ -920,7 +1070,7 @@ const PortfolioView: React.FC = () => {
                                       <div className="space-y-4">
                                           <div>
                                               <div className="text-xs text-slate-500">Price</div>
-                                              <div className="font-bold text-slate-900 dark:text-white">${h.currentPrice.toLocaleString()}</div>
+                                              <div className="font-bold text-slate-900 dark:text-white flex items-center gap-1.5">{formatMoney(h.currentPrice, h.currency || 'USD')} <PriceBadge holding={h} /></div>
                                           </div>
                                           <div>
                                               <div className="text-xs text-slate-500">Return</div>
@@ -931,7 +1081,7 @@ const PortfolioView: React.FC = () => {
                                           </div>
                                           <div>
                                               <div className="text-xs text-slate-500">Value</div>
-                                              <div className="font-bold text-slate-900 dark:text-white">${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+                                              <div className="font-bold text-slate-900 dark:text-white">{formatMoney(value, baseCurrency, 0)}</div>
                                           </div>
                                       </div>
                                       
@@ -1008,10 +1158,12 @@ const PortfolioView: React.FC = () => {
                             </thead>
                             <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
                                 {sortedHoldings.map((h) => {
-                                    const value = (h.shares || 0) * (h.currentPrice || 0);
-                                    const costBasis = (h.shares || 0) * (h.avgPrice || 0);
-                                    const pl = value - costBasis;
+                                    const value = holdingValue(h);
+                                    const returns = holdingReturns[h.id];
+                                    const costBasis = returns ? returns.costBase : 0;
+                                    const pl = returns ? returns.totalReturn : 0;
                                     const plPercent = costBasis > 0 ? (pl / costBasis) * 100 : 0;
+                                    const isForeign = (h.currency || 'USD') !== baseCurrency;
                                     const weight = activePortfolio.totalValue > 0 ? (value / activePortfolio.totalValue) * 100 : 0;
                                     const valuation = getValuationStatus(h);
                                     const snowflakeTotal = h.snowflake?.total || 15;
@@ -1045,18 +1197,26 @@ const PortfolioView: React.FC = () => {
                                                 </div>
                                             </td>
                                             <td className="px-6 py-4 text-right font-medium text-slate-700 dark:text-slate-200">
-                                                ${h.currentPrice.toLocaleString()}
+                                                <div className="flex items-center justify-end gap-1.5">
+                                                    <PriceBadge holding={h} />
+                                                    {formatMoney(h.currentPrice, h.currency || 'USD')}
+                                                </div>
                                             </td>
                                             <td className="px-6 py-4 text-right">
                                                 <div className={`font-bold ${pl >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
                                                     {pl >= 0 ? '+' : ''}{plPercent.toFixed(2)}%
                                                 </div>
                                                 <div className="text-xs text-slate-500">
-                                                    ${pl.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                                    {formatMoney(pl, baseCurrency, 0)}
                                                 </div>
+                                                {isForeign && returns && (
+                                                    <div className="text-[10px] text-slate-400" title="Local price return · currency return">
+                                                        {formatMoney(returns.priceReturn, baseCurrency, 0)} · FX {formatMoney(returns.currencyReturn, baseCurrency, 0)}
+                                                    </div>
+                                                )}
                                             </td>
                                             <td className="px-6 py-4 text-right font-bold text-slate-900 dark:text-white">
-                                                ${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                                                {formatMoney(value, baseCurrency, 0)}
                                             </td>
                                             <td className="px-6 py-4 text-center">
                                                 <span className={`text-[10px] px-2 py-1 rounded font-bold border ${valuation.bg} ${valuation.color} border-${valuation.color.split('-')[1]}-500/20`}>
@@ -1101,13 +1261,13 @@ const PortfolioView: React.FC = () => {
                               <tr>
                                   <th className="px-6 py-4">Asset</th>
                                   <th className="px-6 py-4 text-right">Original Value</th>
-                                  <th className="px-6 py-4 text-right">Converted (USD)</th>
+                                  <th className="px-6 py-4 text-right">Converted ({baseCurrency})</th>
                                   <th className="px-6 py-4 text-right">Performance</th>
                               </tr>
                           </thead>
                           <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
                               {manualAssets.map((asset) => {
-                                  const valInUSD = convertToUSD(asset.value, asset.currency || 'USD');
+                                  const valInBase = toBase(asset.value, asset.currency);
                                   const gain = asset.purchasePrice ? asset.value - asset.purchasePrice : 0;
                                   const gainPct = asset.purchasePrice ? (gain / asset.purchasePrice) * 100 : 0;
 
@@ -1128,7 +1288,7 @@ const PortfolioView: React.FC = () => {
                                               {asset.value.toLocaleString()} {asset.currency}
                                           </td>
                                           <td className="px-6 py-4 text-right font-bold text-slate-900 dark:text-white">
-                                              ${valInUSD.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                              {formatMoney(valInBase, baseCurrency, 0)}
                                           </td>
                                           <td className="px-6 py-4 text-right">
                                               {asset.purchasePrice ? (
@@ -1156,57 +1316,159 @@ const PortfolioView: React.FC = () => {
 
       {/* TRANSACTIONS VIEW */}
       {viewMode === 'transactions' && (
-          <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden shadow-sm animate-fade-in">
-              <div className="overflow-x-auto">
-                  <table className="w-full text-left text-sm">
-                      <thead className="bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 uppercase text-xs font-semibold border-b border-slate-200 dark:border-slate-800">
-                          <tr>
-                              <th className="px-6 py-4">Date</th>
-                              <th className="px-6 py-4">Type</th>
-                              <th className="px-6 py-4">Asset</th>
-                              <th className="px-6 py-4 text-right">Quantity</th>
-                              <th className="px-6 py-4 text-right">Price</th>
-                              <th className="px-6 py-4 text-right">Total Value</th>
-                              <th className="px-6 py-4 text-center">Status</th>
-                          </tr>
-                      </thead>
-                      <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
-                          {transactions.map((tx) => (
-                              <tr key={tx.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
-                                  <td className="px-6 py-4 text-slate-700 dark:text-slate-300 font-medium whitespace-nowrap">{tx.date}</td>
-                                  <td className="px-6 py-4">
-                                      <span className={`px-2 py-1 rounded text-xs font-bold border ${
-                                          tx.type === 'BUY' ? 'bg-emerald-100 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-200 dark:border-emerald-500/20' : 
-                                          tx.type === 'SELL' ? 'bg-red-100 dark:bg-red-500/10 text-red-600 dark:text-red-400 border-red-200 dark:border-red-500/20' :
-                                          'bg-blue-100 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-200 dark:border-blue-500/20'
-                                      }`}>
-                                          {tx.type}
-                                      </span>
-                                  </td>
-                                  <td className="px-6 py-4 font-bold text-slate-900 dark:text-white">{tx.symbol}</td>
-                                  <td className="px-6 py-4 text-right text-slate-700 dark:text-slate-300">{tx.shares}</td>
-                                  <td className="px-6 py-4 text-right text-slate-500 dark:text-slate-400">${tx.price.toLocaleString()}</td>
-                                  <td className="px-6 py-4 text-right font-bold text-slate-800 dark:text-slate-200">${tx.totalValue.toLocaleString()}</td>
-                                  <td className="px-6 py-4 text-center">
-                                      <span className="text-xs text-emerald-500 flex items-center justify-center gap-1">
-                                          ● Executed
-                                      </span>
-                                  </td>
-                              </tr>
-                          ))}
-                          {transactions.length === 0 && (
+          <div className="space-y-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-end gap-4">
+                  {lastLedgerChange && (
+                      <div className="flex-1 flex items-center justify-between gap-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg px-4 py-2 text-sm">
+                          <span className="text-slate-600 dark:text-slate-300">
+                              {lastLedgerChange.kind === 'update' ? 'Transaction updated' : 'Transaction deleted'}. Holdings and cash were rebuilt from the ledger.
+                          </span>
+                          <div className="flex items-center gap-3">
+                              <button onClick={undoLedgerChange} className="flex items-center gap-1.5 font-bold text-brand-600 dark:text-brand-400 hover:underline">
+                                  <Undo2 className="w-4 h-4" /> Undo
+                              </button>
+                              <button onClick={() => setLastLedgerChange(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-white transition-colors">
+                                  <X className="w-4 h-4" />
+                              </button>
+                          </div>
+                      </div>
+                  )}
+                  <button
+                      onClick={() => setShowCashModal(true)}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700 transition-colors shadow-sm"
+                  >
+                      <Plus className="w-4 h-4" /> Record Cash Activity
+                  </button>
+              </div>
+              <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden shadow-sm animate-fade-in">
+                  <div className="overflow-x-auto">
+                      <table className="w-full text-left text-sm">
+                          <thead className="bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 uppercase text-xs font-semibold border-b border-slate-200 dark:border-slate-800">
                               <tr>
-                                  <td colSpan={7} className="text-center py-12 text-slate-500">
-                                      No transactions recorded yet.
-                                  </td>
+                                  <th className="px-6 py-4">Date</th>
+                                  <th className="px-6 py-4">Type</th>
+                                  <th className="px-6 py-4">Asset</th>
+                                  <th className="px-6 py-4 text-right">Quantity</th>
+                                  <th className="px-6 py-4 text-right">Price</th>
+                                  <th className="px-6 py-4 text-right">Total Value</th>
+                                  <th className="px-6 py-4 text-center">Status</th>
+                                  <th className="px-6 py-4 text-right">Actions</th>
                               </tr>
-                          )}
-                      </tbody>
-                  </table>
+                          </thead>
+                          <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                              {transactions.map((tx) => editingTxId === tx.id ? (
+                                  <tr key={tx.id} className="bg-slate-50 dark:bg-slate-800/50">
+                                      <td className="px-6 py-3">
+                                          <input type="date" value={txDraft.date} onChange={e => setTxDraft({ ...txDraft, date: e.target.value })} className={`${txInputClass} dark:[color-scheme:dark]`} />
+                                      </td>
+                                      <td className="px-6 py-3">
+                                          {tx.type === 'BUY' || tx.type === 'SELL' ? (
+                                              <select value={txDraft.type} onChange={e => setTxDraft({ ...txDraft, type: e.target.value as TransactionType })} className={txInputClass}>
+                                                  <option value="BUY">BUY</option>
+                                                  <option value="SELL">SELL</option>
+                                              </select>
+                                          ) : (
+                                              <span className="text-xs font-bold text-slate-500">{isCashTransaction(tx) ? cashTransactionLabel(tx.type).toUpperCase() : tx.type}</span>
+                                          )}
+                                      </td>
+                                      <td className="px-6 py-3">
+                                          {tx.type === 'FX_CONVERSION' ? (
+                                              <span className="font-bold text-slate-900 dark:text-white">{transactionAsset(tx)}</span>
+                                          ) : (
+                                              <input value={txDraft.symbol} onChange={e => setTxDraft({ ...txDraft, symbol: e.target.value.toUpperCase() })} placeholder="Symbol" className={`${txInputClass} w-24 uppercase`} />
+                                          )}
+                                      </td>
+                                      {isCashTransaction(tx) ? (
+                                          <>
+                                              <td className="px-6 py-3 text-right text-slate-400">-</td>
+                                              <td className="px-6 py-3 text-right text-slate-400">-</td>
+                                              <td className="px-6 py-3">
+                                                  <input type="number" min="0" step="any" value={txDraft.amount} onChange={e => setTxDraft({ ...txDraft, amount: e.target.value })} className={`${txInputClass} text-right`} />
+                                              </td>
+                                          </>
+                                      ) : (
+                                          <>
+                                              <td className="px-6 py-3">
+                                                  <input type="number" step="any" value={txDraft.shares} onChange={e => setTxDraft({ ...txDraft, shares: e.target.value })} className={`${txInputClass} text-right`} />
+                                              </td>
+                                              <td className="px-6 py-3">
+                                                  <input type="number" min="0" step="any" value={txDraft.price} onChange={e => setTxDraft({ ...txDraft, price: e.target.value })} className={`${txInputClass} text-right`} />
+                                              </td>
+                                              <td className="px-6 py-3 text-right font-bold text-slate-800 dark:text-slate-200">
+                                                  {formatMoney((parseFloat(txDraft.shares) || 0) * (parseFloat(txDraft.price) || 0), tx.currency || 'USD')}
+                                              </td>
+                                          </>
+                                      )}
+                                      <td className="px-6 py-3 text-center text-xs text-slate-500">Editing</td>
+                                      <td className="px-6 py-3">
+                                          <div className="flex items-center justify-end gap-2">
+                                              <button onClick={() => saveTxEdit(tx)} className="p-1.5 rounded-md text-emerald-500 hover:bg-emerald-500/10 transition-colors" title="Save">
+                                                  <Check className="w-4 h-4" />
+                                              </button>
+                                              <button onClick={() => setEditingTxId(null)} className="p-1.5 rounded-md text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title="Cancel">
+                                                  <X className="w-4 h-4" />
+                                              </button>
+                                          </div>
+                                      </td>
+                                  </tr>
+                              ) : (
+                                  <tr key={tx.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors group">
+                                      <td className="px-6 py-4 text-slate-700 dark:text-slate-300 font-medium whitespace-nowrap">{tx.date}</td>
+                                      <td className="px-6 py-4">
+                                          <span className={`px-2 py-1 rounded text-xs font-bold border whitespace-nowrap ${
+                                              tx.type === 'BUY' ? 'bg-emerald-100 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 border-emerald-200 dark:border-emerald-500/20' : 
+                                              tx.type === 'SELL' ? 'bg-red-100 dark:bg-red-500/10 text-red-600 dark:text-red-400 border-red-200 dark:border-red-500/20' :
+                                              tx.type === 'DIVIDEND' || tx.type === 'INTEREST' ? 'bg-amber-100 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-200 dark:border-amber-500/20' :
+                                              tx.type === 'FEE' || tx.type === 'TAX_WITHHELD' ? 'bg-rose-100 dark:bg-rose-500/10 text-rose-600 dark:text-rose-400 border-rose-200 dark:border-rose-500/20' :
+                                              tx.type === 'DEPOSIT' || tx.type === 'WITHDRAWAL' || tx.type === 'FX_CONVERSION' ? 'bg-slate-100 dark:bg-slate-500/10 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-500/20' :
+                                              'bg-blue-100 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-200 dark:border-blue-500/20'
+                                          }`}>
+                                              {isCashTransaction(tx) ? cashTransactionLabel(tx.type).toUpperCase() : tx.type}
+                                          </span>
+                                      </td>
+                                      <td className="px-6 py-4 font-bold text-slate-900 dark:text-white">{transactionAsset(tx)}</td>
+                                      <td className="px-6 py-4 text-right text-slate-700 dark:text-slate-300">{tx.shares ? tx.shares : '-'}</td>
+                                      <td className="px-6 py-4 text-right text-slate-500 dark:text-slate-400">{tx.price ? formatMoney(tx.price, tx.currency || 'USD') : '-'}</td>
+                                      <td className="px-6 py-4 text-right font-bold text-slate-800 dark:text-slate-200">
+                                          {isCashTransaction(tx) && cashImpact(tx, true) < 0 ? '-' : ''}{formatMoney(tx.totalValue, tx.currency || 'USD')}
+                                      </td>
+                                      <td className="px-6 py-4 text-center">
+                                          <span className="text-xs text-emerald-500 flex items-center justify-center gap-1">
+                                              ● Executed
+                                          </span>
+                                      </td>
+                                      <td className="px-6 py-4">
+                                          <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                              <button onClick={() => startTxEdit(tx)} className="p-1.5 rounded-md text-slate-400 hover:text-brand-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors" title="Edit">
+                                                  <Pencil className="w-4 h-4" />
+                                              </button>
+                                              <button onClick={() => removeTransaction(tx)} className="p-1.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-500/10 transition-colors" title="Delete">
+                                                  <Trash2 className="w-4 h-4" />
+                                              </button>
+                                          </div>
+                                      </td>
+                                  </tr>
+                              ))}
+                              {transactions.length === 0 && (
+                                  <tr>
+                                      <td colSpan={8} className="text-center py-12 text-slate-500">
+                                          No transactions recorded yet.
+                                      </td>
+                                  </tr>
+                              )}
+                          </tbody>
+                      </table>
+                  </div>
               </div>
+              <CorporateActionsPanel />
           </div>
       )}
 
+      {viewMode === 'lots' && <TaxLotsPanel />}
+
+      {showTaxReport && <TaxReportModal onClose={() => setShowTaxReport(false)} />}
+      {showCashModal && <CashTransactionModal onClose={() => setShowCashModal(false)} />}
+
       {/* Edit Holding Modal */}
       {editingHolding && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
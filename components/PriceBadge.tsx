@@ -0,0 +1,39 @@
+import React from 'react';
+import { Holding } from '../types';
+import { getProvider } from '../services/providers/registry';
+
+interface PriceBadgeProps {
+  holding: Pick<Holding, 'priceSource' | 'priceAsOf' | 'priceStatus'>;
+  className?: string;
+}
+
+const STYLES = {
+  live: { label: 'Live', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+  stale: { label: 'Stale', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' },
+  simulated: { label: 'Simulated', className: 'bg-purple-500/10 text-purple-400 border-purple-500/20' },
+  placeholder: { label: 'No quote', className: 'bg-slate-500/10 text-slate-500 border-slate-500/20 border-dashed' },
+  saved: { label: 'Saved', className: 'bg-slate-500/10 text-slate-400 border-slate-500/20' }
+};
+
+const describeSource = (source?: string) => {
+  if (!source) return 'Last saved price';
+  if (source === 'simulation') return 'Simulated price (no provider answered)';
+  return getProvider(source)?.name || source;
+};
+
+// Small pill telling the user whether a price is a real quote, an old one or made up
+const PriceBadge: React.FC<PriceBadgeProps> = ({ holding, className = '' }) => {
+  const style = STYLES[holding.priceStatus || 'saved'];
+  const asOf = holding.priceAsOf ? new Date(holding.priceAsOf).toLocaleString() : 'unknown time';
+  const title = holding.priceStatus === 'placeholder'
+    ? 'No quote yet: shown at cost until a provider prices it'
+    : holding.priceStatus ? `${describeSource(holding.priceSource)} · as of ${asOf}` : 'Stored price, not refreshed this session';
+
+  return (
+    <span title={title} className={`inline-flex items-center px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wide ${style.className} ${className}`}>
+      {style.label}
+    </span>
+  );
+};
+
+export default PriceBadge;
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { Wallet } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer } from 'recharts';
+import { usePortfolio } from '../context/PortfolioContext';
+import { ReceivedIncome, summarizeIncome } from '../services/cashLedger';
+import { currencySymbol, formatMoney, transactionsInBase } from '../services/fx';
+
+const monthLabel = (month: string) =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+// Dividends and interest actually paid into the account, taken from the ledger rather than estimated from yields
+const ReceivedIncomePanel: React.FC = () => {
+    const { activePortfolio, baseCurrency, fxRates } = usePortfolio();
+    const income: ReceivedIncome = useMemo(
+        () => summarizeIncome(transactionsInBase(activePortfolio.transactions, baseCurrency, fxRates)),
+        [activePortfolio.transactions, baseCurrency, fxRates]
+    );
+
+    // Last 12 calendar months, including empty ones so gaps in payments stay visible
+    const chartData = useMemo(() => {
+        const now = new Date();
+        const byMonth = new Map(income.months.map(m => [m.month, m]));
+        return Array.from({ length: 12 }, (_, i) => {
+            const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11 + i, 1));
+            const key = d.toISOString().slice(0, 7);
+            const m = byMonth.get(key);
+            return { month: monthLabel(key), net: m ? Math.round(m.net * 100) / 100 : 0 };
+        });
+    }, [income]);
+
+    const stats = [
+        { label: 'Last 12 Months', value: income.trailing12Net },
+        { label: 'Year to Date', value: income.ytdNet },
+        { label: 'All Time (Gross)', value: income.totalGross },
+        { label: 'Tax Withheld', value: income.totalWithheld }
+    ];
+
+    return (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 shadow-sm">
+            <div className="mb-6">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                    <Wallet className="w-5 h-5 text-brand-500" /> Income Received
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400">Dividends and interest recorded in your transactions, net of withholding tax and fees</p>
+            </div>
+
+            {income.payments.length === 0 ? (
+                <div className="text-center py-10 text-sm text-slate-500">
+                    No income recorded yet. Import a broker statement or record dividends from the Transactions tab.
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {stats.map(s => (
+                            <div key={s.label} className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg p-4">
+                                <div className="text-xs text-slate-500 font-bold uppercase mb-1">{s.label}</div>
+                                <div className="text-lg font-bold text-slate-900 dark:text-white">{formatMoney(s.value, baseCurrency)}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="lg:col-span-2 h-64">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={chartData}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.3} vertical={false} />
+                                    <XAxis dataKey="month" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
+                                    <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={v => `${currencySymbol(baseCurrency)}${v}`} />
+                                    <RechartsTooltip
+                                        contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px' }}
+                                        formatter={(value: number) => [formatMoney(value, baseCurrency), 'Net income']}
+                                    />
+                                    <Bar dataKey="net" fill="#10b981" radius={[4, 4, 0, 0]} />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+
+                        <div>
+                            <div className="text-xs text-slate-500 font-bold uppercase mb-2">Top Payers</div>
+                            <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                                {income.bySymbol.slice(0, 6).map(row => (
+                                    <div key={row.symbol} className="flex justify-between items-center py-2 text-sm">
+                                        <div>
+                                            <div className="font-bold text-slate-900 dark:text-white">{row.symbol}</div>
+                                            <div className="text-xs text-slate-500">{row.payments} payment{row.payments === 1 ? '' : 's'} · last {row.lastPaid}</div>
+                                        </div>
+                                        <div className="text-right">
+                                            <div className="font-bold text-emerald-500">{formatMoney(row.net, baseCurrency)}</div>
+                                            {row.withheld > 0 && <div className="text-xs text-slate-500">{formatMoney(row.withheld, baseCurrency)} withheld</div>}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReceivedIncomePanel;
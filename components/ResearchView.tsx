@@ -13,12 +13,18 @@ import React, { useState, useEffect } from 'react';
 import { Search, TrendingUp, AlertTriangle, CheckCircle, FileText, Sparkles, Loader2, Users, Briefcase, Lock, Plus, ExternalLink, Scale, BarChart, Newspaper, ThumbsUp, ThumbsDown, Eye, EyeOff, List, ChevronDown, PlusCircle, Check } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, AreaChart, Area, XAxis, YAxis, CartesianGrid, BarChart as RechartsBarChart, Bar, Legend } from 'recharts';
 import SnowflakeChart from './SnowflakeChart';
+import PriceBadge from './PriceBadge';
+import { Holding } from '../types';
 import { MOCK_MARKET_ASSETS, MOCK_NEWS } from '../constants';
 import { analyzeStock, analyzeStockRisks } from '../services/geminiService';
 import { usePortfolio } from '../context/PortfolioContext';
+import { getPriceHistory } from '../services/priceHistory';
+
+type HistoryRange = '1W' | '1M' | '3M' | '1Y' | '5Y';
+const HISTORY_RANGE_DAYS: Record<HistoryRange, number> = { '1W': 7, '1M': 30, '3M': 91, '1Y': 365, '5Y': 1826 };
 
 const ResearchView: React.FC = () => {
-  const { selectedResearchSymbol, viewStock, openAddAssetModal, watchlists, activeWatchlistId, toggleWatchlist, createWatchlist, switchWatchlist } = usePortfolio();
+  const { selectedResearchSymbol, viewStock, openAddAssetModal, watchlists, activeWatchlistId, toggleWatchlist, createWatchlist, switchWatchlist, activePortfolio, marketQuotes, marketDataProviders } = usePortfolio();
   const [searchTerm, setSearchTerm] = useState('');
   
   // Sync local search state with global selection
@@ -41,6 +47,16 @@ const ResearchView: React.FC = () => {
   // Combine portfolio holdings and other market assets for the search mock
   const asset = MOCK_MARKET_ASSETS.find(a => a.symbol === selectedSymbol) || MOCK_MARKET_ASSETS[0];
 
+  // Prefer the held position's price, then the latest quote, then the catalogue's stored price
+  const priceInfo = (item: Holding): Pick<Holding, 'currentPrice' | 'priceSource' | 'priceAsOf' | 'priceStatus'> => {
+      const held = activePortfolio.holdings.find(h => h.symbol === item.symbol && h.priceStatus && h.priceStatus !== 'placeholder');
+      if (held) return held;
+      const quote = marketQuotes[item.symbol.toUpperCase()];
+      if (quote) return { currentPrice: quote.price, priceSource: quote.provider, priceAsOf: quote.timestamp, priceStatus: 'live' };
+      return { currentPrice: item.currentPrice };
+  };
+  const assetPrice = priceInfo(asset);
+
   // Filter for autocomplete
   const searchResults = searchTerm.length > 0 
     ? MOCK_MARKET_ASSETS.filter(a => a.symbol.includes(searchTerm.toUpperCase()) || a.name.toLowerCase().includes(searchTerm.toLowerCase())).slice(0, 5)
@@ -95,18 +111,26 @@ const ResearchView: React.FC = () => {
       { date: '2023-08-05', name: 'Luca Maestri', type: 'Buy', shares: '5,000', value: '$0.9M', impact: 'Low' },
   ];
 
-  // Mock Price History Data (simulated based on current price)
-  const priceHistoryData = Array.from({ length: 30 }, (_, i) => {
-      const day = 30 - i;
-      // Random walk around current price
-      const volatility = asset.assetType === 'Crypto' ? 0.05 : 0.02;
-      const randomFactor = 1 + (Math.random() * volatility - volatility / 2);
-      const price = asset.currentPrice * (1 - (day * 0.005)) * randomFactor;
-      return {
-          date: `Day -${day}`,
-          price: parseFloat(price.toFixed(2))
-      };
-  });
+  // Price History (split/dividend-adjusted daily closes from the cached history service)
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('1M');
+  const [priceHistoryData, setPriceHistoryData] = useState<{ date: string; price: number }[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+
+  useEffect(() => {
+      let cancelled = false;
+      const to = new Date();
+      const from = new Date(to.getTime() - HISTORY_RANGE_DAYS[historyRange] * 86400000);
+      setIsHistoryLoading(true);
+      getPriceHistory(asset.symbol, from.toISOString().split('T')[0], to.toISOString().split('T')[0], marketDataProviders, {
+          assetClass: asset.assetType === 'Crypto' ? 'crypto' : 'stock'
+      }).then(bars => {
+          if (cancelled) return;
+          setPriceHistoryData(bars.map(b => ({ date: b.date, price: parseFloat(b.close.toFixed(2)) })));
+      }).finally(() => {
+          if (!cancelled) setIsHistoryLoading(false);
+      });
+      return () => { cancelled = true; };
+  }, [asset.symbol, historyRange, marketDataProviders]);
 
   // Mock Balance Sheet Data
   const financialData = asset.financials || [];
@@ -173,7 +197,10 @@ const ResearchView: React.FC = () => {
                 <div className="flex flex-col gap-3 mb-6 p-4 bg-slate-950 rounded-lg border border-slate-800">
                     <div className="flex justify-between items-end mb-2">
                          <div className="text-xs text-slate-500">Current Price</div>
-                         <div className="text-2xl font-bold text-white">${asset.currentPrice.toLocaleString()}</div>
+                         <div className="text-right">
+                             <div className="text-2xl font-bold text-white">${assetPrice.currentPrice.toLocaleString()}</div>
+                             <PriceBadge holding={assetPrice} />
+                         </div>
                     </div>
                     
                     <div className="grid grid-cols-2 gap-3">
@@ -287,7 +314,7 @@ const ResearchView: React.FC = () => {
                                      </div>
                                      <span className={`text-sm font-bold ${sym === asset.symbol ? 'text-brand-400' : 'text-slate-300 group-hover:text-white'}`}>{sym}</span>
                                  </div>
-                                 <span className="text-xs text-slate-400">${item.currentPrice}</span>
+                                 <span className="flex items-center gap-1.5 text-xs text-slate-400"><PriceBadge holding={priceInfo(item)} />${priceInfo(item).currentPrice}</span>
                              </div>
                          );
                      })}
@@ -307,17 +334,22 @@ const ResearchView: React.FC = () => {
             <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
                 <div className="flex items-center justify-between mb-6">
                     <h3 className="text-lg font-bold text-white flex items-center gap-2">
-                        <TrendingUp className="w-5 h-5 text-emerald-500" /> Price History (30D)
+                        <TrendingUp className="w-5 h-5 text-emerald-500" /> Price History ({historyRange})
                     </h3>
                     <div className="flex gap-2">
-                         {['1W', '1M', '3M', '1Y', '5Y'].map(tf => (
-                             <button key={tf} className={`px-2 py-1 text-xs font-bold rounded ${tf === '1M' ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-white'}`}>
+                         {(Object.keys(HISTORY_RANGE_DAYS) as HistoryRange[]).map(tf => (
+                             <button key={tf} onClick={() => setHistoryRange(tf)} className={`px-2 py-1 text-xs font-bold rounded ${tf === historyRange ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-white'}`}>
                                  {tf}
                              </button>
                          ))}
                     </div>
                 </div>
-                <div className="h-[250px]">
+                <div className="h-[250px] relative">
+                    {priceHistoryData.length === 0 && (
+                        <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-500 z-10">
+                            {isHistoryLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : 'No price history available. Configure a market data provider in Settings.'}
+                        </div>
+                    )}
                     <ResponsiveContainer width="100%" height="100%">
                         <AreaChart data={priceHistoryData}>
                             <defs>
@@ -1,9 +1,13 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { usePortfolio } from '../context/PortfolioContext';
-import { User, Shield, CreditCard, LogOut, CheckCircle, Copy, Check, X, Loader2, Link as LinkIcon, Plus, RefreshCw, FileSpreadsheet, UploadCloud, Briefcase, Layers, Network, Eye, Edit2, Globe, Database, AlertCircle } from 'lucide-react';
+import { User, Shield, CreditCard, LogOut, CheckCircle, Copy, Check, X, Loader2, Link as LinkIcon, Plus, RefreshCw, FileSpreadsheet, Briefcase, Layers, Network, Eye, Edit2, Globe, Database, AlertCircle, ArrowUp, ArrowDown } from 'lucide-react';
 import { PlanTier, CryptoWallet, PortfolioSummary } from '../types';
+import { ProviderConfig } from '../services/marketData';
+import { getProvider } from '../services/providers/registry';
+import { BASE_CURRENCIES } from '../services/fx';
+import ImportModal from './ImportModal';
 
 // --- HELPER COMPONENTS DEFINED FIRST TO AVOID INITIALIZATION ERRORS ---
 
@@ -173,15 +177,18 @@ const ConnectBrokerModal: React.FC<{
                                     <span className="text-sm text-slate-300">Link to existing Portfolio</span>
                                 </label>
                                 {targetMode === 'existing' && (
-                                    <select 
-                                        value={existingPortfolioId}
-                                        onChange={(e) => setExistingPortfolioId(e.target.value)}
-                                        className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 pl-3 pr-4 text-white focus:border-brand-500 outline-none appearance-none cursor-pointer text-sm"
-                                    >
-                                        {portfolios.map(p => (
-                                            <option key={p.id} value={p.id}>{p.name}</option>
-                                        ))}
-                                    </select>
+                                    <>
+                                        <select 
+                                            value={existingPortfolioId}
+                                            onChange={(e) => setExistingPortfolioId(e.target.value)}
+                                            className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2 pl-3 pr-4 text-white focus:border-brand-500 outline-none appearance-none cursor-pointer text-sm"
+                                        >
+                                            {portfolios.map(p => (
+                                                <option key={p.id} value={p.id}>{p.name}</option>
+                                            ))}
+                                        </select>
+                                        <p className="text-xs text-slate-500 mt-1.5">The portfolio will mirror this account: positions it synced in are closed once the broker no longer holds them.</p>
+                                    </>
                                 )}
                             </div>
                         </div>
@@ -199,6 +206,9 @@ const ConnectBrokerModal: React.FC<{
                                     onChange={(e) => setApiKey(e.target.value)}
                                     placeholder="Enter API Key"
                                 />
+                                {provider.id === 'trading212' && (
+                                    <p className="text-xs text-slate-500 mt-1.5">Create a key with read access under Settings → API in Trading 212.</p>
+                                )}
                             </div>
                             <div>
                                 <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">API Secret (Optional)</label>
@@ -236,11 +246,133 @@ const ConnectBrokerModal: React.FC<{
     );
 };
 
+const MarketDataProvidersPanel: React.FC<{
+    configs: ProviderConfig[];
+    onSave: (configs: ProviderConfig[]) => void;
+}> = ({ configs, onSave }) => {
+    const [draft, setDraft] = useState<ProviderConfig[]>(configs);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        setDraft(configs);
+    }, [configs]);
+
+    const updateConfig = (id: string, updates: Partial<ProviderConfig>) => {
+        setSaved(false);
+        setDraft(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+    };
+
+    const move = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= draft.length) return;
+        setSaved(false);
+        setDraft(prev => {
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const handleSave = () => {
+        onSave(draft);
+        setSaved(true);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-slate-400">
+                Prices are requested from the enabled providers in this order; the first one that answers wins. Crypto-only and stock-only feeds are skipped automatically for the other asset class.
+            </p>
+            {draft.map((config, index) => {
+                const provider = getProvider(config.id);
+                if (!provider) return null;
+                const missingKey = provider.requiresApiKey && !config.apiKey;
+                return (
+                    <div key={config.id} className={`bg-slate-950 border p-4 rounded-lg ${config.enabled ? 'border-slate-700' : 'border-slate-800 opacity-60'}`}>
+                        <div className="flex justify-between items-start gap-3 mb-2">
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs font-mono text-slate-500 w-5">{index + 1}.</span>
+                                <Globe className="w-4 h-4 text-emerald-500" />
+                                <span className="font-bold text-white text-sm">{provider.name}</span>
+                                <span className="text-[10px] text-slate-500 uppercase">{provider.assetClasses.join(' / ')}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <span className={`text-[10px] px-2 py-0.5 rounded border ${config.enabled && !missingKey ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-slate-800 text-slate-500 border-slate-700'}`}>
+                                    {!config.enabled ? 'Disabled' : missingKey ? 'Needs Key' : 'Active'}
+                                </span>
+                                <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Higher priority">
+                                    <ArrowUp className="w-3 h-3" />
+                                </button>
+                                <button type="button" onClick={() => move(index, 1)} disabled={index === draft.length - 1} className="p-1 text-slate-500 hover:text-white disabled:opacity-30" title="Lower priority">
+                                    <ArrowDown className="w-3 h-3" />
+                                </button>
+                                <input
+                                    type="checkbox"
+                                    checked={config.enabled}
+                                    onChange={(e) => updateConfig(config.id, { enabled: e.target.checked })}
+                                    className="text-brand-600 focus:ring-brand-500"
+                                    title="Enable provider"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-xs text-slate-400 mb-3">{provider.description}</p>
+
+                        {config.enabled && (
+                            <div className="space-y-2">
+                                {(provider.requiresApiKey || provider.signupUrl || config.id === 'custom') && (
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">
+                                            {provider.name} API Key {!provider.requiresApiKey && '(Optional)'}
+                                        </label>
+                                        <input
+                                            type="password"
+                                            value={config.apiKey || ''}
+                                            onChange={(e) => updateConfig(config.id, { apiKey: e.target.value })}
+                                            placeholder={`Enter your ${provider.name} API Key`}
+                                            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:border-brand-500 outline-none"
+                                        />
+                                    </div>
+                                )}
+                                {provider.optionFields?.map(field => (
+                                    <div key={field.key}>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">{field.label}</label>
+                                        <input
+                                            type="text"
+                                            value={config.options?.[field.key] || ''}
+                                            onChange={(e) => updateConfig(config.id, { options: { ...(config.options || {}), [field.key]: e.target.value } })}
+                                            placeholder={field.placeholder}
+                                            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-xs font-mono focus:border-brand-500 outline-none"
+                                        />
+                                    </div>
+                                ))}
+                                {provider.signupUrl && (
+                                    <div className="text-[10px] text-slate-500">
+                                        Don't have a key? <a href={provider.signupUrl} target="_blank" rel="noreferrer" className="text-brand-400 hover:underline">Get one here</a>.
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+            <div className="flex justify-end items-center gap-3">
+                {saved && <span className="text-xs text-emerald-400 flex items-center gap-1"><Check className="w-3 h-3" /> Saved</span>}
+                <button
+                    onClick={handleSave}
+                    className="bg-brand-600 hover:bg-brand-500 text-white text-sm font-bold px-4 py-2 rounded-lg transition-colors"
+                >
+                    Save Providers
+                </button>
+            </div>
+        </div>
+    );
+};
+
 // --- MAIN COMPONENT ---
 
 const SettingsView: React.FC = () => {
-  const { user, logout, plans, wallets, updateUserPlan, integrations, connectBroker, disconnectBroker, brokerProviders } = useAuth();
-  const { addNewPortfolio, importPortfolio, marketDataApiKey, setMarketDataApiKey, syncBroker, portfolios, activePortfolioId } = usePortfolio();
+  const { user, logout, plans, wallets, updateUserPlan, integrations, connectBroker, disconnectBroker, updateIntegration, brokerProviders, updateBaseCurrency } = useAuth();
+  const { addNewPortfolio, marketDataProviders, updateMarketDataProviders, isSimulationEnabled, setSimulationEnabled, syncBroker, portfolios, baseCurrency, fxRates } = usePortfolio();
   const [activeSection, setActiveSection] = useState<'profile' | 'billing' | 'security' | 'integrations'>('profile');
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [showConnectModal, setShowConnectModal] = useState(false);
@@ -249,24 +381,6 @@ const SettingsView: React.FC = () => {
   const [selectedPlan, setSelectedPlan] = useState<PlanTier | null>(null);
   
   const [syncing, setSyncing] = useState<Record<string, boolean>>({});
-  const [importFile, setImportFile] = useState<File | null>(null);
-  const [isImporting, setIsImporting] = useState(false);
-  const [importTargetPortfolio, setImportTargetPortfolio] = useState(activePortfolioId);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const [localApiKey, setLocalApiKey] = useState(marketDataApiKey || '');
-  const [savingKey, setSavingKey] = useState(false);
-
-  useEffect(() => {
-      if (marketDataApiKey) {
-          setLocalApiKey(marketDataApiKey);
-      }
-  }, [marketDataApiKey]);
-
-  useEffect(() => {
-      if(activePortfolioId) setImportTargetPortfolio(activePortfolioId);
-  }, [activePortfolioId, showImportModal]);
-
   const activeProvider = brokerProviders.find(p => p.id === selectedProviderId);
 
   const handleConnectSuccess = async (
@@ -279,11 +393,11 @@ const SettingsView: React.FC = () => {
   ) => {
       const performConnect = async () => {
           try {
-              await connectBroker(providerId, name, type as any, logo, credentials);
-              
-              if (targetPortfolioConfig.mode === 'new') {
-                  await addNewPortfolio(`${name} Portfolio`, type as any);
-              }
+              // Syncs import into the chosen portfolio whichever one is open at the time
+              const portfolioId = targetPortfolioConfig.mode === 'new'
+                  ? await addNewPortfolio(`${name} Portfolio`, type as any)
+                  : targetPortfolioConfig.mode === 'existing' ? targetPortfolioConfig.id : undefined;
+              await connectBroker(providerId, name, type as any, logo, credentials, portfolioId || undefined);
           } catch (e) {
               console.error("Connection flow error:", e);
           }
@@ -302,152 +416,12 @@ const SettingsView: React.FC = () => {
       setShowConnectModal(true);
   }
 
-  const handleSaveMarketKey = () => {
-      setSavingKey(true);
-      try {
-          setMarketDataApiKey(localApiKey);
-          alert("API Key Saved Successfully!");
-      } catch (e) {
-          console.error("Failed to save API Key", e);
-      } finally {
-          setSavingKey(false);
-      }
-  };
-
   const handleSync = async (brokerId: string) => {
       setSyncing(prev => ({ ...prev, [brokerId]: true }));
       await syncBroker(brokerId);
       setSyncing(prev => ({ ...prev, [brokerId]: false }));
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      if (e.target.files && e.target.files.length > 0) {
-          setImportFile(e.target.files[0]);
-      }
-  };
-
-  const parseCSV = (text: string) => {
-        const lines = text.split(/\r\n|\n/);
-        if (lines.length < 2) return [];
-        
-        // Improved Header Normalization for Trading 212 specific format
-        const headers = lines[0].toLowerCase().split(',').map(h => h.trim().replace(/['"]+/g, '').replace(/^\ufeff/, ''));
-        const data = [];
-        
-        console.log("CSV Headers:", headers);
-
-        // Robust Column Mapping - PRIORITIZE TICKER OVER ISIN
-        // Identify indexes
-        let symIdx = -1;
-        // Explicit Priority: Ticker > Symbol > Instrument > ISIN
-        if (headers.includes('ticker')) symIdx = headers.indexOf('ticker');
-        else if (headers.includes('symbol')) symIdx = headers.indexOf('symbol');
-        else if (headers.includes('instrument')) symIdx = headers.indexOf('instrument');
-        else if (headers.includes('isin')) symIdx = headers.indexOf('isin');
-
-        // Find Name column
-        const nameIdx = headers.indexOf('name');
-
-        // Other columns
-        let qtyIdx = headers.findIndex(h => h === 'no. of shares' || h === 'quantity' || h === 'shares' || h === 'qty');
-        let priceIdx = headers.findIndex(h => h === 'price / share' || h === 'price' || h === 'avg price' || h === 'cost');
-        let typeIdx = headers.findIndex(h => h === 'action' || h === 'type' || h === 'side');
-        let dateIdx = headers.findIndex(h => h === 'time' || h === 'date');
-
-        if (symIdx === -1 || qtyIdx === -1 || priceIdx === -1) {
-            alert("Error: Missing required columns. Please ensure your CSV has 'Ticker', 'No. of shares', and 'Price / share' headers.");
-            return [];
-        }
-
-        for(let i=1; i<lines.length; i++) {
-            if(!lines[i].trim()) continue;
-            
-            // Regex split to handle commas inside quotes (common in T212 names)
-            const row = lines[i].split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.trim().replace(/^"|"$/g, '').replace(/""/g, '"'));
-            
-            if (row.length < 3) continue;
-            
-            const rawSymbol = row[symIdx];
-            const rawName = nameIdx > -1 ? row[nameIdx] : '';
-            const rawQty = row[qtyIdx];
-            const rawPrice = row[priceIdx];
-            const rawType = typeIdx > -1 ? row[typeIdx] : 'BUY';
-            const rawDate = dateIdx > -1 ? row[dateIdx] : new Date().toISOString();
-
-            // Skip lines without essential data
-            if (!rawSymbol || !rawQty || !rawPrice) continue;
-
-            // Skip Dividends/Deposits/Withdrawals/Conversions to prevent skewing share counts
-            const lowerType = rawType.toLowerCase();
-            if (lowerType.includes('dividend') || lowerType.includes('deposit') || lowerType.includes('withdrawal') || lowerType.includes('conversion')) {
-                continue;
-            }
-
-            const cleanNumber = (str: string) => {
-                if (!str) return 0;
-                // Support T212 formats like "1,234.56" or "1234.56"
-                // Remove currency symbols or commas
-                return parseFloat(str.replace(/[^0-9.-]+/g, ''));
-            };
-
-            const shares = cleanNumber(rawQty);
-            const price = cleanNumber(rawPrice);
-            
-            if (isNaN(shares) || isNaN(price)) continue;
-
-            // Handle T212 "Market sell" / "Limit sell"
-            let type: 'BUY' | 'SELL' = 'BUY';
-            if (lowerType.includes('sell')) type = 'SELL';
-            
-            // Fix date parsing for formats like "2025-09-01 11:58:10"
-            let date = new Date().toISOString().split('T')[0];
-            try {
-                const parsedDate = new Date(rawDate);
-                if (!isNaN(parsedDate.getTime())) {
-                    date = parsedDate.toISOString().split('T')[0];
-                }
-            } catch (e) {}
-
-            // Normalize Ticker (remove _US_EQ suffix if present)
-            let symbol = rawSymbol.toUpperCase();
-            // Common T212 suffix removal
-            if (symbol.endsWith('_US_EQ')) symbol = symbol.replace('_US_EQ', '');
-            else if (symbol.endsWith('_UK_EQ')) symbol = symbol.replace('_UK_EQ', '');
-            else if (symbol.includes('_')) symbol = symbol.split('_')[0];
-
-            data.push({
-                symbol,
-                name: rawName || symbol, // Capture name if available
-                date,
-                type,
-                shares,
-                price
-            });
-        }
-        return data;
-  };
-
-  const handleImport = () => {
-      if (!importFile) return;
-      setIsImporting(true);
-      
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-          const text = e.target?.result as string;
-          const transactions = parseCSV(text);
-          
-          if (transactions.length > 0) {
-              await importPortfolio(`Imported ${new Date().toLocaleDateString()}`, transactions, importTargetPortfolio);
-              setShowImportModal(false);
-              setImportFile(null);
-          } else {
-              alert("No valid transactions found in file. Please check headers.");
-          }
-          setIsImporting(false);
-      };
-      reader.readAsText(importFile);
-  };
-
   return (
     <div className="max-w-4xl mx-auto animate-fade-in pb-20">
       <h1 className="text-3xl font-bold text-white mb-8">Settings</h1>
@@ -507,6 +481,20 @@ const SettingsView: React.FC = () => {
                             <label className="block text-sm text-slate-400 mb-1">Email Address</label>
                             <input type="email" defaultValue={user?.email} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 focus:outline-none" disabled />
                         </div>
+                        <div>
+                            <label className="block text-sm text-slate-400 mb-1">Base Currency</label>
+                            <select
+                                value={baseCurrency}
+                                onChange={(e) => updateBaseCurrency(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 focus:outline-none"
+                            >
+                                {BASE_CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} · {c.label}</option>)}
+                            </select>
+                            <div className="text-xs text-slate-500 mt-2">
+                                Totals, income and performance are reported in this currency.{' '}
+                                {fxRates.asOf ? `Rates as of ${new Date(fxRates.asOf).toLocaleString()}.` : 'Live rates load once a foreign currency is in use.'}
+                            </div>
+                        </div>
                     </div>
                     <div className="pt-4">
                         <button className="bg-brand-600 hover:bg-brand-500 text-white font-medium px-6 py-2 rounded-lg transition-colors">
@@ -524,48 +512,21 @@ const SettingsView: React.FC = () => {
                         <h2 className="text-xl font-bold text-white border-b border-slate-800 pb-4 mb-6 flex items-center gap-2">
                             <Database className="w-5 h-5 text-blue-500" /> Market Data Configuration
                         </h2>
-                        <div className="space-y-4">
-                            <div className="bg-slate-950 border border-slate-800 p-4 rounded-lg">
-                                <div className="flex justify-between items-start mb-2">
-                                    <div className="flex items-center gap-2">
-                                        <Globe className="w-4 h-4 text-emerald-500" />
-                                        <span className="font-bold text-white text-sm">Free Market Data</span>
-                                    </div>
-                                    <span className={`text-[10px] px-2 py-0.5 rounded border ${marketDataApiKey ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'bg-slate-800 text-slate-500 border-slate-700'}`}>
-                                        {marketDataApiKey ? 'Active' : 'Inactive'}
-                                    </span>
-                                </div>
-                                <p className="text-xs text-slate-400 mb-3">
-                                    We use <strong>CoinGecko</strong> for real-time crypto prices. For Stocks & ETFs, please provide a free API key below to enable real-time updates.
+                        <MarketDataProvidersPanel configs={marketDataProviders} onSave={updateMarketDataProviders} />
+
+                        <div className="mt-6 pt-6 border-t border-slate-800 flex items-start justify-between gap-4">
+                            <div>
+                                <div className="font-bold text-white text-sm">Simulate Missing Prices</div>
+                                <p className="text-xs text-slate-400 mt-1">
+                                    When no provider answers, holdings get a random-walk price marked "Simulated". Turn this off in production to keep the last real price (marked "Stale") instead.
                                 </p>
-                                
-                                <div className="space-y-2">
-                                    <label className="block text-xs font-bold text-slate-500 uppercase">Finnhub API Key (Stocks)</label>
-                                    <div className="flex gap-2">
-                                        <input 
-                                            type="password" 
-                                            value={localApiKey}
-                                            onChange={(e) => setLocalApiKey(e.target.value)}
-                                            placeholder="Enter your Finnhub.io API Key"
-                                            className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:border-brand-500 outline-none"
-                                        />
-                                        <button 
-                                            onClick={handleSaveMarketKey}
-                                            disabled={savingKey}
-                                            className="bg-brand-600 hover:bg-brand-500 text-white text-sm font-bold px-4 rounded-lg transition-colors disabled:opacity-50 min-w-[80px]"
-                                        >
-                                            {savingKey ? (
-                                                <Loader2 className="w-4 h-4 animate-spin mx-auto" />
-                                            ) : (
-                                                'Save'
-                                            )}
-                                        </button>
-                                    </div>
-                                    <div className="text-[10px] text-slate-500">
-                                        Don't have a key? <a href="https://finnhub.io/register" target="_blank" rel="noreferrer" className="text-brand-400 hover:underline">Get a free one here</a>.
-                                    </div>
-                                </div>
                             </div>
+                            <input
+                                type="checkbox"
+                                checked={isSimulationEnabled}
+                                onChange={(e) => setSimulationEnabled(e.target.checked)}
+                                className="mt-1 text-brand-600 focus:ring-brand-500"
+                            />
                         </div>
                      </div>
 
@@ -593,7 +554,34 @@ const SettingsView: React.FC = () => {
                                                     {integration.status}
                                                     <span className="text-slate-600">•</span>
                                                     Last synced: {integration.lastSync}
+                                                    {integration.portfolioId && portfolios.some(p => p.id === integration.portfolioId) && (
+                                                        <>
+                                                            <span className="text-slate-600">•</span>
+                                                            Syncs into {portfolios.find(p => p.id === integration.portfolioId)?.name}
+                                                        </>
+                                                    )}
                                                 </div>
+                                                {integration.lastError && (
+                                                    <div className={`text-xs mt-1 ${integration.status === 'Error' ? 'text-red-400' : 'text-amber-400'}`}>{integration.lastError}</div>
+                                                )}
+                                                {/* Accounts connected before syncs had a target keep their history; one whose portfolio was deleted starts over */}
+                                                {integration.providerId === 'trading212' && !portfolios.some(p => p.id === integration.portfolioId) && (
+                                                    <select
+                                                        value=""
+                                                        onChange={(e) => updateIntegration(integration.id, {
+                                                            portfolioId: e.target.value,
+                                                            status: 'Connected',
+                                                            lastError: undefined,
+                                                            ...(integration.portfolioId ? { syncCursor: undefined, syncedSymbols: undefined } : {})
+                                                        })}
+                                                        className="mt-2 bg-slate-900 border border-slate-700 rounded-lg py-1.5 pl-3 pr-4 text-white focus:border-brand-500 outline-none cursor-pointer text-xs"
+                                                    >
+                                                        <option value="" disabled>Choose the portfolio this account syncs into…</option>
+                                                        {portfolios.map(p => (
+                                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                                        ))}
+                                                    </select>
+                                                )}
                                             </div>
                                         </div>
                                         <div className="flex items-center gap-3">
@@ -645,7 +633,7 @@ const SettingsView: React.FC = () => {
                                 </div>
                                 <div className="flex-1">
                                     <div className="font-bold text-white group-hover:text-brand-400 transition-colors">Manual Import</div>
-                                    <div className="text-xs text-slate-500">CSV / Excel Upload</div>
+                                    <div className="text-xs text-slate-500">Broker CSV, OFX/QFX or QIF files</div>
                                 </div>
                                 <div className="px-3 py-1.5 rounded-lg bg-slate-900 text-slate-400 text-xs font-bold group-hover:bg-brand-600 group-hover:text-white transition-colors">
                                     Import
@@ -801,68 +789,7 @@ const SettingsView: React.FC = () => {
         )}
 
         {/* Import Modal */}
-        {showImportModal && (
-            <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-                <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-fade-in-up">
-                    <div className="p-6 border-b border-slate-800 flex justify-between items-center">
-                        <div className="flex items-center gap-3">
-                            <div className="bg-brand-600/20 p-2 rounded-lg">
-                                <FileSpreadsheet className="w-6 h-6 text-brand-500" />
-                            </div>
-                            <h3 className="text-xl font-bold text-white">Import Portfolio Data</h3>
-                        </div>
-                        <button onClick={() => { setShowImportModal(false); setImportFile(null); }}><X className="w-5 h-5 text-slate-400 hover:text-white" /></button>
-                    </div>
-                    
-                    <div className="p-8">
-                        <div className="mb-6">
-                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1.5">Target Portfolio</label>
-                            <div className="relative">
-                                <Briefcase className="absolute left-3 top-3 w-4 h-4 text-slate-500" />
-                                <select 
-                                    value={importTargetPortfolio}
-                                    onChange={(e) => setImportTargetPortfolio(e.target.value)}
-                                    className="w-full bg-slate-950 border border-slate-700 rounded-lg py-2.5 pl-10 pr-4 text-white focus:border-brand-500 outline-none appearance-none cursor-pointer"
-                                >
-                                    {portfolios.map(p => (
-                                        <option key={p.id} value={p.id}>{p.name}</option>
-                                    ))}
-                                </select>
-                            </div>
-                        </div>
-
-                        <input type="file" accept=".csv" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
-                        <div onClick={() => fileInputRef.current?.click()} className={`border-2 border-dashed rounded-xl p-12 flex flex-col items-center justify-center text-center cursor-pointer transition-colors group ${importFile ? 'border-brand-500 bg-brand-500/5' : 'border-slate-700 hover:border-brand-500 bg-slate-950/50'}`}>
-                            {importFile ? (
-                                <>
-                                    <FileSpreadsheet className="w-16 h-16 text-brand-500 mb-4" />
-                                    <p className="text-lg font-medium text-white mb-2">{importFile.name}</p>
-                                    <p className="text-sm text-slate-500">{(importFile.size / 1024).toFixed(2)} KB</p>
-                                </>
-                            ) : (
-                                <>
-                                    <UploadCloud className="w-16 h-16 text-slate-600 group-hover:text-brand-500 mb-4 transition-colors" />
-                                    <p className="text-lg font-medium text-white mb-2">Drop your CSV file here</p>
-                                    <p className="text-sm text-slate-500 mb-6">or click to browse from your computer</p>
-                                    <span className="px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-medium hover:bg-slate-700 transition-colors">Select File</span>
-                                </>
-                            )}
-                        </div>
-                        <div className="mt-6 flex justify-between items-center text-xs text-slate-500">
-                            <div>Supported format: .CSV (T212 Export)</div>
-                            <button className="text-brand-400 hover:underline">Download Template</button>
-                        </div>
-                    </div>
-                    <div className="p-6 bg-slate-950 border-t border-slate-800 flex justify-end gap-3">
-                        <button onClick={() => { setShowImportModal(false); setImportFile(null); }} className="px-4 py-2 text-slate-400 hover:text-white transition-colors">Cancel</button>
-                         <button onClick={handleImport} disabled={!importFile || isImporting} className="px-6 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-bold transition-colors disabled:opacity-50 flex items-center gap-2">
-                            {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
-                            {isImporting ? 'Importing...' : 'Import Data'}
-                        </button>
-                    </div>
-                </div>
-            </div>
-        )}
+        {showImportModal && <ImportModal onClose={() => setShowImportModal(false)} />}
 
         {showPaymentModal && selectedPlan && (
             <PaymentModal 
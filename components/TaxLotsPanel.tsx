@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { Layers, X, AlertTriangle } from 'lucide-react';
+import { usePortfolio } from '../context/PortfolioContext';
+import { buildLotReport, COST_BASIS_METHODS, LotReport, TaxLot } from '../services/taxLots';
+import { convertCurrency, formatMoney, transactionsInBase } from '../services/fx';
+
+const gainClass = (value: number) => value >= 0 ? 'text-emerald-500' : 'text-red-500';
+
+const TermBadge: React.FC<{ term: 'short' | 'long' }> = ({ term }) => (
+    <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border ${term === 'long' ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20' : 'bg-amber-500/10 text-amber-500 border-amber-500/20'}`}>
+        {term === 'long' ? 'Long' : 'Short'}
+    </span>
+);
+
+// Lot-level cost basis: method picker, realized/unrealized split by term, open lots and realized slices
+const TaxLotsPanel: React.FC = () => {
+    const { activePortfolio, updateCostBasisMethod, addTransaction, baseCurrency, fxRates } = usePortfolio();
+    const method = activePortfolio.costBasisMethod || 'FIFO';
+
+    const [sellingLot, setSellingLot] = useState<TaxLot | null>(null);
+    const [sellShares, setSellShares] = useState('');
+    const [sellPrice, setSellPrice] = useState('');
+    const [sellDate, setSellDate] = useState(new Date().toISOString().split('T')[0]);
+
+    // Lots are reported in the base currency; the sell form below trades in the holding's own currency
+    const report: LotReport = useMemo(() => {
+        const prices: Record<string, number> = {};
+        activePortfolio.holdings.forEach(h => { prices[h.symbol.toUpperCase()] = convertCurrency(h.currentPrice, h.currency, baseCurrency, fxRates); });
+        return buildLotReport(transactionsInBase(activePortfolio.transactions, baseCurrency, fxRates), method, prices, undefined, activePortfolio.corporateActions);
+    }, [activePortfolio.transactions, activePortfolio.holdings, activePortfolio.corporateActions, method, baseCurrency, fxRates]);
+
+    const openSellForm = (lot: TaxLot) => {
+        const holding = activePortfolio.holdings.find(h => h.symbol.toUpperCase() === lot.symbol);
+        setSellingLot(lot);
+        setSellShares(String(lot.shares));
+        setSellPrice((holding ? holding.currentPrice : lot.currentPrice).toFixed(2));
+    };
+
+    const submitSell = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!sellingLot) return;
+        const holding = activePortfolio.holdings.find(h => h.symbol.toUpperCase() === sellingLot.symbol);
+        const shares = parseFloat(sellShares);
+        if (!holding || !(shares > 0)) return;
+        await addTransaction(holding.id, 'SELL', shares, parseFloat(sellPrice), sellDate, undefined, [{ lotId: sellingLot.id, shares }]);
+        setSellingLot(null);
+    };
+
+    const { summary } = report;
+    const summaryCards = [
+        { label: 'Realized Short-Term', value: summary.realizedShortTerm },
+        { label: 'Realized Long-Term', value: summary.realizedLongTerm },
+        { label: 'Unrealized Short-Term', value: summary.unrealizedShortTerm },
+        { label: 'Unrealized Long-Term', value: summary.unrealizedLongTerm }
+    ];
+    const missingBasis = report.realized.filter(r => r.missingBasis);
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-6 shadow-sm">
+                <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-6">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                            <Layers className="w-5 h-5 text-brand-500" /> Tax Lots
+                        </h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">{COST_BASIS_METHODS.find(m => m.id === method)?.description}</p>
+                    </div>
+                    <div className="flex gap-1 bg-slate-100 dark:bg-slate-950 p-1 rounded-lg border border-slate-200 dark:border-slate-800">
+                        {COST_BASIS_METHODS.map(m => (
+                            <button
+                                key={m.id}
+                                onClick={() => updateCostBasisMethod(m.id)}
+                                className={`px-3 py-1 text-xs font-bold rounded-md transition-colors whitespace-nowrap ${method === m.id ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 hover:text-slate-900 dark:hover:text-white'}`}
+                            >
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {summaryCards.map(card => (
+                        <div key={card.label} className="p-4 bg-slate-50 dark:bg-slate-950 rounded-lg border border-slate-200 dark:border-slate-800">
+                            <div className="text-xs text-slate-500 uppercase font-bold">{card.label}</div>
+                            <div className={`text-xl font-bold ${gainClass(card.value)}`}>{formatMoney(card.value, baseCurrency)}</div>
+                        </div>
+                    ))}
+                </div>
+
+                {missingBasis.length > 0 && (
+                    <div className="mt-4 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-xs text-amber-600 dark:text-amber-400 flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                        {missingBasis.length} sale(s) include shares with no matching purchase in the ledger. They are reported with a zero cost basis until the missing buys are added.
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden shadow-sm">
+                <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 font-bold text-slate-900 dark:text-white">Open Lots</div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 uppercase text-xs font-semibold border-b border-slate-200 dark:border-slate-800">
+                            <tr>
+                                <th className="px-6 py-3">Asset</th>
+                                <th className="px-6 py-3">Acquired</th>
+                                <th className="px-6 py-3 text-right">Shares</th>
+                                <th className="px-6 py-3 text-right">Cost / Share</th>
+                                <th className="px-6 py-3 text-right">Cost Basis</th>
+                                <th className="px-6 py-3 text-right">Market Value</th>
+                                <th className="px-6 py-3 text-right">Unrealized</th>
+                                <th className="px-6 py-3 text-center">Term</th>
+                                <th className="px-6 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                            {report.openLots.map(lot => (
+                                <tr key={lot.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+                                    <td className="px-6 py-3 font-bold text-slate-900 dark:text-white">{lot.symbol}</td>
+                                    <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{lot.acquiredDate} <span className="text-xs text-slate-500">({lot.holdingDays}d)</span></td>
+                                    <td className="px-6 py-3 text-right text-slate-700 dark:text-slate-300">{parseFloat(lot.shares.toFixed(6))}</td>
+                                    <td className="px-6 py-3 text-right text-slate-500 dark:text-slate-400">{formatMoney(lot.costPerShare, baseCurrency)}</td>
+                                    <td className="px-6 py-3 text-right text-slate-700 dark:text-slate-300">{formatMoney(lot.costBasis, baseCurrency)}</td>
+                                    <td className="px-6 py-3 text-right text-slate-700 dark:text-slate-300">{formatMoney(lot.marketValue, baseCurrency)}</td>
+                                    <td className={`px-6 py-3 text-right font-bold ${gainClass(lot.unrealizedGain)}`}>{formatMoney(lot.unrealizedGain, baseCurrency)}</td>
+                                    <td className="px-6 py-3 text-center"><TermBadge term={lot.term} /></td>
+                                    <td className="px-6 py-3 text-right">
+                                        {method === 'SPECIFIC' && (
+                                            <button onClick={() => openSellForm(lot)} className="text-xs font-bold text-brand-500 hover:text-brand-400">Sell Lot</button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                            {report.openLots.length === 0 && (
+                                <tr>
+                                    <td colSpan={9} className="text-center py-10 text-slate-500">No open lots. Lots are built from BUY transactions.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl overflow-hidden shadow-sm">
+                <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800 font-bold text-slate-900 dark:text-white">Realized Lots</div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 uppercase text-xs font-semibold border-b border-slate-200 dark:border-slate-800">
+                            <tr>
+                                <th className="px-6 py-3">Asset</th>
+                                <th className="px-6 py-3">Acquired</th>
+                                <th className="px-6 py-3">Sold</th>
+                                <th className="px-6 py-3 text-right">Shares</th>
+                                <th className="px-6 py-3 text-right">Proceeds</th>
+                                <th className="px-6 py-3 text-right">Cost Basis</th>
+                                <th className="px-6 py-3 text-right">Gain / Loss</th>
+                                <th className="px-6 py-3 text-center">Term</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                            {[...report.realized].reverse().map((r, i) => (
+                                <tr key={`${r.saleTransactionId}-${r.lotId}-${i}`} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+                                    <td className="px-6 py-3 font-bold text-slate-900 dark:text-white">{r.symbol}</td>
+                                    <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{r.missingBasis ? <span className="text-amber-500">Unknown</span> : r.acquiredDate}</td>
+                                    <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{r.soldDate}</td>
+                                    <td className="px-6 py-3 text-right text-slate-700 dark:text-slate-300">{parseFloat(r.shares.toFixed(6))}</td>
+                                    <td className="px-6 py-3 text-right text-slate-700 dark:text-slate-300">{formatMoney(r.proceeds, baseCurrency)}</td>
+                                    <td className="px-6 py-3 text-right text-slate-500 dark:text-slate-400">{formatMoney(r.costBasis, baseCurrency)}</td>
+                                    <td className={`px-6 py-3 text-right font-bold ${gainClass(r.gain)}`}>{formatMoney(r.gain, baseCurrency)}</td>
+                                    <td className="px-6 py-3 text-center"><TermBadge term={r.term} /></td>
+                                </tr>
+                            ))}
+                            {report.realized.length === 0 && (
+                                <tr>
+                                    <td colSpan={8} className="text-center py-10 text-slate-500">No sales recorded yet.</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Sell Specific Lot Modal */}
+            {sellingLot && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+                    <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up">
+                        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+                            <div>
+                                <h3 className="text-xl font-bold text-white">Sell {sellingLot.symbol} Lot</h3>
+                                <div className="text-xs text-slate-400">Acquired {sellingLot.acquiredDate} at {formatMoney(sellingLot.costPerShare, baseCurrency)}</div>
+                            </div>
+                            <button onClick={() => setSellingLot(null)} className="text-slate-400 hover:text-white transition-colors">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+                        <form onSubmit={submitSell} className="p-6 space-y-4">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Shares (max {parseFloat(sellingLot.shares.toFixed(6))})</label>
+                                <input type="number" step="any" min="0" max={sellingLot.shares} required value={sellShares} onChange={e => setSellShares(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 outline-none" />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Sale Price ({activePortfolio.holdings.find(h => h.symbol.toUpperCase() === sellingLot.symbol)?.currency || 'USD'})</label>
+                                <input type="number" step="any" min="0" required value={sellPrice} onChange={e => setSellPrice(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 outline-none" />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Date</label>
+                                <input type="date" required value={sellDate} onChange={e => setSellDate(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 outline-none" />
+                            </div>
+                            <button type="submit" className="w-full px-4 py-3 bg-brand-600 hover:bg-brand-500 text-white font-bold rounded-xl transition-colors">
+                                Record Sale
+                            </button>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaxLotsPanel;
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, X, Download, Printer, AlertTriangle } from 'lucide-react';
+import { usePortfolio } from '../context/PortfolioContext';
+import { availableTaxYears, buildTaxReport, TaxJurisdiction, TaxReport, taxReportToCSV, taxReportToHTML, TAX_JURISDICTIONS } from '../services/taxReport';
+import { formatMoney, transactionsInBase } from '../services/fx';
+
+interface TaxReportModalProps {
+    onClose: () => void;
+}
+
+const gainClass = (value: number) => value >= 0 ? 'text-emerald-500' : 'text-red-500';
+
+// Realized gains schedule for one tax year, previewed here and exported as CSV or a printable page
+const TaxReportModal: React.FC<TaxReportModalProps> = ({ onClose }) => {
+    const { activePortfolio, baseCurrency, fxRates } = usePortfolio();
+    const [jurisdiction, setJurisdiction] = useState<TaxJurisdiction>('US');
+    const corporateActions = activePortfolio.corporateActions;
+    const years: number[] = useMemo(
+        () => availableTaxYears(activePortfolio.transactions, jurisdiction, corporateActions),
+        [activePortfolio.transactions, jurisdiction, corporateActions]
+    );
+    const [selectedYear, setSelectedYear] = useState<number | null>(null);
+    const year = selectedYear !== null && years.includes(selectedYear) ? selectedYear : (years[0] ?? new Date().getFullYear());
+    const method = activePortfolio.costBasisMethod || 'FIFO';
+
+    const report: TaxReport = useMemo(
+        () => buildTaxReport(transactionsInBase(activePortfolio.transactions, baseCurrency, fxRates), jurisdiction, year, method, corporateActions, baseCurrency),
+        [activePortfolio.transactions, jurisdiction, year, method, corporateActions, baseCurrency, fxRates]
+    );
+
+    const fileBase = `wealthos_${activePortfolio.name.replace(/\s/g, '_')}_${jurisdiction}_tax_${report.yearLabel}`;
+
+    const handleDownload = () => {
+        const link = document.createElement('a');
+        link.setAttribute('href', 'data:text/csv;charset=utf-8,' + encodeURIComponent(taxReportToCSV(report)));
+        link.setAttribute('download', `${fileBase}.csv`);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const handlePrint = () => {
+        const win = window.open('', '_blank');
+        if (!win) {
+            alert('Allow pop-ups for this site to print the tax report.');
+            return;
+        }
+        win.document.write(taxReportToHTML(report, activePortfolio.name));
+        win.document.close();
+        win.focus();
+        win.print();
+    };
+
+    const { totals } = report;
+    const summaryCards = jurisdiction === 'US'
+        ? [
+            { label: 'Proceeds', value: totals.proceeds, signed: false },
+            { label: 'Short-Term', value: totals.shortTerm, signed: true },
+            { label: 'Long-Term', value: totals.longTerm, signed: true },
+            { label: 'Wash Sale Adj.', value: totals.adjustments, signed: false }
+        ]
+        : [
+            { label: 'Proceeds', value: totals.proceeds, signed: false },
+            { label: 'Gains', value: totals.gains, signed: true },
+            { label: 'Losses', value: totals.losses, signed: true },
+            { label: 'Net', value: totals.net, signed: true }
+        ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+                <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                            <FileText className="w-5 h-5 text-brand-500" /> Tax Report
+                        </h3>
+                        <div className="text-xs text-slate-400">{activePortfolio.name} · {report.periodStart} to {report.periodEnd}</div>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <div className="flex flex-col md:flex-row gap-4">
+                        <div className="flex-1">
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Jurisdiction</label>
+                            <select value={jurisdiction} onChange={e => setJurisdiction(e.target.value as TaxJurisdiction)} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 outline-none">
+                                {TAX_JURISDICTIONS.map(j => <option key={j.id} value={j.id}>{j.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="md:w-48">
+                            <label className="block text-xs font-bold text-slate-400 uppercase mb-2">Tax Year</label>
+                            <select value={year} onChange={e => setSelectedYear(parseInt(e.target.value, 10))} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:border-brand-500 outline-none">
+                                {(years.length > 0 ? years : [year]).map(y => (
+                                    <option key={y} value={y}>{jurisdiction === 'UK' ? `${y}-${String(y + 1).slice(2)}` : y}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {summaryCards.map(card => (
+                            <div key={card.label} className="bg-slate-950 border border-slate-800 rounded-lg p-4">
+                                <div className="text-xs text-slate-500 font-bold uppercase mb-1">{card.label}</div>
+                                <div className={`text-lg font-bold font-mono ${card.signed ? gainClass(card.value) : 'text-white'}`}>{formatMoney(card.value, baseCurrency)}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="overflow-x-auto border border-slate-800 rounded-lg">
+                        <table className="w-full text-left text-sm">
+                            <thead className="bg-slate-950 text-slate-400 text-xs uppercase">
+                                <tr>
+                                    <th className="p-3">Asset</th>
+                                    {jurisdiction === 'US' && <th className="p-3">Acquired</th>}
+                                    <th className="p-3">Sold</th>
+                                    <th className="p-3 text-right">Proceeds</th>
+                                    <th className="p-3 text-right">Cost</th>
+                                    {jurisdiction === 'US' && <th className="p-3 text-right">Adj.</th>}
+                                    <th className="p-3 text-right">Gain/Loss</th>
+                                    <th className="p-3">{jurisdiction === 'US' ? 'Term' : 'Matching'}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-800">
+                                {report.rows.length === 0 && (
+                                    <tr><td colSpan={8} className="p-6 text-center text-slate-500">No disposals in this tax year.</td></tr>
+                                )}
+                                {report.rows.map((r, i) => (
+                                    <tr key={`${r.symbol}-${r.soldDate}-${i}`} className="text-slate-300">
+                                        <td className="p-3 font-medium text-white">{r.description}</td>
+                                        {jurisdiction === 'US' && <td className="p-3 font-mono text-xs">{r.acquiredDate}</td>}
+                                        <td className="p-3 font-mono text-xs">{r.soldDate}</td>
+                                        <td className="p-3 text-right font-mono">{formatMoney(r.proceeds, baseCurrency)}</td>
+                                        <td className="p-3 text-right font-mono">{formatMoney(r.costBasis, baseCurrency)}</td>
+                                        {jurisdiction === 'US' && (
+                                            <td className="p-3 text-right font-mono">{r.adjustmentCode ? `${r.adjustmentCode} ${formatMoney(r.adjustment, baseCurrency)}` : ''}</td>
+                                        )}
+                                        <td className={`p-3 text-right font-mono font-bold ${gainClass(r.gain)}`}>{formatMoney(r.gain, baseCurrency)}</td>
+                                        <td className="p-3 text-xs text-slate-400">{jurisdiction === 'US' ? (r.term === 'long' ? 'Long' : 'Short') : r.matching}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {report.rows.some(r => r.missingBasis) && (
+                        <div className="flex items-start gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
+                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                            Some sales exceed the shares recorded as bought and are reported with a zero cost. Import the missing purchase history for accurate figures.
+                        </div>
+                    )}
+                    <ul className="text-xs text-slate-500 list-disc pl-5 space-y-1">
+                        {report.notes.map(n => <li key={n}>{n}</li>)}
+                    </ul>
+                </div>
+
+                <div className="p-6 border-t border-slate-800 flex justify-end gap-3">
+                    <button onClick={handleDownload} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700 transition-colors">
+                        <Download className="w-4 h-4" /> Download CSV
+                    </button>
+                    <button onClick={handlePrint} className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold bg-brand-600 text-white hover:bg-brand-500 transition-colors">
+                        <Printer className="w-4 h-4" /> Print
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TaxReportModal;
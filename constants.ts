@@ -231,7 +231,7 @@ export const MOCK_MARKET_ASSETS: Holding[] = [
         id: '22', symbol: 'AMZN', name: 'Amazon.com Inc.', shares: 0, avgPrice: 0, currentPrice: 145.00, assetType: AssetType.STOCK, sector: 'Consumer Cyclical', country: 'USA', dividendYield: 0, expenseRatio: 0, safetyScore: 75, snowflake: { value: 3, future: 5, past: 4, health: 4, dividend: 0, total: 16 }, logoUrl: 'https://logo.clearbit.com/amazon.com', financials: generateFinancials(), competitors: generateCompetitors('AMZN')
     },
     {
-        id: '23', symbol: 'VUSA', name: 'Vanguard S&P 500 (Dist)', shares: 0, avgPrice: 0, currentPrice: 64.10, assetType: AssetType.ETF, sector: 'Diversified', country: 'UK', dividendYield: 1.45, expenseRatio: 0.07, safetyScore: 95, snowflake: { value: 3, future: 3, past: 3, health: 5, dividend: 3, total: 17 }, logoUrl: 'https://logo.clearbit.com/vanguard.co.uk', financials: generateFinancials(), competitors: []
+        id: '23', symbol: 'VUSA', name: 'Vanguard S&P 500 (Dist)', shares: 0, avgPrice: 0, currentPrice: 64.10, assetType: AssetType.ETF, sector: 'Diversified', country: 'UK', currency: 'GBP', dividendYield: 1.45, expenseRatio: 0.07, safetyScore: 95, snowflake: { value: 3, future: 3, past: 3, health: 5, dividend: 3, total: 17 }, logoUrl: 'https://logo.clearbit.com/vanguard.co.uk', financials: generateFinancials(), competitors: []
     }
 ];
 
@@ -256,14 +256,14 @@ export const MOCK_TRANSACTIONS: Transaction[] = [
 
 // New Mock Data for Kubera-style Assets & Liabilities
 export const MOCK_MANUAL_ASSETS: ManualAsset[] = [
-    { id: 'ma1', name: 'Primary Residence', type: 'Real Estate', value: 450000, currency: 'USD', purchaseDate: '2019-05-15', purchasePrice: 380000 },
-    { id: 'ma2', name: 'Tesla Model 3', type: 'Vehicle', value: 32000, currency: 'USD', purchaseDate: '2022-01-10', purchasePrice: 48000 },
+    { id: 'ma1', name: 'Primary Residence', type: 'Real Estate', value: 450000, currency: 'USD', purchaseDate: '2019-05-15', purchasePrice: 380000, valuations: [{ date: '2025-06-30', value: 450000 }], valuationModel: { type: 'appreciation', annualRate: 3 } },
+    { id: 'ma2', name: 'Tesla Model 3', type: 'Vehicle', value: 32000, currency: 'USD', purchaseDate: '2022-01-10', purchasePrice: 48000, valuations: [{ date: '2025-06-30', value: 32000 }], valuationModel: { type: 'declining-balance', annualRate: 15 } },
     { id: 'ma3', name: 'Vintage Watch Collection', type: 'Art/Collectibles', value: 15000, currency: 'USD' }
 ];
 
 export const MOCK_LIABILITIES: Liability[] = [
-    { id: 'l1', name: 'Home Mortgage', type: 'Mortgage', amount: 310000, interestRate: 3.5, monthlyPayment: 1850 },
-    { id: 'l2', name: 'Car Loan', type: 'Loan', amount: 12000, interestRate: 4.9, monthlyPayment: 450 }
+    { id: 'l1', name: 'Home Mortgage', type: 'Mortgage', amount: 310000, interestRate: 3.5, monthlyPayment: 1850, balanceDate: '2026-01-01' },
+    { id: 'l2', name: 'Car Loan', type: 'Loan', amount: 12000, interestRate: 4.9, monthlyPayment: 450, balanceDate: '2026-01-01' }
 ];
 
 export const MOCK_PORTFOLIO: Portfolio = {
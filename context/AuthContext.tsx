@@ -48,6 +48,8 @@ interface AuthContextType {
   resetPassword: (email: string) => Promise<{ success: boolean, message?: string }>;
   logout: () => void;
   updateUserPlan: (plan: PlanTier) => void;
+  updateTaxResidence: (country: string) => void;
+  updateBaseCurrency: (currency: string) => void;
   
   brokerProviders: BrokerProvider[];
   addBrokerProvider: (provider: BrokerProvider) => void;
@@ -55,8 +57,9 @@ interface AuthContextType {
   updateBrokerProvider: (id: string, updates: Partial<BrokerProvider>) => void;
 
   integrations: BrokerIntegration[];
-  connectBroker: (providerId: string, name: string, type: 'Stock' | 'Crypto' | 'Mixed', logo: string, credentials: any) => Promise<boolean>;
+  connectBroker: (providerId: string, name: string, type: 'Stock' | 'Crypto' | 'Mixed', logo: string, credentials: any, portfolioId?: string) => Promise<boolean>;
   disconnectBroker: (id: string) => void;
+  updateIntegration: (id: string, updates: Partial<Omit<BrokerIntegration, 'id'>>) => void;
 
   wallets: CryptoWallet[];
   addWallet: (wallet: Omit<CryptoWallet, 'id'>) => void;
@@ -159,6 +162,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       let plan: PlanTier = 'Free';
       let name = 'User';
       let avatar = undefined;
+      let taxResidence: string | undefined = undefined;
+      let baseCurrency: string | undefined = undefined;
       let joinedDate = new Date().toISOString().split('T')[0];
       let isFallback = false;
 
@@ -198,6 +203,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           plan = (data.plan as PlanTier) || 'Free';
           name = data.full_name || 'User';
           avatar = data.avatar_url;
+          taxResidence = data.tax_residence || undefined;
+          baseCurrency = data.base_currency || undefined;
           if (data.created_at) {
               joinedDate = new Date(data.created_at).toISOString().split('T')[0];
           }
@@ -222,7 +229,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         role: role,
         plan: plan,
         joinedDate: joinedDate,
-        avatar: avatar
+        avatar: avatar,
+        taxResidence: taxResidence,
+        baseCurrency: baseCurrency
       };
       
       setUser(appUser);
@@ -292,7 +301,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               status: i.status as any,
               lastSync: new Date(i.last_sync).toLocaleString(),
               logo: i.logo,
-              apiCredentials: i.api_credentials
+              apiCredentials: i.api_credentials,
+              portfolioId: i.portfolio_id || undefined,
+              syncedSymbols: i.synced_symbols || undefined,
+              syncCursor: i.sync_cursor || undefined,
+              lastError: i.last_error || undefined
           }));
           
           // Only update if we found data, otherwise we risk overwriting local data if RLS filtered everything
@@ -451,23 +464,53 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const updateTaxResidence = async (country: string) => {
+    if (user) {
+      setUser({ ...user, taxResidence: country });
+      if (isSupabaseConfigured && !user.id.startsWith('super-admin') && !user.id.startsWith('admin-demo') && !user.id.startsWith('mock')) {
+          const { error } = await supabase.from('profiles').update({ tax_residence: country }).eq('id', user.id);
+          if (error) console.error("Failed to save tax residence", error);
+      }
+    }
+  };
+
+  const updateBaseCurrency = async (currency: string) => {
+    if (user) {
+      setUser({ ...user, baseCurrency: currency });
+      if (isSupabaseConfigured && !user.id.startsWith('super-admin') && !user.id.startsWith('admin-demo') && !user.id.startsWith('mock')) {
+          const { error } = await supabase.from('profiles').update({ base_currency: currency }).eq('id', user.id);
+          if (error) console.error("Failed to save base currency", error);
+      }
+    }
+  };
+
   // --- Admin & Functionality Wrappers ---
   const addBrokerProvider = (provider: BrokerProvider) => setBrokerProviders(prev => [...prev, provider]);
   const removeBrokerProvider = (id: string) => setBrokerProviders(prev => prev.filter(p => p.id !== id));
   const updateBrokerProvider = (id: string, updates: Partial<BrokerProvider>) => setBrokerProviders(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
 
-  const connectBroker = async (providerId: string, name: string, type: 'Stock' | 'Crypto' | 'Mixed', logo: string, credentials: any) => {
+  const connectBroker = async (providerId: string, name: string, type: 'Stock' | 'Crypto' | 'Mixed', logo: string, credentials: any, portfolioId?: string) => {
     // 1. OPTIMISTIC UPDATE: Immediate feedback for UI
     const existingIndex = integrations.findIndex(i => i.providerId === providerId);
+    const previous = existingIndex >= 0 ? integrations[existingIndex] : undefined;
+    // A different key may be a different account, and a different portfolio has none of its
+    // positions, so either starts the history (and what it has synced) over
+    const restart = !previous
+        || previous.apiCredentials?.apiKey !== credentials?.apiKey
+        || (!!portfolioId && portfolioId !== previous.portfolioId);
     let newIntegrations = [...integrations];
     const status: any = 'Connected';
     const lastSync = new Date().toLocaleString();
 
     if (existingIndex >= 0) {
+        const existing = newIntegrations[existingIndex];
         newIntegrations[existingIndex] = {
-            ...newIntegrations[existingIndex],
+            ...existing,
             name,
             apiCredentials: credentials,
+            syncCursor: restart ? undefined : existing.syncCursor,
+            syncedSymbols: restart ? undefined : existing.syncedSymbols,
+            portfolioId: portfolioId || existing.portfolioId,
             lastSync,
             status,
             logo // update logo if changed
@@ -481,7 +524,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             status,
             lastSync,
             logo,
-            apiCredentials: credentials
+            apiCredentials: credentials,
+            portfolioId
         };
         newIntegrations.push(newIntegration);
     }
@@ -516,6 +560,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                             type,
                             logo,
                             api_credentials: credentials, 
+                            ...(portfolioId ? { portfolio_id: portfolioId } : {}),
+                            ...(restart ? { sync_cursor: null, synced_symbols: null } : {}),
                             status: 'Connected',
                             last_sync: new Date().toISOString()
                         })
@@ -532,6 +578,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                                 type,
                                 logo,
                                 api_credentials: credentials,
+                                ...(portfolioId ? { portfolio_id: portfolioId } : {}),
                                 status: 'Connected',
                                 last_sync: new Date().toISOString()
                             });
@@ -545,6 +592,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                                     type,
                                     logo,
                                     api_credentials: credentials, 
+                                    ...(portfolioId ? { portfolio_id: portfolioId } : {}),
+                                    ...(restart ? { sync_cursor: null, synced_symbols: null } : {}),
                                     status: 'Connected',
                                     last_sync: new Date().toISOString()
                                 })
@@ -576,6 +625,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
   };
 
+  // Sync progress (status, cursor, last error) written back after each broker sync
+  const updateIntegration = (id: string, updates: Partial<Omit<BrokerIntegration, 'id'>>) => {
+      setIntegrations(prev => {
+          const updated = prev.map(i => i.id === id ? { ...i, ...updates } : i);
+          localStorage.setItem('wealthos_integrations', JSON.stringify(updated));
+          return updated;
+      });
+      if (isSupabaseConfigured && user && !user.id.startsWith('mock') && !user.id.startsWith('admin-demo')) {
+          const row: Record<string, unknown> = {};
+          if (updates.status !== undefined) row.status = updates.status;
+          if (updates.portfolioId !== undefined) row.portfolio_id = updates.portfolioId;
+          if ('syncedSymbols' in updates) row.synced_symbols = updates.syncedSymbols || null;
+          if (updates.lastSync !== undefined) row.last_sync = new Date().toISOString();
+          if ('syncCursor' in updates) row.sync_cursor = updates.syncCursor || null;
+          if ('lastError' in updates) row.last_error = updates.lastError || null;
+          supabase.from('broker_integrations').update(row).eq('id', id).then(({ error }) => {
+              if (error) console.error("Failed to update broker integration in DB", error);
+          });
+      }
+  };
+
   const addWallet = (wallet: Omit<CryptoWallet, 'id'>) => setWallets(prev => [...prev, { ...wallet, id: Math.random().toString() }]);
   const removeWallet = (id: string) => setWallets(prev => prev.filter(w => w.id !== id));
   const toggleWallet = (id: string) => setWallets(prev => prev.map(w => w.id === id ? { ...w, isEnabled: !w.isEnabled } : w));
@@ -608,6 +678,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       resetPassword,
       logout,
       updateUserPlan,
+      updateTaxResidence,
+      updateBaseCurrency,
       brokerProviders,
       addBrokerProvider,
       removeBrokerProvider,
@@ -615,6 +687,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       integrations,
       connectBroker,
       disconnectBroker,
+      updateIntegration,
       wallets,
       addWallet,
       removeWallet,
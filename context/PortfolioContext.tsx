@@ -1,10 +1,36 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
 import { supabase, isSupabaseConfigured } from '../services/supabaseClient';
-import { Portfolio, Holding, PortfolioSummary, Transaction, Notification, ViewState, Watchlist, ManualAsset, Liability, AssetType, AlertConfig } from '../types';
+import { BrokerIntegration, Portfolio, Holding, PortfolioSummary, Transaction, Notification, ViewState, Watchlist, ManualAsset, Liability, AssetType, AlertConfig, CostBasisMethod, AccountType, LotSelection, CorporateAction, CashTransactionType, NetWorthSnapshot } from '../types';
 import { MOCK_MARKET_ASSETS, MOCK_PORTFOLIO, MOCK_PORTFOLIOS_LIST } from '../constants';
 import { useAuth } from './AuthContext';
-import { fetchCryptoPrice, fetchStockPrice, fetchTrading212Positions } from '../services/marketData';
+import { fetchCloseOn, ProviderConfig } from '../services/marketData';
+import { httpTransport, LedgerPosition, reconcilePositions, syncTrading212, Trading212Error, Trading212Transport } from '../services/brokers/trading212';
+import { loadProviderConfigs, saveProviderConfigs } from '../services/providers/registry';
+import { evaluateAlerts } from '../services/alertEngine';
+import { createQuoteScheduler, QuoteRequest, QuoteScheduler } from '../services/quoteScheduler';
+import { ProviderQuote } from '../services/providers/types';
+import { restateHoldings } from '../services/corporateActions';
+import { addCash, cashAccounts, CashAccounts, cashMovements, tracksCash } from '../services/cashLedger';
+import { DividendSchedule, loadDividendSchedules } from '../services/dividendSchedule';
+import { detectDividendChanges, dividendChangeNotifications } from '../services/dividendChanges';
+import { applyWithholding, TaxProfile } from '../services/withholdingTax';
+import { convertCurrency, currenciesInUse, EMPTY_FX_RATES, FxRates, loadFxRates } from '../services/fx';
+import { BalanceSheet, combineSnapshots, createSnapshot, upsertSnapshot } from '../services/netWorthSnapshots';
+import { balanceOn } from '../services/amortization';
+import { valueOn } from '../services/manualAssetValuation';
+import { rebuildHoldings } from '../services/ledger';
+import { applyImportedTrades, importIds, knownImportIds, previewImport as buildImportPreview, resolveImportedSymbols, toLedgerTransaction } from '../services/import/preview';
+import { resolveSymbol } from '../services/symbolResolver';
+import { ImportedTransaction, ImportPreview, ImportResult } from '../services/import/types';
+
+// Optional fields for a cash entry: the paying symbol for dividends/withholding, the currencies for conversions
+export interface CashTransactionDetails {
+  symbol?: string;
+  currency?: string;
+  toCurrency?: string;
+  fxRate?: number;
+}
 
 interface PortfolioContextType {
   portfolios: PortfolioSummary[];
@@ -14,13 +40,23 @@ interface PortfolioContextType {
   switchPortfolio: (id: string) => void;
   setDefaultPortfolio: (id: string) => void;
   addNewPortfolio: (name: string, type: 'Stock' | 'Crypto' | 'Mixed') => Promise<string | null>;
-  importPortfolio: (name: string, transactions: any[], targetPortfolioId?: string) => Promise<void>;
+  importPortfolio: (name: string, transactions: any[], targetPortfolioId?: string) => Promise<ImportResult>;
+  previewImport: (transactions: ImportedTransaction[], targetPortfolioId?: string) => ImportPreview;
   
-  addTransaction: (assetId: string, type: 'BUY' | 'SELL', shares: number, price: number, date: string, targetPortfolioId?: string) => Promise<void>;
+  addTransaction: (assetId: string, type: 'BUY' | 'SELL', shares: number, price: number, date: string, targetPortfolioId?: string, lotSelections?: LotSelection[]) => Promise<void>;
+  addCashTransaction: (type: CashTransactionType, amount: number, date: string, details?: CashTransactionDetails, targetPortfolioId?: string) => Promise<void>;
+  updateTransaction: (transactionId: string, updates: Partial<Omit<Transaction, 'id'>>) => Promise<void>; // Holdings and cash are rebuilt from the edited ledger
+  deleteTransaction: (transactionId: string) => Promise<Transaction | undefined>; // Resolves to the removed entry, for undo
+  restoreTransaction: (transaction: Transaction) => Promise<void>;
+  updateCostBasisMethod: (method: CostBasisMethod) => Promise<void>;
+  updateAccountType: (accountType: AccountType) => Promise<void>;
+  addCorporateAction: (action: Omit<CorporateAction, 'id'>) => Promise<void>;
   updateHolding: (holdingId: string, updates: Partial<Holding>) => Promise<void>;
   deleteHolding: (holdingId: string) => Promise<void>;
   
   addManualAsset: (asset: Omit<ManualAsset, 'id'>, targetPortfolioId?: string) => void;
+  updateManualAsset: (assetId: string, updates: Partial<Omit<ManualAsset, 'id'>>) => Promise<void>; // A new value is added to the valuation history
+  deleteManualAsset: (assetId: string) => Promise<void>;
   addLiability: (liability: Omit<Liability, 'id'>, targetPortfolioId?: string) => void;
   
   watchlists: Watchlist[];
@@ -44,18 +80,43 @@ interface PortfolioContextType {
   closeAddAssetModal: () => void;
 
   alerts: AlertConfig[];
-  addAlert: (symbol: string, targetPrice: number, condition: 'ABOVE' | 'BELOW') => void;
+  addAlert: (symbol: string, targetPrice: number, condition: 'ABOVE' | 'BELOW', cooldownMinutes?: number) => void;
   removeAlert: (id: string) => void;
 
   isMarketOpen: boolean;
   toggleMarketOpen: () => void;
   
-  marketDataApiKey: string;
-  setMarketDataApiKey: (key: string) => void;
+  marketDataProviders: ProviderConfig[];
+  updateMarketDataProviders: (configs: ProviderConfig[]) => void;
+
+  isSimulationEnabled: boolean;
+  setSimulationEnabled: (enabled: boolean) => void;
+  marketQuotes: Record<string, ProviderQuote>; // Latest real quote per symbol, including watched/alerted symbols not held
+
+  dividendSchedules: Record<string, DividendSchedule>; // Keyed by symbol; held stocks with a known dividend history
+  isLoadingDividends: boolean;
+  taxProfile: TaxProfile; // The user's tax residence and the active portfolio's account type
+
+  baseCurrency: string; // Every total (including `activePortfolio.totalValue`) is in this currency
+  fxRates: FxRates;
+  toBase: (amount: number, currency?: string, date?: string) => number; // Converts at the rate on `date`, or the latest
+  holdingValue: (holding: Holding) => number; // Market value in the base currency
+  cashValue: number; // Cash across all currency accounts of the active portfolio, in the base currency
+  balanceSheet: BalanceSheet; // The active portfolio's assets and liabilities today, in the base currency
+
+  netWorthSnapshots: NetWorthSnapshot[]; // Every recorded day, per portfolio and for the user's total; ascending
+  recordNetWorthSnapshot: () => Promise<void>; // Records (or replaces) today's snapshot on demand
   
   syncBroker: (brokerId: string) => Promise<boolean>;
 }
 
+// Each tracked symbol is refreshed roughly this often; the scheduler spreads requests across it
+const QUOTE_REFRESH_INTERVAL_MS = 15000;
+const SIMULATION_STORAGE_KEY = 'wealthos_price_simulation';
+const DIVIDEND_NOTICES_STORAGE_KEY = 'wealthos_dividend_notices';
+// Open sessions check this often whether the day has turned and a new snapshot is due
+const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
 const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined);
 
 const EMPTY_PORTFOLIO: Portfolio = {
@@ -83,8 +144,153 @@ const safeFloat = (val: any): number => {
     return 0;
 };
 
-export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { user, integrations } = useAuth();
+// Market value of the holdings in `base`; prices are in each holding's own currency
+const holdingsValue = (holdings: Holding[], rates: FxRates, base: string): number => {
+    const total = holdings.reduce((sum, h) => {
+        const val = convertCurrency(h.shares * h.currentPrice, h.currency, base, rates);
+        return sum + (Number.isFinite(val) ? val : 0);
+    }, 0);
+    return Number.isFinite(total) ? total : 0;
+};
+
+const cashValueOf = (accounts: CashAccounts, rates: FxRates, base: string): number =>
+    Object.entries(accounts).reduce((sum, [currency, amount]) => sum + convertCurrency(amount, currency, base, rates), 0);
+
+// Cash after `movements`, with the USD total kept alongside for readers of `cashBalance`
+const moveCash = (portfolio: Pick<Portfolio, 'cashBalance' | 'cashBalances'>, movements: CashAccounts, rates: FxRates) => {
+    const cashBalances = addCash(cashAccounts(portfolio), movements);
+    return { cashBalances, cashBalance: cashValueOf(cashBalances, rates, 'USD') };
+};
+
+// A holding for a symbol the portfolio does not hold yet, with the catalogue's details when it has them
+const catalogueHolding = (symbol: string): Holding => {
+    const mockData = MOCK_MARKET_ASSETS.find(m => m.symbol === symbol);
+    return {
+        id: `new-${symbol}`,
+        symbol,
+        name: mockData?.name || symbol,
+        shares: 0,
+        avgPrice: 0,
+        currentPrice: mockData?.currentPrice || 0,
+        assetType: AssetType.STOCK,
+        sector: mockData?.sector || 'Diversified',
+        country: mockData?.country || 'Global',
+        currency: mockData?.currency,
+        dividendYield: mockData?.dividendYield || 0,
+        safetyScore: mockData?.safetyScore || 50,
+        snowflake: mockData?.snowflake || { value: 3, future: 3, past: 3, health: 3, dividend: 3, total: 15 },
+        targetAllocation: 0,
+        expenseRatio: 0
+    };
+};
+
+// A position opened by an import, priced at its first trade until quotes arrive
+const importedHolding = (t: Transaction, name?: string): Holding => {
+    const base = catalogueHolding(t.symbol);
+    const instrument = resolveSymbol(t.symbol);
+    return {
+        ...base,
+        name: name || instrument.name || base.name,
+        assetType: instrument.assetType || base.assetType,
+        currentPrice: t.price,
+        priceStatus: 'placeholder',
+        currency: t.currency || instrument.currency || base.currency
+    };
+};
+
+// Instrument names from an import file, by symbol
+const importedNames = (rows: ImportedTransaction[]): Record<string, string> => {
+    const names: Record<string, string> = {};
+    rows.forEach(r => {
+        if (r.symbol && r.name) names[r.symbol.toUpperCase()] = r.name;
+    });
+    return names;
+};
+
+// Columns of a `transactions` row that describe the entry itself
+const transactionColumns = (t: Transaction) => ({
+    date: t.date,
+    type: t.type,
+    symbol: t.symbol,
+    shares: t.shares,
+    price: t.price,
+    total_value: t.totalValue,
+    lot_selections: t.lotSelections || null,
+    currency: t.currency || null,
+    to_currency: t.toCurrency || null,
+    fx_rate: t.fxRate ?? null,
+    import_id: t.importId || null
+});
+
+// A `holdings` row as a position, priced at cost until the first quote arrives and flagged so
+// that price is not read as a quote
+const holdingFromRow = (h: any): Holding => {
+    const shares = safeFloat(h.shares);
+    const avgPrice = safeFloat(h.avg_price);
+    const cataloguePrice = MOCK_MARKET_ASSETS.find(m => m.symbol === h.symbol)?.currentPrice || 0;
+    const currentPrice = avgPrice > 0 ? avgPrice : cataloguePrice;
+
+    return {
+        id: h.id,
+        symbol: h.symbol,
+        name: h.name || h.symbol,
+        shares: shares,
+        avgPrice: avgPrice,
+        currentPrice: safeFloat(currentPrice),
+        priceStatus: 'placeholder' as const,
+        assetType: (h.asset_type as AssetType) || AssetType.STOCK,
+        sector: h.sector || 'Diversified',
+        country: h.country || 'Global',
+        currency: h.currency || undefined,
+        dividendYield: safeFloat(h.dividend_yield),
+        safetyScore: safeFloat(h.safety_score) || 50,
+        snowflake: h.snowflake_data || { value: 3, future: 3, past: 3, health: 3, dividend: 3, total: 15 },
+        targetAllocation: safeFloat(h.target_allocation),
+        expenseRatio: safeFloat(h.expense_ratio),
+        drip: !!h.drip,
+        logoUrl: `https://logo.clearbit.com/${h.name ? h.name.split(' ')[0] : 'google'}.com`
+    };
+};
+
+const transactionFromRow = (t: any): Transaction => {
+    const shares = safeFloat(t.shares);
+    const price = safeFloat(t.price);
+    return {
+        id: t.id,
+        date: t.date,
+        type: t.type,
+        symbol: t.symbol || '',
+        shares: shares,
+        price: price,
+        totalValue: safeFloat(t.total_value) || (shares * price),
+        lotSelections: Array.isArray(t.lot_selections) ? t.lot_selections : undefined,
+        currency: t.currency || undefined,
+        toCurrency: t.to_currency || undefined,
+        fxRate: t.fx_rate !== null && t.fx_rate !== undefined ? safeFloat(t.fx_rate) : undefined,
+        importId: t.import_id || undefined
+    };
+};
+
+// What an import is checked against and added to
+interface ImportBase {
+    holdings: Holding[];
+    transactions: Transaction[];
+}
+
+// Portfolios that only exist in this browser (demo, mock and offline ones) have no DB rows
+const isLocalPortfolioId = (id: string) =>
+    !isSupabaseConfigured || id.startsWith('mock-') || id.startsWith('import-') || id.startsWith('local-') || id === 'p1';
+
+interface PortfolioProviderProps {
+  children: ReactNode;
+  // How broker syncs reach Trading 212: the live API, unless a test hands in recorded responses (see trading212Fixture)
+  brokerTransport?: (integration: BrokerIntegration) => Trading212Transport;
+}
+
+const liveBrokerTransport = (integration: BrokerIntegration) => httpTransport(integration.apiCredentials?.apiKey || '');
+
+export const PortfolioProvider: React.FC<PortfolioProviderProps> = ({ children, brokerTransport = liveBrokerTransport }) => {
+  const { user, integrations, updateIntegration } = useAuth();
   
   const [activeView, setActiveView] = useState<ViewState>('dashboard');
   const [selectedResearchSymbol, setSelectedResearchSymbol] = useState<string>('AAPL');
@@ -102,19 +308,40 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
   
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [alerts, setAlerts] = useState<AlertConfig[]>([]);
+  const [netWorthSnapshots, setNetWorthSnapshots] = useState<NetWorthSnapshot[]>([]);
+  const [snapshotsLoaded, setSnapshotsLoaded] = useState(false);
 
   const [isAddAssetModalOpen, setIsAddAssetModalOpen] = useState(false);
   const [preSelectedAssetTicker, setPreSelectedAssetTicker] = useState<string | null>(null);
 
   const [isMarketOpen, setIsMarketOpen] = useState(true);
-  const [marketDataApiKey, setMarketDataApiKey] = useState(() => localStorage.getItem('wealthos_market_key') || '');
+  const [marketDataProviders, setMarketDataProviders] = useState<ProviderConfig[]>(() => loadProviderConfigs());
+  const [marketQuotes, setMarketQuotes] = useState<Record<string, ProviderQuote>>({});
+  // Symbols the quote scheduler has answered for this session, priced or not
+  const [answeredSymbols, setAnsweredSymbols] = useState<Set<string>>(() => new Set());
+  // Random-walk placeholders for unpriced holdings; production users can switch this off
+  const [isSimulationEnabled, setIsSimulationEnabled] = useState<boolean>(() => localStorage.getItem(SIMULATION_STORAGE_KEY) !== 'false');
+  const [dividendSchedules, setDividendSchedules] = useState<Record<string, DividendSchedule>>({});
+  const [isLoadingDividends, setIsLoadingDividends] = useState(false);
   
   // Internal state to prevent DB overwrites during sync
   const [isSyncing, setIsSyncing] = useState(false);
 
-  const updateMarketDataKey = (key: string) => {
-      setMarketDataApiKey(key);
-      localStorage.setItem('wealthos_market_key', key);
+  const [fxRates, setFxRates] = useState<FxRates>(EMPTY_FX_RATES);
+  const baseCurrency = user?.baseCurrency || 'USD';
+  // Totals are also computed in state updaters and the quote scheduler's callback, which see the latest rates here
+  const fxRef = useRef({ rates: fxRates, base: baseCurrency });
+  fxRef.current = { rates: fxRates, base: baseCurrency };
+  const valueOf = (holdings: Holding[]) => holdingsValue(holdings, fxRef.current.rates, fxRef.current.base);
+
+  const updateMarketDataProviders = (configs: ProviderConfig[]) => {
+      setMarketDataProviders(configs);
+      saveProviderConfigs(configs);
+  };
+
+  const setSimulationEnabled = (enabled: boolean) => {
+      setIsSimulationEnabled(enabled);
+      localStorage.setItem(SIMULATION_STORAGE_KEY, String(enabled));
   };
 
   // Load default portfolio preference
@@ -226,16 +453,53 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
                   targetPrice: safeFloat(a.target_price),
                   condition: a.condition,
                   isActive: a.is_active,
-                  createdAt: a.created_at
+                  createdAt: a.created_at,
+                  cooldownMinutes: a.cooldown_minutes || undefined,
+                  lastTriggeredAt: a.last_triggered_at || undefined
               })));
           }
       } catch (e) { console.error("Error fetching alerts:", e); }
   }, [user]);
 
+  // Fetch Net Worth Snapshots: the local copy, overlaid with what is saved in the DB
+  const fetchNetWorthSnapshots = useCallback(async () => {
+      if (!user) return;
+      setSnapshotsLoaded(false);
+      let snapshots: NetWorthSnapshot[] = [];
+      try {
+          snapshots = JSON.parse(localStorage.getItem(`wealthos_net_worth_snapshots_${user.id}`) || '[]');
+      } catch (e) {
+          console.warn("Ignoring unreadable net worth snapshots", e);
+      }
+      if (isSupabaseConfigured && !user.id.startsWith('mock')) {
+          try {
+              const { data, error } = await supabase.from('net_worth_snapshots').select('*').eq('user_id', user.id);
+              if (error) throw error;
+              (data || []).forEach(s => {
+                  snapshots = upsertSnapshot(snapshots, {
+                      date: s.date,
+                      portfolioId: s.portfolio_id || undefined,
+                      currency: s.currency || 'USD',
+                      investments: safeFloat(s.investments),
+                      cash: safeFloat(s.cash),
+                      manualAssets: safeFloat(s.manual_assets),
+                      liabilities: safeFloat(s.liabilities),
+                      totalAssets: safeFloat(s.total_assets),
+                      netWorth: safeFloat(s.net_worth),
+                      recordedAt: s.recorded_at || s.date
+                  });
+              });
+          } catch (e) { console.error("Error fetching net worth snapshots:", e); }
+      }
+      setNetWorthSnapshots(snapshots);
+      setSnapshotsLoaded(true);
+  }, [user]);
+
   useEffect(() => {
     fetchPortfoliosList();
     fetchAlerts();
-  }, [user, fetchPortfoliosList, fetchAlerts]);
+    fetchNetWorthSnapshots();
+  }, [user, fetchPortfoliosList, fetchAlerts, fetchNetWorthSnapshots]);
 
   const fetchPortfolioData = useCallback(async () => {
       if (!activePortfolioId || !user) return;
@@ -244,7 +508,7 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
       const cacheKey = `wealthos_portfolio_data_${activePortfolioId}`;
 
       // Handle Mock/Local/Fallback
-      if (!isSupabaseConfigured || activePortfolioId.startsWith('mock-') || activePortfolioId.startsWith('import-') || activePortfolioId.startsWith('local-') || activePortfolioId === 'p1') {
+      if (isLocalPortfolioId(activePortfolioId)) {
           if (activePortfolioId === MOCK_PORTFOLIO.id || activePortfolioId === 'p1') {
               if (activePortfolio.id !== 'p1') setActivePortfolio({ ...MOCK_PORTFOLIO });
           } else {
@@ -271,13 +535,15 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
               { data: holdingsData },
               { data: txData },
               { data: assetsData },
-              { data: liabData }
+              { data: liabData },
+              { data: actionsData }
           ] = await Promise.all([
               supabase.from('portfolios').select('*').eq('id', activePortfolioId).single(),
               supabase.from('holdings').select('*').eq('portfolio_id', activePortfolioId),
               supabase.from('transactions').select('*').eq('portfolio_id', activePortfolioId).order('date', { ascending: false }),
               supabase.from('manual_assets').select('*').eq('portfolio_id', activePortfolioId),
-              supabase.from('liabilities').select('*').eq('portfolio_id', activePortfolioId)
+              supabase.from('liabilities').select('*').eq('portfolio_id', activePortfolioId),
+              supabase.from('corporate_actions').select('*').eq('portfolio_id', activePortfolioId)
           ]);
 
           if (portError) {
@@ -293,46 +559,8 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
           }
 
           if (portData) {
-            const mappedHoldings: Holding[] = (holdingsData || []).map(h => {
-                const shares = safeFloat(h.shares);
-                const avgPrice = safeFloat(h.avg_price);
-                const mockPrice = MOCK_MARKET_ASSETS.find(m => m.symbol === h.symbol)?.currentPrice || 100;
-                
-                // Prioritize live fetching simulation later, but ensure valid float here
-                const currentPrice = mockPrice > 0 ? mockPrice : (avgPrice > 0 ? avgPrice : 100);
-                
-                return {
-                    id: h.id,
-                    symbol: h.symbol,
-                    name: h.name || h.symbol,
-                    shares: shares,
-                    avgPrice: avgPrice,
-                    currentPrice: safeFloat(currentPrice),
-                    assetType: (h.asset_type as AssetType) || AssetType.STOCK,
-                    sector: h.sector || 'Diversified',
-                    country: h.country || 'Global',
-                    dividendYield: safeFloat(h.dividend_yield),
-                    safetyScore: safeFloat(h.safety_score) || 50,
-                    snowflake: h.snowflake_data || { value: 3, future: 3, past: 3, health: 3, dividend: 3, total: 15 },
-                    targetAllocation: safeFloat(h.target_allocation),
-                    expenseRatio: safeFloat(h.expense_ratio),
-                    logoUrl: `https://logo.clearbit.com/${h.name ? h.name.split(' ')[0] : 'google'}.com`
-                };
-            });
-
-            const mappedTx: Transaction[] = (txData || []).map(t => {
-                const shares = safeFloat(t.shares);
-                const price = safeFloat(t.price);
-                return {
-                    id: t.id,
-                    date: t.date,
-                    type: t.type,
-                    symbol: t.symbol,
-                    shares: shares,
-                    price: price,
-                    totalValue: safeFloat(t.total_value) || (shares * price)
-                };
-            });
+            const mappedHoldings: Holding[] = (holdingsData || []).map(holdingFromRow);
+            const mappedTx: Transaction[] = (txData || []).map(transactionFromRow);
 
             const mappedAssets: ManualAsset[] = (assetsData || []).map(a => ({
                 id: a.id,
@@ -341,7 +569,9 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
                 value: safeFloat(a.value),
                 currency: a.currency,
                 purchaseDate: a.purchase_date,
-                purchasePrice: safeFloat(a.purchase_price)
+                purchasePrice: safeFloat(a.purchase_price),
+                valuations: a.valuations || undefined,
+                valuationModel: a.valuation_model || undefined
             }));
 
             const mappedLiabilities: Liability[] = (liabData || []).map(l => ({
@@ -350,28 +580,39 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
                 type: l.type,
                 amount: safeFloat(l.amount),
                 interestRate: safeFloat(l.interest_rate),
-                monthlyPayment: safeFloat(l.monthly_payment)
+                monthlyPayment: safeFloat(l.monthly_payment),
+                balanceDate: l.balance_date || (l.created_at ? String(l.created_at).split('T')[0] : undefined),
+                termMonths: l.term_months ? safeFloat(l.term_months) : undefined
             }));
 
-            const calculatedTotalValue = mappedHoldings.reduce((sum, h) => {
-                const val = h.shares * h.currentPrice;
-                // Ensure we only add valid finite numbers
-                const safeVal = (Number.isFinite(val) && !Number.isNaN(val)) ? val : 0;
-                return sum + safeVal;
-            }, 0);
+            const mappedActions: CorporateAction[] = (actionsData || []).map(a => ({
+                id: a.id,
+                type: a.type,
+                symbol: a.symbol,
+                date: a.date,
+                ratio: a.ratio !== null && a.ratio !== undefined ? safeFloat(a.ratio) : undefined,
+                newSymbol: a.new_symbol || undefined,
+                newName: a.new_name || undefined,
+                cashPerShare: a.cash_per_share !== null && a.cash_per_share !== undefined ? safeFloat(a.cash_per_share) : undefined,
+                costBasisAllocation: a.cost_basis_allocation !== null && a.cost_basis_allocation !== undefined ? safeFloat(a.cost_basis_allocation) : undefined,
+                source: a.source || 'manual'
+            }));
 
-            // Double check total value is not NaN/Infinity
-            const safeTotalValue = (Number.isFinite(calculatedTotalValue) && !Number.isNaN(calculatedTotalValue)) ? calculatedTotalValue : 0;
+            const safeTotalValue = valueOf(mappedHoldings);
 
             const fullPortfolio: Portfolio = {
                 id: portData.id,
                 name: portData.name,
                 totalValue: safeTotalValue, 
                 cashBalance: safeFloat(portData.cash_balance),
+                cashBalances: portData.cash_balances || undefined,
                 holdings: mappedHoldings,
                 transactions: mappedTx,
                 manualAssets: mappedAssets,
-                liabilities: mappedLiabilities
+                liabilities: mappedLiabilities,
+                costBasisMethod: (portData.cost_basis_method as CostBasisMethod) || 'FIFO',
+                accountType: (portData.account_type as AccountType) || 'TAXABLE',
+                corporateActions: mappedActions
             };
 
             setActivePortfolio(fullPortfolio);
@@ -400,64 +641,239 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
   }, [activePortfolioId, user, fetchPortfolioData, isSyncing]);
 
   // --- Market Simulation & Real Data Fetching ---
-  useEffect(() => {
-    if (!isMarketOpen || !activePortfolio.holdings.length) return;
-
-    const interval = setInterval(async () => {
-        const currentHoldings = [...activePortfolio.holdings];
-        
-        const updates = await Promise.all(currentHoldings.map(async (h) => {
-            let newPrice = h.currentPrice > 0 ? h.currentPrice : (h.avgPrice > 0 ? h.avgPrice : 100);
-            let updated = false;
-
-            // 1. Crypto check (Free, CoinGecko)
-            if (h.assetType === 'Crypto') {
-                const realPrice = await fetchCryptoPrice(h.symbol);
-                if (realPrice) {
-                    newPrice = realPrice;
-                    updated = true;
-                }
-            } 
-            // 2. Stock/ETF check
-            else if (h.assetType === 'Stock' || h.assetType === 'ETF') {
-                // Finnhub (Fallback)
-                if (!updated && marketDataApiKey) {
-                    const realPrice = await fetchStockPrice(h.symbol, marketDataApiKey);
-                    if (realPrice) {
-                        newPrice = realPrice;
-                        updated = true;
-                    }
-                }
-            }
+  // The scheduler outlives renders; refs give its callback the latest alerts and provider settings
+  const alertsRef = useRef(alerts);
+  const providersRef = useRef(marketDataProviders);
+  useEffect(() => { alertsRef.current = alerts; }, [alerts]);
+  useEffect(() => { providersRef.current = marketDataProviders; }, [marketDataProviders]);
+
+  const applyQuotes = (quotes: ProviderQuote[], failed: string[]) => {
+      const latestPrices: Record<string, number> = {};
+      const quoteMap = new Map<string, ProviderQuote>();
+      quotes.forEach(q => {
+          latestPrices[q.symbol.toUpperCase()] = q.price;
+          quoteMap.set(q.symbol.toUpperCase(), q);
+      });
+      const failedSet = new Set(failed);
+      if (quotes.length > 0) setMarketQuotes(prev => ({ ...prev, ...Object.fromEntries(quoteMap) }));
+      const answered = [...Array.from(quoteMap.keys()), ...failed];
+      setAnsweredSymbols(prev => (answered.every(s => prev.has(s)) ? prev : new Set([...Array.from(prev), ...answered])));
+
+      setActivePortfolio(prev => {
+          if (!prev.holdings.length) return prev;
+          const holdings = prev.holdings.map(h => {
+              const symbol = h.symbol.toUpperCase();
+              const quote = quoteMap.get(symbol);
+              if (quote) {
+                  return {
+                      ...h,
+                      currentPrice: safeFloat(quote.price.toFixed(2)), // Sanitise price
+                      priceSource: quote.provider,
+                      priceAsOf: quote.timestamp,
+                      priceStatus: 'live' as const
+                  };
+              }
+              if (!failedSet.has(symbol)) return h;
+
+              if (isSimulationEnabled) {
+                  // Simulation Fallback, always labelled so it is never mistaken for a quote
+                  const base = h.currentPrice > 0 ? h.currentPrice : (h.avgPrice > 0 ? h.avgPrice : 100);
+                  const volatility = h.assetType === 'Crypto' ? 0.015 : 0.005;
+                  const changePercent = (Math.random() * (volatility * 2)) - volatility;
+                  return {
+                      ...h,
+                      currentPrice: safeFloat(Math.max(0.01, base * (1 + changePercent)).toFixed(2)),
+                      priceSource: 'simulation',
+                      priceAsOf: new Date().toISOString(),
+                      priceStatus: 'simulated' as const
+                  };
+              }
+              // Keep the last real price but flag it; a simulated or placeholder price was never real and keeps its label
+              return h.priceStatus === 'simulated' || h.priceStatus === 'placeholder' ? h : { ...h, priceStatus: 'stale' as const };
+          });
+          // Update State but NO DB Write on ticks to prevent spam
+          return { ...prev, holdings, totalValue: valueOf(holdings) };
+      });
 
-            // 3. Simulation Fallback (Guaranteed Data Visibility)
-            if (!updated) {
-                const volatility = h.assetType === 'Crypto' ? 0.015 : 0.005;
-                const changePercent = (Math.random() * (volatility * 2)) - volatility;
-                newPrice = Math.max(0.01, newPrice * (1 + changePercent));
-            }
+      // Alert Engine: only real quotes can trigger alerts
+      if (quotes.length === 0) return;
+      const { updated: triggeredAlerts, notifications: alertNotifications } = evaluateAlerts(alertsRef.current, latestPrices);
+      if (triggeredAlerts.length > 0) {
+          const triggeredMap = new Map(triggeredAlerts.map(a => [a.id, a]));
+          alertsRef.current = alertsRef.current.map(a => triggeredMap.get(a.id) || a);
+          setAlerts(prev => prev.map(a => triggeredMap.get(a.id) || a));
+          setNotifications(prev => [...alertNotifications, ...prev]);
+          triggeredAlerts.forEach(persistAlertState);
+      }
+  };
+  const applyQuotesRef = useRef(applyQuotes);
+  applyQuotesRef.current = applyQuotes;
+
+  const schedulerRef = useRef<QuoteScheduler | null>(null);
+  if (!schedulerRef.current) {
+      schedulerRef.current = createQuoteScheduler({
+          intervalMs: QUOTE_REFRESH_INTERVAL_MS,
+          getConfigs: () => providersRef.current,
+          onQuotes: (quotes, failed) => applyQuotesRef.current(quotes, failed)
+      });
+  }
 
-            return { ...h, currentPrice: safeFloat(newPrice.toFixed(2)) }; // Sanitise price
-        }));
+  // One request per symbol no matter how many places it appears
+  const holdingSymbolsKey = activePortfolio.holdings.map(h => `${h.symbol}:${h.assetType}`).join(',');
+  const watchedSymbolsKey = watchlists.map(w => w.symbols.join(',')).join(',');
+  const alertSymbolsKey = alerts.filter(a => a.isActive).map(a => a.symbol).join(',');
 
-        const newTotal = updates.reduce((acc, h) => {
-            const val = h.shares * h.currentPrice;
-            return acc + (Number.isFinite(val) ? val : 0);
-        }, 0);
-        
-        const safeNewTotal = Number.isFinite(newTotal) ? newTotal : 0;
+  useEffect(() => {
+      const cryptoSymbols = new Set(
+          MOCK_MARKET_ASSETS.filter(a => a.assetType === 'Crypto').map(a => a.symbol.toUpperCase())
+      );
+      const requests: QuoteRequest[] = activePortfolio.holdings
+          .filter(h => h.assetType === 'Crypto' || h.assetType === 'Stock' || h.assetType === 'ETF')
+          .map(h => ({ symbol: h.symbol, assetClass: h.assetType === 'Crypto' ? 'crypto' : 'stock' }));
+      activePortfolio.holdings.forEach(h => { if (h.assetType === 'Crypto') cryptoSymbols.add(h.symbol.toUpperCase()); });
+      [...watchlists.flatMap(w => w.symbols), ...alerts.filter(a => a.isActive).map(a => a.symbol)].forEach(symbol => {
+          requests.push({ symbol, assetClass: cryptoSymbols.has(symbol.toUpperCase()) ? 'crypto' : 'stock' });
+      });
+      schedulerRef.current?.setSymbols(requests);
+  }, [holdingSymbolsKey, watchedSymbolsKey, alertSymbolsKey]);
 
-        // Update State but NO DB Write on ticks to prevent spam
-        setActivePortfolio(prev => ({
-            ...prev,
-            holdings: updates,
-            totalValue: safeNewTotal
-        }));
+  useEffect(() => {
+      if (!isMarketOpen) return;
+      schedulerRef.current?.start();
+      return () => schedulerRef.current?.stop();
+  }, [isMarketOpen]);
+
+  // Dividend schedules for the held stocks. Raises, cuts, suspensions and specials reported by a
+  // provider are announced once each; ledger-derived amounts are too approximate to alert on.
+  const dividendSymbolsKey = activePortfolio.holdings.map(h => h.symbol).sort().join(',');
+  useEffect(() => {
+      if (activePortfolio.id === 'loading') return;
+      let cancelled = false;
+      setIsLoadingDividends(true);
+      loadDividendSchedules(activePortfolio.holdings, activePortfolio.transactions, marketDataProviders)
+          .then(schedules => {
+              if (cancelled) return;
+              setDividendSchedules(schedules);
+
+              let seen: string[] = [];
+              try {
+                  seen = JSON.parse(localStorage.getItem(DIVIDEND_NOTICES_STORAGE_KEY) || '[]');
+              } catch (e) {}
+              const changes = Object.values(schedules)
+                  .filter(schedule => schedule.source === 'provider')
+                  .flatMap(schedule => detectDividendChanges(schedule));
+              const notices = dividendChangeNotifications(changes, new Set(seen));
+              if (notices.length === 0) return;
+              setNotifications(prev => [...notices.filter(n => !prev.some(p => p.id === n.id)), ...prev]);
+              localStorage.setItem(DIVIDEND_NOTICES_STORAGE_KEY, JSON.stringify([...seen, ...notices.map(n => n.id)].slice(-500)));
+          })
+          .catch(e => console.warn('Dividend schedule load failed', e))
+          .finally(() => { if (!cancelled) setIsLoadingDividends(false); });
+      return () => { cancelled = true; };
+  }, [activePortfolio.id, dividendSymbolsKey, activePortfolio.transactions.length, marketDataProviders]);
+
+  // --- FX Rates ---
+  // Live and daily rates for every currency the portfolio touches, back to its first transaction
+  // so trades can be valued at the rate of their day.
+  const fxCurrenciesKey = currenciesInUse(
+      activePortfolio.holdings,
+      activePortfolio.transactions,
+      [baseCurrency, ...(activePortfolio.manualAssets || []).map(a => a.currency), ...Object.keys(activePortfolio.cashBalances || {})]
+  ).join(',');
+  const firstTransactionDate = activePortfolio.transactions.reduce((min, t) => (t.date && t.date < min ? t.date : min), new Date().toISOString().split('T')[0]).split('T')[0];
+  useEffect(() => {
+      if (!fxCurrenciesKey) return;
+      let cancelled = false;
+      loadFxRates(fxCurrenciesKey.split(','), firstTransactionDate, marketDataProviders)
+          .then(rates => { if (!cancelled) setFxRates(rates); })
+          .catch(e => console.warn('FX rate load failed', e));
+      return () => { cancelled = true; };
+  }, [fxCurrenciesKey, firstTransactionDate, marketDataProviders]);
+
+  // Restate the total when rates arrive or the base currency changes
+  useEffect(() => {
+      setActivePortfolio(prev => ({ ...prev, totalValue: holdingsValue(prev.holdings, fxRates, baseCurrency) }));
+  }, [fxRates, baseCurrency]);
+
+  const toBase = (amount: number, currency?: string, date?: string) => convertCurrency(amount, currency, baseCurrency, fxRates, date);
+  const holdingValue = (holding: Holding) => toBase(holding.shares * holding.currentPrice, holding.currency);
+  const cashValue = cashValueOf(cashAccounts(activePortfolio), fxRates, baseCurrency);
+  const balanceSheet: BalanceSheet = {
+      investments: activePortfolio.totalValue,
+      cash: cashValue,
+      manualAssets: (activePortfolio.manualAssets || []).reduce((sum, a) => sum + toBase(valueOn(a), a.currency), 0),
+      liabilities: (activePortfolio.liabilities || []).reduce((sum, l) => sum + toBase(balanceOn(l)), 0)
+  };
 
-    }, 5000);
+  // Records today's balance sheet for the active portfolio, then the user's total across portfolios
+  const recordNetWorthSnapshot = async () => {
+      if (!user || !activePortfolioId || activePortfolio.id !== activePortfolioId) return;
+      const snapshot = createSnapshot(balanceSheet, baseCurrency, activePortfolioId);
+      let updated = upsertSnapshot(snapshotsRef.current, snapshot);
+      const portfolioIds = Array.from(new Set([...portfolios.map(p => p.id), activePortfolioId]));
+      const total = combineSnapshots(updated, portfolioIds, baseCurrency, fxRates);
+      if (total) updated = upsertSnapshot(updated, total);
+
+      snapshotsRef.current = updated;
+      setNetWorthSnapshots(updated);
+      localStorage.setItem(`wealthos_net_worth_snapshots_${user.id}`, JSON.stringify(updated));
+
+      if (isSupabaseConfigured && !user.id.startsWith('mock')) {
+          // Portfolios that only exist locally have no DB row to reference
+          const rows = [snapshot, total]
+              .filter((s): s is NetWorthSnapshot => !!s && !(s.portfolioId && (s.portfolioId.startsWith('local') || s.portfolioId.startsWith('mock'))))
+              .map(s => ({
+                  user_id: user.id,
+                  portfolio_id: s.portfolioId || null,
+                  date: s.date,
+                  currency: s.currency,
+                  investments: s.investments,
+                  cash: s.cash,
+                  manual_assets: s.manualAssets,
+                  liabilities: s.liabilities,
+                  total_assets: s.totalAssets,
+                  net_worth: s.netWorth,
+                  recorded_at: s.recordedAt
+              }));
+          try {
+              for (const row of rows) {
+                  const existing = supabase.from('net_worth_snapshots').delete().eq('user_id', user.id).eq('date', row.date);
+                  const { error } = await (row.portfolio_id ? existing.eq('portfolio_id', row.portfolio_id) : existing.is('portfolio_id', null));
+                  if (error) throw error;
+              }
+              if (rows.length > 0) {
+                  const { error } = await supabase.from('net_worth_snapshots').insert(rows);
+                  if (error) throw error;
+              }
+          } catch (e) {
+              console.error("Failed to save net worth snapshot", e);
+          }
+      }
+  };
 
-    return () => clearInterval(interval);
-  }, [isMarketOpen, activePortfolio.holdings.length, alerts, marketDataApiKey]);
+  // The hourly check runs outside renders and needs the latest snapshots and balance sheet
+  const snapshotsRef = useRef(netWorthSnapshots);
+  snapshotsRef.current = netWorthSnapshots;
+  const recordSnapshotRef = useRef(recordNetWorthSnapshot);
+  recordSnapshotRef.current = recordNetWorthSnapshot;
+
+  // One snapshot per portfolio per day, once its data, (when needed) live rates and a quote pass over
+  // its placeholder prices have loaded; recording earlier would keep the load-time prices all day
+  const portfolioLoaded = !!activePortfolioId && activePortfolio.id === activePortfolioId && !isSyncing;
+  const ratesReady = !fxCurrenciesKey || !!fxRates.asOf;
+  const pricesReady = activePortfolio.holdings.every(h => h.priceStatus !== 'placeholder' || answeredSymbols.has(h.symbol.toUpperCase()));
+  useEffect(() => {
+      if (!user || !snapshotsLoaded || !portfolioLoaded || !ratesReady || !pricesReady) return;
+      const recordIfDue = () => {
+          const today = new Date().toISOString().split('T')[0];
+          if (!snapshotsRef.current.some(s => s.portfolioId === activePortfolioId && s.date === today)) {
+              recordSnapshotRef.current();
+          }
+      };
+      recordIfDue();
+      const timer = setInterval(recordIfDue, SNAPSHOT_CHECK_INTERVAL_MS);
+      return () => clearInterval(timer);
+  }, [user, snapshotsLoaded, portfolioLoaded, ratesReady, pricesReady, activePortfolioId]);
 
   // --- Function to Add New Portfolio ---
   const addNewPortfolio = async (name: string, type: 'Stock' | 'Crypto' | 'Mixed'): Promise<string | null> => {
@@ -523,195 +939,240 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
     return finalId;
   };
 
-  // BATCHED IMPORT FUNCTION TO PREVENT TIMEOUTS
-  const importPortfolio = async (name: string, transactions: any[], targetPortfolioId?: string) => {
+  // Holdings and ledger of a portfolio that is not open, from its local copy
+  const cachedImportBase = (targetId: string): ImportBase => {
+      try {
+          const cached = localStorage.getItem(`wealthos_portfolio_data_${targetId}`);
+          const data = cached ? JSON.parse(cached) : null;
+          return { holdings: data?.holdings || [], transactions: data?.transactions || [] };
+      } catch (e) {
+          return { holdings: [], transactions: [] };
+      }
+  };
+
+  // Holdings and ledger an import adds to. The open portfolio has them in state; another one is
+  // read from the DB, because its local copy can be missing or behind, and the import is both
+  // deduplicated against them and written back as the portfolio's full set of holdings
+  const loadImportBase = async (targetId: string): Promise<ImportBase> => {
+      if (targetId === activePortfolioId) return { holdings: activePortfolio.holdings, transactions: activePortfolio.transactions };
+      if (!user || isLocalPortfolioId(targetId)) return cachedImportBase(targetId);
+      const [{ data: holdingsData, error: holdingsError }, { data: txData, error: txError }] = await Promise.all([
+          supabase.from('holdings').select('*').eq('portfolio_id', targetId),
+          supabase.from('transactions').select('*').eq('portfolio_id', targetId).order('date', { ascending: false })
+      ]);
+      if (holdingsError || txError) throw holdingsError || txError;
+      return { holdings: (holdingsData || []).map(holdingFromRow), transactions: (txData || []).map(transactionFromRow) };
+  };
+
+  const previewAgainst = (transactions: ImportedTransaction[], base: ImportBase): ImportPreview => buildImportPreview(
+      resolveImportedSymbols(transactions),
+      base.holdings,
+      base.transactions,
+      importedHolding,
+      symbol => ['override', 'cache', 'catalogue'].includes(resolveSymbol(symbol).source)
+  );
+
+  const previewImport = (transactions: ImportedTransaction[], targetPortfolioId?: string): ImportPreview => {
       const targetId = targetPortfolioId || activePortfolioId;
-      console.log(`Importing ${transactions.length} transactions to ${targetId}`);
-      
+      return previewAgainst(transactions, targetId === activePortfolioId
+          ? { holdings: activePortfolio.holdings, transactions: activePortfolio.transactions }
+          : cachedImportBase(targetId));
+  };
+
+  // BATCHED IMPORT FUNCTION TO PREVENT TIMEOUTS
+  // `saved` settles once the rows are stored (in the DB, or in the local copy of a local
+  // portfolio) and is false if any write failed
+  const importRows = async (rows: ImportedTransaction[], targetId: string): Promise<{ result: ImportResult; saved: Promise<boolean> }> => {
+      const transactions = resolveImportedSymbols(rows);
+      const base = await loadImportBase(targetId);
+
       // Lock automatic fetches to prevent overwriting
       setIsSyncing(true);
 
       // --- Local Optimistic Update (Always Runs first/concurrently for speed) ---
-      let currentHoldings: Holding[] = [];
-      if (targetId === activePortfolioId) {
-          currentHoldings = [...activePortfolio.holdings];
-      }
-
-      const newTransactions = transactions.map((t: any) => ({
-          id: `imported-${Date.now()}-${Math.random()}`,
-          date: t.date,
-          type: t.type,
-          symbol: t.symbol.toUpperCase(),
-          shares: safeFloat(t.shares),
-          price: safeFloat(t.price),
-          totalValue: safeFloat(t.shares * t.price)
-      }));
-
-      // Process in-memory for local state
-      const holdingsMap = new Map(currentHoldings.map(h => [h.symbol.toUpperCase(), h]));
-
-      transactions.forEach((tx: any) => {
-          const sym = tx.symbol.toUpperCase();
-          const existing = holdingsMap.get(sym);
-          
-          // Normalize type for local calc
-          const txType = tx.type.toUpperCase();
-          const txShares = safeFloat(tx.shares);
-          const txPrice = safeFloat(tx.price);
-
-          if (existing) {
-              if (txType === 'BUY' || txType === 'MARKET BUY') {
-                  const totalCost = (existing.shares * existing.avgPrice) + (txShares * txPrice);
-                  existing.shares += txShares;
-                  existing.avgPrice = totalCost / existing.shares;
-              } else if (txType === 'SELL' || txType === 'MARKET SELL') {
-                  existing.shares -= txShares;
+      // Rows are identified by a hash of their content, so entries already in the ledger are skipped
+      const entries = transactions.map(toLedgerTransaction);
+      const ids = importIds(entries, transactions.map(t => t.reference));
+      const known = knownImportIds(base.transactions);
+      const newTransactions: Transaction[] = entries
+          .map((t, i) => ({ ...t, id: `imported-${ids[i]}`, importId: ids[i] }))
+          .filter(t => !known.has(t.importId));
+      const duplicates = entries.length - newTransactions.length;
+      const result: ImportResult = { imported: newTransactions.length, duplicates };
+
+      const tracked = tracksCash([...base.transactions, ...newTransactions]);
+      const cashDelta = addCash(...newTransactions.map(t => cashMovements(t, tracked)));
+
+      const updatedHoldings = applyImportedTrades(base.holdings, newTransactions, importedHolding, importedNames(transactions));
+      const newTotalValue = valueOf(updatedHoldings);
+
+      let cacheSaved = true;
+      try {
+          if (targetId === activePortfolioId) {
+              const updated = {
+                  ...activePortfolio,
+                  holdings: updatedHoldings,
+                  transactions: [...newTransactions, ...activePortfolio.transactions],
+                  totalValue: safeFloat(newTotalValue),
+                  ...moveCash(activePortfolio, cashDelta, fxRates)
+              };
+              setActivePortfolio(updated);
+              localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updated));
+          } else {
+              // Keep the closed portfolio's local copy in step, so it opens with the import in place
+              const cacheKey = `wealthos_portfolio_data_${targetId}`;
+              const cached = localStorage.getItem(cacheKey);
+              const stored: Portfolio | null = cached
+                  ? JSON.parse(cached)
+                  : isLocalPortfolioId(targetId) ? { ...EMPTY_PORTFOLIO, id: targetId, name: portfolios.find(p => p.id === targetId)?.name || 'Portfolio' } : null;
+              if (stored) {
+                  localStorage.setItem(cacheKey, JSON.stringify({
+                      ...stored,
+                      holdings: updatedHoldings,
+                      transactions: [...newTransactions, ...base.transactions],
+                      totalValue: safeFloat(newTotalValue),
+                      ...moveCash(stored, cashDelta, fxRates)
+                  }));
               }
-          } else if (txType === 'BUY' || txType === 'MARKET BUY') {
-              // Enriched defaults
-              const mockData = MOCK_MARKET_ASSETS.find(m => m.symbol === sym);
-              holdingsMap.set(sym, {
-                  id: `new-${sym}`,
-                  symbol: sym,
-                  // USE NAME FROM CSV IF AVAILABLE, ELSE MOCK, ELSE SYMBOL
-                  name: tx.name || mockData?.name || sym,
-                  shares: txShares,
-                  avgPrice: txPrice,
-                  currentPrice: txPrice,
-                  assetType: AssetType.STOCK,
-                  sector: mockData?.sector || 'Diversified',
-                  country: mockData?.country || 'Global',
-                  dividendYield: mockData?.dividendYield || 0,
-                  safetyScore: mockData?.safetyScore || 50,
-                  snowflake: mockData?.snowflake || { value: 3, future: 3, past: 3, health: 3, dividend: 3, total: 15 },
-                  targetAllocation: 0,
-                  expenseRatio: 0
-              });
           }
-      });
+      } catch (e) {
+          console.error("Failed to cache imported portfolio", e);
+          cacheSaved = false;
+      }
 
-      const updatedHoldings = Array.from(holdingsMap.values()).filter(h => h.shares > 0.000001);
-      const newTotalValue = updatedHoldings.reduce((sum, h) => sum + (h.shares * h.currentPrice), 0);
-      
-      if (targetId === activePortfolioId) {
-          const updated = {
-              ...activePortfolio,
-              holdings: updatedHoldings,
-              transactions: [...newTransactions, ...activePortfolio.transactions],
-              totalValue: safeFloat(newTotalValue)
-          };
-          setActivePortfolio(updated);
-          localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updated));
+      if (!user || isLocalPortfolioId(targetId)) {
+          setIsSyncing(false);
+          return { result, saved: Promise.resolve(cacheSaved) };
       }
 
       // --- DB Sync (Batched and Robust) ---
-      if (isSupabaseConfigured && user && !targetId.startsWith('local')) {
-          // Run in background so UI doesn't freeze
-          (async () => {
-              try {
-                  // 1. BATCH TRANSACTION INSERT
-                  const chunkArray = (arr: any[], size: number) => {
-                      return Array.from({ length: Math.ceil(arr.length / size) }, (v, i) =>
-                          arr.slice(i * size, i * size + size)
-                      );
-                  };
-
-                  const mappedTx = transactions.map((t: any) => ({
-                      portfolio_id: targetId,
-                      user_id: user.id, 
-                      date: t.date,
-                      type: t.type,
-                      symbol: t.symbol.toUpperCase(),
-                      shares: safeFloat(t.shares),
-                      price: safeFloat(t.price),
-                      total_value: safeFloat(t.shares * t.price)
-                  }));
-                  
-                  const txChunks = chunkArray(mappedTx, 50); 
-                  
-                  for (const chunk of txChunks) {
-                      const { error: txError } = await supabase.from('transactions').insert(chunk);
-                      if (txError) console.error("DB TX Batch Insert Error", txError);
-                      await new Promise(r => setTimeout(r, 50));
+      // Run in background so UI doesn't freeze
+      const saved = (async () => {
+          try {
+              // 1. BATCH TRANSACTION INSERT
+              const chunkArray = (arr: any[], size: number) => {
+                  return Array.from({ length: Math.ceil(arr.length / size) }, (v, i) =>
+                      arr.slice(i * size, i * size + size)
+                  );
+              };
+
+              // Rows keep their `imported-` id until the insert hands back the row's, so edits and deletes reach the DB
+              const txChunks: Transaction[][] = chunkArray(newTransactions, 50);
+
+              for (const chunk of txChunks) {
+                  const rows = chunk.map(t => ({ portfolio_id: targetId, user_id: user.id, ...transactionColumns(t) }));
+                  const { data: inserted, error: txError } = await supabase.from('transactions').insert(rows).select('id');
+                  // Holdings and cash are left as they were rather than rewritten without their ledger
+                  if (txError) {
+                      console.error("DB TX Batch Insert Error", txError);
+                      return false;
                   }
-                  
-                  // 2. BULK HOLDINGS UPSERT
-                  const dbHoldingsPayload = updatedHoldings.map(h => ({
-                      portfolio_id: targetId,
-                      symbol: h.symbol,
-                      name: h.name,
-                      shares: h.shares,
-                      avg_price: h.avgPrice,
-                      asset_type: h.assetType,
-                      sector: h.sector,
-                      country: h.country,
-                      dividend_yield: h.dividendYield,
-                      safety_score: h.safetyScore,
-                      snowflake_data: h.snowflake,
-                      target_allocation: h.targetAllocation
-                  }));
+                  if (inserted && targetId === activePortfolioId) {
+                      adoptTransactionIds(chunk.map((t, i): [string, string] => [t.id, inserted[i]?.id]).filter(([, id]) => !!id));
+                  }
+                  await new Promise(r => setTimeout(r, 50));
+              }
 
-                  // Smart Upsert based on symbol match
-                  const { data: existingDbHoldings } = await supabase
-                      .from('holdings')
-                      .select('id, symbol')
-                      .eq('portfolio_id', targetId);
-                  
-                  const dbMap = new Map(existingDbHoldings?.map((h: any) => [h.symbol, h.id]));
-                  
-                  const upsertPayload = dbHoldingsPayload.map(h => {
-                      const id = dbMap.get(h.symbol);
-                      return id ? { ...h, id } : h;
-                  });
+              // 2. BULK HOLDINGS UPSERT
+              const dbHoldingsPayload = updatedHoldings.map(h => ({
+                  portfolio_id: targetId,
+                  symbol: h.symbol,
+                  name: h.name,
+                  shares: h.shares,
+                  avg_price: h.avgPrice,
+                  asset_type: h.assetType,
+                  sector: h.sector,
+                  country: h.country,
+                  currency: h.currency || null,
+                  dividend_yield: h.dividendYield,
+                  safety_score: h.safetyScore,
+                  snowflake_data: h.snowflake,
+                  target_allocation: h.targetAllocation
+              }));
+
+              // Smart Upsert based on symbol match
+              const { data: existingDbHoldings } = await supabase
+                  .from('holdings')
+                  .select('id, symbol')
+                  .eq('portfolio_id', targetId);
 
-                  const holdingsChunks = chunkArray(upsertPayload, 50);
-                  for (const chunk of holdingsChunks) {
-                      const { error } = await supabase.from('holdings').upsert(chunk);
-                      if (error) console.error("Holdings Upsert Error", error);
-                      await new Promise(r => setTimeout(r, 50));
-                  }
+              const dbMap = new Map(existingDbHoldings?.map((h: any) => [h.symbol, h.id]));
 
-                  // Delete holdings that no longer exist (shares <= 0)
-                  const activeSymbols = new Set(updatedHoldings.map(h => h.symbol));
-                  const idsToDelete = existingDbHoldings?.filter((h: any) => !activeSymbols.has(h.symbol)).map((h: any) => h.id) || [];
-                  
-                  if (idsToDelete.length > 0) {
-                      await supabase.from('holdings').delete().in('id', idsToDelete);
+              const upsertPayload = dbHoldingsPayload.map(h => {
+                  const id = dbMap.get(h.symbol);
+                  return id ? { ...h, id } : h;
+              });
+
+              // New positions take the id of the row the upsert created
+              let holdingsSaved = true;
+              const holdingsChunks = chunkArray(upsertPayload, 50);
+              for (const chunk of holdingsChunks) {
+                  const { data: upserted, error } = await supabase.from('holdings').upsert(chunk).select('id, symbol');
+                  if (error) {
+                      console.error("Holdings Upsert Error", error);
+                      holdingsSaved = false;
+                  }
+                  if (upserted && targetId === activePortfolioId) {
+                      const rowIds = new Map(upserted.map((r: any) => [r.symbol, r.id]));
+                      adoptHoldingIds(updatedHoldings
+                          .map((h): [string, string] => [h.id, rowIds.get(h.symbol)])
+                          .filter(([localId, id]) => !!id && id !== localId));
                   }
+                  await new Promise(r => setTimeout(r, 50));
+              }
+
+              // Delete holdings that no longer exist (shares <= 0), once every remaining one is written
+              const activeSymbols = new Set(updatedHoldings.map(h => h.symbol));
+              const idsToDelete = existingDbHoldings?.filter((h: any) => !activeSymbols.has(h.symbol)).map((h: any) => h.id) || [];
 
-                  console.log("DB Sync Completed for Import");
-              } catch (e) {
-                  console.error("Import Background Sync Failed", e);
-              } finally {
-                  setIsSyncing(false);
+              if (holdingsSaved && idsToDelete.length > 0) {
+                  await supabase.from('holdings').delete().in('id', idsToDelete);
               }
-          })();
-      } else {
-          setIsSyncing(false);
-      }
-      
-      alert(`Successfully imported ${transactions.length} transactions!`);
+
+              // 3. CASH BALANCE
+              const cashSaved = await persistCashDelta(targetId, cashDelta);
+              return holdingsSaved && cashSaved;
+          } catch (e) {
+              console.error("Import Background Sync Failed", e);
+              return false;
+          } finally {
+              setIsSyncing(false);
+          }
+      })();
+
+      return { result, saved };
   };
 
-  const addTransaction = async (assetId: string, type: 'BUY' | 'SELL', shares: number, price: number, date: string, targetPortfolioId?: string) => {
+  const importPortfolio = async (name: string, rows: any[], targetPortfolioId?: string): Promise<ImportResult> =>
+      (await importRows(rows as ImportedTransaction[], targetPortfolioId || activePortfolioId)).result;
+
+  const addTransaction = async (assetId: string, type: 'BUY' | 'SELL', shares: number, price: number, date: string, targetPortfolioId?: string, lotSelections?: LotSelection[]) => {
       const targetId = targetPortfolioId || activePortfolioId;
       const safeShares = safeFloat(shares);
       const safePrice = safeFloat(price);
       
-      const asset = MOCK_MARKET_ASSETS.find(a => a.id === assetId);
+      // Catalogue asset, or a position already held (e.g. imported symbols that are not in the catalogue)
+      const asset = MOCK_MARKET_ASSETS.find(a => a.id === assetId) || activePortfolio.holdings.find(h => h.id === assetId);
       if (!asset) return;
+      const selections = type === 'SELL' && lotSelections && lotSelections.length > 0 ? lotSelections : undefined;
+      const newTx: Transaction = {
+          id: `tx-${Date.now()}`,
+          date,
+          type,
+          symbol: asset.symbol,
+          shares: safeShares,
+          price: safePrice,
+          totalValue: safeShares * safePrice,
+          lotSelections: selections,
+          currency: asset.currency
+      };
+      // Trades only move cash once the ledger records deposits (the ledger of another portfolio is not loaded).
+      // The trade settles in the asset's currency account.
+      const tracked = targetId === activePortfolioId && tracksCash(activePortfolio.transactions);
+      const cashDelta = cashMovements(newTx, tracked);
       
       // 1. Optimistic Local Update
       if (targetId === activePortfolioId) {
-          const newTx: Transaction = {
-              id: `tx-${Date.now()}`,
-              date,
-              type,
-              symbol: asset.symbol,
-              shares: safeShares,
-              price: safePrice,
-              totalValue: safeShares * safePrice
-          };
           
           const existingHolding = activePortfolio.holdings.find(h => h.symbol === asset.symbol);
           let updatedHoldings = [...activePortfolio.holdings];
@@ -732,18 +1193,20 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
                   ...asset,
                   shares: safeShares,
                   avgPrice: safePrice,
-                  currentPrice: safePrice
+                  currentPrice: safePrice,
+                  priceStatus: 'placeholder'
               } as any);
           }
           
           // Recalculate total value locally
-          const newTotalValue = updatedHoldings.reduce((sum, h) => sum + (h.shares * h.currentPrice), 0);
+          const newTotalValue = valueOf(updatedHoldings);
 
           const updatedPortfolio = {
               ...activePortfolio,
               transactions: [newTx, ...activePortfolio.transactions],
               holdings: updatedHoldings,
-              totalValue: safeFloat(newTotalValue)
+              totalValue: safeFloat(newTotalValue),
+              ...moveCash(activePortfolio, cashDelta, fxRates)
           };
 
           setActivePortfolio(updatedPortfolio);
@@ -753,16 +1216,12 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
       // 2. DB Persistance
       if (isSupabaseConfigured && user && !targetId.startsWith('local')) {
           try {
-              await supabase.from('transactions').insert({
+              const { data: insertedTx } = await supabase.from('transactions').insert({
                   portfolio_id: targetId,
                   user_id: user.id,
-                  date,
-                  type,
-                  symbol: asset.symbol,
-                  shares: safeShares,
-                  price: safePrice,
-                  total_value: safeShares * safePrice
-              });
+                  ...transactionColumns(newTx)
+              }).select('id').single();
+              if (insertedTx?.id && targetId === activePortfolioId) adoptTransactionIds([[newTx.id, insertedTx.id]]);
 
               const { data: existingHoldings } = await supabase
                   .from('holdings')
@@ -794,7 +1253,7 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
                       }).eq('id', existingDbHolding.id);
                   }
               } else if (type === 'BUY') {
-                  await supabase.from('holdings').insert({
+                  const { data: insertedHolding } = await supabase.from('holdings').insert({
                       portfolio_id: targetId,
                       symbol: asset.symbol,
                       name: asset.name,
@@ -803,18 +1262,389 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
                       asset_type: asset.assetType,
                       sector: asset.sector || 'Diversified',
                       country: asset.country || 'Global',
+                      currency: asset.currency || null,
                       dividend_yield: asset.dividendYield || 0,
                       safety_score: asset.safetyScore || 50,
                       snowflake_data: asset.snowflake || { value: 3, future: 3, past: 3, health: 3, dividend: 3, total: 15 },
                       target_allocation: 0
-                  });
+                  }).select('id').single();
+                  if (insertedHolding?.id && targetId === activePortfolioId) adoptHoldingIds([[asset.id, insertedHolding.id]]);
               }
+
+              await persistCashDelta(targetId, cashDelta);
           } catch (e) {
               console.error("DB Transaction Write Error:", e);
           }
       }
   };
 
+  // Applies per-currency cash movements to the stored balances of a portfolio
+  const persistCashDelta = async (portfolioId: string, delta: CashAccounts): Promise<boolean> => {
+      if (Object.keys(delta).length === 0) return true;
+      const { data, error } = await supabase.from('portfolios').select('cash_balance, cash_balances').eq('id', portfolioId).single();
+      if (error) {
+          console.error("Failed to read cash balance", error);
+          return false;
+      }
+      const stored = { cashBalance: safeFloat(data?.cash_balance), cashBalances: data?.cash_balances || undefined };
+      const { cashBalances, cashBalance } = moveCash(stored, delta, fxRef.current.rates);
+      const { error: updateError } = await supabase.from('portfolios').update({ cash_balances: cashBalances, cash_balance: cashBalance }).eq('id', portfolioId);
+      if (updateError) console.error("Failed to save cash balance", updateError);
+      return !updateError;
+  };
+
+  // Writes the difference between two versions of a portfolio's holdings: new positions are
+  // inserted (taking the row's id), changed ones updated and closed ones deleted
+  const persistHoldingChanges = async (portfolioId: string, previousHoldings: Holding[], updatedHoldings: Holding[]) => {
+      const previousById = new Map(previousHoldings.map(h => [h.id, h]));
+      const adopted: [string, string][] = [];
+      for (const h of updatedHoldings) {
+          const prev = previousById.get(h.id);
+          if (!prev) {
+              const { data: inserted } = await supabase.from('holdings').insert({
+                  portfolio_id: portfolioId,
+                  symbol: h.symbol,
+                  name: h.name,
+                  shares: h.shares,
+                  avg_price: h.avgPrice,
+                  asset_type: h.assetType,
+                  sector: h.sector,
+                  country: h.country,
+                  currency: h.currency || null,
+                  dividend_yield: h.dividendYield,
+                  safety_score: h.safetyScore,
+                  snowflake_data: h.snowflake,
+                  target_allocation: 0
+              }).select('id').single();
+              if (inserted?.id) adopted.push([h.id, inserted.id]);
+          } else if (prev !== h) {
+              await supabase.from('holdings').update({
+                  symbol: h.symbol,
+                  name: h.name,
+                  shares: h.shares,
+                  avg_price: h.avgPrice
+              }).eq('id', h.id);
+          }
+      }
+      const remainingIds = new Set(updatedHoldings.map(h => h.id));
+      const removedIds = previousHoldings.filter(h => !remainingIds.has(h.id)).map(h => h.id);
+      if (removedIds.length > 0) await supabase.from('holdings').delete().in('id', removedIds);
+      if (adopted.length > 0 && portfolioId === activePortfolioId) adoptHoldingIds(adopted);
+  };
+
+  // Positions opened before the insert returned keep their local id until it is swapped for the row's
+  const adoptHoldingIds = (ids: [string, string][]) => {
+      const byLocalId = new Map(ids);
+      setActivePortfolio(prev => {
+          const updated = { ...prev, holdings: prev.holdings.map(h => byLocalId.has(h.id) ? { ...h, id: byLocalId.get(h.id) as string } : h) };
+          localStorage.setItem(`wealthos_portfolio_data_${prev.id}`, JSON.stringify(updated));
+          return updated;
+      });
+  };
+
+  // Entries added before the insert returned keep their local id until it is swapped for the row's
+  const adoptTransactionIds = (ids: [string, string][]) => {
+      const byLocalId = new Map(ids);
+      setActivePortfolio(prev => {
+          const updated = { ...prev, transactions: prev.transactions.map(t => byLocalId.has(t.id) ? { ...t, id: byLocalId.get(t.id) as string } : t) };
+          localStorage.setItem(`wealthos_portfolio_data_${prev.id}`, JSON.stringify(updated));
+          return updated;
+      });
+  };
+
+  // The close a reinvested dividend buys at; without history, only a live quote on the pay date itself will do
+  const reinvestmentPrice = async (holding: Holding, date: string): Promise<number | null> => {
+      const close = await fetchCloseOn(holding.symbol, date, marketDataProviders, holding.assetType === AssetType.CRYPTO);
+      if (close) return close;
+      const isToday = date.split('T')[0] === new Date().toISOString().split('T')[0];
+      return isToday && holding.priceStatus === 'live' ? holding.currentPrice : null;
+  };
+
+  // Records a dividend, interest, fee, withholding, deposit, withdrawal or currency conversion.
+  // The cash balance moves by the entry's signed amount; holdings only change when a dividend is reinvested.
+  const addCashTransaction = async (type: CashTransactionType, amount: number, date: string, details: CashTransactionDetails = {}, targetPortfolioId?: string) => {
+      const targetId = targetPortfolioId || activePortfolioId;
+      const newTx: Transaction = {
+          id: `tx-${Date.now()}`,
+          date,
+          type,
+          symbol: (details.symbol || '').toUpperCase(),
+          shares: 0,
+          price: 0,
+          totalValue: Math.abs(safeFloat(amount)),
+          currency: details.currency || undefined,
+          toCurrency: type === 'FX_CONVERSION' ? details.toCurrency || undefined : undefined,
+          fxRate: type === 'FX_CONVERSION' && details.fxRate ? safeFloat(details.fxRate) : undefined
+      };
+
+      // A dividend on a DRIP holding buys fractional shares with what is left after withholding, converted
+      // into the listing currency and priced at the pay date's close
+      const dripHolding = type === 'DIVIDEND' && targetId === activePortfolioId
+          ? activePortfolio.holdings.find(h => h.drip && h.symbol.toUpperCase() === newTx.symbol)
+          : undefined;
+      const dripPrice = dripHolding ? await reinvestmentPrice(dripHolding, date) : null;
+      let reinvestTx: Transaction | undefined;
+      let conversionTx: Transaction | undefined;
+      if (dripHolding && dripPrice) {
+          const listingCurrency = dripHolding.currency || 'USD';
+          const paidIn = newTx.currency || listingCurrency;
+          const recordedTax = activePortfolio.transactions
+              .filter(t => t.type === 'TAX_WITHHELD' && t.symbol.toUpperCase() === newTx.symbol && t.date.split('T')[0] === date.split('T')[0])
+              .reduce((sum, t) => sum + convertCurrency(t.totalValue, t.currency || paidIn, paidIn, fxRates, date), 0);
+          // Tax already recorded for this payment, otherwise what the tax profile expects to be withheld
+          const withheld = recordedTax > 0 ? recordedTax : applyWithholding(newTx.totalValue, dripHolding.country, taxProfile).withheldAmount;
+          const net = Math.max(0, newTx.totalValue - withheld);
+          const invested = safeFloat(convertCurrency(net, paidIn, listingCurrency, fxRates, date));
+          if (invested > 0) {
+              conversionTx = paidIn !== listingCurrency ? {
+                  id: `tx-${Date.now()}-drip-fx`,
+                  date,
+                  type: 'FX_CONVERSION',
+                  symbol: '',
+                  shares: 0,
+                  price: 0,
+                  totalValue: net,
+                  currency: paidIn,
+                  toCurrency: listingCurrency,
+                  fxRate: invested / net
+              } : undefined;
+              reinvestTx = {
+                  id: `tx-${Date.now()}-drip`,
+                  date,
+                  type: 'BUY',
+                  symbol: dripHolding.symbol,
+                  shares: safeFloat(invested / dripPrice),
+                  price: dripPrice,
+                  totalValue: invested,
+                  currency: listingCurrency
+              };
+          }
+      } else if (dripHolding) {
+          setNotifications(prev => [{
+              id: `drip-${newTx.id}`,
+              type: 'warning',
+              title: `${dripHolding.symbol} Dividend Not Reinvested`,
+              message: `No close was found for ${dripHolding.symbol} on ${date.split('T')[0]}, so the dividend was recorded as cash. Add the purchase by hand once a price is available.`,
+              timestamp: new Date().toISOString(),
+              read: false
+          }, ...prev]);
+      }
+      const reinvested = reinvestTx && dripHolding ? {
+          ...dripHolding,
+          shares: dripHolding.shares + reinvestTx.shares,
+          avgPrice: (dripHolding.shares * dripHolding.avgPrice + reinvestTx.totalValue) / (dripHolding.shares + reinvestTx.shares)
+      } : undefined;
+      const dripEntries = [conversionTx, reinvestTx].filter((t): t is Transaction => !!t);
+      const cashDelta = addCash(cashMovements(newTx, true), ...dripEntries.map(t => cashMovements(t, true)));
+
+      // 1. Local Optimistic Update
+      if (targetId === activePortfolioId) {
+          const holdings = reinvested ? activePortfolio.holdings.map(h => h.id === reinvested.id ? reinvested : h) : activePortfolio.holdings;
+          const updatedPortfolio = {
+              ...activePortfolio,
+              transactions: [...[...dripEntries].reverse(), newTx, ...activePortfolio.transactions],
+              holdings,
+              totalValue: safeFloat(valueOf(holdings)),
+              ...moveCash(activePortfolio, cashDelta, fxRates)
+          };
+          setActivePortfolio(updatedPortfolio);
+          localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updatedPortfolio));
+      }
+
+      // 2. DB Persistence
+      if (isSupabaseConfigured && user && !targetId.startsWith('local') && !targetId.startsWith('mock')) {
+          try {
+              const entries = [newTx, ...dripEntries];
+              const rows = entries.map(t => ({
+                  portfolio_id: targetId,
+                  user_id: user.id,
+                  ...transactionColumns(t)
+              }));
+              const { data: inserted, error } = await supabase.from('transactions').insert(rows).select('id');
+              if (error) throw error;
+              if (inserted && targetId === activePortfolioId) {
+                  adoptTransactionIds(entries.map((t, i): [string, string] => [t.id, inserted[i]?.id]).filter(([, id]) => !!id));
+              }
+              if (reinvested) {
+                  const { error: holdingError } = await supabase.from('holdings')
+                      .update({ shares: reinvested.shares, avg_price: reinvested.avgPrice })
+                      .eq('id', reinvested.id);
+                  if (holdingError) throw holdingError;
+              }
+              await persistCashDelta(targetId, cashDelta);
+          } catch (e) {
+              console.error("DB Cash Transaction Write Error:", e);
+          }
+      }
+  };
+
+  // Puts `next` in place of the active portfolio's ledger and restates the holdings and cash
+  // balances it moves. Returns what the caller needs to persist the change.
+  const applyLedgerChange = (next: Transaction[], removed?: Transaction, added?: Transaction) => {
+      const previousHoldings = activePortfolio.holdings;
+      const holdings = rebuildHoldings(previousHoldings, activePortfolio.transactions, next, activePortfolio.corporateActions || [], catalogueHolding);
+
+      const tracked = tracksCash(activePortfolio.transactions);
+      const reversed = Object.entries(removed ? cashMovements(removed, tracked) : {}).map(([currency, amount]) => ({ [currency]: -amount }));
+      const cashDelta = addCash(...reversed, added ? cashMovements(added, tracked) : {});
+
+      const updatedPortfolio = {
+          ...activePortfolio,
+          transactions: next,
+          holdings,
+          totalValue: safeFloat(valueOf(holdings)),
+          ...moveCash(activePortfolio, cashDelta, fxRates)
+      };
+      setActivePortfolio(updatedPortfolio);
+      localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updatedPortfolio));
+      return { previousHoldings, holdings, cashDelta };
+  };
+
+  // Corrects a ledger entry, e.g. a mistyped price from an import
+  const updateTransaction = async (transactionId: string, updates: Partial<Omit<Transaction, 'id'>>) => {
+      const tx = activePortfolio.transactions.find(t => t.id === transactionId);
+      if (!tx) return;
+      const updated: Transaction = { ...tx, ...updates, id: tx.id, symbol: (updates.symbol ?? tx.symbol).toUpperCase() };
+
+      // 1. Local Optimistic Update
+      const { previousHoldings, holdings, cashDelta } = applyLedgerChange(
+          activePortfolio.transactions.map(t => t.id === transactionId ? updated : t),
+          tx,
+          updated
+      );
+
+      // 2. DB Update
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          try {
+              const { error } = await supabase.from('transactions').update(transactionColumns(updated)).eq('id', transactionId);
+              if (error) throw error;
+              await persistHoldingChanges(activePortfolioId, previousHoldings, holdings);
+              await persistCashDelta(activePortfolioId, cashDelta);
+          } catch (e) {
+              console.error("DB Transaction Update Error:", e);
+          }
+      }
+  };
+
+  const deleteTransaction = async (transactionId: string): Promise<Transaction | undefined> => {
+      const tx = activePortfolio.transactions.find(t => t.id === transactionId);
+      if (!tx) return undefined;
+
+      // 1. Local Optimistic Update
+      const { previousHoldings, holdings, cashDelta } = applyLedgerChange(activePortfolio.transactions.filter(t => t.id !== transactionId), tx);
+
+      // 2. DB Update
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          try {
+              const { error } = await supabase.from('transactions').delete().eq('id', transactionId);
+              if (error) throw error;
+              await persistHoldingChanges(activePortfolioId, previousHoldings, holdings);
+              await persistCashDelta(activePortfolioId, cashDelta);
+          } catch (e) {
+              console.error("DB Transaction Delete Error:", e);
+          }
+      }
+      return tx;
+  };
+
+  // Puts a deleted entry back in date order (used to undo a delete)
+  const restoreTransaction = async (transaction: Transaction) => {
+      const ledger = activePortfolio.transactions;
+      const index = ledger.findIndex(t => t.date < transaction.date);
+      const next = index === -1 ? [...ledger, transaction] : [...ledger.slice(0, index), transaction, ...ledger.slice(index)];
+
+      // 1. Local Optimistic Update
+      const { previousHoldings, holdings, cashDelta } = applyLedgerChange(next, undefined, transaction);
+
+      // 2. DB Persistence
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          try {
+              const { data, error } = await supabase.from('transactions').insert({
+                  portfolio_id: activePortfolioId,
+                  user_id: user.id,
+                  ...transactionColumns(transaction)
+              }).select('id').single();
+              if (error) throw error;
+              if (data?.id) adoptTransactionIds([[transaction.id, data.id]]);
+              await persistHoldingChanges(activePortfolioId, previousHoldings, holdings);
+              await persistCashDelta(activePortfolioId, cashDelta);
+          } catch (e) {
+              console.error("DB Transaction Restore Error:", e);
+          }
+      }
+  };
+
+  const updateCostBasisMethod = async (method: CostBasisMethod) => {
+      const updatedPortfolio = { ...activePortfolio, costBasisMethod: method };
+      setActivePortfolio(updatedPortfolio);
+      localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updatedPortfolio));
+
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          const { error } = await supabase.from('portfolios').update({ cost_basis_method: method }).eq('id', activePortfolioId);
+          if (error) console.error("Failed to save cost basis method", error);
+      }
+  };
+
+  const updateAccountType = async (accountType: AccountType) => {
+      const updatedPortfolio = { ...activePortfolio, accountType };
+      setActivePortfolio(updatedPortfolio);
+      localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updatedPortfolio));
+
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          const { error } = await supabase.from('portfolios').update({ account_type: accountType }).eq('id', activePortfolioId);
+          if (error) console.error("Failed to save account type", error);
+      }
+  };
+
+  const taxProfile: TaxProfile = {
+      residence: user?.taxResidence || 'US',
+      accountType: activePortfolio.accountType || 'TAXABLE'
+  };
+
+  // Records a split, ticker change, merger or spin-off and restates the stored holdings to match.
+  // Lots, tax reports and performance replay the action from the record itself.
+  const addCorporateAction = async (action: Omit<CorporateAction, 'id'>) => {
+      const newAction: CorporateAction = { ...action, symbol: action.symbol.toUpperCase(), newSymbol: action.newSymbol?.toUpperCase(), id: `ca-${Date.now()}` };
+
+      // 1. Local Optimistic Update
+      const previousHoldings = activePortfolio.holdings;
+      const updatedHoldings = restateHoldings(previousHoldings, newAction, catalogueHolding);
+      const newTotal = valueOf(updatedHoldings);
+
+      const updatedPortfolio = {
+          ...activePortfolio,
+          holdings: updatedHoldings,
+          corporateActions: [...(activePortfolio.corporateActions || []), newAction],
+          totalValue: safeFloat(newTotal)
+      };
+
+      setActivePortfolio(updatedPortfolio);
+      localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updatedPortfolio));
+
+      // 2. DB Persistence
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          try {
+              const { error } = await supabase.from('corporate_actions').insert({
+                  portfolio_id: activePortfolioId,
+                  type: newAction.type,
+                  symbol: newAction.symbol,
+                  date: newAction.date,
+                  ratio: newAction.ratio ?? null,
+                  new_symbol: newAction.newSymbol || null,
+                  new_name: newAction.newName || null,
+                  cash_per_share: newAction.cashPerShare ?? null,
+                  cost_basis_allocation: newAction.costBasisAllocation ?? null,
+                  source: newAction.source || 'manual'
+              });
+              if (error) console.error("Failed to save corporate action", error);
+
+              await persistHoldingChanges(activePortfolioId, previousHoldings, updatedHoldings);
+          } catch (e) {
+              console.error("Corporate Action DB Error", e);
+          }
+      }
+  };
+
   const updateHolding = async (holdingId: string, updates: Partial<Holding>) => {
       // 1. Local Optimistic Update
       const updatedHoldings = activePortfolio.holdings.map(h => 
@@ -822,7 +1652,7 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
       );
       
       // Recalculate totals
-      const newTotal = updatedHoldings.reduce((sum, h) => sum + (h.shares * h.currentPrice), 0);
+      const newTotal = valueOf(updatedHoldings);
       
       const updatedPortfolio = {
           ...activePortfolio,
@@ -838,6 +1668,8 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
           const dbPayload: any = {};
           if (updates.shares !== undefined) dbPayload.shares = updates.shares;
           if (updates.avgPrice !== undefined) dbPayload.avg_price = updates.avgPrice;
+          if (updates.drip !== undefined) dbPayload.drip = updates.drip;
+          if (updates.currency !== undefined) dbPayload.currency = updates.currency;
           
           if (Object.keys(dbPayload).length > 0) {
               const { error } = await supabase.from('holdings').update(dbPayload).eq('id', holdingId);
@@ -851,7 +1683,7 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
 
       // 1. Local Optimistic Update
       const updatedHoldings = activePortfolio.holdings.filter(h => h.id !== holdingId);
-      const newTotal = updatedHoldings.reduce((sum, h) => sum + (h.shares * h.currentPrice), 0);
+      const newTotal = valueOf(updatedHoldings);
 
       const updatedPortfolio = {
           ...activePortfolio,
@@ -872,9 +1704,13 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
   const addManualAsset = async (asset: Omit<ManualAsset, 'id'>, targetPortfolioId?: string) => {
       const targetId = targetPortfolioId || activePortfolioId;
       
+      const localId = `ma-${Date.now()}`;
+      // The entered value starts the valuation history
+      const valuations = asset.valuations || [{ date: new Date().toISOString().split('T')[0], value: safeFloat(asset.value) }];
+
       // 1. Local Update
       if (targetId === activePortfolioId) {
-          const newAsset = { ...asset, id: `ma-${Date.now()}` };
+          const newAsset = { ...asset, valuations, id: localId };
           const updated = {
               ...activePortfolio,
               manualAssets: [...(activePortfolio.manualAssets || []), newAsset]
@@ -886,21 +1722,92 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
       // 2. DB Persistence
       if (isSupabaseConfigured && user && !targetId.startsWith('local')) {
           try {
-              await supabase.from('manual_assets').insert({
+              const { data, error } = await supabase.from('manual_assets').insert({
                   portfolio_id: targetId,
                   name: asset.name,
                   type: asset.type,
                   value: safeFloat(asset.value),
                   currency: asset.currency,
                   purchase_date: asset.purchaseDate,
-                  purchase_price: safeFloat(asset.purchasePrice)
-              });
+                  purchase_price: safeFloat(asset.purchasePrice),
+                  valuations,
+                  valuation_model: asset.valuationModel || null
+              }).select('id').single();
+              if (error) throw error;
+
+              // Later edits and deletes address the DB row
+              if (data?.id && targetId === activePortfolioId) {
+                  setActivePortfolio(prev => {
+                      const updated = { ...prev, manualAssets: (prev.manualAssets || []).map(a => a.id === localId ? { ...a, id: data.id } : a) };
+                      localStorage.setItem(`wealthos_portfolio_data_${prev.id}`, JSON.stringify(updated));
+                      return updated;
+                  });
+              }
           } catch (e) {
               console.error("Manual Asset DB Error", e);
           }
       }
   };
 
+  const updateManualAsset = async (assetId: string, updates: Partial<Omit<ManualAsset, 'id'>>) => {
+      const asset = (activePortfolio.manualAssets || []).find(a => a.id === assetId);
+      if (!asset) return;
+      const today = new Date().toISOString().split('T')[0];
+
+      // A changed value is recorded as today's valuation; an edited history sets the value to its latest entry.
+      // Switching on a model for an asset with no history anchors it at today's value.
+      let valuations = updates.valuations ?? asset.valuations ?? [];
+      if (updates.value !== undefined && updates.value !== asset.value) {
+          valuations = [...valuations.filter(v => v.date !== today), { date: today, value: updates.value }];
+      } else if (updates.valuationModel && valuations.length === 0) {
+          valuations = [{ date: today, value: asset.value }];
+      }
+      valuations = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+      const value = updates.value ?? (valuations.length > 0 ? valuations[valuations.length - 1].value : asset.value);
+      const updatedAsset: ManualAsset = { ...asset, ...updates, value, valuations };
+
+      // 1. Local Optimistic Update
+      const updatedPortfolio = {
+          ...activePortfolio,
+          manualAssets: (activePortfolio.manualAssets || []).map(a => a.id === assetId ? updatedAsset : a)
+      };
+      setActivePortfolio(updatedPortfolio);
+      localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updatedPortfolio));
+
+      // 2. DB Update
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          const { error } = await supabase.from('manual_assets').update({
+              name: updatedAsset.name,
+              type: updatedAsset.type,
+              value: safeFloat(updatedAsset.value),
+              currency: updatedAsset.currency,
+              purchase_date: updatedAsset.purchaseDate || null,
+              purchase_price: updatedAsset.purchasePrice ?? null,
+              valuations: updatedAsset.valuations,
+              valuation_model: updatedAsset.valuationModel || null
+          }).eq('id', assetId);
+          if (error) console.error("Failed to update manual asset in DB", error);
+      }
+  };
+
+  const deleteManualAsset = async (assetId: string) => {
+      if (!window.confirm("Are you sure you want to remove this asset and its valuation history? This action cannot be undone.")) return;
+
+      // 1. Local Optimistic Update
+      const updatedPortfolio = {
+          ...activePortfolio,
+          manualAssets: (activePortfolio.manualAssets || []).filter(a => a.id !== assetId)
+      };
+      setActivePortfolio(updatedPortfolio);
+      localStorage.setItem(`wealthos_portfolio_data_${activePortfolioId}`, JSON.stringify(updatedPortfolio));
+
+      // 2. DB Update
+      if (isSupabaseConfigured && user && !activePortfolioId.startsWith('local') && !activePortfolioId.startsWith('mock')) {
+          const { error } = await supabase.from('manual_assets').delete().eq('id', assetId);
+          if (error) console.error("Failed to delete manual asset from DB", error);
+      }
+  };
+
   const addLiability = async (liability: Omit<Liability, 'id'>, targetPortfolioId?: string) => {
       const targetId = targetPortfolioId || activePortfolioId;
       
@@ -924,7 +1831,9 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
                   type: liability.type,
                   amount: safeFloat(liability.amount),
                   interest_rate: safeFloat(liability.interestRate),
-                  monthly_payment: safeFloat(liability.monthlyPayment)
+                  monthly_payment: safeFloat(liability.monthlyPayment),
+                  balance_date: liability.balanceDate || null,
+                  term_months: liability.termMonths || null
               });
           } catch (e) {
               console.error("Liability DB Error", e);
@@ -935,33 +1844,87 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
   const syncBroker = async (brokerId: string) => {
       console.log(`Syncing broker ${brokerId}...`);
       if (!user) return false;
-      
+
+      const integration = integrations.find(i => i.id === brokerId);
+      if (!integration || !integration.apiCredentials || integration.providerId !== 'trading212') return false;
+
+      // Accounts connected before syncs recorded a portfolio wait for the user to pick one
+      const targetId = integration.portfolioId;
+      if (!targetId || !portfolios.some(p => p.id === targetId)) {
+          updateIntegration(brokerId, {
+              status: 'Error',
+              lastError: targetId
+                  ? 'The portfolio this account syncs into no longer exists. Choose another to sync into.'
+                  : 'Choose the portfolio this account syncs into before syncing.'
+          });
+          return false;
+      }
+
+      updateIntegration(brokerId, { status: 'Syncing' });
       try {
-          const integration = integrations.find(i => i.id === brokerId);
-          if (!integration || !integration.apiCredentials) return false;
-
-          if (integration.name === 'Trading 212') {
-              const positions = await fetchTrading212Positions(integration.apiCredentials.apiKey);
-              
-              // Auto-map to transactions for importPortfolio
-              if (positions.length > 0) {
-                  const transactions = positions.map(p => ({
-                      date: new Date().toISOString().split('T')[0],
-                      type: 'BUY', // Assuming current positions are long
-                      symbol: p.ticker.split('_')[0],
-                      shares: p.quantity,
-                      price: p.averagePrice
-                  }));
-                  
-                  await importPortfolio('T212 Auto Sync', transactions);
-                  return true;
-              }
+          const sync = await syncTrading212(brokerTransport(integration), integration.syncCursor);
+
+          // Only what the ledger lacks is imported; rows it cannot take (a sell of shares the
+          // history never bought) are reported and left to reconciliation
+          const base = await loadImportBase(targetId);
+          const preview = previewAgainst(sync.transactions, base);
+          const accepted = preview.rows.filter(r => r.status === 'new').map(r => r.row);
+          const rejected = preview.rows.filter(r => r.status === 'error');
+
+          // Every symbol this account has reported; only these are closed once the broker stops holding them
+          const synced = new Set([
+              ...(integration.syncedSymbols || []),
+              ...preview.rows.map(r => r.row.symbol.toUpperCase()),
+              ...sync.positions.map(p => resolveSymbol(p.ticker).symbol)
+          ].filter(Boolean));
+
+          // Positions once the history is in, checked against what the broker holds
+          const ledger: Record<string, LedgerPosition> = {};
+          base.holdings.forEach(h => { ledger[h.symbol.toUpperCase()] = { shares: h.shares, avgPrice: h.avgPrice || h.currentPrice }; });
+          preview.changes.forEach(c => { ledger[c.symbol] = { shares: c.sharesAfter, avgPrice: c.avgPriceAfter || ledger[c.symbol]?.avgPrice || 0 }; });
+          const adjustments = sync.complete ? reconcilePositions(ledger, sync.positions, synced, new Date().toISOString().split('T')[0]) : [];
+
+          const { result, saved } = accepted.length + adjustments.length > 0
+              ? await importRows([...accepted, ...adjustments], targetId)
+              : { result: { imported: 0, duplicates: 0 }, saved: Promise.resolve(true) };
+
+          // The cursor only moves past history the portfolio actually stored, so a failed write is read again next time
+          if (!(await saved)) {
+              if (targetId === activePortfolioId) fetchPortfolioData();
+              updateIntegration(brokerId, { status: 'Error', lastError: 'The synced entries could not be saved. The next sync will try them again.' });
+              return false;
           }
+
+          if (result.imported > 0) {
+              setNotifications(prev => [{
+                  id: `sync-${brokerId}-${Date.now()}`,
+                  type: 'info',
+                  title: `${integration.name} Synced`,
+                  message: `${result.imported} new entr${result.imported === 1 ? 'y' : 'ies'} imported${adjustments.length > 0 ? `, including ${adjustments.length} position adjustment${adjustments.length === 1 ? '' : 's'}` : ''}.`,
+                  timestamp: new Date().toISOString(),
+                  read: false
+              }, ...prev]);
+          }
+
+          const problems = [
+              sync.complete ? '' : 'Rate limited before the full history was read; the next sync continues.',
+              rejected.length > 0
+                  ? `${rejected.length} entr${rejected.length === 1 ? 'y' : 'ies'} could not be imported and ${rejected.length === 1 ? 'was' : 'were'} reconciled instead: ${rejected.slice(0, 3).map(r => `${r.row.type} ${r.row.symbol} on ${r.row.date} (${r.errors.join(', ')})`).join('; ')}${rejected.length > 3 ? '; ...' : ''}`
+                  : ''
+          ].filter(Boolean);
+          updateIntegration(brokerId, {
+              status: 'Connected',
+              lastSync: new Date().toLocaleString(),
+              syncCursor: sync.cursor,
+              syncedSymbols: Array.from(synced).sort(),
+              lastError: problems.length > 0 ? problems.join(' ') : undefined
+          });
+          return true;
       } catch (e) {
           console.error("Sync failed", e);
+          updateIntegration(brokerId, { status: 'Error', lastError: e instanceof Trading212Error ? e.message : 'Could not reach Trading 212.' });
+          return false;
       }
-      
-      return false;
   };
 
   // Other Context Methods
@@ -1007,27 +1970,44 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
   const markAsRead = (id: string) => setNotifications(prev => prev.map(n => n.id === id ? { ...n, read: true } : n));
   const clearNotifications = () => setNotifications([]);
 
-  const addAlert = async (symbol: string, targetPrice: number, condition: 'ABOVE' | 'BELOW') => {
+  const addAlert = async (symbol: string, targetPrice: number, condition: 'ABOVE' | 'BELOW', cooldownMinutes?: number) => {
+      const localId = `alert-${Date.now()}`;
       const newAlert: AlertConfig = {
-          id: `alert-${Date.now()}`,
+          id: localId,
           symbol,
           targetPrice,
           condition,
           createdAt: new Date().toISOString(),
-          isActive: true
+          isActive: true,
+          cooldownMinutes
       };
       setAlerts(prev => [...prev, newAlert]);
 
       if (isSupabaseConfigured && user) {
-          await supabase.from('alerts').insert({
+          const { data, error } = await supabase.from('alerts').insert({
               user_id: user.id,
               symbol,
               target_price: targetPrice,
-              condition
-          });
+              condition,
+              cooldown_minutes: cooldownMinutes || null
+          }).select('id').single();
+
+          // Swap the optimistic id for the DB id so later state writes hit the right row
+          if (!error && data?.id) {
+              setAlerts(prev => prev.map(a => a.id === localId ? { ...a, id: data.id } : a));
+          }
       }
   };
 
+  const persistAlertState = async (alert: AlertConfig) => {
+      if (!isSupabaseConfigured || !user || alert.id.startsWith('alert-')) return;
+      const { error } = await supabase.from('alerts').update({
+          is_active: alert.isActive,
+          last_triggered_at: alert.lastTriggeredAt
+      }).eq('id', alert.id);
+      if (error) console.error("Failed to persist alert state", error);
+  };
+
   const removeAlert = async (id: string) => {
       setAlerts(prev => prev.filter(a => a.id !== id));
       if (isSupabaseConfigured && user) {
@@ -1047,10 +2027,20 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
       setDefaultPortfolio,
       addNewPortfolio,
       importPortfolio,
+      previewImport,
       addTransaction,
+      addCashTransaction,
+      updateTransaction,
+      deleteTransaction,
+      restoreTransaction,
+      updateCostBasisMethod,
+      updateAccountType,
+      addCorporateAction,
       updateHolding,
       deleteHolding,
       addManualAsset,
+      updateManualAsset,
+      deleteManualAsset,
       addLiability,
       watchlists,
       activeWatchlistId,
@@ -1073,8 +2063,22 @@ export const PortfolioProvider: React.FC<{ children: ReactNode }> = ({ children
       removeAlert,
       isMarketOpen,
       toggleMarketOpen,
-      marketDataApiKey,
-      setMarketDataApiKey: updateMarketDataKey,
+      marketDataProviders,
+      dividendSchedules,
+      isLoadingDividends,
+      taxProfile,
+      baseCurrency,
+      fxRates,
+      toBase,
+      holdingValue,
+      cashValue,
+      balanceSheet,
+      netWorthSnapshots,
+      recordNetWorthSnapshot,
+      updateMarketDataProviders,
+      isSimulationEnabled,
+      setSimulationEnabled,
+      marketQuotes,
       syncBroker
     }}>
       {children}
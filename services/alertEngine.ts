@@ -0,0 +1,58 @@
+import { AlertConfig, Notification } from '../types';
+
+export interface AlertEvaluation {
+    // Alerts whose state changed on this tick (disarmed or re-armed with a new trigger time)
+    updated: AlertConfig[];
+    notifications: Notification[];
+}
+
+const isConditionMet = (alert: AlertConfig, price: number): boolean => {
+    return alert.condition === 'ABOVE' ? price >= alert.targetPrice : price <= alert.targetPrice;
+};
+
+const isCoolingDown = (alert: AlertConfig, now: number): boolean => {
+    if (!alert.cooldownMinutes || !alert.lastTriggeredAt) return false;
+    const last = new Date(alert.lastTriggeredAt).getTime();
+    return Number.isFinite(last) && now - last < alert.cooldownMinutes * 60 * 1000;
+};
+
+const formatPrice = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Compares active alerts against the latest quotes.
+ * One-shot alerts are disarmed once they fire; alerts with a cooldown stay armed
+ * and are skipped until the cooldown window has passed.
+ */
+export const evaluateAlerts = (alerts: AlertConfig[], prices: Record<string, number>, now: number = Date.now()): AlertEvaluation => {
+    const updated: AlertConfig[] = [];
+    const notifications: Notification[] = [];
+    const timestamp = new Date(now).toISOString();
+
+    alerts.forEach(alert => {
+        if (!alert.isActive) return;
+
+        const price = prices[alert.symbol.toUpperCase()];
+        if (!price || !Number.isFinite(price) || price <= 0) return;
+        if (!isConditionMet(alert, price)) return;
+        if (isCoolingDown(alert, now)) return;
+
+        const rearm = !!alert.cooldownMinutes && alert.cooldownMinutes > 0;
+        updated.push({
+            ...alert,
+            isActive: rearm,
+            lastTriggeredAt: timestamp
+        });
+
+        const direction = alert.condition === 'ABOVE' ? 'risen above' : 'fallen below';
+        notifications.push({
+            id: `notif-${alert.id}-${now}`,
+            type: alert.condition === 'ABOVE' ? 'success' : 'warning',
+            title: `${alert.symbol} Price Alert`,
+            message: `${alert.symbol} has ${direction} ${formatPrice(alert.targetPrice)} (now ${formatPrice(price)}).`,
+            timestamp,
+            read: false
+        });
+    });
+
+    return { updated, notifications };
+};
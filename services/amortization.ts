@@ -0,0 +1,134 @@
+import { Liability } from '../types';
+
+export interface AmortizationRow {
+    month: number; // 1 is the first payment after the balance date
+    date: string; // YYYY-MM-DD
+    interest: number;
+    principal: number; // Paid by the scheduled payment
+    extra: number; // Paid on top of it
+    balance: number; // After the month's payments
+}
+
+export interface AmortizationSchedule {
+    rows: AmortizationRow[];
+    monthlyPayment: number; // At the start; a refinance changes it
+    payoffDate: string | null; // Null when the payment never clears the balance
+    totalInterest: number;
+    totalPaid: number;
+}
+
+export interface Refinance {
+    month: number; // Payments made under the current loan before the new one starts
+    interestRate: number; // Annual %
+    termMonths: number;
+    costs?: number; // Closing costs, added to the new balance
+}
+
+export interface AmortizationScenario {
+    extraMonthly?: number;
+    lumpSum?: { month: number; amount: number };
+    refinance?: Refinance;
+}
+
+// Schedules stop after 50 years; anything still owing then counts as never paid off
+const MAX_MONTHS = 600;
+const PAID_OFF = 0.005;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+// Same day of the month, clamped to the month's end (Jan 31 + 1 month is Feb 28)
+const addMonths = (iso: string, months: number) => {
+    const [y, m, d] = iso.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(y, m - 1 + months + 1, 0)).getUTCDate();
+    return toISODate(new Date(Date.UTC(y, m - 1 + months, Math.min(d, lastDay))));
+};
+
+// Monthly payment dates after `from`, up to and including `to`
+const monthsBetween = (from: string, to: string) => {
+    const [fy, fm] = from.split('-').map(Number);
+    const [ty, tm] = to.split('-').map(Number);
+    const months = (ty - fy) * 12 + (tm - fm);
+    return Math.max(0, addMonths(from, months) <= to ? months : months - 1);
+};
+
+/** Level monthly payment that repays `principal` over `months` at `annualRate` %. */
+export const monthlyPaymentFor = (principal: number, annualRate: number, months: number): number => {
+    if (months <= 0) return principal;
+    const rate = annualRate / 1200;
+    return rate === 0 ? principal / months : principal * rate / (1 - Math.pow(1 + rate, -months));
+};
+
+/** The recorded payment, or the level payment over the remaining term. Zero when neither is known. */
+export const scheduledPayment = (liability: Liability): number => {
+    if (liability.monthlyPayment && liability.monthlyPayment > 0) return liability.monthlyPayment;
+    return liability.termMonths ? monthlyPaymentFor(liability.amount, liability.interestRate, liability.termMonths) : 0;
+};
+
+export const isAmortizing = (liability: Liability): boolean => scheduledPayment(liability) > 0;
+
+/**
+ * Month-by-month schedule from the liability's balance date: interest accrues monthly on the
+ * balance, the payment covers it first and the rest repays principal. Extra payments go straight
+ * to principal; a refinance rolls the balance and costs into a new loan with level payments.
+ */
+export const amortize = (liability: Liability, scenario: AmortizationScenario = {}, maxMonths: number = MAX_MONTHS): AmortizationSchedule => {
+    const start = liability.balanceDate || toISODate(new Date());
+    const initialPayment = scheduledPayment(liability);
+    let balance = liability.amount;
+    let rate = liability.interestRate;
+    let payment = initialPayment;
+    let totalInterest = 0;
+    let totalPaid = 0;
+    const rows: AmortizationRow[] = [];
+
+    for (let month = 1; month <= maxMonths && balance > PAID_OFF; month++) {
+        const refinance = scenario.refinance;
+        if (refinance && month === refinance.month + 1) {
+            balance += refinance.costs || 0;
+            rate = refinance.interestRate;
+            payment = monthlyPaymentFor(balance, rate, refinance.termMonths);
+        }
+
+        const interest = balance * rate / 1200;
+        const paid = Math.min(payment, balance + interest);
+        balance += interest - paid;
+        const lump = scenario.lumpSum && scenario.lumpSum.month === month ? scenario.lumpSum.amount : 0;
+        const extra = Math.min(Math.max(0, balance), Math.max(0, scenario.extraMonthly || 0) + Math.max(0, lump));
+        balance -= extra;
+
+        totalInterest += interest;
+        totalPaid += paid + extra;
+        rows.push({ month, date: addMonths(start, month), interest, principal: paid - interest, extra, balance: Math.max(0, balance) });
+    }
+
+    return {
+        rows,
+        monthlyPayment: initialPayment,
+        payoffDate: balance <= PAID_OFF && rows.length > 0 ? rows[rows.length - 1].date : null,
+        totalInterest,
+        totalPaid
+    };
+};
+
+/** Balance owed on `date`, following the payment schedule since the balance date. */
+export const balanceOn = (liability: Liability, date: string = toISODate(new Date())): number => {
+    if (!liability.balanceDate || !isAmortizing(liability) || date <= liability.balanceDate) return liability.amount;
+    const months = monthsBetween(liability.balanceDate, date);
+    if (months === 0) return liability.amount;
+    const { rows } = amortize(liability, {}, months);
+    return rows.length > 0 ? rows[rows.length - 1].balance : liability.amount;
+};
+
+/** Per-year totals of a schedule, for charts. */
+export const yearlySummary = (schedule: AmortizationSchedule): { year: number; interest: number; principal: number; balance: number }[] => {
+    const years = new Map<number, { year: number; interest: number; principal: number; balance: number }>();
+    schedule.rows.forEach(r => {
+        const year = parseInt(r.date.slice(0, 4), 10);
+        const row = years.get(year) || { year, interest: 0, principal: 0, balance: 0 };
+        row.interest += r.interest;
+        row.principal += r.principal + r.extra;
+        row.balance = r.balance;
+        years.set(year, row);
+    });
+    return Array.from(years.values());
+};
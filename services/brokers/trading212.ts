@@ -0,0 +1,212 @@
+import { BrokerSyncCursor } from '../../types';
+import { ImportedTransaction } from '../import/types';
+import { resolveSymbol } from '../symbolResolver';
+
+const TRADING212_HOST = 'https://live.trading212.com';
+const PAGE_LIMIT = 50;
+const EPSILON = 1e-6;
+
+// Shapes of the Trading 212 public API (v0), limited to the fields the sync reads
+export interface Trading212Position {
+    ticker: string; // e.g. AAPL_US_EQ, VUSAl_EQ
+    quantity: number;
+    averagePrice: number;
+    currentPrice: number;
+}
+
+export interface Trading212Order {
+    id: number;
+    ticker: string;
+    status: string; // FILLED, CANCELLED, REJECTED...
+    type: string; // MARKET, LIMIT, STOP...
+    filledQuantity?: number; // Negative for sells
+    fillPrice?: number;
+    dateCreated: string;
+    dateExecuted?: string;
+    dateModified?: string;
+    taxes?: { name: string; quantity: number }[]; // Fees charged on the fill, in the account currency
+}
+
+export interface Trading212Dividend {
+    ticker: string;
+    reference: string;
+    quantity: number;
+    amount: number; // Paid into the account, in the account currency
+    paidOn: string;
+}
+
+export interface Trading212CashTransaction {
+    type: 'DEPOSIT' | 'WITHDRAW' | 'FEE' | 'TRANSFER';
+    amount: number;
+    reference: string;
+    dateTime: string;
+}
+
+interface Trading212Page<T> {
+    items: T[];
+    nextPagePath: string | null;
+}
+
+/** One API response. The transport does the request; the sync decides what a status means. */
+export interface Trading212Response {
+    status: number;
+    body: any;
+}
+
+/** Issues a GET for an API path (`/api/v0/...`, with its query string). */
+export type Trading212Transport = (path: string) => Promise<Trading212Response>;
+
+// Thrown for responses the sync cannot continue past: a rejected key or a server error
+export class Trading212Error extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'Trading212Error';
+        this.status = status;
+    }
+}
+
+/** The live API, authenticated with the key from the integration's settings. */
+export const httpTransport = (apiKey: string, host = TRADING212_HOST): Trading212Transport => async (path) => {
+    const res = await fetch(`${host}${path}`, { headers: { 'Authorization': apiKey } });
+    const body = res.ok ? await res.json() : null;
+    return { status: res.status, body };
+};
+
+const bodyOf = ({ status, body }: Trading212Response, path: string): any => {
+    if (status === 401 || status === 403) throw new Trading212Error('Trading 212 rejected the API key. Check it has read access to the account, portfolio and history.', status);
+    if (status < 200 || status >= 300) throw new Trading212Error(`Trading 212 request failed (${status}) for ${path.split('?')[0]}`, status);
+    return body;
+};
+
+const get = async (transport: Trading212Transport, path: string): Promise<any> => bodyOf(await transport(path), path);
+
+/**
+ * Reads a history feed newest first, following `nextPagePath` until it reaches entries already
+ * imported (at or before `since`) or the end. Trading 212 allows only a few history requests a
+ * minute, so a 429 ends the read early: what was read is returned and `complete` is false.
+ */
+const readHistory = async <T>(transport: Trading212Transport, firstPath: string, timeOf: (item: T) => string, since?: string): Promise<{ items: T[]; complete: boolean }> => {
+    const items: T[] = [];
+    let path: string | null = firstPath;
+    while (path) {
+        const response = await transport(path);
+        if (response.status === 429) return { items, complete: false };
+        const page: Trading212Page<T> = bodyOf(response, path);
+        const fresh = (page.items || []).filter(item => !since || timeOf(item) > since);
+        items.push(...fresh);
+        if (fresh.length < (page.items || []).length) break;
+        path = page.nextPagePath;
+    }
+    return { items, complete: true };
+};
+
+const dateOf = (timestamp: string) => timestamp.slice(0, 10);
+
+const orderTime = (o: Trading212Order) => o.dateExecuted || o.dateModified || o.dateCreated;
+
+/** Ledger entries for filled orders: the trade, plus one FEE entry for the taxes and fees charged on it. */
+export const ordersToLedger = (orders: Trading212Order[], accountCurrency?: string): ImportedTransaction[] => {
+    const rows: ImportedTransaction[] = [];
+    orders
+        .filter(o => o.status === 'FILLED' && Math.abs(o.filledQuantity || 0) > EPSILON && (o.fillPrice || 0) > 0)
+        .forEach(o => {
+            const date = dateOf(orderTime(o));
+            const quantity = o.filledQuantity || 0;
+            const reference = `order-${o.id}`;
+            rows.push({ symbol: o.ticker, name: '', date, type: quantity < 0 ? 'SELL' : 'BUY', shares: Math.abs(quantity), price: o.fillPrice || 0, reference });
+            const fees = (o.taxes || []).reduce((sum, t) => sum + Math.abs(t.quantity || 0), 0);
+            if (fees > 0) rows.push({ symbol: '', name: '', date, type: 'FEE', shares: 0, price: 0, amount: fees, currency: accountCurrency, reference });
+        });
+    return rows;
+};
+
+/**
+ * Ledger entries for dividends. Trading 212 reports what reached the account, after any
+ * withholding, so the amount is recorded as paid.
+ */
+export const dividendsToLedger = (dividends: Trading212Dividend[], accountCurrency?: string): ImportedTransaction[] => dividends
+    .filter(d => Math.abs(d.amount) > 0)
+    .map((d): ImportedTransaction => ({ symbol: d.ticker, name: '', date: dateOf(d.paidOn), type: 'DIVIDEND', shares: d.quantity || 0, price: 0, amount: Math.abs(d.amount), currency: accountCurrency, reference: d.reference || undefined }));
+
+/** Ledger entries for deposits, withdrawals, fees and transfers; a transfer's sign gives its direction. */
+export const cashToLedger = (transactions: Trading212CashTransaction[], accountCurrency?: string): ImportedTransaction[] => transactions
+    .filter(t => Math.abs(t.amount) > 0)
+    .map((t): ImportedTransaction => {
+        const type = t.type === 'DEPOSIT' ? 'DEPOSIT' : t.type === 'WITHDRAW' ? 'WITHDRAWAL' : t.type === 'FEE' ? 'FEE' : t.amount > 0 ? 'DEPOSIT' : 'WITHDRAWAL';
+        return { symbol: '', name: '', date: dateOf(t.dateTime), type, shares: 0, price: 0, amount: Math.abs(t.amount), currency: accountCurrency, reference: t.reference || undefined };
+    });
+
+// A position in the portfolio the account syncs into, by symbol
+export interface LedgerPosition {
+    shares: number;
+    avgPrice: number;
+}
+
+/**
+ * ADJUST entries that bring the ledger's positions in line with what the broker holds. Shares the
+ * history does not explain (a transfer in, or a position older than the history) are added at the
+ * broker's average price. A position the broker no longer holds (sold out or transferred away) is
+ * closed at the ledger's average cost, but only if it is in `synced`, the symbols this account
+ * brought into the portfolio; positions entered by hand or from other sources are left alone.
+ */
+export const reconcilePositions = (ledger: Record<string, LedgerPosition>, positions: Trading212Position[], synced: Set<string>, date: string): ImportedTransaction[] => {
+    const held = new Set<string>();
+    const adjustments: ImportedTransaction[] = positions.flatMap(p => {
+        const symbol = resolveSymbol(p.ticker).symbol;
+        held.add(symbol);
+        const difference = p.quantity - (ledger[symbol]?.shares || 0);
+        if (Math.abs(difference) < EPSILON) return [];
+        return [{ symbol: p.ticker, name: '', date, type: 'ADJUST' as const, shares: +difference.toFixed(8), price: p.averagePrice || p.currentPrice }];
+    });
+    Object.entries(ledger)
+        .filter(([symbol, position]) => synced.has(symbol) && !held.has(symbol) && position.shares > EPSILON && position.avgPrice > 0)
+        .forEach(([symbol, position]) => {
+            adjustments.push({ symbol, name: '', date, type: 'ADJUST', shares: -position.shares, price: position.avgPrice });
+        });
+    return adjustments;
+};
+
+export interface Trading212Sync {
+    transactions: ImportedTransaction[];
+    positions: Trading212Position[];
+    accountCurrency?: string;
+    cursor: BrokerSyncCursor;
+    complete: boolean; // False when rate limiting cut a history feed short; the next sync picks it up
+}
+
+const newest = <T>(items: T[], timeOf: (item: T) => string, previous?: string) =>
+    items.reduce((latest, item) => (!latest || timeOf(item) > latest ? timeOf(item) : latest), previous);
+
+/**
+ * Reads everything Trading 212 recorded since `cursor`: filled orders, dividends and cash
+ * movements as ledger entries, plus the current positions to reconcile against. A feed read to
+ * its end moves its cursor to its newest entry; one cut short keeps the old cursor, so the next
+ * sync reads that stretch again (entries already imported are skipped by their content hash).
+ */
+export const syncTrading212 = async (transport: Trading212Transport, cursor: BrokerSyncCursor = {}): Promise<Trading212Sync> => {
+    const account = await get(transport, '/api/v0/equity/account/info');
+    const accountCurrency: string | undefined = account?.currencyCode || undefined;
+    const positions: Trading212Position[] = (await get(transport, '/api/v0/equity/portfolio')) || [];
+
+    const orders = await readHistory<Trading212Order>(transport, `/api/v0/equity/history/orders?limit=${PAGE_LIMIT}`, orderTime, cursor.orders);
+    const dividends = await readHistory<Trading212Dividend>(transport, `/api/v0/history/dividends?limit=${PAGE_LIMIT}`, d => d.paidOn, cursor.dividends);
+    const cash = await readHistory<Trading212CashTransaction>(transport, `/api/v0/history/transactions?limit=${PAGE_LIMIT}`, t => t.dateTime, cursor.transactions);
+
+    return {
+        transactions: [
+            ...ordersToLedger(orders.items, accountCurrency),
+            ...dividendsToLedger(dividends.items, accountCurrency),
+            ...cashToLedger(cash.items, accountCurrency)
+        ],
+        positions,
+        accountCurrency,
+        cursor: {
+            orders: orders.complete ? newest(orders.items, orderTime, cursor.orders) : cursor.orders,
+            dividends: dividends.complete ? newest(dividends.items, d => d.paidOn, cursor.dividends) : cursor.dividends,
+            transactions: cash.complete ? newest(cash.items, t => t.dateTime, cursor.transactions) : cursor.transactions
+        },
+        complete: orders.complete && dividends.complete && cash.complete
+    };
+};
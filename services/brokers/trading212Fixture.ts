@@ -0,0 +1,70 @@
+import { Trading212Response, Trading212Transport } from './trading212';
+
+/**
+ * Recorded Trading 212 responses for a small USD account, keyed by request path. The orders
+ * history spans two pages, one order was cancelled unfilled, and the VUSA position was transferred
+ * in, so it has no order behind it and only reconciliation accounts for it.
+ */
+export const TRADING212_FIXTURE: Record<string, Trading212Response> = {
+    '/api/v0/equity/account/info': {
+        status: 200,
+        body: { id: 20417731, currencyCode: 'USD' }
+    },
+    '/api/v0/equity/portfolio': {
+        status: 200,
+        body: [
+            { ticker: 'IIPR_US_EQ', quantity: 155, averagePrice: 55.0, currentPrice: 98.2 },
+            { ticker: 'CVX_US_EQ', quantity: 10, averagePrice: 148.5, currentPrice: 152.0 },
+            { ticker: 'ABBV_US_EQ', quantity: 25, averagePrice: 160.0, currentPrice: 172.4 },
+            { ticker: 'VUSAl_EQ', quantity: 50, averagePrice: 62.2, currentPrice: 64.1 }
+        ]
+    },
+    '/api/v0/equity/history/orders?limit=50': {
+        status: 200,
+        body: {
+            items: [
+                { id: 90005, ticker: 'ABBV_US_EQ', type: 'MARKET', status: 'FILLED', filledQuantity: 25, fillPrice: 160.0, dateCreated: '2024-03-04T14:35:09.000Z', dateExecuted: '2024-03-04T14:35:10.000Z', taxes: [] },
+                { id: 90004, ticker: 'CVX_US_EQ', type: 'MARKET', status: 'FILLED', filledQuantity: -5, fillPrice: 150.2, dateCreated: '2024-02-20T15:02:43.000Z', dateExecuted: '2024-02-20T15:02:44.000Z', taxes: [] },
+                { id: 90003, ticker: 'IIPR_US_EQ', type: 'LIMIT', status: 'CANCELLED', filledQuantity: 0, dateCreated: '2024-02-01T10:00:00.000Z', dateModified: '2024-02-02T21:00:00.000Z' }
+            ],
+            nextPagePath: '/api/v0/equity/history/orders?limit=50&cursor=1706781600000'
+        }
+    },
+    '/api/v0/equity/history/orders?limit=50&cursor=1706781600000': {
+        status: 200,
+        body: {
+            items: [
+                { id: 90002, ticker: 'CVX_US_EQ', type: 'MARKET', status: 'FILLED', filledQuantity: 15, fillPrice: 148.5, dateCreated: '2024-01-10T14:31:04.000Z', dateExecuted: '2024-01-10T14:31:05.000Z', taxes: [{ name: 'CURRENCY_CONVERSION_FEE', quantity: -1.11 }] },
+                { id: 90001, ticker: 'IIPR_US_EQ', type: 'MARKET', status: 'FILLED', filledQuantity: 155, fillPrice: 55.0, dateCreated: '2024-01-03T14:44:58.000Z', dateExecuted: '2024-01-03T14:45:00.000Z', taxes: [] }
+            ],
+            nextPagePath: null
+        }
+    },
+    '/api/v0/history/dividends?limit=50': {
+        status: 200,
+        body: {
+            items: [
+                { ticker: 'CVX_US_EQ', reference: 'DIV-CVX-20240311', quantity: 10, amount: 13.86, paidOn: '2024-03-11T08:00:00.000Z' },
+                { ticker: 'IIPR_US_EQ', reference: 'DIV-IIPR-20240112', quantity: 155, amount: 237.15, paidOn: '2024-01-12T08:00:00.000Z' }
+            ],
+            nextPagePath: null
+        }
+    },
+    '/api/v0/history/transactions?limit=50': {
+        status: 200,
+        body: {
+            items: [
+                { type: 'DEPOSIT', amount: 5000, reference: 'DEP-20240301', dateTime: '2024-03-01T09:12:00.000Z' },
+                { type: 'DEPOSIT', amount: 20000, reference: 'DEP-20240102', dateTime: '2024-01-02T09:00:00.000Z' }
+            ],
+            nextPagePath: null
+        }
+    }
+};
+
+/**
+ * Answers requests from recorded responses instead of the network, for offline tests: hand it to
+ * `PortfolioProvider` as `brokerTransport`. Paths that were not recorded answer 404.
+ */
+export const fixtureTransport = (fixture: Record<string, Trading212Response> = TRADING212_FIXTURE): Trading212Transport =>
+    async (path) => fixture[path] || { status: 404, body: null };
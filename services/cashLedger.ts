@@ -0,0 +1,204 @@
+import { CashTransactionType, Portfolio, Transaction } from '../types';
+import { toMajorUnits } from './fx';
+
+// Balance per currency code
+export type CashAccounts = Record<string, number>;
+
+export const CASH_TRANSACTION_TYPES: { id: CashTransactionType; label: string; description: string }[] = [
+    { id: 'DEPOSIT', label: 'Deposit', description: 'Money paid into the account.' },
+    { id: 'WITHDRAWAL', label: 'Withdrawal', description: 'Money taken out of the account.' },
+    { id: 'DIVIDEND', label: 'Dividend', description: 'Gross dividend from a holding. Record any tax deducted at source separately.' },
+    { id: 'TAX_WITHHELD', label: 'Tax Withheld', description: 'Tax deducted at source from a dividend.' },
+    { id: 'INTEREST', label: 'Interest', description: 'Interest earned on uninvested cash.' },
+    { id: 'FEE', label: 'Fee', description: 'Account, FX or transaction charges not included in a trade price.' },
+    { id: 'FX_CONVERSION', label: 'FX Conversion', description: 'Cash exchanged between currencies. Does not change the account value.' }
+];
+
+const CASH_TYPES = new Set<string>(CASH_TRANSACTION_TYPES.map(t => t.id));
+
+export const isCashTransaction = (tx: Transaction): boolean => CASH_TYPES.has(tx.type);
+
+export const isTradeTransaction = (tx: Transaction): boolean => !isCashTransaction(tx);
+
+export const cashTransactionLabel = (type: string): string =>
+    CASH_TRANSACTION_TYPES.find(t => t.id === type)?.label || type;
+
+const amountOf = (tx: Transaction) => Math.abs(tx.totalValue || tx.shares * tx.price || 0);
+
+/**
+ * A ledger tracks cash once it records money going in or out. Before that, trades are assumed
+ * to be paid for from outside the account and the cash balance is left to the user.
+ */
+export const tracksCash = (transactions: Transaction[]): boolean =>
+    transactions.some(t => t.type === 'DEPOSIT' || t.type === 'WITHDRAWAL');
+
+// Signed change to the account's cash balance from one ledger entry
+export const cashImpact = (tx: Transaction, tracked: boolean): number => {
+    switch (tx.type) {
+        case 'DEPOSIT':
+        case 'DIVIDEND':
+        case 'INTEREST':
+            return amountOf(tx);
+        case 'WITHDRAWAL':
+        case 'FEE':
+        case 'TAX_WITHHELD':
+            return -amountOf(tx);
+        case 'BUY':
+            return tracked ? -amountOf(tx) : 0;
+        case 'SELL':
+            return tracked ? amountOf(tx) : 0;
+        default:
+            return 0; // ADJUST moves shares only; FX_CONVERSION stays inside the account
+    }
+};
+
+/** Adds up account balances by currency, dropping accounts that come to zero. */
+export const addCash = (...accounts: CashAccounts[]): CashAccounts => {
+    const total: CashAccounts = {};
+    accounts.forEach(a => Object.entries(a).forEach(([currency, amount]) => {
+        total[currency] = (total[currency] || 0) + amount;
+    }));
+    Object.keys(total).forEach(currency => {
+        if (Math.abs(total[currency]) < 0.000001) delete total[currency];
+    });
+    return total;
+};
+
+// Portfolios saved before cash was split by currency hold a single USD balance
+export const cashAccounts = (portfolio: Pick<Portfolio, 'cashBalance' | 'cashBalances'>): CashAccounts =>
+    portfolio.cashBalances ? addCash(portfolio.cashBalances) : addCash({ USD: portfolio.cashBalance || 0 });
+
+/**
+ * Change to each currency account from one ledger entry. Everything else settles in the entry's
+ * own currency; an FX conversion moves cash from `currency` to `toCurrency` at `fxRate`.
+ */
+export const cashMovements = (tx: Transaction, tracked: boolean): CashAccounts => {
+    if (tx.type === 'FX_CONVERSION') {
+        if (!tx.toCurrency || !tx.fxRate) return {};
+        const sold = toMajorUnits(amountOf(tx), tx.currency);
+        const bought = toMajorUnits(amountOf(tx) * tx.fxRate, tx.toCurrency);
+        return addCash({ [sold.currency]: -sold.amount }, { [bought.currency]: bought.amount });
+    }
+    const { currency, amount } = toMajorUnits(cashImpact(tx, tracked), tx.currency);
+    return addCash({ [currency]: amount });
+};
+
+// Income net of fees and withholding; this is return on the portfolio, never a contribution
+export const incomeOf = (tx: Transaction): number => {
+    switch (tx.type) {
+        case 'DIVIDEND':
+        case 'INTEREST':
+            return amountOf(tx);
+        case 'FEE':
+        case 'TAX_WITHHELD':
+            return -amountOf(tx);
+        default:
+            return 0;
+    }
+};
+
+/**
+ * Investor-perspective signed flow: + money put in, - money taken out. With cash tracked only
+ * deposits and withdrawals cross the account boundary; otherwise each trade is funded from
+ * outside, and income is treated as paid straight out to the investor.
+ */
+export const externalFlow = (tx: Transaction, tracked: boolean): number => {
+    if (tracked) {
+        if (tx.type === 'DEPOSIT') return amountOf(tx);
+        if (tx.type === 'WITHDRAWAL') return -amountOf(tx);
+        return 0;
+    }
+    if (tx.type === 'BUY') return amountOf(tx);
+    if (tx.type === 'SELL') return -amountOf(tx);
+    return -incomeOf(tx);
+};
+
+export interface IncomeMonth {
+    month: string; // YYYY-MM
+    dividends: number;
+    interest: number;
+    withheld: number;
+    fees: number;
+    net: number;
+}
+
+export interface IncomeBySymbol {
+    symbol: string;
+    gross: number;
+    withheld: number;
+    net: number;
+    payments: number;
+    lastPaid: string;
+}
+
+export interface ReceivedIncome {
+    months: IncomeMonth[]; // Ascending, only months with activity
+    bySymbol: IncomeBySymbol[]; // Largest net first
+    payments: Transaction[]; // DIVIDEND and INTEREST entries, newest first
+    totalGross: number;
+    totalWithheld: number;
+    totalNet: number;
+    trailing12Net: number;
+    ytdNet: number;
+}
+
+/**
+ * Summarises the income actually received, as recorded in the ledger. Fees count against
+ * the month they were charged but are not attributed to a symbol.
+ */
+export const summarizeIncome = (transactions: Transaction[], asOf: string = new Date().toISOString().split('T')[0]): ReceivedIncome => {
+    const entries = transactions.filter(t => t.date && incomeOf(t) !== 0);
+    const months = new Map<string, IncomeMonth>();
+    const symbols = new Map<string, IncomeBySymbol>();
+
+    const trailingStart = `${parseInt(asOf.slice(0, 4), 10) - 1}${asOf.slice(4, 10)}`;
+    const yearStart = `${asOf.slice(0, 4)}-01-01`;
+    let totalGross = 0;
+    let totalWithheld = 0;
+    let trailing12Net = 0;
+    let ytdNet = 0;
+
+    entries.forEach(tx => {
+        const date = tx.date.split('T')[0];
+        const amount = amountOf(tx);
+        const key = date.slice(0, 7);
+        const month = months.get(key) || { month: key, dividends: 0, interest: 0, withheld: 0, fees: 0, net: 0 };
+        if (tx.type === 'DIVIDEND') month.dividends += amount;
+        if (tx.type === 'INTEREST') month.interest += amount;
+        if (tx.type === 'TAX_WITHHELD') month.withheld += amount;
+        if (tx.type === 'FEE') month.fees += amount;
+        month.net += incomeOf(tx);
+        months.set(key, month);
+
+        if (tx.type === 'DIVIDEND' || tx.type === 'INTEREST') totalGross += amount;
+        if (tx.type === 'TAX_WITHHELD') totalWithheld += amount;
+        if (date > trailingStart && date <= asOf) trailing12Net += incomeOf(tx);
+        if (date >= yearStart && date <= asOf) ytdNet += incomeOf(tx);
+
+        const symbol = tx.symbol.toUpperCase();
+        if (!symbol || tx.type === 'FEE') return;
+        const row = symbols.get(symbol) || { symbol, gross: 0, withheld: 0, net: 0, payments: 0, lastPaid: date };
+        if (tx.type === 'TAX_WITHHELD') {
+            row.withheld += amount;
+        } else {
+            row.gross += amount;
+            row.payments += 1;
+            if (date > row.lastPaid) row.lastPaid = date;
+        }
+        row.net = row.gross - row.withheld;
+        symbols.set(symbol, row);
+    });
+
+    return {
+        months: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+        bySymbol: Array.from(symbols.values()).sort((a, b) => b.net - a.net),
+        payments: entries
+            .filter(t => t.type === 'DIVIDEND' || t.type === 'INTEREST')
+            .sort((a, b) => b.date.localeCompare(a.date)),
+        totalGross,
+        totalWithheld,
+        totalNet: totalGross - totalWithheld - entries.filter(t => t.type === 'FEE').reduce((sum, t) => sum + amountOf(t), 0),
+        trailing12Net,
+        ytdNet
+    };
+};
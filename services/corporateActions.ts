@@ -0,0 +1,245 @@
+import { CorporateAction, CorporateActionType, Holding, Transaction } from '../types';
+import { isTradeTransaction } from './cashLedger';
+import { getSplitsFromProviders } from './providers/registry';
+import { ProviderConfig } from './providers/types';
+
+export const CORPORATE_ACTION_TYPES: { id: CorporateActionType; label: string; description: string }[] = [
+    { id: 'SPLIT', label: 'Split', description: 'Share count changes by a ratio; total cost basis is unchanged. Use a ratio below 1 for reverse splits.' },
+    { id: 'SYMBOL_CHANGE', label: 'Ticker Change', description: 'The position continues under a new symbol.' },
+    { id: 'MERGER', label: 'Merger', description: 'Shares are exchanged for shares of the acquirer, cash, or both.' },
+    { id: 'SPIN_OFF', label: 'Spin-off', description: 'Holders receive shares of a new company and part of the cost basis moves to them.' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+
+const dayOf = (date: string) => date.split('T')[0];
+const addDays = (iso: string, days: number) => new Date(new Date(`${dayOf(iso)}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+export const sortCorporateActions = (actions: CorporateAction[] = []): CorporateAction[] =>
+    [...actions].sort((a, b) => dayOf(a.date).localeCompare(dayOf(b.date)));
+
+// Share of a merger's original basis that stays with the stock received; the rest goes with the cash.
+// Without an allocation, a part-cash merger keeps the whole basis on the stock and the cash is all gain.
+export const mergerStockAllocation = (action: CorporateAction): number => {
+    if (!((action.ratio || 0) > 0)) return 0;
+    if (!((action.cashPerShare || 0) > 0)) return 1;
+    return clamp01(action.costBasisAllocation ?? 1);
+};
+
+export const spinOffAllocation = (action: CorporateAction): number => clamp01(action.costBasisAllocation ?? 0);
+
+const formatRatio = (ratio: number) => (ratio >= 1 ? `${parseFloat(ratio.toFixed(4))}-for-1` : `1-for-${parseFloat((1 / ratio).toFixed(4))}`);
+
+export const describeCorporateAction = (action: CorporateAction): string => {
+    const ratio = action.ratio || 0;
+    switch (action.type) {
+        case 'SPLIT':
+            return `${formatRatio(ratio)} ${ratio < 1 ? 'reverse split' : 'split'}`;
+        case 'SYMBOL_CHANGE':
+            return `Renamed to ${action.newSymbol}`;
+        case 'MERGER': {
+            const parts: string[] = [];
+            if (ratio > 0) parts.push(`${parseFloat(ratio.toFixed(6))} ${action.newSymbol} per share`);
+            if ((action.cashPerShare || 0) > 0) parts.push(`$${action.cashPerShare} cash per share`);
+            return ratio > 0 ? `Merged into ${action.newSymbol}: ${parts.join(' + ')}` : `Cash takeover: ${parts.join(' + ')}`;
+        }
+        case 'SPIN_OFF':
+            return `Spun off ${parseFloat(ratio.toFixed(6))} ${action.newSymbol} per share (${Math.round(spinOffAllocation(action) * 100)}% of basis)`;
+    }
+};
+
+/**
+ * Symbol and share multiplier that a position held at the close of `heldOn` ends up as
+ * once every later split, ticker change and stock merger has been applied.
+ */
+export const restatePosition = (symbol: string, heldOn: string, actions: CorporateAction[]): { symbol: string; factor: number } => {
+    let current = symbol.toUpperCase();
+    let factor = 1;
+    sortCorporateActions(actions).forEach(action => {
+        if (dayOf(action.date) <= dayOf(heldOn) || action.symbol.toUpperCase() !== current) return;
+        const ratio = action.ratio || 0;
+        if (action.type === 'SPLIT' && ratio > 0) {
+            factor *= ratio;
+        } else if (action.type === 'SYMBOL_CHANGE' && action.newSymbol) {
+            current = action.newSymbol.toUpperCase();
+        } else if (action.type === 'MERGER' && ratio > 0 && action.newSymbol) {
+            // Part-cash mergers book the cash leg as a sale of the allocated share fraction (see
+            // restateTransactions), so the surviving shares are scaled up to the full stock consideration
+            const kept = (action.cashPerShare || 0) > 0 ? mergerStockAllocation(action) : 1;
+            factor *= ratio / (kept > EPSILON ? kept : 1);
+            current = action.newSymbol.toUpperCase();
+        }
+    });
+    return { symbol: current, factor };
+};
+
+const signedShares = (tx: Transaction) => (tx.type === 'SELL' ? -tx.shares : tx.shares);
+
+const scaleTransaction = (tx: Transaction, symbol: string, factor: number): Transaction => {
+    if (factor === 1 && symbol === tx.symbol.toUpperCase()) return tx;
+    return {
+        ...tx,
+        symbol,
+        shares: tx.shares * factor,
+        price: tx.price / factor,
+        lotSelections: tx.lotSelections?.map(sel => ({ ...sel, shares: sel.shares * factor }))
+    };
+};
+
+/**
+ * Rewrites the trades in today's terms (cash entries are dropped): earlier trades move to the current symbol and share
+ * count (total values are untouched), and the cash leg of each merger becomes a SELL on its
+ * effective date. Spin-offs move cost basis rather than shares and are left to the caller.
+ */
+export const restateTransactions = (transactions: Transaction[], actions: CorporateAction[] = []): Transaction[] => {
+    const ledger = transactions.filter(t => t.date && isTradeTransaction(t));
+    if (actions.length === 0) return ledger;
+
+    const sorted = sortCorporateActions(actions);
+    const cashLegs: Transaction[] = [];
+
+    sorted.forEach(action => {
+        const cash = action.cashPerShare || 0;
+        if (action.type !== 'MERGER' || !(cash > 0)) return;
+
+        const date = dayOf(action.date);
+        const earlier = sorted.filter(a => dayOf(a.date) < date);
+        const symbol = action.symbol.toUpperCase();
+        const held = [...ledger, ...cashLegs]
+            .filter(t => dayOf(t.date) < date)
+            .reduce((sum, t) => {
+                const position = restatePosition(t.symbol, t.date, earlier);
+                return position.symbol === symbol ? sum + signedShares(t) * position.factor : sum;
+            }, 0);
+
+        const soldFraction = 1 - mergerStockAllocation(action);
+        if (held <= EPSILON || soldFraction <= EPSILON) return;
+        cashLegs.push({
+            id: `${action.id}:cash`,
+            date,
+            type: 'SELL',
+            symbol,
+            shares: held * soldFraction,
+            price: cash / soldFraction,
+            totalValue: held * cash
+        });
+    });
+
+    return [
+        ...ledger.map(t => {
+            const position = restatePosition(t.symbol, t.date, sorted);
+            return scaleTransaction(t, position.symbol, position.factor);
+        }),
+        // A cash leg disposes of the shares as they stood the day before the merger
+        ...cashLegs.map(t => {
+            const position = restatePosition(t.symbol, addDays(t.date, -1), sorted);
+            return scaleTransaction(t, position.symbol, position.factor);
+        })
+    ];
+};
+
+/**
+ * Applies one corporate action to the stored holdings. Quotes for renamed or new symbols are
+ * estimated from the old price until the next refresh. `newHolding` supplies the catalogue
+ * fields (name, sector, ...) for a symbol that is not held yet.
+ */
+export const restateHoldings = (
+    holdings: Holding[],
+    action: CorporateAction,
+    newHolding: (symbol: string) => Holding
+): Holding[] => {
+    const symbol = action.symbol.toUpperCase();
+    const source = holdings.find(h => h.symbol.toUpperCase() === symbol);
+    if (!source) return holdings;
+
+    const ratio = action.ratio || 0;
+    const target = action.newSymbol?.toUpperCase();
+    const others = holdings.filter(h => h !== source);
+
+    // Folds shares into an existing position in the target symbol, or opens one
+    const addTo = (list: Holding[], shares: number, costBasis: number, price: number, name?: string): Holding[] => {
+        if (!target || shares <= EPSILON) return list;
+        const existing = list.find(h => h.symbol.toUpperCase() === target);
+        if (existing) {
+            const totalShares = existing.shares + shares;
+            return list.map(h => h === existing ? { ...h, shares: totalShares, avgPrice: (existing.shares * existing.avgPrice + costBasis) / totalShares } : h);
+        }
+        const base = newHolding(target);
+        return [...list, {
+            ...base,
+            symbol: target,
+            name: name || base.name,
+            shares,
+            avgPrice: costBasis / shares,
+            currentPrice: base.currentPrice > 0 ? base.currentPrice : price,
+            priceStatus: 'placeholder'
+        }];
+    };
+
+    const basis = source.shares * source.avgPrice;
+
+    switch (action.type) {
+        case 'SPLIT':
+            if (!(ratio > 0)) return holdings;
+            return holdings.map(h => h === source ? { ...h, shares: h.shares * ratio, avgPrice: h.avgPrice / ratio, currentPrice: h.currentPrice / ratio } : h);
+        case 'SYMBOL_CHANGE':
+            if (!target) return holdings;
+            if (!others.some(h => h.symbol.toUpperCase() === target)) {
+                return holdings.map(h => h === source ? { ...h, symbol: target, name: action.newName || h.name } : h);
+            }
+            return addTo(others, source.shares, basis, source.currentPrice);
+        case 'MERGER': {
+            const cash = action.cashPerShare || 0;
+            const estimatedPrice = ratio > 0 ? Math.max(0, source.currentPrice - cash) / ratio : 0;
+            return addTo(others, source.shares * ratio, basis * mergerStockAllocation(action), estimatedPrice, action.newName);
+        }
+        case 'SPIN_OFF': {
+            if (!(ratio > 0) || !target) return holdings;
+            const allocation = spinOffAllocation(action);
+            const parent = { ...source, avgPrice: source.avgPrice * (1 - allocation), currentPrice: source.currentPrice * (1 - allocation) };
+            const list = holdings.map(h => h === source ? parent : h);
+            return addTo(list, source.shares * ratio, basis * allocation, (source.currentPrice * allocation) / ratio, action.newName);
+        }
+    }
+};
+
+/**
+ * Splits reported by the market data providers since each stock was first traded in the
+ * ledger, minus the ones already recorded. The results are suggestions for the user to confirm.
+ */
+export const findProviderSplits = async (
+    transactions: Transaction[],
+    recorded: CorporateAction[],
+    providers: ProviderConfig[],
+    cryptoSymbols: Set<string> = new Set()
+): Promise<CorporateAction[]> => {
+    const today = new Date().toISOString().split('T')[0];
+    const firstTrade = new Map<string, string>();
+    transactions.forEach(t => {
+        if (!t.date || !isTradeTransaction(t)) return;
+        const symbol = t.symbol.toUpperCase();
+        const date = dayOf(t.date);
+        if (cryptoSymbols.has(symbol)) return;
+        if (!firstTrade.has(symbol) || date < (firstTrade.get(symbol) as string)) firstTrade.set(symbol, date);
+    });
+
+    const known = new Set(recorded.filter(a => a.type === 'SPLIT').map(a => `${a.symbol.toUpperCase()}|${dayOf(a.date)}`));
+    const found: CorporateAction[] = [];
+
+    await Promise.all(Array.from(firstTrade.entries()).map(async ([symbol, from]) => {
+        try {
+            const splits = await getSplitsFromProviders(symbol, from, today, providers);
+            splits.forEach(split => {
+                // A split on the first trade day is already reflected in that trade's share count
+                if (split.date <= from || !(split.ratio > 0) || known.has(`${symbol}|${split.date}`)) return;
+                found.push({ id: `ca-${symbol}-${split.date}`, type: 'SPLIT', symbol, date: split.date, ratio: split.ratio, source: 'provider' });
+            });
+        } catch (e) {
+            console.warn(`Split lookup failed for ${symbol}`, e);
+        }
+    }));
+
+    return sortCorporateActions(found);
+};
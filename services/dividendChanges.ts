@@ -0,0 +1,182 @@
+import { Dividend, DividendFrequency, Notification } from '../types';
+import { DividendSchedule } from './dividendSchedule';
+import { currencySymbol } from './fx';
+
+export type DividendChangeType = 'raise' | 'cut' | 'suspension' | 'special';
+
+export interface DividendChange {
+    id: string;
+    symbol: string;
+    type: DividendChangeType;
+    exDate: string; // For a suspension, the ex-date the missed payment was expected on
+    amount: number; // Per share on today's share basis; 0 for a suspension
+    previousAmount: number;
+    changePct: number;
+    currency?: string; // Of the amounts; USD when unset
+}
+
+export interface DividendGrowth {
+    symbol: string;
+    streakYears: number; // Consecutive completed calendar years with a higher regular total than the year before
+    cagr: Record<1 | 3 | 5 | 10, number | null>; // Growth of the trailing-12-month regular dividend, % per year
+    annual: { year: number; total: number }[];
+    lastChange?: DividendChange;
+}
+
+export const GROWTH_WINDOWS: (1 | 3 | 5 | 10)[] = [1, 3, 5, 10];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Amounts within this band are the same dividend (rounding, provider noise)
+const UNCHANGED_TOLERANCE = 0.005;
+const SPECIAL_MULTIPLE = 2;
+
+const FREQUENCY_DAYS: Record<DividendFrequency, number> = { Monthly: 31, Quarterly: 92, 'Semi-Annually': 183, Annually: 366 };
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const addDays = (iso: string, days: number) => toISODate(new Date(new Date(`${iso}T00:00:00Z`).getTime() + days * DAY_MS));
+
+const median = (values: number[]) => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Shares per share held before `exDate`, from the splits since
+const splitFactor = (schedule: DividendSchedule, exDate: string) =>
+    (schedule.splits || []).filter(s => s.ratio > 0 && s.date > exDate).reduce((factor, s) => factor * s.ratio, 1);
+
+// Paid and declared payments only; projections are our own guess and never count as a change.
+// Amounts are restated on today's share basis so a split does not read as a cut or a raise.
+const reported = (schedule: DividendSchedule): Dividend[] =>
+    schedule.dividends
+        .filter(d => d.status !== 'projected')
+        .map(d => ({ ...d, amount: d.amount / splitFactor(schedule, d.exDate) }))
+        .sort((a, b) => a.exDate.localeCompare(b.exDate));
+
+const changeId = (symbol: string, type: DividendChangeType, exDate: string) => `div-${symbol}-${type}-${exDate}`;
+
+/**
+ * Classifies each declared dividend against the previous regular one. Semi-annual payers are
+ * compared with the same payment a year earlier, since interim and final dividends usually differ.
+ * A payment more than twice the recent typical amount is a special and does not move the baseline.
+ * A payer that has gone two periods past its last ex-date is flagged as suspended.
+ */
+export const detectDividendChanges = (schedule: DividendSchedule, asOf: string = toISODate(new Date())): DividendChange[] => {
+    const { symbol, frequency, currency } = schedule;
+    const dividends = reported(schedule);
+    const lookback = frequency === 'Semi-Annually' ? 2 : 1;
+    const regular: Dividend[] = [];
+    const changes: DividendChange[] = [];
+
+    dividends.forEach(d => {
+        const typical = median(regular.slice(-4).map(r => r.amount));
+        if (regular.length >= 2 && d.amount > typical * SPECIAL_MULTIPLE) {
+            changes.push({ id: changeId(symbol, 'special', d.exDate), symbol, type: 'special', exDate: d.exDate, amount: d.amount, previousAmount: typical, changePct: 0, currency });
+            return;
+        }
+        const previous = regular.length >= lookback ? regular[regular.length - lookback] : undefined;
+        regular.push(d);
+        if (!previous || previous.amount <= 0) return;
+
+        const changePct = (d.amount / previous.amount - 1) * 100;
+        if (Math.abs(changePct) / 100 <= UNCHANGED_TOLERANCE) return;
+        const type: DividendChangeType = changePct > 0 ? 'raise' : 'cut';
+        changes.push({ id: changeId(symbol, type, d.exDate), symbol, type, exDate: d.exDate, amount: d.amount, previousAmount: previous.amount, changePct, currency });
+    });
+
+    const last = regular[regular.length - 1];
+    if (last) {
+        const expected = addDays(last.exDate, FREQUENCY_DAYS[frequency]);
+        if (addDays(last.exDate, FREQUENCY_DAYS[frequency] * 2) < asOf) {
+            changes.push({ id: changeId(symbol, 'suspension', expected), symbol, type: 'suspension', exDate: expected, amount: 0, previousAmount: last.amount, changePct: -100, currency });
+        }
+    }
+
+    return changes;
+};
+
+const regularTotal = (dividends: Dividend[], from: string, to: string) =>
+    dividends.filter(d => d.exDate > from && d.exDate <= to).reduce((sum, d) => sum + d.amount, 0);
+
+/** Dividend growth record for one symbol, from its reported (non-special) payments. */
+export const dividendGrowth = (schedule: DividendSchedule, asOf: string = toISODate(new Date())): DividendGrowth => {
+    const changes = detectDividendChanges(schedule, asOf);
+    const specials = new Set(changes.filter(c => c.type === 'special').map(c => c.exDate));
+    const regular = reported(schedule).filter(d => !specials.has(d.exDate) && d.exDate <= asOf);
+
+    const byYear = new Map<number, number>();
+    regular.forEach(d => {
+        const year = parseInt(d.exDate.slice(0, 4), 10);
+        byYear.set(year, (byYear.get(year) || 0) + d.amount);
+    });
+    const annual = Array.from(byYear.entries()).map(([year, total]) => ({ year, total })).sort((a, b) => a.year - b.year);
+
+    // The current year is still in progress, so the streak runs over completed years only
+    const currentYear = parseInt(asOf.slice(0, 4), 10);
+    let streakYears = 0;
+    for (let year = currentYear - 1; ; year--) {
+        const total = byYear.get(year) || 0;
+        const prior = byYear.get(year - 1) || 0;
+        if (!(prior > 0 && total > prior * (1 + UNCHANGED_TOLERANCE))) break;
+        streakYears++;
+    }
+
+    const ttmNow = regularTotal(regular, addDays(asOf, -365), asOf);
+    const cagr = {} as DividendGrowth['cagr'];
+    GROWTH_WINDOWS.forEach(years => {
+        const end = addDays(asOf, -365 * years);
+        // Needs a full trailing year of history at the start of the window
+        const ttmThen = regular.length > 0 && regular[0].exDate <= addDays(end, -365 + FREQUENCY_DAYS[schedule.frequency])
+            ? regularTotal(regular, addDays(end, -365), end)
+            : 0;
+        cagr[years] = ttmNow > 0 && ttmThen > 0 ? (Math.pow(ttmNow / ttmThen, 1 / years) - 1) * 100 : null;
+    });
+
+    const declared = changes.filter(c => c.exDate <= addDays(asOf, 365));
+    return { symbol: schedule.symbol, streakYears, cagr, annual, lastChange: declared[declared.length - 1] };
+};
+
+const formatAmount = (value: number, currency = 'USD') => `${currencySymbol(currency)}${value.toFixed(4).replace(/0{1,2}$/, '')}`;
+
+export const describeDividendChange = (change: DividendChange): string => {
+    switch (change.type) {
+        case 'raise':
+            return `${change.symbol} raised its dividend ${change.changePct.toFixed(1)}% to ${formatAmount(change.amount, change.currency)} per share (ex-date ${change.exDate}).`;
+        case 'cut':
+            return `${change.symbol} cut its dividend ${Math.abs(change.changePct).toFixed(1)}% to ${formatAmount(change.amount, change.currency)} per share (ex-date ${change.exDate}).`;
+        case 'special':
+            return `${change.symbol} declared a special dividend of ${formatAmount(change.amount, change.currency)} per share (ex-date ${change.exDate}).`;
+        case 'suspension':
+            return `${change.symbol} has not declared a dividend since its ${formatAmount(change.previousAmount, change.currency)} payment; the next one was expected around ${change.exDate}.`;
+    }
+};
+
+const NOTIFICATION_TYPES: Record<DividendChangeType, Notification['type']> = { raise: 'success', cut: 'warning', suspension: 'danger', special: 'info' };
+const NOTIFICATION_TITLES: Record<DividendChangeType, string> = { raise: 'Dividend Raise', cut: 'Dividend Cut', suspension: 'Dividend Suspended', special: 'Special Dividend' };
+
+/**
+ * Notifications for changes that are recent (ex-date within `recentDays`, or still upcoming)
+ * and not in `seen`. A suspension only shows up two periods after the last payment, so it is
+ * announced whenever it is first seen. The caller records the returned ids so each change is
+ * announced once.
+ */
+export const dividendChangeNotifications = (
+    changes: DividendChange[],
+    seen: Set<string>,
+    now: number = Date.now(),
+    recentDays: number = 60
+): Notification[] => {
+    const since = toISODate(new Date(now - recentDays * DAY_MS));
+    const timestamp = new Date(now).toISOString();
+    return changes
+        .filter(c => (c.type === 'suspension' || c.exDate >= since) && !seen.has(c.id))
+        .map(c => ({
+            id: c.id,
+            type: NOTIFICATION_TYPES[c.type],
+            title: `${c.symbol} ${NOTIFICATION_TITLES[c.type]}`,
+            message: describeDividendChange(c),
+            timestamp,
+            read: false
+        }));
+};
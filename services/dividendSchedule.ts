@@ -0,0 +1,181 @@
+import { AssetType, Dividend, DividendFrequency, Holding, Transaction } from '../types';
+import { getDividendEvents, getSplitEvents } from './priceHistory';
+import { ProviderConfig, ProviderDividend, ProviderSplit } from './providers/types';
+
+export interface DividendSchedule {
+    symbol: string;
+    frequency: DividendFrequency;
+    source: 'provider' | 'ledger'; // Ledger schedules are built from received DIVIDEND transactions
+    dividends: Dividend[]; // Ascending by pay date: paid, then declared, then projected
+    currency?: string; // Listing currency of the amounts; USD when unset
+    splits?: ProviderSplit[]; // Splits over the history; amounts before one are on the old share basis
+}
+
+// A schedulable payment joined with the position that receives it
+export interface ScheduledPayment {
+    holding: Holding;
+    dividend: Dividend;
+    income: number; // Per-share amount x shares currently held
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_YEARS = 11; // Enough for a 10-year dividend growth rate
+const HORIZON_DAYS = 365;
+const DEFAULT_PAY_LAG_DAYS = 14;
+
+const FREQUENCY_MONTHS: Record<DividendFrequency, number> = { Monthly: 1, Quarterly: 3, 'Semi-Annually': 6, Annually: 12 };
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const dayOf = (date: string) => date.split('T')[0];
+const parseDate = (iso: string) => new Date(`${dayOf(iso)}T00:00:00Z`);
+const addDays = (iso: string, days: number) => toISODate(new Date(parseDate(iso).getTime() + days * DAY_MS));
+const daysBetween = (from: string, to: string) => Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS);
+
+// Keeps the day of month where possible (Jan 31 + 1 month = Feb 28/29)
+const addMonths = (iso: string, months: number) => {
+    const d = parseDate(iso);
+    const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(d.getUTCDate(), lastDay));
+    return toISODate(target);
+};
+
+const median = (values: number[]) => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/** Payment frequency from the typical gap between recent ex-dates. A single payment is taken as annual. */
+export const inferFrequency = (exDates: string[]): DividendFrequency | null => {
+    const dates = Array.from(new Set(exDates.map(dayOf))).sort();
+    if (dates.length === 0) return null;
+    if (dates.length === 1) return 'Annually';
+    const recent = dates.slice(-7);
+    const gap = median(recent.slice(1).map((d, i) => daysBetween(recent[i], d)));
+    if (gap <= 45) return 'Monthly';
+    if (gap <= 135) return 'Quarterly';
+    if (gap <= 270) return 'Semi-Annually';
+    return 'Annually';
+};
+
+// Specials are paid once; anything well above the recent typical amount is kept out of the projection
+const isRegular = (amount: number, typical: number) => typical <= 0 || amount <= typical * 2;
+
+/**
+ * Turns a symbol's dividend history into a schedule: past and declared payments as reported,
+ * then projected payments at the inferred frequency and the last regular amount until `horizonEnd`.
+ * Nothing is projected once the payments have lapsed (no ex-date for two periods).
+ */
+export const buildDividendSchedule = (
+    symbol: string,
+    events: ProviderDividend[],
+    asOf: string,
+    horizonEnd: string = addDays(asOf, HORIZON_DAYS),
+    source: DividendSchedule['source'] = 'provider'
+): DividendSchedule | null => {
+    const byExDate = new Map<string, ProviderDividend>();
+    events
+        .filter(e => e.exDate && e.amount > 0)
+        .forEach(e => { if (!byExDate.has(dayOf(e.exDate))) byExDate.set(dayOf(e.exDate), e); });
+    const history = Array.from(byExDate.values()).sort((a, b) => a.exDate.localeCompare(b.exDate));
+    if (history.length === 0) return null;
+
+    const typical = median(history.slice(-4).map(e => e.amount));
+    const regular = history.filter(e => isRegular(e.amount, typical));
+    const frequency = inferFrequency(regular.map(e => e.exDate)) || 'Annually';
+
+    const lags = history.filter(e => e.payDate).map(e => daysBetween(e.exDate, e.payDate as string)).filter(d => d >= 0);
+    const payLag = lags.length > 0 ? Math.round(median(lags)) : DEFAULT_PAY_LAG_DAYS;
+
+    const dividends: Dividend[] = history.map(e => {
+        const payDate = e.payDate ? dayOf(e.payDate) : addDays(e.exDate, payLag);
+        return {
+            symbol,
+            amount: e.amount,
+            exDate: dayOf(e.exDate),
+            payDate,
+            frequency,
+            status: payDate <= asOf ? 'paid' : 'declared',
+            declaredDate: e.declaredDate
+        };
+    });
+
+    const last = regular[regular.length - 1];
+    const step = FREQUENCY_MONTHS[frequency];
+    const lapsed = daysBetween(dayOf(last.exDate), asOf) > step * 2 * 31;
+    if (!lapsed) {
+        for (let k = 1; ; k++) {
+            const exDate = addMonths(last.exDate, step * k);
+            const payDate = addDays(exDate, payLag);
+            if (payDate > horizonEnd) break;
+            // A projection that falls on or before the last reported ex-date is already covered by it
+            if (exDate <= asOf || exDate <= history[history.length - 1].exDate) continue;
+            dividends.push({ symbol, amount: last.amount, exDate, payDate, frequency, status: 'projected' });
+        }
+    }
+
+    return { symbol, frequency, source, dividends: dividends.sort((a, b) => a.payDate.localeCompare(b.payDate)) };
+};
+
+/**
+ * Dividend history recovered from the DIVIDEND entries in the ledger. Only pay dates are known,
+ * so they double as ex-dates. Entries without a per-share price are spread over `shares`.
+ */
+export const ledgerDividendEvents = (transactions: Transaction[], symbol: string, shares: number): ProviderDividend[] => {
+    const sym = symbol.toUpperCase();
+    const byDate = new Map<string, number>();
+    transactions
+        .filter(t => t.type === 'DIVIDEND' && t.date && t.symbol.toUpperCase() === sym)
+        .forEach(t => {
+            const perShare = t.price > 0 ? t.price : t.shares > 0 ? t.totalValue / t.shares : shares > 0 ? t.totalValue / shares : 0;
+            if (perShare > 0) byDate.set(dayOf(t.date), (byDate.get(dayOf(t.date)) || 0) + perShare);
+        });
+    return Array.from(byDate.entries()).map(([date, amount]) => ({ symbol: sym, amount, exDate: date, payDate: date }));
+};
+
+const isSchedulable = (h: Holding) => h.shares > 0 && h.assetType !== AssetType.CRYPTO && h.assetType !== AssetType.CASH;
+
+/**
+ * Dividend schedules for every held stock and ETF, keyed by symbol. Provider data is preferred;
+ * the portfolio's own dividend history is the fallback. Holdings with neither are left out.
+ */
+export const loadDividendSchedules = async (
+    holdings: Holding[],
+    transactions: Transaction[],
+    providers: ProviderConfig[],
+    asOf: string = toISODate(new Date())
+): Promise<Record<string, DividendSchedule>> => {
+    const from = addDays(asOf, -HISTORY_YEARS * 365);
+    const result: Record<string, DividendSchedule> = {};
+
+    await Promise.all(holdings.filter(isSchedulable).map(async h => {
+        const symbol = h.symbol.toUpperCase();
+        const [reported, splits] = await Promise.all([getDividendEvents(symbol, from, providers), getSplitEvents(symbol, from, providers)]);
+        const schedule = reported.length > 0
+            ? buildDividendSchedule(symbol, reported, asOf)
+            : buildDividendSchedule(symbol, ledgerDividendEvents(transactions, symbol, h.shares), asOf, undefined, 'ledger');
+        if (schedule) result[symbol] = { ...schedule, currency: h.currency, splits };
+    }));
+
+    return result;
+};
+
+// Payments with a pay date in [from, to], valued at today's share counts
+export const scheduledPayments = (
+    schedules: Record<string, DividendSchedule>,
+    holdings: Holding[],
+    from: string,
+    to: string
+): ScheduledPayment[] => {
+    const payments: ScheduledPayment[] = [];
+    holdings.forEach(holding => {
+        const schedule = schedules[holding.symbol.toUpperCase()];
+        if (!schedule) return;
+        schedule.dividends
+            .filter(d => d.payDate >= from && d.payDate <= to)
+            .forEach(dividend => payments.push({ holding, dividend, income: dividend.amount * holding.shares }));
+    });
+    return payments.sort((a, b) => a.dividend.payDate.localeCompare(b.dividend.payDate));
+};
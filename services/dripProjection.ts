@@ -0,0 +1,87 @@
+import { Holding } from '../types';
+import { DividendSchedule } from './dividendSchedule';
+import { dividendGrowth } from './dividendChanges';
+
+// What one holding contributes to the long-term income projection
+export interface DripProfile {
+    holding: Holding;
+    annualDividend: number; // Per share over the next 12 months
+    growthRate: number; // Dividend growth, % per year
+    growthFromHistory: boolean; // False when the default rate stands in for missing history
+    drip: boolean;
+}
+
+export interface DripProjectionYear {
+    year: number;
+    reinvested: number; // Income from DRIP holdings, spent on more shares
+    cash: number; // Income from everything else, paid out
+    total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Short histories can show extreme rates that would dominate a 30-year compounding
+const MAX_GROWTH = 20;
+const MIN_GROWTH = -20;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const addDays = (iso: string, days: number) => toISODate(new Date(new Date(`${iso}T00:00:00Z`).getTime() + days * DAY_MS));
+
+/**
+ * Forward dividend and growth rate for each income-paying holding. The dividend is the sum of
+ * scheduled payments over the next 12 months (or the quoted yield for holdings without a schedule);
+ * growth is the longest measured dividend CAGR, falling back to `defaultGrowth`.
+ */
+export const dripProfiles = (
+    holdings: Holding[],
+    schedules: Record<string, DividendSchedule>,
+    defaultGrowth: number,
+    asOf: string = toISODate(new Date())
+): DripProfile[] => {
+    const horizonEnd = addDays(asOf, 365);
+    return holdings
+        .filter(h => h.shares > 0)
+        .map(holding => {
+            const schedule = schedules[holding.symbol.toUpperCase()];
+            const annualDividend = schedule
+                ? schedule.dividends.filter(d => d.payDate > asOf && d.payDate <= horizonEnd).reduce((sum, d) => sum + d.amount, 0)
+                : (holding.dividendYield / 100) * holding.currentPrice;
+            const cagr = schedule ? dividendGrowth(schedule, asOf).cagr : null;
+            const measured = cagr ? cagr[10] ?? cagr[5] ?? cagr[3] ?? cagr[1] : null;
+            return {
+                holding,
+                annualDividend,
+                growthRate: measured === null ? defaultGrowth : Math.min(MAX_GROWTH, Math.max(MIN_GROWTH, measured)),
+                growthFromHistory: measured !== null,
+                drip: !!holding.drip
+            };
+        })
+        .filter(p => p.annualDividend > 0);
+};
+
+/**
+ * Income by year, compounding shares per holding. Year 1 is the next 12 months. The share price is
+ * assumed to grow with the dividend, so each holding reinvests at its own current yield.
+ */
+export const projectDripIncome = (profiles: DripProfile[], years: number[]): DripProjectionYear[] => {
+    const horizon = Math.max(0, ...years);
+    const byYear = Array.from({ length: horizon }, () => ({ reinvested: 0, cash: 0 }));
+
+    profiles.forEach(p => {
+        const growth = 1 + p.growthRate / 100;
+        let shares = p.holding.shares;
+        for (let y = 0; y < horizon; y++) {
+            const income = shares * p.annualDividend * Math.pow(growth, y);
+            if (p.drip && p.holding.currentPrice > 0) {
+                byYear[y].reinvested += income;
+                shares += income / (p.holding.currentPrice * Math.pow(growth, y));
+            } else {
+                byYear[y].cash += income;
+            }
+        }
+    });
+
+    return years.filter(y => y >= 1).map(year => {
+        const { reinvested, cash } = byYear[year - 1];
+        return { year, reinvested, cash, total: reinvested + cash };
+    });
+};
@@ -0,0 +1,203 @@
+import { Holding, Transaction } from '../types';
+import { getQuoteFromProviders } from './providers/registry';
+import { PricePoint, ProviderConfig } from './providers/types';
+import { getPriceHistory } from './priceHistory';
+
+// USD value of one unit of each currency. Rates that no FX source could supply fall back to the
+// static table in `FALLBACK_USD_RATES`.
+export interface FxRates {
+    latest: Record<string, number>;
+    history: Record<string, PricePoint[]>; // Ascending daily closes, USD per unit
+    asOf?: string; // When the live rates were fetched; unset while only fallback rates are loaded
+}
+
+export interface CurrencyReturn {
+    costBase: number; // What the position cost, converted at the rate on each trade date
+    valueBase: number;
+    priceReturn: number; // Change in the local price, at today's rate
+    currencyReturn: number; // Change in the rate on the local cost
+    totalReturn: number;
+}
+
+export const BASE_CURRENCIES: { code: string; label: string; symbol: string }[] = [
+    { code: 'USD', label: 'US Dollar', symbol: '$' },
+    { code: 'EUR', label: 'Euro', symbol: '€' },
+    { code: 'GBP', label: 'British Pound', symbol: '£' },
+    { code: 'CHF', label: 'Swiss Franc', symbol: 'CHF ' },
+    { code: 'CAD', label: 'Canadian Dollar', symbol: 'C$' },
+    { code: 'AUD', label: 'Australian Dollar', symbol: 'A$' },
+    { code: 'JPY', label: 'Japanese Yen', symbol: '¥' },
+    { code: 'SEK', label: 'Swedish Krona', symbol: 'kr ' },
+    { code: 'NOK', label: 'Norwegian Krone', symbol: 'kr ' },
+    { code: 'DKK', label: 'Danish Krone', symbol: 'kr ' },
+    { code: 'CNY', label: 'Chinese Yuan', symbol: 'CN¥' },
+    { code: 'HKD', label: 'Hong Kong Dollar', symbol: 'HK$' },
+    { code: 'SGD', label: 'Singapore Dollar', symbol: 'S$' }
+];
+
+// Used until live rates load, and for currencies no source covers
+export const FALLBACK_USD_RATES: Record<string, number> = {
+    'USD': 1,
+    'EUR': 1.08,
+    'GBP': 1.26,
+    'JPY': 0.0067,
+    'CAD': 0.73,
+    'AUD': 0.65,
+    'CHF': 1.10,
+    'CNY': 0.14,
+    'SEK': 0.095,
+    'NOK': 0.094,
+    'DKK': 0.145,
+    'HKD': 0.128,
+    'SGD': 0.74
+};
+
+// London quotes many shares in pence
+const SUBUNITS: Record<string, { currency: string; factor: number }> = {
+    GBX: { currency: 'GBP', factor: 0.01 },
+    GBp: { currency: 'GBP', factor: 0.01 },
+    ZAC: { currency: 'ZAR', factor: 0.01 }
+};
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+export const EMPTY_FX_RATES: FxRates = { latest: { ...FALLBACK_USD_RATES }, history: {} };
+
+export const currencySymbol = (currency: string) => BASE_CURRENCIES.find(c => c.code === currency)?.symbol ?? `${currency} `;
+
+/** Amount with the currency's symbol, e.g. €1,234.50 */
+export const formatMoney = (value: number, currency: string, digits = 2) =>
+    `${value < 0 ? '-' : ''}${currencySymbol(currency)}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+
+const normalize = (currency?: string): { code: string; factor: number } => {
+    const raw = (currency || 'USD').trim();
+    const sub = SUBUNITS[raw] || SUBUNITS[raw.toUpperCase()];
+    return sub ? { code: sub.currency, factor: sub.factor } : { code: raw.toUpperCase(), factor: 1 };
+};
+
+// Last close on or before `date`
+const closeOn = (points: PricePoint[], date: string): number | undefined => {
+    let lo = 0;
+    let hi = points.length - 1;
+    let found: PricePoint | undefined;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (points[mid].date <= date) {
+            found = points[mid];
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found?.close;
+};
+
+/** USD per unit of `currency`, on `date` when given (the last rate published by then), otherwise the latest. */
+export const usdPerUnit = (rates: FxRates, currency?: string, date?: string): number => {
+    const { code, factor } = normalize(currency);
+    if (code === 'USD') return factor;
+    const history = rates.history[code];
+    const dated = date && history && history.length > 0 && history[0].date <= date.split('T')[0]
+        ? closeOn(history, date.split('T')[0])
+        : undefined;
+    return (dated ?? rates.latest[code] ?? FALLBACK_USD_RATES[code] ?? 1) * factor;
+};
+
+/** `amount` in the currency's main unit, e.g. 1,250 GBX is 12.50 GBP. */
+export const toMajorUnits = (amount: number, currency?: string): { currency: string; amount: number } => {
+    const { code, factor } = normalize(currency);
+    return { currency: code, amount: amount * factor };
+};
+
+export const convertCurrency = (amount: number, from: string | undefined, to: string, rates: FxRates, date?: string): number => {
+    if (normalize(from).code === to && normalize(from).factor === 1) return amount;
+    return amount * usdPerUnit(rates, from, date) / usdPerUnit(rates, to, date);
+};
+
+/** Transactions with `price` and `totalValue` restated in `base` at the rate of each transaction's date. */
+export const transactionsInBase = (transactions: Transaction[], base: string, rates: FxRates): Transaction[] =>
+    transactions.map(t => (normalize(t.currency).code === base && normalize(t.currency).factor === 1
+        ? t
+        : {
+            ...t,
+            price: convertCurrency(t.price, t.currency, base, rates, t.date),
+            totalValue: convertCurrency(t.totalValue, t.currency, base, rates, t.date),
+            currency: base
+        }));
+
+/** Every currency a portfolio touches, so they can be loaded in one go. */
+export const currenciesInUse = (holdings: Holding[], transactions: Transaction[], extra: (string | undefined)[] = []): string[] => {
+    const codes = new Set<string>();
+    [...holdings.map(h => h.currency), ...transactions.flatMap(t => [t.currency, t.toCurrency]), ...extra]
+        .forEach(c => { if (c) codes.add(normalize(c).code); });
+    codes.delete('USD');
+    return Array.from(codes).sort();
+};
+
+/**
+ * Live and historical rates against USD for `currencies`, from `from` to today. History goes
+ * through the shared price-history cache as the `fx` asset class (e.g. EURUSD), so each day is
+ * only fetched once. Currencies no provider knows keep their fallback rate.
+ */
+export const loadFxRates = async (currencies: string[], from: string, providers: ProviderConfig[]): Promise<FxRates> => {
+    const today = toISODate(new Date());
+    const latest: Record<string, number> = { ...FALLBACK_USD_RATES };
+    const history: Record<string, PricePoint[]> = {};
+
+    await Promise.all(currencies.filter(c => c !== 'USD').map(async currency => {
+        const pair = `${currency}USD`;
+        const [bars, quote] = await Promise.all([
+            getPriceHistory(pair, from, today, providers, { assetClass: 'fx', adjusted: false }),
+            getQuoteFromProviders(pair, 'fx', providers)
+        ]);
+        if (bars.length > 0) history[currency] = bars.map(b => ({ date: b.date, close: b.close }));
+        const live = quote?.price ?? bars[bars.length - 1]?.close;
+        if (live && live > 0) latest[currency] = live;
+    }));
+
+    return { latest, history, asOf: new Date().toISOString() };
+};
+
+/**
+ * Splits a position's gain in the base currency into the part from the local share price and
+ * the part from the exchange rate. Cost is built from the trades at each trade date's rate
+ * (average cost on sells); without trades the holding's average price is taken at today's rate,
+ * so the whole gain shows as price return.
+ */
+export const currencyReturn = (holding: Holding, transactions: Transaction[], rates: FxRates, base: string): CurrencyReturn => {
+    const symbol = holding.symbol.toUpperCase();
+    const currency = holding.currency || 'USD';
+    const trades = transactions
+        .filter(t => (t.type === 'BUY' || t.type === 'SELL') && t.symbol.toUpperCase() === symbol && t.date)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    let shares = 0;
+    let costLocal = 0;
+    let costBase = 0;
+    trades.forEach(t => {
+        if (t.type === 'BUY') {
+            const local = t.shares * t.price;
+            shares += t.shares;
+            costLocal += local;
+            costBase += convertCurrency(local, t.currency || currency, base, rates, t.date);
+        } else if (shares > 0) {
+            const sold = Math.min(t.shares, shares);
+            const remaining = (shares - sold) / shares;
+            shares -= sold;
+            costLocal *= remaining;
+            costBase *= remaining;
+        }
+    });
+
+    // Holdings restated by corporate actions or synced from a broker may not match the ledger
+    if (trades.length === 0 || Math.abs(shares - holding.shares) > 1e-6) {
+        costLocal = holding.shares * holding.avgPrice;
+        costBase = convertCurrency(costLocal, currency, base, rates);
+    }
+
+    const valueLocal = holding.shares * holding.currentPrice;
+    const valueBase = convertCurrency(valueLocal, currency, base, rates);
+    const priceReturn = convertCurrency(valueLocal - costLocal, currency, base, rates);
+    const currencyReturnValue = convertCurrency(costLocal, currency, base, rates) - costBase;
+    return { costBase, valueBase, priceReturn, currencyReturn: currencyReturnValue, totalReturn: valueBase - costBase };
+};
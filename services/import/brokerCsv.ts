@@ -0,0 +1,241 @@
+import { CashTransactionType } from '../../types';
+import { detectDelimiter, normalizeHeaders, parseAmount, parseCsvRows, parseImportDate } from './csv';
+import { detectProfile, genericProfile, listProfiles } from './profiles';
+import { BrokerProfile, ImportAction, ImportField, ImportedTransaction, ImportParseResult, SkippedRow, SymbolRules } from './types';
+
+// Exports with a title block put their header within the first few lines
+const HEADER_SEARCH_ROWS = 30;
+
+/** Upper-case ticker without broker decorations; share classes use a dot (BRK/B and BRK B become BRK.B). */
+export const normalizeSymbol = (raw: string, rules: SymbolRules = {}): string => {
+    let symbol = raw.trim().toUpperCase().replace(/\*/g, '');
+    const suffix = (rules.stripSuffixes || []).find(s => symbol.endsWith(s.toUpperCase()));
+    if (suffix) symbol = symbol.slice(0, -suffix.length);
+    else if (rules.splitOn && symbol.includes(rules.splitOn)) symbol = symbol.split(rules.splitOn)[0];
+    return symbol.replace(/[\s/]+/g, '.');
+};
+
+const headerMatches = (header: string, candidate: string) =>
+    candidate.endsWith('*') ? header.startsWith(candidate.slice(0, -1)) : header === candidate;
+
+// Column indexes for each field, in the profile's order of preference
+const resolveColumns = (profile: BrokerProfile, headers: string[]): Partial<Record<ImportField, number[]>> => {
+    const resolved: Partial<Record<ImportField, number[]>> = {};
+    (Object.keys(profile.columns) as ImportField[]).forEach(field => {
+        const indexes: number[] = [];
+        (profile.columns[field] || []).forEach(candidate => {
+            headers.forEach((h, i) => {
+                if (headerMatches(h, candidate) && !indexes.includes(i)) indexes.push(i);
+            });
+        });
+        if (indexes.length > 0) resolved[field] = indexes;
+    });
+    return resolved;
+};
+
+// How many of the profile's fields a header row provides
+const fieldsFound = (profile: BrokerProfile, headers: string[]) => Object.keys(resolveColumns(profile, headers)).length;
+
+/**
+ * Finds the header row and the profile that reads it. With a chosen profile the header is the
+ * first row carrying its identifying columns, or else the one that maps the most fields;
+ * otherwise each row near the top is checked against every known profile.
+ */
+const locateHeader = (rows: string[][], chosen?: BrokerProfile, profiles: BrokerProfile[] = listProfiles()): { index: number; profile: BrokerProfile } | null => {
+    const candidates = rows.slice(0, HEADER_SEARCH_ROWS).map(normalizeHeaders);
+
+    if (chosen) {
+        const exact = chosen.detect.length > 0 ? candidates.findIndex(h => chosen.detect.every(d => h.includes(d))) : -1;
+        if (exact > -1) return { index: exact, profile: chosen };
+    } else {
+        for (let i = 0; i < candidates.length; i++) {
+            const profile = detectProfile(candidates[i], profiles);
+            if (profile.id !== 'generic') return { index: i, profile };
+        }
+    }
+
+    const fallback = chosen || genericProfile();
+    let best = -1;
+    let bestCount = 1; // A header must map at least two fields
+    candidates.forEach((h, i) => {
+        const count = fieldsFound(fallback, h);
+        if (count > bestCount) {
+            best = i;
+            bestCount = count;
+        }
+    });
+    return best > -1 ? { index: best, profile: fallback } : null;
+};
+
+const signedTrade = (quantity: number, amount: number): 'BUY' | 'SELL' | null => {
+    if (quantity < 0) return 'SELL';
+    if (quantity > 0) return 'BUY';
+    // Without a signed quantity, money leaving the account is a purchase
+    if (amount < 0) return 'BUY';
+    if (amount > 0) return 'SELL';
+    return null;
+};
+
+const PAID_BY_SYMBOL = new Set<CashTransactionType>(['DIVIDEND', 'TAX_WITHHELD']);
+
+/**
+ * Reads a broker CSV export into ledger entries. The profile is detected from the headers unless
+ * one is given. Fees reported on a row become a separate FEE entry; a dividend with tax withheld
+ * becomes a gross DIVIDEND plus a TAX_WITHHELD entry. Rows that cannot be read are listed in
+ * `skipped` with the reason, so nothing is dropped silently.
+ */
+export const parseBrokerCsv = (text: string, chosen?: BrokerProfile): ImportParseResult | null => {
+    const delimiter = chosen?.delimiter || detectDelimiter(text);
+    const rows = parseCsvRows(text, delimiter);
+    const located = locateHeader(rows, chosen);
+    if (!located) return null;
+
+    const { index: headerIndex, profile } = located;
+    // Semicolon-separated files come from locales that write decimals with a comma
+    const decimal = profile.id === 'generic' && delimiter === ';' ? ',' : profile.decimal;
+    const headerCells = rows[headerIndex];
+    const headers = normalizeHeaders(headerCells);
+    const columns = resolveColumns(profile, headers);
+    const discriminatorIdx = headers.indexOf('datadiscriminator');
+
+    const transactions: ImportedTransaction[] = [];
+    const skipped: SkippedRow[] = [];
+
+    for (let r = headerIndex + 1; r < rows.length; r++) {
+        const row = rows[r];
+        const line = r + 1;
+        // Blank lines and the one-cell notes some brokers append are not rows
+        if (row.filter(c => c !== '').length < 2) continue;
+        if (profile.sectioned) {
+            if (row[0] !== headerCells[0] || (row[1] || '').toLowerCase() !== 'data') continue;
+            // Closed-lot detail lines repeat the trade they belong to
+            if (discriminatorIdx > -1 && !['order', 'trade', ''].includes((row[discriminatorIdx] || '').toLowerCase())) continue;
+        }
+
+        const text = (field: ImportField): string => {
+            const idx = (columns[field] || []).find(i => (row[i] || '') !== '');
+            return idx === undefined ? '' : row[idx];
+        };
+        const number = (field: ImportField) => parseAmount(text(field), decimal);
+        const skip = (reason: string) => skipped.push({ line, reason });
+
+        const date = parseImportDate(text('date'), profile.dateFormat);
+        if (!date) {
+            skip(`Unreadable date "${text('date')}"`);
+            continue;
+        }
+
+        const actionText = (columns.action || []).map(i => row[i] || '').filter(Boolean).join(' ');
+        const rule = profile.actions.find(a => actionText.toLowerCase().includes(a.match));
+        let action: ImportAction = rule ? rule.type : (profile.defaultAction || (actionText ? 'SKIP' : 'BUY'));
+        if (action === 'SKIP') {
+            skip(rule ? `"${actionText}" is not imported` : `Unrecognised action "${actionText}"`);
+            continue;
+        }
+
+        const quantity = number('quantity');
+        const amount = number('amount');
+        if (action === 'TRADE') {
+            const side = signedTrade(quantity || 0, amount || 0);
+            if (!side) {
+                skip('Trade without a quantity or amount');
+                continue;
+            }
+            action = side;
+        } else if (action === 'TRANSFER') {
+            if (!amount) {
+                skip('Transfer without an amount');
+                continue;
+            }
+            action = amount > 0 ? 'DEPOSIT' : 'WITHDRAWAL';
+        }
+
+        const isin = text('isin').toUpperCase();
+        const symbol = normalizeSymbol(text('symbol') || isin, profile.symbols);
+        const name = text('name') || symbol;
+        const cashCurrency = text('currency') || text('priceCurrency') || undefined;
+        const fees = (columns.fees || []).reduce((sum, i) => sum + (Math.abs(parseAmount(row[i], decimal)) || 0), 0);
+        const feeEntry = (currency?: string): ImportedTransaction => ({ symbol: '', name: '', date, type: 'FEE', shares: 0, price: 0, amount: fees, currency });
+
+        if (action === 'BUY' || action === 'SELL' || action === 'ADJUST') {
+            const shares = Math.abs(quantity);
+            if (!symbol || !(shares > 0)) {
+                skip(!symbol ? 'Trade without a symbol' : 'Trade without a quantity');
+                continue;
+            }
+            let price = Math.abs(number('price'));
+            if (!(price > 0) && Math.abs(amount) > 0) price = Math.abs(amount) / shares;
+            if (!(price > 0)) {
+                skip(`No price for ${symbol}`);
+                continue;
+            }
+            const currency = text('priceCurrency') || cashCurrency;
+            transactions.push({ symbol, name, date, type: action, shares, price, currency, isin: isin || undefined });
+            if (fees > 0) transactions.push(feeEntry(cashCurrency || currency));
+            continue;
+        }
+
+        if (action === 'FX_CONVERSION') {
+            const fromAmount = Math.abs(number('fxFromAmount'));
+            const toAmount = Math.abs(number('fxToAmount'));
+            if (!(fromAmount > 0)) {
+                skip('Currency conversion without amounts');
+                continue;
+            }
+            transactions.push({
+                symbol: '', name: '', date, type: 'FX_CONVERSION', shares: 0, price: 0,
+                amount: fromAmount,
+                currency: text('fxFromCurrency') || undefined,
+                toCurrency: text('fxToCurrency') || undefined,
+                fxRate: toAmount ? toAmount / fromAmount : undefined
+            });
+            if (fees > 0) transactions.push(feeEntry(cashCurrency));
+            continue;
+        }
+
+        const price = number('price');
+        let value = Math.abs(amount) || 0;
+        if (!value && quantity && price) value = Math.abs(quantity * price);
+
+        // Withholding may be reported in the instrument currency; the exchange rate is in
+        // instrument units per unit of the row's currency
+        let withheld = 0;
+        if (action === 'DIVIDEND' && columns.withholding) {
+            withheld = Math.abs(number('withholding')) || 0;
+            const withholdingCurrency = text('withholdingCurrency') || cashCurrency;
+            const rate = number('exchangeRate');
+            if (withheld && withholdingCurrency && cashCurrency && withholdingCurrency !== cashCurrency && rate > 0) withheld /= rate;
+        }
+        const gross = profile.netDividends ? value + withheld : value;
+        if (!gross) {
+            skip('No amount');
+            continue;
+        }
+
+        const paidSymbol = PAID_BY_SYMBOL.has(action) ? symbol : '';
+        transactions.push({
+            symbol: paidSymbol,
+            name: paidSymbol ? name : '',
+            date,
+            type: action,
+            shares: action === 'DIVIDEND' && quantity ? Math.abs(quantity) : 0,
+            price: action === 'DIVIDEND' && price ? Math.abs(price) : 0,
+            amount: gross,
+            currency: cashCurrency,
+            isin: paidSymbol && isin ? isin : undefined
+        });
+        if (withheld > 0) {
+            transactions.push({ symbol: paidSymbol, name: paidSymbol ? name : '', date, type: 'TAX_WITHHELD', shares: 0, price: 0, amount: withheld, currency: cashCurrency });
+        }
+        if (fees > 0 && action !== 'FEE') transactions.push(feeEntry(cashCurrency));
+    }
+
+    return { format: 'csv', source: profile.name, profile, headers, transactions, skipped };
+};
+
+/** Header names of the file as the column-mapping screen shows them. */
+export const readCsvHeaders = (text: string): string[] => {
+    const rows = parseCsvRows(text);
+    const located = locateHeader(rows);
+    return located ? normalizeHeaders(rows[located.index]).filter(Boolean) : [];
+};
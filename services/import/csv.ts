@@ -0,0 +1,127 @@
+import { DecimalSeparator, ImportDateFormat } from './types';
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * The delimiter that splits some line near the top into the most cells, ignoring anything inside
+ * quotes. Several lines are looked at because some exports open with a title or account line.
+ */
+export const detectDelimiter = (text: string): string => {
+    const lines = text.split(/\r?\n/).slice(0, 30);
+    const counts = DELIMITERS.map(d => Math.max(0, ...lines.map(line => {
+        let inQuotes = false;
+        let count = 0;
+        for (const ch of line) {
+            if (ch === '"') inQuotes = !inQuotes;
+            else if (ch === d && !inQuotes) count++;
+        }
+        return count;
+    })));
+    const best = counts.indexOf(Math.max(...counts));
+    return counts[best] > 0 ? DELIMITERS[best] : ',';
+};
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may contain the delimiter, doubled quotes
+ * and line breaks. A byte-order mark at the start is dropped.
+ */
+export const parseCsvRows = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\ufeff/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (inQuotes) {
+            if (ch === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(cell.trim());
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell.trim());
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell.trim());
+        rows.push(row);
+    }
+    return rows;
+};
+
+/**
+ * Lower-cased, trimmed header names. An unnamed column takes the name of the one before it plus
+ * " currency", which is how Degiro labels the currency next to each amount.
+ */
+export const normalizeHeaders = (cells: string[]): string[] => {
+    const headers: string[] = [];
+    cells.forEach((cell, i) => {
+        const name = cell.toLowerCase().replace(/\s+/g, ' ').trim();
+        headers.push(name || (i > 0 && headers[i - 1] ? `${headers[i - 1]} currency` : ''));
+    });
+    return headers;
+};
+
+/**
+ * Reads an amount as exported: currency symbols, thousands separators and spaces are ignored,
+ * and "(12.50)" or a trailing minus counts as negative. NaN when there is no number.
+ */
+export const parseAmount = (raw: string | undefined, decimal: DecimalSeparator = '.'): number => {
+    if (!raw) return NaN;
+    let text = raw.trim();
+    const negative = /^\(.*\)$/.test(text) || /-\s*$/.test(text) || /^[^0-9]*-/.test(text);
+    text = decimal === ',' ? text.replace(/[.\s']/g, '').replace(',', '.') : text.replace(/[,\s']/g, '');
+    const match = text.match(/\d+(\.\d+)?|\.\d+/);
+    if (!match) return NaN;
+    const value = parseFloat(match[0]);
+    return negative ? -value : value;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * The first date in `raw` as YYYY-MM-DD, reading its parts in `format` order. Compact dates
+ * (20240315, optionally followed by the time) are always year first. Null when there is no valid date.
+ */
+export const parseImportDate = (raw: string | undefined, format: ImportDateFormat): string | null => {
+    if (!raw) return null;
+    let year: number;
+    let month: number;
+    let day: number;
+
+    // OFX timestamps run the time straight on: 20240105093000.000[-5:EST]
+    const compact = raw.trim().match(/^(\d{4})(\d{2})(\d{2})(\d{4}|\d{6})?(?!\d)/);
+    const parts = raw.match(/(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+    if (compact) {
+        [year, month, day] = [compact[1], compact[2], compact[3]].map(Number);
+    } else if (parts) {
+        const [a, b, c] = [parts[1], parts[2], parts[3]].map(Number);
+        // A four-digit first part is a year whatever the profile says (ISO timestamps in any export)
+        if (parts[1].length === 4 || format === 'YMD') [year, month, day] = [a, b, c];
+        else if (format === 'DMY') [day, month, year] = [a, b, c];
+        else [month, day, year] = [a, b, c];
+    } else {
+        return null;
+    }
+
+    if (year < 100) year += 2000;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
@@ -0,0 +1,29 @@
+import { parseBrokerCsv } from './brokerCsv';
+import { parseOfx } from './ofx';
+import { parseQif } from './qif';
+import { BrokerProfile, ImportFileFormat, ImportParseResult } from './types';
+
+export const IMPORT_FILE_EXTENSIONS = '.csv,.txt,.ofx,.qfx,.qif';
+
+/** The file's format from its extension, or its content when the extension says nothing. */
+export const detectFileFormat = (fileName: string, text: string): ImportFileFormat => {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+    if (extension === 'qif') return 'qif';
+    const head = text.slice(0, 2000);
+    if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+    if (/^\s*!(Type|Account|Option)/im.test(head)) return 'qif';
+    return 'csv';
+};
+
+/**
+ * Reads an import file in whichever format it is. `profile` only applies to CSV exports, where
+ * it overrides the detected broker. Null when a CSV has no recognisable header.
+ */
+export const parseImportFile = (fileName: string, text: string, profile?: BrokerProfile): ImportParseResult | null => {
+    switch (detectFileFormat(fileName, text)) {
+        case 'ofx': return parseOfx(text);
+        case 'qif': return parseQif(text);
+        default: return parseBrokerCsv(text, profile);
+    }
+};
@@ -0,0 +1,250 @@
+import { parseAmount, parseImportDate } from './csv';
+import { ImportedTransaction, ImportParseResult, SkippedRow } from './types';
+
+// One OFX element. Aggregates have children; elements (leaves) have a value.
+interface OfxNode {
+    name: string;
+    value?: string;
+    children: OfxNode[];
+    line: number;
+}
+
+const decodeEntities = (value: string) => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Builds the element tree of an OFX document. Version 1 is SGML, where elements have no closing
+ * tag; version 2 is XML. A tag followed by text is an element; one followed directly by another
+ * tag opens an aggregate, which its closing tag ends (closing any unclosed aggregates inside it).
+ */
+export const parseOfxTree = (text: string): OfxNode => {
+    const root: OfxNode = { name: 'ROOT', children: [], line: 1 };
+    const stack: OfxNode[] = [root];
+    const start = text.search(/<OFX>/i);
+    if (start < 0) return root;
+
+    let line = text.slice(0, start).split('\n').length;
+    const tagPattern = /<([^>]+)>([^<]*)/g;
+    tagPattern.lastIndex = start;
+    let match: RegExpExecArray | null;
+    let lastIndex = start;
+    while ((match = tagPattern.exec(text)) !== null) {
+        for (let i = lastIndex; i < match.index; i++) if (text[i] === '\n') line++;
+        lastIndex = match.index;
+
+        const tag = match[1].trim();
+        const value = decodeEntities(match[2].trim());
+        if (tag.startsWith('?') || tag.startsWith('!')) continue;
+
+        if (tag.startsWith('/')) {
+            const name = tag.slice(1).toUpperCase();
+            const depth = stack.map(n => n.name).lastIndexOf(name);
+            // A closing tag for an element (XML) matches nothing on the stack
+            if (depth > 0) stack.length = depth;
+            continue;
+        }
+
+        const name = tag.split(/\s/)[0].toUpperCase();
+        const node: OfxNode = { name, children: [], line };
+        stack[stack.length - 1].children.push(node);
+        if (value) node.value = value;
+        else stack.push(node);
+    }
+    return root;
+};
+
+const child = (node: OfxNode | undefined, name: string): OfxNode | undefined => node?.children.find(c => c.name === name);
+
+// First descendant with this name, depth first
+const find = (node: OfxNode | undefined, name: string): OfxNode | undefined => {
+    if (!node) return undefined;
+    for (const c of node.children) {
+        if (c.name === name) return c;
+        const inner = find(c, name);
+        if (inner) return inner;
+    }
+    return undefined;
+};
+
+const findAll = (node: OfxNode, name: string, found: OfxNode[] = []): OfxNode[] => {
+    node.children.forEach(c => {
+        if (c.name === name) found.push(c);
+        else findAll(c, name, found);
+    });
+    return found;
+};
+
+const value = (node: OfxNode | undefined, name: string): string => find(node, name)?.value || '';
+
+const amount = (node: OfxNode | undefined, name: string): number => {
+    const n = parseAmount(value(node, name));
+    return Number.isNaN(n) ? 0 : n;
+};
+
+interface OfxSecurity {
+    ticker: string;
+    name: string;
+    isin?: string;
+}
+
+// Securities by their UNIQUEID (a CUSIP or ISIN), from the statement's SECLIST
+const readSecurities = (root: OfxNode): Map<string, OfxSecurity> => {
+    const securities = new Map<string, OfxSecurity>();
+    findAll(root, 'SECINFO').forEach(info => {
+        const id = value(child(info, 'SECID'), 'UNIQUEID');
+        if (!id) return;
+        const idType = value(child(info, 'SECID'), 'UNIQUEIDTYPE').toUpperCase();
+        securities.set(id, {
+            ticker: value(info, 'TICKER').toUpperCase(),
+            name: value(info, 'SECNAME'),
+            isin: idType === 'ISIN' ? id : undefined
+        });
+    });
+    return securities;
+};
+
+const CASH_TYPES: Record<string, ImportedTransaction['type']> = {
+    INT: 'INTEREST',
+    DIV: 'DIVIDEND',
+    FEE: 'FEE',
+    SRVCHG: 'FEE',
+    DEP: 'DEPOSIT',
+    DIRECTDEP: 'DEPOSIT',
+    ATM: 'WITHDRAWAL',
+    CHECK: 'WITHDRAWAL',
+    PAYMENT: 'WITHDRAWAL',
+    DIRECTDEBIT: 'WITHDRAWAL',
+    REPEATPMT: 'WITHDRAWAL',
+    POS: 'WITHDRAWAL',
+    CASH: 'WITHDRAWAL'
+};
+
+// Capital gain distributions are income like dividends; the rest is interest
+const INCOME_TYPES: Record<string, ImportedTransaction['type']> = {
+    DIV: 'DIVIDEND',
+    CGLONG: 'DIVIDEND',
+    CGSHORT: 'DIVIDEND',
+    INTEREST: 'INTEREST',
+    MISC: 'INTEREST'
+};
+
+const UNSUPPORTED: Record<string, string> = {
+    TRANSFER: 'Security transfers are not imported',
+    SPLIT: 'Record splits as a corporate action',
+    RETOFCAP: 'Return of capital is not imported',
+    JRNLFUND: 'Journal entries between sub-accounts are not imported',
+    JRNLSEC: 'Journal entries between sub-accounts are not imported',
+    CLOSUREOPT: 'Option closures are not imported',
+    BUYOPT: 'Options are not imported',
+    SELLOPT: 'Options are not imported'
+};
+
+/**
+ * Reads an OFX or QFX statement (bank or investment, version 1 or 2) into ledger entries.
+ * Securities are named by the ticker from the statement's security list, falling back to their
+ * CUSIP or ISIN. Commissions and fees become separate FEE entries, withholding on income a
+ * TAX_WITHHELD entry, and a reinvestment a dividend plus the buy it paid for.
+ */
+export const parseOfx = (text: string): ImportParseResult => {
+    const root = parseOfxTree(text);
+    const securities = readSecurities(root);
+    const transactions: ImportedTransaction[] = [];
+    const skipped: SkippedRow[] = [];
+
+    const statements = [...findAll(root, 'INVSTMTRS'), ...findAll(root, 'STMTRS'), ...findAll(root, 'CCSTMTRS')];
+    if (statements.length === 0) skipped.push({ line: 1, reason: 'No bank or investment statement found' });
+
+    statements.forEach(statement => {
+        const defaultCurrency = (child(statement, 'CURDEF')?.value || '').toUpperCase() || undefined;
+        const currencyOf = (node: OfxNode) =>
+            (value(child(node, 'CURRENCY'), 'CURSYM') || value(child(node, 'ORIGCURRENCY'), 'CURSYM')).toUpperCase() || defaultCurrency;
+        const dateOf = (node: OfxNode, ...fields: string[]) => {
+            for (const field of fields) {
+                const date = parseImportDate(value(node, field), 'YMD');
+                if (date) return date;
+            }
+            return null;
+        };
+        const security = (node: OfxNode) => {
+            const id = value(find(node, 'SECID'), 'UNIQUEID');
+            const known = securities.get(id);
+            const isin = known?.isin || (/^[A-Z]{2}[A-Z0-9]{9}\d$/.test(id) ? id : undefined);
+            return { symbol: known?.ticker || id.toUpperCase(), name: known?.name || known?.ticker || id, isin };
+        };
+
+        // Bank statements, and cash movements inside an investment statement
+        findAll(statement, 'STMTTRN').forEach(trn => {
+            const date = dateOf(trn, 'DTPOSTED', 'DTUSER');
+            const total = amount(trn, 'TRNAMT');
+            if (!date || !total) {
+                skipped.push({ line: trn.line, reason: !date ? 'Unreadable date' : 'No amount' });
+                return;
+            }
+            const trnType = value(trn, 'TRNTYPE').toUpperCase();
+            const type = CASH_TYPES[trnType] || (total > 0 ? 'DEPOSIT' : 'WITHDRAWAL');
+            transactions.push({ symbol: '', name: '', date, type, shares: 0, price: 0, amount: Math.abs(total), currency: currencyOf(trn) });
+        });
+
+        const tranList = child(statement, 'INVTRANLIST');
+        tranList?.children.forEach(entry => {
+            if (entry.name === 'INVBANKTRAN' || entry.name === 'DTSTART' || entry.name === 'DTEND') return;
+            const date = dateOf(entry, 'DTTRADE', 'DTSETTLE');
+            const skip = (reason: string) => skipped.push({ line: entry.line, reason });
+            if (UNSUPPORTED[entry.name]) return skip(UNSUPPORTED[entry.name]);
+            if (!date) return skip('Unreadable date');
+
+            const currency = currencyOf(find(entry, 'INVBUY') || find(entry, 'INVSELL') || entry);
+            const { symbol, name, isin } = security(entry);
+            const fees = Math.abs(amount(entry, 'COMMISSION')) + Math.abs(amount(entry, 'FEES')) + Math.abs(amount(entry, 'TAXES')) + Math.abs(amount(entry, 'LOAD'));
+            const pushFee = () => {
+                if (fees > 0) transactions.push({ symbol: '', name: '', date, type: 'FEE', shares: 0, price: 0, amount: fees, currency });
+            };
+
+            if (entry.name.startsWith('BUY') || entry.name.startsWith('SELL') || entry.name === 'REINVEST') {
+                const units = Math.abs(amount(entry, 'UNITS'));
+                let price = Math.abs(amount(entry, 'UNITPRICE'));
+                const total = Math.abs(amount(entry, 'TOTAL'));
+                if (!symbol || !(units > 0)) return skip(!symbol ? 'Trade without a security' : 'Trade without units');
+                if (!(price > 0)) price = Math.max(0, total - fees) / units;
+                if (!(price > 0)) return skip(`No price for ${symbol}`);
+
+                if (entry.name === 'REINVEST') {
+                    const incomeType = INCOME_TYPES[value(entry, 'INCOMETYPE').toUpperCase()] || 'DIVIDEND';
+                    transactions.push({ symbol: incomeType === 'DIVIDEND' ? symbol : '', name: incomeType === 'DIVIDEND' ? name : '', date, type: incomeType, shares: 0, price: 0, amount: total || units * price + fees, currency, isin });
+                }
+                const type = entry.name.startsWith('SELL') ? 'SELL' : 'BUY';
+                transactions.push({ symbol, name, date, type, shares: units, price, currency, isin });
+                pushFee();
+                return;
+            }
+
+            if (entry.name === 'INCOME') {
+                const type = INCOME_TYPES[value(entry, 'INCOMETYPE').toUpperCase()] || 'DIVIDEND';
+                const total = Math.abs(amount(entry, 'TOTAL'));
+                const withheld = Math.abs(amount(entry, 'WITHHOLDING'));
+                if (!total) return skip('No amount');
+                // TOTAL is net of any withholding, which is added back to record the gross
+                const paidBy = type === 'DIVIDEND' ? symbol : '';
+                transactions.push({ symbol: paidBy, name: paidBy ? name : '', date, type, shares: 0, price: 0, amount: total + withheld, currency, isin: paidBy ? isin : undefined });
+                if (withheld > 0) transactions.push({ symbol: paidBy, name: paidBy ? name : '', date, type: 'TAX_WITHHELD', shares: 0, price: 0, amount: withheld, currency });
+                return;
+            }
+
+            if (entry.name === 'MARGININTEREST' || entry.name === 'INVEXPENSE') {
+                const total = Math.abs(amount(entry, 'TOTAL'));
+                if (!total) return skip('No amount');
+                transactions.push({ symbol: '', name: '', date, type: 'FEE', shares: 0, price: 0, amount: total, currency });
+                return;
+            }
+
+            skip(`${entry.name} is not imported`);
+        });
+    });
+
+    return { format: 'ofx', source: 'OFX / QFX statement', headers: [], transactions, skipped };
+};
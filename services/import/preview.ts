@@ -0,0 +1,205 @@
+import { Holding, Transaction } from '../../types';
+import { isCashTransaction } from '../cashLedger';
+import { resolveSymbol } from '../symbolResolver';
+import { ImportedTransaction, ImportPreview, ImportPreviewRow, HoldingChange } from './types';
+
+const EPSILON = 1e-6;
+
+const finite = (n: unknown): number => (typeof n === 'number' && Number.isFinite(n) ? n : 0);
+
+// cyrb53: a fast 53-bit string hash, plenty to tell ledger rows apart
+const hashString = (input: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// What makes two ledger entries the same, with amounts rounded so float noise does not matter
+const contentKey = (t: Transaction): string => [
+    t.date,
+    t.type,
+    t.symbol.toUpperCase(),
+    finite(t.shares).toFixed(6),
+    finite(t.price).toFixed(6),
+    finite(t.totalValue).toFixed(2),
+    (t.currency || '').toUpperCase(),
+    (t.toCurrency || '').toUpperCase()
+].join('|');
+
+/**
+ * Content-hash ids for a batch of entries. An entry with a broker reference hashes with it, so two
+ * identical fills stay apart whichever sync brings them. Identical entries without one (two equal
+ * buys on the same day in a file) are numbered in order, so the same file always yields the same
+ * ids and importing it again changes nothing.
+ */
+export const importIds = (transactions: Transaction[], references: (string | undefined)[] = []): string[] => {
+    const seen = new Map<string, number>();
+    return transactions.map((t, i) => {
+        const key = contentKey(t);
+        if (references[i]) return hashString(`${key}@${references[i]}`);
+        const occurrence = seen.get(key) || 0;
+        seen.set(key, occurrence + 1);
+        return hashString(`${key}#${occurrence}`);
+    });
+};
+
+/**
+ * The import ids a ledger already holds. Entries recorded before ids existed (or by hand) are
+ * hashed from their content, so an old import is still recognised.
+ */
+export const knownImportIds = (ledger: Transaction[]): Set<string> => {
+    const ids = new Set(ledger.map(t => t.importId).filter((id): id is string => !!id));
+    const unhashed = ledger.filter(t => !t.importId);
+    importIds(unhashed).forEach(id => ids.add(id));
+    return ids;
+};
+
+/**
+ * Rows with their symbols mapped to the app's instruments: broker tickers (VUSA_UK_EQ), ISINs and
+ * exchange notations become the symbol holdings use, with the row's ISIN as a hint to the listing.
+ * The file's own symbol is kept, so resolving again after the user adds an override starts over.
+ */
+export const resolveImportedSymbols = (rows: ImportedTransaction[]): ImportedTransaction[] => rows.map(row => {
+    const raw = row.sourceSymbol || row.symbol;
+    if (!raw) return row;
+    const instrument = resolveSymbol(raw, { isin: row.isin, name: row.name });
+    // Files without a name column repeat the symbol there
+    const named = row.name && row.name !== raw ? row.name : instrument.name || row.name;
+    return { ...row, symbol: instrument.symbol, name: named, currency: row.currency || instrument.currency, isin: row.isin || instrument.isin, sourceSymbol: raw };
+});
+
+/** A parsed row as a ledger entry. Cash rows carry their own amount; trades are valued at shares x price. */
+export const toLedgerTransaction = (row: ImportedTransaction): Transaction => ({
+    id: '',
+    date: row.date,
+    type: row.type,
+    symbol: (row.symbol || '').toUpperCase(),
+    shares: finite(row.shares),
+    price: finite(row.price),
+    totalValue: row.amount !== undefined ? Math.abs(finite(row.amount)) : finite(row.shares * row.price),
+    currency: row.currency || undefined,
+    toCurrency: row.toCurrency || undefined,
+    fxRate: row.fxRate ? finite(row.fxRate) : undefined
+});
+
+/**
+ * Holdings after the imported trades, replayed in date order: buys pool into the average cost,
+ * sells reduce shares, ADJUST entries do either by their signed share count, and positions sold
+ * out are dropped. `newHolding` supplies the catalogue
+ * fields for a symbol that is not held yet.
+ */
+export const applyImportedTrades = (
+    holdings: Holding[],
+    transactions: Transaction[],
+    newHolding: (t: Transaction, name?: string) => Holding,
+    names: Record<string, string> = {}
+): Holding[] => {
+    const bySymbol = new Map(holdings.map(h => [h.symbol.toUpperCase(), { ...h }]));
+    [...transactions].sort((a, b) => a.date.localeCompare(b.date)).forEach(t => {
+        if (isCashTransaction(t)) return;
+        const existing = bySymbol.get(t.symbol);
+        const shares = Math.abs(t.shares);
+        if (t.type === 'BUY' || (t.type === 'ADJUST' && t.shares > 0)) {
+            if (existing) {
+                const totalCost = existing.shares * existing.avgPrice + shares * t.price;
+                existing.shares += shares;
+                existing.avgPrice = totalCost / existing.shares;
+            } else {
+                bySymbol.set(t.symbol, { ...newHolding(t, names[t.symbol]), shares, avgPrice: t.price });
+            }
+        } else if ((t.type === 'SELL' || t.type === 'ADJUST') && existing) {
+            existing.shares -= shares;
+        }
+    });
+    return Array.from(bySymbol.values()).filter(h => h.shares > EPSILON);
+};
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.\-^=:]{0,14}$/;
+
+/**
+ * What importing `rows` would do to a portfolio, without changing it. Each row is checked and
+ * marked new, already in the ledger, or in error (errors and duplicates are not imported), and
+ * the holdings are compared before and after. A symbol the portfolio does not hold and
+ * `isKnownSymbol` does not recognise is flagged as a warning only.
+ */
+export const previewImport = (
+    rows: ImportedTransaction[],
+    holdings: Holding[],
+    ledger: Transaction[],
+    newHolding: (t: Transaction, name?: string) => Holding,
+    isKnownSymbol: (symbol: string) => boolean = () => true
+): ImportPreview => {
+    const entries = rows.map(toLedgerTransaction);
+    const ids = importIds(entries, rows.map(r => r.reference));
+    const existing = knownImportIds(ledger);
+    const held = new Set(holdings.map(h => h.symbol.toUpperCase()));
+
+    const previewRows: ImportPreviewRow[] = rows.map((row, i) => {
+        const t = entries[i];
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(t.date || '')) errors.push('Invalid date');
+        if (isCashTransaction(t)) {
+            if (!Number.isFinite(row.amount ?? row.shares * row.price) || !(t.totalValue > 0)) errors.push('Amount is not a number');
+        } else {
+            if (!t.symbol) errors.push('Missing symbol');
+            // ADJUST entries carry signed share counts
+            if (!Number.isFinite(row.shares) || !(t.type === 'ADJUST' ? t.shares !== 0 : t.shares > 0)) errors.push('Quantity is not a number');
+            if (!Number.isFinite(row.price) || !(t.price > 0)) errors.push('Price is not a number');
+            if (t.symbol && ISIN_PATTERN.test(t.symbol)) warnings.push(`${t.symbol} is an ISIN, not a ticker`);
+            else if (t.symbol && !TICKER_PATTERN.test(t.symbol)) warnings.push(`${t.symbol} is not a valid ticker`);
+            else if (t.symbol && !held.has(t.symbol) && !isKnownSymbol(t.symbol)) warnings.push(`Unknown symbol ${t.symbol}`);
+        }
+        const status = errors.length > 0 ? 'error' : existing.has(ids[i]) ? 'duplicate' : 'new';
+        return { row, importId: ids[i], status, errors, warnings };
+    });
+
+    // Sells are checked against the position as it stands at that point of the import
+    const position = new Map(holdings.map(h => [h.symbol.toUpperCase(), h.shares]));
+    previewRows
+        .map((r, i) => ({ r, t: entries[i] }))
+        .filter(({ r, t }) => r.status === 'new' && !isCashTransaction(t))
+        .sort((a, b) => a.t.date.localeCompare(b.t.date))
+        .forEach(({ r, t }) => {
+            const shares = position.get(t.symbol) || 0;
+            if (t.type === 'SELL' && t.shares > shares + EPSILON) {
+                r.errors.push(`Sells ${t.shares} ${t.symbol} but only ${+shares.toFixed(6)} held`);
+                r.status = 'error';
+                return;
+            }
+            position.set(t.symbol, shares + (t.type === 'SELL' ? -t.shares : t.shares));
+        });
+
+    const accepted = entries.filter((_, i) => previewRows[i].status === 'new');
+    const names: Record<string, string> = {};
+    rows.forEach(r => { if (r.name && r.symbol) names[r.symbol.toUpperCase()] = r.name; });
+    const after = applyImportedTrades(holdings, accepted, newHolding, names);
+
+    const changes: HoldingChange[] = [];
+    const symbols = Array.from(new Set([...holdings, ...after].map(h => h.symbol.toUpperCase())));
+    symbols.forEach(symbol => {
+        const before = holdings.find(h => h.symbol.toUpperCase() === symbol);
+        const next = after.find(h => h.symbol.toUpperCase() === symbol);
+        const sharesBefore = before?.shares || 0;
+        const sharesAfter = next?.shares || 0;
+        if (Math.abs(sharesBefore - sharesAfter) < EPSILON && Math.abs((before?.avgPrice || 0) - (next?.avgPrice || 0)) < EPSILON) return;
+        changes.push({
+            symbol,
+            name: next?.name || before?.name || symbol,
+            sharesBefore,
+            sharesAfter,
+            avgPriceBefore: before?.avgPrice || 0,
+            avgPriceAfter: next?.avgPrice || 0
+        });
+    });
+
+    return { rows: previewRows, changes };
+};
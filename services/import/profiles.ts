@@ -0,0 +1,379 @@
+import { ActionRule, BrokerProfile, DecimalSeparator, ImportDateFormat, ImportField } from './types';
+
+const CUSTOM_PROFILES_STORAGE_KEY = 'wealthos_import_profiles';
+
+// Action wording shared by most exports; broker profiles put their own phrases first
+export const COMMON_ACTION_RULES: ActionRule[] = [
+    { match: 'sell', type: 'SELL' },
+    { match: 'buy', type: 'BUY' },
+    { match: 'bought', type: 'BUY' },
+    { match: 'sold', type: 'SELL' },
+    { match: 'dividend', type: 'DIVIDEND' },
+    { match: 'interest', type: 'INTEREST' },
+    { match: 'deposit', type: 'DEPOSIT' },
+    { match: 'withdraw', type: 'WITHDRAWAL' },
+    { match: 'conversion', type: 'FX_CONVERSION' },
+    { match: 'withholding', type: 'TAX_WITHHELD' },
+    { match: 'tax', type: 'TAX_WITHHELD' },
+    { match: 'fee', type: 'FEE' },
+    { match: 'charge', type: 'FEE' },
+    { match: 'commission', type: 'FEE' }
+];
+
+// Column names seen across exports, used when no broker profile matches
+const GENERIC_PROFILE: BrokerProfile = {
+    id: 'generic',
+    name: 'Generic CSV',
+    detect: [],
+    columns: {
+        date: ['date', 'time', 'trade date', 'timestamp', 'date/time'],
+        action: ['action', 'type', 'side', 'transaction type'],
+        symbol: ['ticker', 'symbol', 'instrument'],
+        name: ['name', 'description', 'security'],
+        isin: ['isin'],
+        quantity: ['quantity', 'shares', 'no. of shares', 'qty', 'units'],
+        price: ['price', 'price / share', 'price per share', 'share price', 'avg price', 'cost'],
+        amount: ['total', 'amount', 'net amount', 'value'],
+        currency: ['currency'],
+        fees: ['fee', 'fees', 'commission']
+    },
+    dateFormat: 'YMD',
+    decimal: '.',
+    actions: COMMON_ACTION_RULES,
+    defaultAction: 'BUY'
+};
+
+export const BUILT_IN_PROFILES: BrokerProfile[] = [
+    {
+        id: 'trading212',
+        name: 'Trading 212',
+        detect: ['action', 'time', 'no. of shares', 'price / share'],
+        columns: {
+            date: ['time'],
+            action: ['action'],
+            symbol: ['ticker'],
+            name: ['name'],
+            isin: ['isin'],
+            quantity: ['no. of shares'],
+            price: ['price / share'],
+            priceCurrency: ['currency (price / share)'],
+            amount: ['total', 'total (*'],
+            currency: ['currency (total)'],
+            fees: ['currency conversion fee', 'transaction fee', 'stamp duty reserve tax', 'stamp duty', 'finra fee', 'french transaction tax', 'deposit fee', 'charge amount', 'commission', 'fee'],
+            withholding: ['withholding tax'],
+            withholdingCurrency: ['currency (withholding tax)'],
+            exchangeRate: ['exchange rate'],
+            fxFromAmount: ['currency conversion from amount'],
+            fxFromCurrency: ['currency (currency conversion from amount)'],
+            fxToAmount: ['currency conversion to amount'],
+            fxToCurrency: ['currency (currency conversion to amount)']
+        },
+        dateFormat: 'YMD',
+        decimal: '.',
+        actions: [
+            { match: 'interest on cash', type: 'INTEREST' },
+            { match: 'lending interest', type: 'INTEREST' },
+            { match: 'currency conversion', type: 'FX_CONVERSION' },
+            { match: 'card debit', type: 'SKIP' },
+            ...COMMON_ACTION_RULES
+        ],
+        symbols: { stripSuffixes: ['_US_EQ', '_UK_EQ', '_EQ'], splitOn: '_' },
+        netDividends: true
+    },
+    {
+        id: 'ibkr',
+        name: 'Interactive Brokers',
+        detect: ['symbol', 'quantity', 'buy/sell'],
+        columns: {
+            date: ['tradedate', 'date/time', 'trade date', 'datetime'],
+            action: ['buy/sell'],
+            symbol: ['symbol'],
+            name: ['description'],
+            isin: ['isin'],
+            quantity: ['quantity'],
+            price: ['tradeprice', 't. price', 'trade price'],
+            priceCurrency: ['currencyprimary', 'currency'],
+            amount: ['proceeds', 'netcash'],
+            currency: ['currencyprimary', 'currency'],
+            fees: ['ibcommission', 'comm/fee', 'commission']
+        },
+        dateFormat: 'YMD',
+        decimal: '.',
+        actions: [{ match: 'buy', type: 'TRADE' }, { match: 'sell', type: 'TRADE' }],
+        defaultAction: 'TRADE'
+    },
+    {
+        id: 'ibkr-activity',
+        name: 'Interactive Brokers (Activity Statement)',
+        detect: ['header', 'datadiscriminator', 'symbol', 'date/time', 'quantity', 't. price'],
+        columns: {
+            date: ['date/time'],
+            symbol: ['symbol'],
+            quantity: ['quantity'],
+            price: ['t. price'],
+            priceCurrency: ['currency'],
+            amount: ['proceeds'],
+            currency: ['currency'],
+            fees: ['comm/fee', 'comm in usd']
+        },
+        dateFormat: 'YMD',
+        decimal: '.',
+        actions: [],
+        defaultAction: 'TRADE',
+        sectioned: true
+    },
+    {
+        id: 'schwab',
+        name: 'Charles Schwab',
+        detect: ['date', 'action', 'symbol', 'description', 'fees & comm', 'amount'],
+        columns: {
+            date: ['date'],
+            action: ['action'],
+            symbol: ['symbol'],
+            name: ['description'],
+            quantity: ['quantity'],
+            price: ['price'],
+            amount: ['amount'],
+            fees: ['fees & comm']
+        },
+        dateFormat: 'MDY',
+        decimal: '.',
+        actions: [
+            { match: 'reinvest shares', type: 'BUY' },
+            { match: 'reinvest dividend', type: 'DIVIDEND' },
+            { match: 'cash dividend', type: 'DIVIDEND' },
+            { match: 'qualified dividend', type: 'DIVIDEND' },
+            { match: 'non-qualified div', type: 'DIVIDEND' },
+            { match: 'pr yr', type: 'DIVIDEND' },
+            { match: 'cash in lieu', type: 'DIVIDEND' },
+            { match: 'bank interest', type: 'INTEREST' },
+            { match: 'credit interest', type: 'INTEREST' },
+            { match: 'nra tax', type: 'TAX_WITHHELD' },
+            { match: 'foreign tax', type: 'TAX_WITHHELD' },
+            { match: 'moneylink', type: 'TRANSFER' },
+            { match: 'wire', type: 'TRANSFER' },
+            { match: 'journal', type: 'TRANSFER' },
+            { match: 'funds', type: 'TRANSFER' },
+            { match: 'fee', type: 'FEE' },
+            { match: 'buy to open', type: 'BUY' },
+            { match: 'sell to close', type: 'SELL' },
+            { match: 'buy', type: 'BUY' },
+            { match: 'sell', type: 'SELL' },
+            { match: 'stock split', type: 'SKIP' },
+            { match: 'stock merger', type: 'SKIP' }
+        ],
+        defaultAction: 'SKIP'
+    },
+    {
+        id: 'fidelity',
+        name: 'Fidelity',
+        detect: ['run date', 'action', 'symbol', 'amount ($)'],
+        columns: {
+            date: ['run date'],
+            action: ['action'],
+            symbol: ['symbol'],
+            name: ['description', 'security description'],
+            quantity: ['quantity'],
+            price: ['price ($)'],
+            amount: ['amount ($)'],
+            fees: ['commission ($)', 'fees ($)']
+        },
+        dateFormat: 'MDY',
+        decimal: '.',
+        actions: [
+            { match: 'reinvestment', type: 'BUY' },
+            { match: 'you bought', type: 'BUY' },
+            { match: 'you sold', type: 'SELL' },
+            { match: 'dividend received', type: 'DIVIDEND' },
+            { match: 'cap gain', type: 'DIVIDEND' },
+            { match: 'interest earned', type: 'INTEREST' },
+            { match: 'foreign tax paid', type: 'TAX_WITHHELD' },
+            { match: 'fee charged', type: 'FEE' },
+            { match: 'electronic funds transfer', type: 'TRANSFER' },
+            { match: 'transferred', type: 'TRANSFER' },
+            { match: 'contribution', type: 'DEPOSIT' },
+            { match: 'distribution', type: 'WITHDRAWAL' }
+        ],
+        defaultAction: 'SKIP'
+    },
+    {
+        id: 'degiro',
+        name: 'DEGIRO',
+        detect: ['product', 'isin', 'quantity', 'order id'],
+        columns: {
+            date: ['date'],
+            symbol: [],
+            name: ['product'],
+            isin: ['isin'],
+            quantity: ['quantity', 'number'],
+            price: ['price', 'koers'],
+            priceCurrency: ['price currency', 'koers currency'],
+            fees: ['transaction and/or third party fees', 'transaction costs', 'transactiekosten en/of kosten van derden']
+        },
+        dateFormat: 'DMY',
+        decimal: '.',
+        actions: [],
+        defaultAction: 'TRADE'
+    },
+    {
+        id: 'freetrade',
+        name: 'Freetrade',
+        detect: ['title', 'type', 'timestamp', 'account currency', 'total amount'],
+        columns: {
+            date: ['timestamp'],
+            action: ['type', 'buy / sell'],
+            symbol: ['ticker'],
+            name: ['title'],
+            isin: ['isin'],
+            quantity: ['quantity'],
+            price: ['price per share'],
+            priceCurrency: ['instrument currency'],
+            amount: ['dividend gross distribution amount', 'total amount'],
+            currency: ['account currency'],
+            fees: ['stamp duty', 'fx fee amount'],
+            withholding: ['dividend withheld tax amount']
+        },
+        dateFormat: 'YMD',
+        decimal: '.',
+        actions: [
+            { match: 'top_up', type: 'DEPOSIT' },
+            { match: 'withdrawal', type: 'WITHDRAWAL' },
+            { match: 'interest', type: 'INTEREST' },
+            { match: 'dividend', type: 'DIVIDEND' },
+            { match: 'sell', type: 'SELL' },
+            { match: 'buy', type: 'BUY' },
+            { match: 'fee', type: 'FEE' }
+        ],
+        defaultAction: 'SKIP'
+    },
+    {
+        id: 'vanguard',
+        name: 'Vanguard',
+        detect: ['trade date', 'transaction type', 'investment name', 'share price'],
+        columns: {
+            date: ['trade date'],
+            action: ['transaction type'],
+            symbol: ['symbol'],
+            name: ['investment name'],
+            quantity: ['shares'],
+            price: ['share price'],
+            amount: ['net amount', 'principal amount'],
+            fees: ['commission fees', 'commissions and fees']
+        },
+        dateFormat: 'MDY',
+        decimal: '.',
+        actions: [
+            { match: 'sweep', type: 'SKIP' },
+            { match: 'reinvestment', type: 'BUY' },
+            { match: 'capital gain', type: 'DIVIDEND' },
+            { match: 'dividend', type: 'DIVIDEND' },
+            { match: 'interest', type: 'INTEREST' },
+            { match: 'funds received', type: 'DEPOSIT' },
+            { match: 'withdrawal', type: 'WITHDRAWAL' },
+            { match: 'buy', type: 'BUY' },
+            { match: 'sell', type: 'SELL' },
+            { match: 'fee', type: 'FEE' }
+        ],
+        defaultAction: 'SKIP'
+    },
+    {
+        id: 'coinbase',
+        name: 'Coinbase',
+        detect: ['timestamp', 'transaction type', 'asset', 'quantity transacted'],
+        columns: {
+            date: ['timestamp'],
+            action: ['transaction type'],
+            symbol: ['asset'],
+            quantity: ['quantity transacted'],
+            price: ['spot price at transaction', 'price at transaction'],
+            priceCurrency: ['spot price currency', 'price currency'],
+            amount: ['subtotal'],
+            currency: ['spot price currency', 'price currency'],
+            fees: ['fees and/or spread', 'fees']
+        },
+        dateFormat: 'YMD',
+        decimal: '.',
+        actions: [
+            // Rewards arrive as coins valued at the spot price, which becomes their cost basis
+            { match: 'reward', type: 'BUY' },
+            { match: 'staking income', type: 'BUY' },
+            { match: 'learning', type: 'BUY' },
+            { match: 'sell', type: 'SELL' },
+            { match: 'buy', type: 'BUY' },
+            { match: 'deposit', type: 'DEPOSIT' },
+            { match: 'withdrawal', type: 'WITHDRAWAL' },
+            // Moves between wallets and coin-to-coin conversions are not trades against cash
+            { match: 'send', type: 'SKIP' },
+            { match: 'receive', type: 'SKIP' },
+            { match: 'convert', type: 'SKIP' }
+        ],
+        defaultAction: 'SKIP'
+    }
+];
+
+export const genericProfile = (): BrokerProfile => GENERIC_PROFILE;
+
+export const loadCustomProfiles = (): BrokerProfile[] => {
+    try {
+        const raw = localStorage.getItem(CUSTOM_PROFILES_STORAGE_KEY);
+        const saved = raw ? JSON.parse(raw) : [];
+        return Array.isArray(saved) ? saved.map((p: BrokerProfile) => ({ ...p, custom: true })) : [];
+    } catch (e) {
+        console.warn("Failed to parse saved import profiles");
+        return [];
+    }
+};
+
+/** Saves a mapping made on the import screen, replacing any saved profile with the same id. */
+export const saveCustomProfile = (profile: BrokerProfile): BrokerProfile[] => {
+    const profiles = [...loadCustomProfiles().filter(p => p.id !== profile.id), { ...profile, custom: true }];
+    localStorage.setItem(CUSTOM_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    return profiles;
+};
+
+/**
+ * A profile from the column-mapping screen: one header per field. The mapped headers identify the
+ * export next time, and actions are read with the common wording (rows with no action are buys).
+ */
+export const buildCustomProfile = (
+    name: string,
+    mapping: Partial<Record<ImportField, string>>,
+    dateFormat: ImportDateFormat,
+    decimal: DecimalSeparator
+): BrokerProfile => {
+    const columns: Partial<Record<ImportField, string[]>> = {};
+    (Object.keys(mapping) as ImportField[]).forEach(field => {
+        if (mapping[field]) columns[field] = [mapping[field] as string];
+    });
+    return {
+        id: `custom-${Date.now()}`,
+        name: name.trim() || 'Custom mapping',
+        custom: true,
+        detect: Array.from(new Set(Object.values(columns).map(c => c[0]))),
+        columns,
+        dateFormat,
+        decimal,
+        actions: COMMON_ACTION_RULES,
+        defaultAction: 'BUY'
+    };
+};
+
+export const deleteCustomProfile = (id: string): BrokerProfile[] => {
+    const profiles = loadCustomProfiles().filter(p => p.id !== id);
+    localStorage.setItem(CUSTOM_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    return profiles;
+};
+
+// Saved mappings come first so a user's own profile wins over a built-in one for the same headers
+export const listProfiles = (): BrokerProfile[] => [...loadCustomProfiles(), ...BUILT_IN_PROFILES, GENERIC_PROFILE];
+
+/**
+ * The profile whose identifying headers all appear in `headers`, preferring the most specific
+ * match. Falls back to the generic profile.
+ */
+export const detectProfile = (headers: string[], profiles: BrokerProfile[] = listProfiles()): BrokerProfile => {
+    const present = new Set(headers);
+    const matches = profiles.filter(p => p.detect.length > 0 && p.detect.every(h => present.has(h)));
+    matches.sort((a, b) => Number(!!b.custom) - Number(!!a.custom) || b.detect.length - a.detect.length);
+    return matches[0] || GENERIC_PROFILE;
+};
@@ -0,0 +1,166 @@
+import { parseAmount, parseImportDate } from './csv';
+import { normalizeSymbol } from './brokerCsv';
+import { ImportDateFormat, ImportedTransaction, ImportParseResult, SkippedRow } from './types';
+
+// One record: the field codes seen (first letter of each line) with their values, and where it starts
+interface QifRecord {
+    section: string;
+    fields: Record<string, string>;
+    line: number;
+}
+
+/** Splits a QIF file into records. Each `!Type:` or `!Account` header starts a section; `^` ends a record. */
+const readRecords = (text: string): QifRecord[] => {
+    const records: QifRecord[] = [];
+    let section = '';
+    let current: QifRecord | null = null;
+    text.replace(/^\ufeff/, '').split(/\r?\n/).forEach((raw, i) => {
+        const line = raw.trim();
+        if (!line) return;
+        if (line.startsWith('!')) {
+            // Option lines (!Option:AutoSwitch, !Clear:AutoSwitch) do not change the section
+            if (/^!(type|account)/i.test(line)) section = line.slice(1).toLowerCase().replace(/\s+/g, '');
+            current = null;
+            return;
+        }
+        if (line === '^') {
+            if (current) records.push(current);
+            current = null;
+            return;
+        }
+        if (!current) current = { section, fields: {}, line: i + 1 };
+        const code = line[0];
+        // Split lines (S, E, $) repeat; only the first of each is kept
+        if (current.fields[code] === undefined) current.fields[code] = line.slice(1).trim();
+    });
+    if (current) records.push(current);
+    return records;
+};
+
+// QIF dates look like 1/15'24, 01/15/2024 or 15.01.2024; the apostrophe marks a 2000s year
+const cleanDate = (raw: string) => raw.replace(/'/g, '/').replace(/\s+/g, '');
+
+/** Day-first when any date's first part cannot be a month, otherwise the US month-first order. */
+const detectDateOrder = (records: QifRecord[]): ImportDateFormat => {
+    const dayFirst = records.some(r => {
+        const parts = cleanDate(r.fields.D || '').match(/^(\d{1,2})[/.-]/);
+        return parts ? Number(parts[1]) > 12 : false;
+    });
+    return dayFirst ? 'DMY' : 'MDY';
+};
+
+type QifAction = ImportedTransaction['type'] | 'REINVEST';
+
+// Quicken investment actions. An X suffix means the cash came from or went to another account.
+const INVESTMENT_ACTIONS: Record<string, QifAction> = {
+    buy: 'BUY',
+    sell: 'SELL',
+    div: 'DIVIDEND',
+    cglong: 'DIVIDEND',
+    cgmid: 'DIVIDEND',
+    cgshort: 'DIVIDEND',
+    intinc: 'INTEREST',
+    miscinc: 'INTEREST',
+    reinvdiv: 'REINVEST',
+    reinvint: 'REINVEST',
+    reinvlg: 'REINVEST',
+    reinvmd: 'REINVEST',
+    reinvsh: 'REINVEST',
+    xin: 'DEPOSIT',
+    contrib: 'DEPOSIT',
+    xout: 'WITHDRAWAL',
+    withdrw: 'WITHDRAWAL',
+    miscexp: 'FEE',
+    margint: 'FEE',
+    cash: 'DEPOSIT'
+};
+
+const NOT_IMPORTED: Record<string, string> = {
+    shrsin: 'Share transfers are not imported',
+    shrsout: 'Share transfers are not imported',
+    stksplit: 'Record splits as a corporate action',
+    rtrncap: 'Return of capital is not imported',
+    reminder: 'Reminders are not transactions'
+};
+
+/**
+ * Reads a QIF file into ledger entries: investment accounts (trades, income, reinvestments and
+ * cash moves) and bank, cash or card accounts (deposits and withdrawals). Securities are named by
+ * the symbol in the file's `!Type:Security` list, falling back to the name. Commissions become
+ * separate FEE entries, and a reinvestment a dividend (or interest) plus the buy it paid for.
+ * The date order is inferred from the dates themselves unless given.
+ */
+export const parseQif = (text: string, dateFormat?: ImportDateFormat): ImportParseResult => {
+    const records = readRecords(text);
+    const order = dateFormat || detectDateOrder(records);
+    const transactions: ImportedTransaction[] = [];
+    const skipped: SkippedRow[] = [];
+
+    const symbols = new Map<string, string>();
+    records.filter(r => r.section === 'type:security').forEach(r => {
+        if (r.fields.N && r.fields.S) symbols.set(r.fields.N.toLowerCase(), normalizeSymbol(r.fields.S));
+    });
+
+    records.forEach(record => {
+        const { section, fields, line } = record;
+        if (section === 'type:security' || section === 'account' || section.startsWith('type:cat') || section.startsWith('type:class') || section.startsWith('type:memorized')) return;
+        const skip = (reason: string) => skipped.push({ line, reason });
+
+        const date = parseImportDate(cleanDate(fields.D || ''), order);
+        if (!date) return skip(`Unreadable date "${fields.D || ''}"`);
+
+        const total = parseAmount(fields.T || fields.U);
+
+        if (section !== 'type:invst') {
+            if (Number.isNaN(total) || total === 0) return skip('No amount');
+            transactions.push({ symbol: '', name: '', date, type: total > 0 ? 'DEPOSIT' : 'WITHDRAWAL', shares: 0, price: 0, amount: Math.abs(total) });
+            return;
+        }
+
+        const actionCode = (fields.N || '').toLowerCase().replace(/\s+/g, '');
+        const transferred = actionCode.length > 1 && actionCode.endsWith('x');
+        const baseAction = transferred ? actionCode.slice(0, -1) : actionCode;
+        if (NOT_IMPORTED[baseAction]) return skip(NOT_IMPORTED[baseAction]);
+        const action = INVESTMENT_ACTIONS[baseAction];
+        if (!action) return skip(`Unrecognised action "${fields.N || ''}"`);
+
+        const securityName = fields.Y || '';
+        // Without a security list entry the name stands in for the ticker, for the preview to flag
+        const symbol = symbols.get(securityName.toLowerCase()) || securityName.trim().toUpperCase();
+        const name = securityName || symbol;
+        const quantity = Math.abs(parseAmount(fields.Q));
+        const commission = Math.abs(parseAmount(fields.O)) || 0;
+        const value = Math.abs(total) || 0;
+        // Cash moved to or from another account by an X action, so the account balance is unchanged
+        const transferAmount = Math.abs(parseAmount(fields.$)) || value;
+
+        if (action === 'BUY' || action === 'SELL' || action === 'REINVEST') {
+            if (!symbol || !(quantity > 0)) return skip(!symbol ? 'Trade without a security' : 'Trade without a quantity');
+            let price = Math.abs(parseAmount(fields.I));
+            if (!(price > 0) && value > 0) price = (action === 'SELL' ? value + commission : value - commission) / quantity;
+            if (!(price > 0)) return skip(`No price for ${symbol}`);
+
+            if (action === 'REINVEST') {
+                const income = baseAction === 'reinvint' ? 'INTEREST' : 'DIVIDEND';
+                transactions.push({ symbol: income === 'DIVIDEND' ? symbol : '', name: income === 'DIVIDEND' ? name : '', date, type: income, shares: 0, price: 0, amount: value || quantity * price + commission });
+            }
+            if (transferred && action === 'BUY') transactions.push({ symbol: '', name: '', date, type: 'DEPOSIT', shares: 0, price: 0, amount: transferAmount });
+            transactions.push({ symbol, name, date, type: action === 'SELL' ? 'SELL' : 'BUY', shares: quantity, price });
+            if (commission > 0) transactions.push({ symbol: '', name: '', date, type: 'FEE', shares: 0, price: 0, amount: commission });
+            if (transferred && action === 'SELL') transactions.push({ symbol: '', name: '', date, type: 'WITHDRAWAL', shares: 0, price: 0, amount: transferAmount });
+            return;
+        }
+
+        if (!value) return skip('No amount');
+
+        // A plain Cash entry goes either way
+        const type = baseAction === 'cash' && total < 0 ? 'WITHDRAWAL' : action;
+        const paidBy = type === 'DIVIDEND' ? symbol : '';
+        transactions.push({ symbol: paidBy, name: paidBy ? name : '', date, type, shares: 0, price: 0, amount: value });
+        if (transferred && (action === 'DIVIDEND' || action === 'INTEREST')) {
+            transactions.push({ symbol: '', name: '', date, type: 'WITHDRAWAL', shares: 0, price: 0, amount: transferAmount });
+        }
+    });
+
+    return { format: 'qif', source: `QIF file (${order === 'DMY' ? 'day/month' : 'month/day'} dates)`, headers: [], transactions, skipped };
+};
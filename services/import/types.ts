@@ -0,0 +1,126 @@
+import { TransactionType } from '../../types';
+
+// One ledger entry read from a broker export, in the shape `importPortfolio` accepts. Trades are
+// valued at shares x price; cash entries carry their own (positive) `amount`.
+export interface ImportedTransaction {
+    symbol: string;
+    name: string;
+    date: string; // YYYY-MM-DD
+    type: TransactionType;
+    shares: number;
+    price: number;
+    amount?: number;
+    currency?: string;
+    toCurrency?: string;
+    fxRate?: number;
+    isin?: string;
+    sourceSymbol?: string; // The symbol as the file wrote it, once resolved to the app's instrument
+    reference?: string; // The broker's own id for the order, payment or cash movement, when the source gives one
+}
+
+// Columns an export can map to. Headers are matched case-insensitively, and a trailing '*' matches
+// any ending. `fees` adds up every listed column that is present, `action` joins them, and the
+// rest take the first non-empty one.
+export type ImportField =
+    | 'date'
+    | 'action'
+    | 'symbol'
+    | 'name'
+    | 'isin'
+    | 'quantity'
+    | 'price'
+    | 'priceCurrency'
+    | 'amount'
+    | 'currency'
+    | 'fees'
+    | 'withholding'
+    | 'withholdingCurrency'
+    | 'exchangeRate'
+    | 'fxFromAmount'
+    | 'fxFromCurrency'
+    | 'fxToAmount'
+    | 'fxToCurrency';
+
+// How day, month and year are ordered in the export's dates. Times after the date are ignored.
+export type ImportDateFormat = 'YMD' | 'DMY' | 'MDY';
+
+export type DecimalSeparator = '.' | ',';
+
+// TRADE is a buy or sell decided by the sign of the quantity (or, failing that, the amount);
+// TRANSFER is a deposit or withdrawal decided by the sign of the amount; SKIP drops the row.
+export type ImportAction = TransactionType | 'TRADE' | 'TRANSFER' | 'SKIP';
+
+// The first rule whose `match` appears in the lower-cased action text wins
+export interface ActionRule {
+    match: string;
+    type: ImportAction;
+}
+
+export interface SymbolRules {
+    stripSuffixes?: string[]; // Broker-specific endings, e.g. '_US_EQ'
+    splitOn?: string; // Keep only the part before this separator
+}
+
+export interface BrokerProfile {
+    id: string;
+    name: string;
+    custom?: boolean; // Saved from the column-mapping screen
+    detect: string[]; // Headers that identify the export; all must be present
+    columns: Partial<Record<ImportField, string[]>>;
+    dateFormat: ImportDateFormat;
+    decimal: DecimalSeparator;
+    delimiter?: string; // Detected from the header line when unset
+    actions: ActionRule[];
+    defaultAction?: ImportAction; // For rows whose action matches no rule, or exports without an action column
+    symbols?: SymbolRules;
+    netDividends?: boolean; // Dividend amounts are net of `withholding`, which is added back to get the gross
+    sectioned?: boolean; // Several reports in one file (IBKR): only 'Data' rows of the header's section are read
+}
+
+export interface SkippedRow {
+    line: number; // 1-based line in the file
+    reason: string;
+}
+
+// 'duplicate' rows are already in the ledger; neither they nor 'error' rows are imported
+export type ImportRowStatus = 'new' | 'duplicate' | 'error';
+
+export interface ImportPreviewRow {
+    row: ImportedTransaction;
+    importId: string;
+    status: ImportRowStatus;
+    errors: string[];
+    warnings: string[]; // Shown, but the row is still imported
+}
+
+export interface HoldingChange {
+    symbol: string;
+    name: string;
+    sharesBefore: number;
+    sharesAfter: number;
+    avgPriceBefore: number;
+    avgPriceAfter: number;
+}
+
+export interface ImportPreview {
+    rows: ImportPreviewRow[];
+    changes: HoldingChange[];
+}
+
+// What an import added; rows already in the portfolio (same content hash) are counted, not added
+export interface ImportResult {
+    imported: number;
+    duplicates: number;
+}
+
+// CSV exports are read through a broker profile; OFX/QFX and QIF are standard statement formats
+export type ImportFileFormat = 'csv' | 'ofx' | 'qif';
+
+export interface ImportParseResult {
+    format: ImportFileFormat;
+    source: string; // The broker profile or statement format the file was read as
+    profile?: BrokerProfile; // CSV only
+    headers: string[];
+    transactions: ImportedTransaction[];
+    skipped: SkippedRow[];
+}
@@ -0,0 +1,77 @@
+import { CorporateAction, Holding, Transaction } from '../types';
+import { buildLotReport } from './taxLots';
+
+export interface LedgerPosition {
+    symbol: string;
+    shares: number;
+    costBasis: number;
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * Shares and pooled cost per symbol left open once the whole ledger (and any corporate actions)
+ * has been replayed. Average cost is what `Holding.avgPrice` carries, whatever method the lots use.
+ */
+export const ledgerPositions = (transactions: Transaction[], corporateActions: CorporateAction[] = []): Map<string, LedgerPosition> => {
+    const positions = new Map<string, LedgerPosition>();
+    buildLotReport(transactions, 'AVERAGE', {}, undefined, corporateActions).openLots.forEach(lot => {
+        const position = positions.get(lot.symbol) || { symbol: lot.symbol, shares: 0, costBasis: 0 };
+        position.shares += lot.shares;
+        position.costBasis += lot.costBasis;
+        positions.set(lot.symbol, position);
+    });
+    return positions;
+};
+
+/**
+ * Brings the holdings in line with an edited ledger. Only symbols whose replayed position moved
+ * are touched. A holding that matched the old ledger is rebuilt from the new one; one that did
+ * not (synced from a broker, imported without full history or edited by hand) keeps its
+ * unexplained shares and only moves by the difference. `newHolding` supplies the catalogue
+ * fields for a symbol that is not held yet.
+ */
+export const rebuildHoldings = (
+    holdings: Holding[],
+    before: Transaction[],
+    after: Transaction[],
+    corporateActions: CorporateAction[],
+    newHolding: (symbol: string) => Holding
+): Holding[] => {
+    const previous = ledgerPositions(before, corporateActions);
+    const next = ledgerPositions(after, corporateActions);
+    const empty = (symbol: string): LedgerPosition => ({ symbol, shares: 0, costBasis: 0 });
+
+    const changed = Array.from(new Set([...previous.keys(), ...next.keys()])).filter(symbol => {
+        const a = previous.get(symbol) || empty(symbol);
+        const b = next.get(symbol) || empty(symbol);
+        return Math.abs(a.shares - b.shares) > EPSILON || Math.abs(a.costBasis - b.costBasis) > EPSILON;
+    });
+
+    let result = [...holdings];
+    changed.forEach(symbol => {
+        const was = previous.get(symbol) || empty(symbol);
+        const now = next.get(symbol) || empty(symbol);
+        const holding = result.find(h => h.symbol.toUpperCase() === symbol);
+
+        let shares = now.shares;
+        let costBasis = now.costBasis;
+        if (holding && Math.abs(holding.shares - was.shares) > EPSILON) {
+            shares = holding.shares + now.shares - was.shares;
+            costBasis = holding.shares * holding.avgPrice + now.costBasis - was.costBasis;
+        }
+
+        if (shares <= EPSILON) {
+            result = result.filter(h => h !== holding);
+            return;
+        }
+        const avgPrice = Math.max(0, costBasis) / shares;
+        if (holding) {
+            result = result.map(h => h === holding ? { ...h, shares, avgPrice } : h);
+        } else {
+            const base = newHolding(symbol);
+            result.push({ ...base, shares, avgPrice, currentPrice: base.currentPrice > 0 ? base.currentPrice : avgPrice });
+        }
+    });
+    return result;
+};
@@ -0,0 +1,103 @@
+import { ManualAsset, ManualAssetType, ManualAssetValuation, ValuationModel } from '../types';
+
+export interface PurchaseGain {
+    gain: number;
+    gainPct: number;
+    annualizedPct: number | null; // Only once the asset has been held for a year
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const yearsBetween = (from: string, to: string) =>
+    Math.max(0, (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / YEAR_MS);
+
+export const VALUATION_MODELS: { id: ValuationModel['type']; label: string; description: string }[] = [
+    { id: 'appreciation', label: 'Appreciation', description: 'Grows by a fixed percentage a year, compounded (typical for real estate).' },
+    { id: 'straight-line', label: 'Straight-line Depreciation', description: 'Loses the same amount each year until it reaches its salvage value.' },
+    { id: 'declining-balance', label: 'Declining Balance', description: 'Loses a fixed percentage of its remaining value each year (typical for vehicles).' }
+];
+
+// Starting points offered when a model is first switched on
+export const defaultValuationModel = (type: ManualAssetType): ValuationModel => {
+    switch (type) {
+        case 'Vehicle': return { type: 'declining-balance', annualRate: 15 };
+        case 'Real Estate': return { type: 'appreciation', annualRate: 3 };
+        default: return { type: 'appreciation', annualRate: 0 };
+    }
+};
+
+export const describeValuationModel = (model: ValuationModel): string => {
+    switch (model.type) {
+        case 'appreciation': return `${model.annualRate >= 0 ? '+' : ''}${model.annualRate}%/yr`;
+        case 'declining-balance': return `-${model.annualRate}%/yr`;
+        case 'straight-line': return `${model.usefulLifeYears}y straight-line`;
+    }
+};
+
+/** The purchase (when known) followed by each recorded valuation, oldest first. */
+export const valuationHistory = (asset: ManualAsset): ManualAssetValuation[] => {
+    const recorded = [...(asset.valuations || [])].sort((a, b) => a.date.localeCompare(b.date));
+    const purchase = asset.purchaseDate && asset.purchasePrice && (recorded.length === 0 || asset.purchaseDate < recorded[0].date)
+        ? [{ date: asset.purchaseDate, value: asset.purchasePrice }]
+        : [];
+    return [...purchase, ...recorded];
+};
+
+/** `value` on `from` moved on to `to` by the model. Straight-line depreciates the purchase price when known. */
+export const applyValuationModel = (model: ValuationModel, value: number, from: string, to: string, purchasePrice?: number): number => {
+    const years = yearsBetween(from, to);
+    switch (model.type) {
+        case 'appreciation':
+            return value * Math.pow(1 + model.annualRate / 100, years);
+        case 'declining-balance':
+            return Math.max(model.salvageValue || 0, value * Math.pow(1 - model.annualRate / 100, years));
+        case 'straight-line': {
+            const salvage = model.salvageValue || 0;
+            if (model.usefulLifeYears <= 0 || value <= salvage) return value;
+            const perYear = ((purchasePrice || value) - salvage) / model.usefulLifeYears;
+            return Math.max(salvage, value - perYear * years);
+        }
+    }
+};
+
+/**
+ * Value on `date`: the last recorded value by then, moved on by the valuation model if there is
+ * one. Assets without a valuation history keep their single value; before the purchase date an
+ * asset is worth nothing.
+ */
+export const valueOn = (asset: ManualAsset, date: string = toISODate(new Date())): number => {
+    if (!asset.valuations || asset.valuations.length === 0) return asset.value;
+    const history = valuationHistory(asset);
+    const known = history.filter(p => p.date <= date);
+    if (known.length === 0) return asset.purchaseDate && date < asset.purchaseDate ? 0 : history[0].value;
+    const last = known[known.length - 1];
+    return asset.valuationModel ? applyValuationModel(asset.valuationModel, last.value, last.date, date, asset.purchasePrice) : last.value;
+};
+
+export const gainSincePurchase = (asset: ManualAsset, date: string = toISODate(new Date())): PurchaseGain | null => {
+    if (!asset.purchasePrice || asset.purchasePrice <= 0) return null;
+    const value = valueOn(asset, date);
+    const years = asset.purchaseDate ? yearsBetween(asset.purchaseDate, date) : 0;
+    return {
+        gain: value - asset.purchasePrice,
+        gainPct: (value / asset.purchasePrice - 1) * 100,
+        annualizedPct: years >= 1 && value > 0 ? (Math.pow(value / asset.purchasePrice, 1 / years) - 1) * 100 : null
+    };
+};
+
+/** Month-end values from the first known value to `to`, for charting. */
+export const valuationSeries = (asset: ManualAsset, to: string = toISODate(new Date())): ManualAssetValuation[] => {
+    const history = valuationHistory(asset);
+    if (history.length === 0) return [{ date: to, value: asset.value }];
+    const points: ManualAssetValuation[] = [];
+    const start = new Date(`${history[0].date}T00:00:00Z`);
+    for (let m = 0; ; m++) {
+        const date = toISODate(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + m + 1, 0)));
+        if (date >= to) break;
+        points.push({ date, value: valueOn(asset, date) });
+    }
+    points.push({ date: to, value: valueOn(asset, to) });
+    return points;
+};
@@ -0,0 +1,93 @@
+import { NetWorthSnapshot } from '../types';
+import { convertCurrency, FxRates } from './fx';
+import { getPeriodStartDate, PerformancePeriod } from './performance';
+
+export interface BalanceSheet {
+    investments: number;
+    cash: number;
+    manualAssets: number;
+    liabilities: number;
+}
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+export const snapshotKey = (s: Pick<NetWorthSnapshot, 'date' | 'portfolioId'>) => `${s.portfolioId || 'total'}|${s.date}`;
+
+export const createSnapshot = (
+    sheet: BalanceSheet,
+    currency: string,
+    portfolioId?: string,
+    date: string = toISODate(new Date())
+): NetWorthSnapshot => {
+    const totalAssets = sheet.investments + sheet.cash + sheet.manualAssets;
+    return {
+        date,
+        portfolioId,
+        currency,
+        ...sheet,
+        totalAssets,
+        netWorth: totalAssets - sheet.liabilities,
+        recordedAt: new Date().toISOString()
+    };
+};
+
+/** Adds `snapshot`, replacing any already taken for the same scope and day. Sorted by date. */
+export const upsertSnapshot = (snapshots: NetWorthSnapshot[], snapshot: NetWorthSnapshot): NetWorthSnapshot[] =>
+    [...snapshots.filter(s => snapshotKey(s) !== snapshotKey(snapshot)), snapshot].sort((a, b) => a.date.localeCompare(b.date));
+
+/** Values restated in `base` at the rate of the snapshot's day, for history recorded under another base currency. */
+export const restateSnapshot = (snapshot: NetWorthSnapshot, base: string, rates: FxRates): NetWorthSnapshot => {
+    if (snapshot.currency === base) return snapshot;
+    const convert = (value: number) => convertCurrency(value, snapshot.currency, base, rates, snapshot.date);
+    return {
+        ...snapshot,
+        currency: base,
+        investments: convert(snapshot.investments),
+        cash: convert(snapshot.cash),
+        manualAssets: convert(snapshot.manualAssets),
+        liabilities: convert(snapshot.liabilities),
+        totalAssets: convert(snapshot.totalAssets),
+        netWorth: convert(snapshot.netWorth)
+    };
+};
+
+/**
+ * The user's total for `date`: each portfolio's latest snapshot on or before that day, summed in
+ * `base`. Portfolios only get snapshots while they are open, so a total can include a portfolio's
+ * values from an earlier day. Null when none of the portfolios has a snapshot yet.
+ */
+export const combineSnapshots = (
+    snapshots: NetWorthSnapshot[],
+    portfolioIds: string[],
+    base: string,
+    rates: FxRates,
+    date: string = toISODate(new Date())
+): NetWorthSnapshot | null => {
+    const latest = portfolioIds
+        .map(id => snapshots.filter(s => s.portfolioId === id && s.date <= date).pop())
+        .filter((s): s is NetWorthSnapshot => !!s)
+        .map(s => restateSnapshot(s, base, rates));
+    if (latest.length === 0) return null;
+    const sum = (field: keyof BalanceSheet) => latest.reduce((total, s) => total + s[field], 0);
+    return createSnapshot(
+        { investments: sum('investments'), cash: sum('cash'), manualAssets: sum('manualAssets'), liabilities: sum('liabilities') },
+        base,
+        undefined,
+        date
+    );
+};
+
+/** Snapshots for one scope (a portfolio id, or undefined for the user's total) within `period`, in `base`. */
+export const snapshotHistory = (
+    snapshots: NetWorthSnapshot[],
+    portfolioId: string | undefined,
+    period: PerformancePeriod,
+    base: string,
+    rates: FxRates,
+    asOf: string = toISODate(new Date())
+): NetWorthSnapshot[] => {
+    const scoped = snapshots.filter(s => (s.portfolioId || undefined) === portfolioId && s.date <= asOf);
+    if (scoped.length === 0) return [];
+    const start = getPeriodStartDate(period, asOf, scoped[0].date);
+    return scoped.filter(s => s.date >= start).map(s => restateSnapshot(s, base, rates));
+};
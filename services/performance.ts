@@ -0,0 +1,475 @@
+import { AssetType, CorporateAction, Portfolio, Transaction } from '../types';
+import { fetchPriceHistory, PricePoint, ProviderConfig } from './marketData';
+import { sortCorporateActions, spinOffAllocation } from './corporateActions';
+import { cashImpact, externalFlow, incomeOf, isTradeTransaction, tracksCash } from './cashLedger';
+import { convertCurrency, FxRates } from './fx';
+
+export type PerformancePeriod = '1M' | '6M' | 'YTD' | '1Y' | 'ALL';
+export const PERFORMANCE_PERIODS: PerformancePeriod[] = ['1M', '6M', 'YTD', '1Y', 'ALL'];
+
+// Symbol -> daily closes, ascending by date
+export type PriceHistoryMap = Record<string, PricePoint[]>;
+
+export interface DailyValue {
+    date: string;
+    value: number;   // Market value of all positions at the day's close, plus cash when the ledger tracks it
+    netFlow: number; // External flow on the day: + money invested, - money taken out
+    income: number;  // Dividends and interest received on the day, net of fees and withholding
+}
+
+// Values the series in `base`: positions at each day's rate, cash and flows at the rate of their date
+export interface DailyValueFx {
+    rates: FxRates;
+    base: string;
+    currencies: Record<string, string | undefined>; // Listing currency by symbol; USD when missing
+}
+
+export interface PerformanceSeriesPoint {
+    date: string;
+    value: number;
+    netFlow: number; // Flow counted inside the period (the opening day of a mid-history period has none)
+    twr: number; // Cumulative time-weighted return since the period start, in %
+}
+
+export interface PeriodPerformance {
+    period: PerformancePeriod;
+    startDate: string;
+    endDate: string;
+    startValue: number;
+    endValue: number;
+    netFlows: number;
+    income: number;     // Part of the gain received as dividends and interest, net of fees and withholding
+    gain: number;       // Money gained after removing contributions/withdrawals
+    twr: number;        // Cumulative time-weighted return, %
+    mwr: number | null; // Annualised money-weighted return (XIRR), %; null when it cannot be solved
+    series: PerformanceSeriesPoint[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const parseDate = (iso: string) => new Date(`${iso.split('T')[0]}T00:00:00Z`);
+
+const addDays = (iso: string, days: number) => toISODate(new Date(parseDate(iso).getTime() + days * DAY_MS));
+
+const shareDelta = (tx: Transaction): number => {
+    if (tx.type === 'BUY') return tx.shares;
+    if (tx.type === 'SELL') return -tx.shares;
+    if (tx.type === 'ADJUST') return tx.shares; // Carries a signed share correction
+    return 0;
+};
+
+/**
+ * Replays the transaction ledger day by day and values each day's positions.
+ * Prices come from historical closes; days before the first close fall back to the
+ * last traded price, and the final day uses the live quote when one is supplied.
+ * Corporate actions restate positions on their date, before that day's trades.
+ * Once the ledger records deposits or withdrawals, the account's cash is valued too and
+ * only those count as flows; otherwise trades and merger cash are the flows, as if each
+ * purchase were funded from outside, and income counts as paid out to the investor.
+ */
+export const buildDailyValues = (
+    transactions: Transaction[],
+    history: PriceHistoryMap,
+    currentPrices: Record<string, number> = {},
+    endDate: string = toISODate(new Date()),
+    corporateActions: CorporateAction[] = [],
+    fx?: DailyValueFx
+): DailyValue[] => {
+    const ledger = [...transactions]
+        .filter(t => t.date)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    if (ledger.length === 0) return [];
+
+    const tracked = tracksCash(ledger);
+    const startDate = ledger[0].date.split('T')[0];
+    if (startDate > endDate) return [];
+
+    const shares: Record<string, number> = {};
+    const lastTradePrice: Record<string, number> = {};
+    const lastClose: Record<string, number> = {};
+    const cursor: Record<string, number> = {};
+    let cash = 0;
+
+    const toBase = (amount: number, currency: string | undefined, day: string) =>
+        fx && amount !== 0 ? convertCurrency(amount, currency, fx.base, fx.rates, day) : amount;
+
+    // Raw closes change basis at a split or rename, so the fallback prices must follow the shares.
+    // Returns the cash paid out by the action.
+    const applyAction = (action: CorporateAction): number => {
+        const sym = action.symbol.toUpperCase();
+        const qty = shares[sym] || 0;
+        if (Math.abs(qty) < 0.000001) return 0;
+
+        const ratio = action.ratio || 0;
+        const target = action.newSymbol?.toUpperCase();
+        const price = lastClose[sym] ?? lastTradePrice[sym] ?? 0;
+        const receive = (targetShares: number, targetPrice: number) => {
+            if (!target) return;
+            shares[target] = (shares[target] || 0) + targetShares;
+            if (lastTradePrice[target] === undefined && targetPrice > 0) lastTradePrice[target] = targetPrice;
+        };
+
+        switch (action.type) {
+            case 'SPLIT':
+                if (!(ratio > 0)) return 0;
+                shares[sym] = qty * ratio;
+                if (lastTradePrice[sym] !== undefined) lastTradePrice[sym] /= ratio;
+                if (lastClose[sym] !== undefined) lastClose[sym] /= ratio;
+                return 0;
+            case 'SYMBOL_CHANGE':
+                if (!target) return 0;
+                delete shares[sym];
+                receive(qty, price);
+                return 0;
+            case 'MERGER': {
+                const cash = action.cashPerShare || 0;
+                delete shares[sym];
+                if (ratio > 0) receive(qty * ratio, Math.max(0, price - cash) / ratio);
+                return qty * cash;
+            }
+            case 'SPIN_OFF': {
+                if (!(ratio > 0)) return 0;
+                const allocation = spinOffAllocation(action);
+                receive(qty * ratio, (price * allocation) / ratio);
+                // The parent trades ex-spin-off from the effective date
+                if (lastTradePrice[sym] !== undefined) lastTradePrice[sym] *= 1 - allocation;
+                if (lastClose[sym] !== undefined) lastClose[sym] *= 1 - allocation;
+                return 0;
+            }
+        }
+    };
+
+    const actions = sortCorporateActions(corporateActions);
+    let actionIdx = 0;
+
+    const points: DailyValue[] = [];
+    let txIdx = 0;
+
+    for (let day = startDate; day <= endDate; day = addDays(day, 1)) {
+        let netFlow = 0;
+        let income = 0;
+        while (actionIdx < actions.length && actions[actionIdx].date.split('T')[0] <= day) {
+            const action = actions[actionIdx];
+            const proceeds = toBase(applyAction(action), fx?.currencies[action.symbol.toUpperCase()], day);
+            if (tracked) cash += proceeds;
+            else netFlow -= proceeds;
+            actionIdx++;
+        }
+        while (txIdx < ledger.length && ledger[txIdx].date.split('T')[0] <= day) {
+            const tx = ledger[txIdx];
+            if (isTradeTransaction(tx)) {
+                const sym = tx.symbol.toUpperCase();
+                shares[sym] = (shares[sym] || 0) + shareDelta(tx);
+                if (tx.price > 0) lastTradePrice[sym] = tx.price;
+            }
+            const currency = tx.currency || fx?.currencies[tx.symbol.toUpperCase()];
+            if (tracked) cash += toBase(cashImpact(tx, tracked), currency, day);
+            netFlow += toBase(externalFlow(tx, tracked), currency, day);
+            income += toBase(incomeOf(tx), currency, day);
+            txIdx++;
+        }
+
+        let value = cash;
+        Object.keys(shares).forEach(sym => {
+            const qty = shares[sym];
+            if (Math.abs(qty) < 0.000001) return;
+
+            const closes = history[sym] || [];
+            let i = cursor[sym] || 0;
+            while (i < closes.length && closes[i].date <= day) {
+                lastClose[sym] = closes[i].close;
+                i++;
+            }
+            cursor[sym] = i;
+
+            let price = lastClose[sym] ?? lastTradePrice[sym] ?? 0;
+            if (day === endDate && currentPrices[sym] > 0) price = currentPrices[sym];
+            value += toBase(qty * price, fx?.currencies[sym], day);
+        });
+
+        points.push({ date: day, value, netFlow, income });
+    }
+
+    return points;
+};
+
+// How far either side of a split to look for the closes that show its basis change
+const SPLIT_CHECK_DAYS = 7;
+
+/**
+ * Checks the closes around each split in the ledger against its ratio. Raw closes fall by the
+ * ratio on the split day; closes that barely move there were served split-adjusted (some feeds
+ * do this for "raw" history), and would read as a jump of the ratio against the ledger's share
+ * counts. Those symbols get their earlier closes scaled back up to the traded basis.
+ */
+export const alignSplitBasis = (history: PriceHistoryMap, corporateActions: CorporateAction[]): PriceHistoryMap => {
+    const aligned: PriceHistoryMap = { ...history };
+    corporateActions
+        .filter(a => a.type === 'SPLIT' && (a.ratio || 0) > 0 && a.ratio !== 1)
+        .forEach(split => {
+            const sym = split.symbol.toUpperCase();
+            const closes = aligned[sym] || [];
+            const date = split.date.split('T')[0];
+            const idx = closes.findIndex(p => p.date >= date);
+            if (idx <= 0) return;
+            const before = closes[idx - 1];
+            const after = closes[idx];
+            if (before.date < addDays(date, -SPLIT_CHECK_DAYS) || after.date > addDays(date, SPLIT_CHECK_DAYS)) return;
+            if (!(before.close > 0) || !(after.close > 0)) return;
+
+            const ratio = split.ratio as number;
+            const move = Math.abs(Math.log(after.close / before.close));
+            const tradedMove = Math.abs(Math.log((after.close * ratio) / before.close));
+            if (move >= tradedMove) return;
+            aligned[sym] = closes.map(p => (p.date < date ? { ...p, close: p.close * ratio } : p));
+        });
+    return aligned;
+};
+
+export const getPeriodStartDate = (period: PerformancePeriod, endDate: string, firstDate: string): string => {
+    const end = parseDate(endDate);
+    let start: Date;
+    switch (period) {
+        case '1M': start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 1, end.getUTCDate())); break;
+        case '6M': start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 6, end.getUTCDate())); break;
+        case '1Y': start = new Date(Date.UTC(end.getUTCFullYear() - 1, end.getUTCMonth(), end.getUTCDate())); break;
+        // YTD is measured from the last close of the previous year
+        case 'YTD': start = new Date(Date.UTC(end.getUTCFullYear() - 1, 11, 31)); break;
+        default: return firstDate;
+    }
+    const iso = toISODate(start);
+    return iso < firstDate ? firstDate : iso;
+};
+
+/**
+ * Solves for the annualised rate that zeroes the NPV of dated cash flows.
+ * Newton-Raphson first, bisection as a fallback when the derivative misbehaves.
+ */
+export const xirr = (flows: { date: string; amount: number }[]): number | null => {
+    const cashflows = flows.filter(f => Math.abs(f.amount) > 0.000001);
+    if (cashflows.length < 2) return null;
+    if (!cashflows.some(f => f.amount > 0) || !cashflows.some(f => f.amount < 0)) return null;
+
+    const t0 = parseDate(cashflows[0].date).getTime();
+    const years = cashflows.map(f => (parseDate(f.date).getTime() - t0) / (365 * DAY_MS));
+
+    const npv = (rate: number) => cashflows.reduce((acc, f, i) => acc + f.amount / Math.pow(1 + rate, years[i]), 0);
+    const dNpv = (rate: number) => cashflows.reduce((acc, f, i) => acc - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+    let rate = 0.1;
+    for (let i = 0; i < 50; i++) {
+        const value = npv(rate);
+        const derivative = dNpv(rate);
+        if (!Number.isFinite(value) || !Number.isFinite(derivative) || derivative === 0) break;
+        const next = rate - value / derivative;
+        if (next <= -0.9999 || !Number.isFinite(next)) break;
+        if (Math.abs(next - rate) < 1e-7) return next;
+        rate = next;
+    }
+
+    let low = -0.9999;
+    let high = 10;
+    let fLow = npv(low);
+    if (fLow * npv(high) > 0) return null;
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const fMid = npv(mid);
+        if (Math.abs(fMid) < 1e-6) return mid;
+        if (fLow * fMid < 0) {
+            high = mid;
+        } else {
+            low = mid;
+            fLow = fMid;
+        }
+    }
+    return (low + high) / 2;
+};
+
+/**
+ * TWR chain-links daily sub-period returns with flows booked at the close,
+ * so contributions and withdrawals do not distort the return.
+ */
+export const computePeriodPerformance = (points: DailyValue[], period: PerformancePeriod): PeriodPerformance | null => {
+    if (points.length === 0) return null;
+
+    const first = points[0].date;
+    const endDate = points[points.length - 1].date;
+    const startDate = getPeriodStartDate(period, endDate, first);
+
+    // A period that begins on (or before) the first trade starts from an empty portfolio
+    const fromInception = startDate <= first;
+    let startIdx = 0;
+    if (!fromInception) {
+        for (let i = 0; i < points.length; i++) {
+            if (points[i].date <= startDate) startIdx = i;
+            else break;
+        }
+    }
+
+    const window = points.slice(startIdx);
+    const startValue = fromInception ? 0 : window[0].value;
+    const flowPoints = fromInception ? window : window.slice(1);
+
+    let growth = 1;
+    let prevValue = startValue;
+    const series: PerformanceSeriesPoint[] = [];
+
+    window.forEach((p, i) => {
+        const flow = fromInception || i > 0 ? p.netFlow : 0;
+        if (fromInception || i > 0) {
+            let dailyReturn = 0;
+            if (prevValue > 0) {
+                dailyReturn = (p.value - flow) / prevValue - 1;
+            } else if (flow > 0) {
+                // Money arriving into an empty portfolio: measure against the amount invested
+                dailyReturn = (p.value - flow) / flow;
+            }
+            if (Number.isFinite(dailyReturn)) growth *= 1 + dailyReturn;
+        }
+        prevValue = p.value;
+        series.push({ date: p.date, value: p.value, netFlow: flow, twr: (growth - 1) * 100 });
+    });
+
+    const endValue = window[window.length - 1].value;
+    const netFlows = flowPoints.reduce((acc, p) => acc + p.netFlow, 0);
+    const income = flowPoints.reduce((acc, p) => acc + p.income, 0);
+
+    const cashflows: { date: string; amount: number }[] = [];
+    if (startValue > 0) cashflows.push({ date: window[0].date, amount: -startValue });
+    flowPoints.forEach(p => {
+        if (p.netFlow !== 0) cashflows.push({ date: p.date, amount: -p.netFlow });
+    });
+    cashflows.push({ date: endDate, amount: endValue });
+    const irr = xirr(cashflows);
+
+    return {
+        period,
+        startDate: window[0].date,
+        endDate,
+        startValue,
+        endValue,
+        netFlows,
+        income,
+        gain: endValue - startValue - netFlows,
+        twr: (growth - 1) * 100,
+        mwr: irr === null ? null : irr * 100,
+        series
+    };
+};
+
+/**
+ * Value of a shadow portfolio that made the same contributions and withdrawals
+ * into the benchmark instead - the fair "what if I had bought the index" line.
+ */
+export const simulateBenchmarkValues = (points: { date: string; netFlow: number }[], closes: PricePoint[]): (number | null)[] => {
+    if (closes.length === 0) return points.map(() => null);
+    let i = 0;
+    let prevClose: number | null = null;
+    let value = 0;
+    return points.map(p => {
+        let close = prevClose;
+        while (i < closes.length && closes[i].date <= p.date) {
+            close = closes[i].close;
+            i++;
+        }
+        if (prevClose !== null && prevClose > 0 && close !== null) value *= close / prevClose;
+        value += p.netFlow;
+        if (close === null) return null;
+        prevClose = close;
+        return value;
+    });
+};
+
+// Thins a daily series to roughly `maxPoints` for charting, always keeping the last point
+export const downsample = <T>(items: T[], maxPoints: number): T[] => {
+    if (items.length <= maxPoints) return items;
+    const step = Math.ceil(items.length / maxPoints);
+    const result = items.filter((_, i) => i % step === 0);
+    if (result[result.length - 1] !== items[items.length - 1]) result.push(items[items.length - 1]);
+    return result;
+};
+
+export const computeAllPeriods = (points: DailyValue[]): Partial<Record<PerformancePeriod, PeriodPerformance>> => {
+    const result: Partial<Record<PerformancePeriod, PeriodPerformance>> = {};
+    PERFORMANCE_PERIODS.forEach(period => {
+        const perf = computePeriodPerformance(points, period);
+        if (perf) result[period] = perf;
+    });
+    return result;
+};
+
+export type BenchmarkKey = 'sp500' | 'nasdaq' | 'btc';
+
+// ETF / coin proxies used to chart the indices
+export const BENCHMARK_SYMBOLS: Record<BenchmarkKey, { symbol: string; isCrypto: boolean }> = {
+    sp500: { symbol: 'SPY', isCrypto: false },
+    nasdaq: { symbol: 'QQQ', isCrypto: false },
+    btc: { symbol: 'BTC', isCrypto: true }
+};
+
+export const loadBenchmarkHistory = async (from: string, providers: ProviderConfig[]): Promise<Record<BenchmarkKey, PricePoint[]>> => {
+    const today = toISODate(new Date());
+    const entries = await Promise.all((Object.keys(BENCHMARK_SYMBOLS) as BenchmarkKey[]).map(async key => {
+        const { symbol, isCrypto } = BENCHMARK_SYMBOLS[key];
+        // Adjusted closes so the benchmark reflects total return through splits and dividends
+        return [key, await fetchPriceHistory(symbol, from, today, providers, isCrypto, true)] as const;
+    }));
+    return Object.fromEntries(entries) as Record<BenchmarkKey, PricePoint[]>;
+};
+
+// Percentage change of a close series across the given dates, rebased to the first date that has a close
+export const rebaseToReturns = (closes: PricePoint[], dates: string[]): (number | null)[] => {
+    if (closes.length === 0 || dates.length === 0) return dates.map(() => null);
+    let i = 0;
+    let last: number | null = null;
+    let base: number | null = null;
+    return dates.map(date => {
+        while (i < closes.length && closes[i].date <= date) {
+            last = closes[i].close;
+            i++;
+        }
+        if (last === null) return null;
+        if (base === null) base = last;
+        return ((last / base) - 1) * 100;
+    });
+};
+
+/**
+ * Fetches the closes needed to replay a portfolio's ledger and returns its daily value series.
+ * Symbols without any history still value at their last traded price, and today uses
+ * a holding's price only when it came from a live quote.
+ */
+export const loadPortfolioDailyValues = async (
+    portfolio: Portfolio,
+    providers: ProviderConfig[],
+    fx?: { rates: FxRates; base: string }
+): Promise<DailyValue[]> => {
+    const transactions = portfolio.transactions || [];
+    if (transactions.length === 0) return [];
+
+    const firstDate = transactions.reduce((min, t) => (t.date && t.date < min ? t.date : min), transactions[0].date).split('T')[0];
+    const today = toISODate(new Date());
+
+    const corporateActions = portfolio.corporateActions || [];
+    const symbols = Array.from(new Set([
+        ...transactions.filter(isTradeTransaction).map(t => t.symbol.toUpperCase()),
+        ...corporateActions.filter(a => a.newSymbol).map(a => (a.newSymbol as string).toUpperCase())
+    ]));
+    const cryptoSymbols = new Set(portfolio.holdings.filter(h => h.assetType === AssetType.CRYPTO).map(h => h.symbol.toUpperCase()));
+
+    const history: PriceHistoryMap = {};
+    await Promise.all(symbols.map(async sym => {
+        history[sym] = await fetchPriceHistory(sym, firstDate, today, providers, cryptoSymbols.has(sym));
+    }));
+
+    // Only fetched quotes price today; simulated and placeholder prices leave the last close in place
+    const currentPrices: Record<string, number> = {};
+    portfolio.holdings.forEach(h => { if (h.priceStatus === 'live') currentPrices[h.symbol.toUpperCase()] = h.currentPrice; });
+
+    const currencies: Record<string, string | undefined> = {};
+    transactions.filter(isTradeTransaction).forEach(t => { if (t.currency) currencies[t.symbol.toUpperCase()] = t.currency; });
+    portfolio.holdings.forEach(h => { if (h.currency) currencies[h.symbol.toUpperCase()] = h.currency; });
+
+    return buildDailyValues(transactions, alignSplitBasis(history, corporateActions), currentPrices, today, corporateActions, fx && { ...fx, currencies });
+};
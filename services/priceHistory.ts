@@ -0,0 +1,395 @@
+import { getDividendsFromProviders, getHistoryFromProviders, getSplitsFromProviders } from './providers/registry';
+import { AssetClass, PricePoint, ProviderConfig, ProviderDividend, ProviderSplit } from './providers/types';
+
+export interface OHLCVBar {
+    date: string; // YYYY-MM-DD
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+}
+
+export interface HistoryOptions {
+    assetClass?: AssetClass;
+    // Back-adjust for splits and dividends (total-return series). Ledger valuation needs the traded prices instead.
+    adjusted?: boolean;
+}
+
+interface DateRange {
+    from: string;
+    to: string;
+}
+
+interface CorporateEvents {
+    key: string;
+    from: string;
+    fetchedAt: number;
+    splits: ProviderSplit[];
+    dividends: ProviderDividend[];
+}
+
+interface HistoryStore {
+    getCoverage: (key: string) => Promise<DateRange[]>;
+    putCoverage: (key: string, ranges: DateRange[]) => Promise<void>;
+    getBars: (key: string, from: string, to: string) => Promise<PricePoint[]>;
+    putBars: (key: string, bars: PricePoint[]) => Promise<void>;
+    getEvents: (key: string) => Promise<CorporateEvents | undefined>;
+    putEvents: (events: CorporateEvents) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+const DB_NAME = 'wealthos_price_history';
+// Version 2 stores bars as traded; version 1 caches may hold split-adjusted Finnhub bars
+const DB_VERSION = 2;
+const EVENTS_TTL_MS = 24 * 60 * 60 * 1000;
+const DECLARED_LOOKAHEAD_DAYS = 365;
+// Gaps that came back empty (holidays, unlisted dates, provider down) are not retried more often than this
+const GAP_RETRY_MS = 15 * 60 * 1000;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+const addDays = (iso: string, days: number) => {
+    const d = new Date(`${iso}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return toISODate(d);
+};
+
+// --- Storage ---
+
+const promisify = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const createIndexedDbStore = (db: IDBDatabase): HistoryStore => {
+    const storeFor = (name: string, mode: IDBTransactionMode) => db.transaction(name, mode).objectStore(name);
+
+    return {
+        getCoverage: async (key) => {
+            const record = await promisify(storeFor('coverage', 'readonly').get(key));
+            return record ? record.ranges : [];
+        },
+        putCoverage: async (key, ranges) => {
+            await promisify(storeFor('coverage', 'readwrite').put({ key, ranges }));
+        },
+        getBars: async (key, from, to) => {
+            const rows = await promisify(storeFor('bars', 'readonly').getAll(IDBKeyRange.bound([key, from], [key, to])));
+            return rows.map(({ key: _key, ...bar }: any) => bar as PricePoint);
+        },
+        putBars: async (key, bars) => {
+            const tx = db.transaction('bars', 'readwrite');
+            const store = tx.objectStore('bars');
+            bars.forEach(bar => store.put({ key, ...bar }));
+            await new Promise<void>((resolve, reject) => {
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+        },
+        getEvents: async (key) => promisify(storeFor('events', 'readonly').get(key)),
+        putEvents: async (events) => {
+            await promisify(storeFor('events', 'readwrite').put(events));
+        },
+        clear: async () => {
+            const tx = db.transaction(['bars', 'coverage', 'events'], 'readwrite');
+            ['bars', 'coverage', 'events'].forEach(name => tx.objectStore(name).clear());
+            await new Promise<void>(resolve => { tx.oncomplete = () => resolve(); });
+        }
+    };
+};
+
+// Private browsing and old browsers may not offer IndexedDB; history still works for the session
+const createMemoryStore = (): HistoryStore => {
+    const coverage = new Map<string, DateRange[]>();
+    const bars = new Map<string, Map<string, PricePoint>>();
+    const events = new Map<string, CorporateEvents>();
+
+    return {
+        getCoverage: async (key) => coverage.get(key) || [],
+        putCoverage: async (key, ranges) => { coverage.set(key, ranges); },
+        getBars: async (key, from, to) => Array.from(bars.get(key)?.values() || [])
+            .filter(b => b.date >= from && b.date <= to)
+            .sort((a, b) => a.date.localeCompare(b.date)),
+        putBars: async (key, next) => {
+            const existing = bars.get(key) || new Map<string, PricePoint>();
+            next.forEach(b => existing.set(b.date, b));
+            bars.set(key, existing);
+        },
+        getEvents: async (key) => events.get(key),
+        putEvents: async (record) => { events.set(record.key, record); },
+        clear: async () => {
+            coverage.clear();
+            bars.clear();
+            events.clear();
+        }
+    };
+};
+
+let storePromise: Promise<HistoryStore> | null = null;
+
+const openStore = (): Promise<HistoryStore> => {
+    if (storePromise) return storePromise;
+    storePromise = new Promise<HistoryStore>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(createMemoryStore());
+            return;
+        }
+        try {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = (event) => {
+                const db = req.result;
+                if (!db.objectStoreNames.contains('bars')) db.createObjectStore('bars', { keyPath: ['key', 'date'] });
+                if (!db.objectStoreNames.contains('coverage')) db.createObjectStore('coverage', { keyPath: 'key' });
+                if (!db.objectStoreNames.contains('events')) db.createObjectStore('events', { keyPath: 'key' });
+                if (event.oldVersion > 0 && event.oldVersion < 2 && req.transaction) {
+                    req.transaction.objectStore('bars').clear();
+                    req.transaction.objectStore('coverage').clear();
+                }
+            };
+            req.onsuccess = () => resolve(createIndexedDbStore(req.result));
+            req.onerror = () => {
+                console.warn("Price history cache unavailable, using memory", req.error);
+                resolve(createMemoryStore());
+            };
+        } catch (e) {
+            resolve(createMemoryStore());
+        }
+    });
+    return storePromise;
+};
+
+// --- Range bookkeeping ---
+
+const mergeRanges = (ranges: DateRange[]): DateRange[] => {
+    const sorted = [...ranges].sort((a, b) => a.from.localeCompare(b.from));
+    const merged: DateRange[] = [];
+    sorted.forEach(r => {
+        const last = merged[merged.length - 1];
+        if (last && r.from <= addDays(last.to, 1)) {
+            if (r.to > last.to) last.to = r.to;
+        } else {
+            merged.push({ ...r });
+        }
+    });
+    return merged;
+};
+
+const missingRanges = (covered: DateRange[], from: string, to: string): DateRange[] => {
+    const gaps: DateRange[] = [];
+    let cursor = from;
+    for (const r of mergeRanges(covered)) {
+        if (r.to < cursor) continue;
+        if (r.from > to) break;
+        if (r.from > cursor) gaps.push({ from: cursor, to: addDays(r.from, -1) < to ? addDays(r.from, -1) : to });
+        const next = addDays(r.to, 1);
+        if (next > cursor) cursor = next;
+        if (cursor > to) break;
+    }
+    if (cursor <= to) gaps.push({ from: cursor, to });
+    return gaps;
+};
+
+// --- Fetching ---
+
+const recentGapAttempts = new Map<string, number>();
+const inflight = new Map<string, Promise<void>>();
+
+/**
+ * Fetches only the date ranges not yet in the cache. Today's bar is stored but its range is
+ * left uncovered so the next call picks up the final close. Bars are stored as traded, so a
+ * provider's split-adjusted bars are restated with the symbol's split events first.
+ */
+const fillGaps = async (store: HistoryStore, key: string, symbol: string, from: string, to: string, assetClass: AssetClass, providers: ProviderConfig[]) => {
+    // Two charts asking for the same symbol at once share one set of requests
+    const pending = inflight.get(key);
+    if (pending) await pending.catch(() => undefined);
+
+    const run = (async () => {
+        const today = toISODate(new Date());
+        const lastFinal = addDays(today, -1);
+        const end = to > today ? today : to;
+        if (from > end) return;
+
+        const covered = await store.getCoverage(key);
+        const gaps = missingRanges(covered, from, end);
+        const newlyCovered: DateRange[] = [];
+
+        for (const gap of gaps) {
+            const attemptKey = `${key}:${gap.from}:${gap.to}`;
+            if (Date.now() - (recentGapAttempts.get(attemptKey) || 0) < GAP_RETRY_MS) continue;
+            recentGapAttempts.set(attemptKey, Date.now());
+
+            const history = await getHistoryFromProviders(symbol, gap.from, gap.to, assetClass, providers);
+            if (history.bars.length === 0) continue;
+            const bars = history.splitAdjusted && assetClass === 'stock'
+                ? unadjustSplits(history.bars, (await loadCorporateEvents(store, key, symbol, gap.from, providers)).splits)
+                : history.bars;
+
+            await store.putBars(key, bars.filter(b => b.date >= gap.from && b.date <= gap.to));
+            const coveredTo = gap.to > lastFinal ? lastFinal : gap.to;
+            if (gap.from <= coveredTo) newlyCovered.push({ from: gap.from, to: coveredTo });
+        }
+
+        if (newlyCovered.length > 0) await store.putCoverage(key, mergeRanges([...covered, ...newlyCovered]));
+    })();
+
+    inflight.set(key, run);
+    try {
+        await run;
+    } finally {
+        if (inflight.get(key) === run) inflight.delete(key);
+    }
+};
+
+const loadCorporateEvents = async (store: HistoryStore, key: string, symbol: string, from: string, providers: ProviderConfig[]): Promise<CorporateEvents> => {
+    const cached = await store.getEvents(key);
+    if (cached && cached.from <= from && Date.now() - cached.fetchedAt < EVENTS_TTL_MS) return cached;
+
+    const today = toISODate(new Date());
+    const [splits, dividends] = await Promise.all([
+        getSplitsFromProviders(symbol, from, today, providers),
+        // Dividends already declared for the coming year come along for the dividend schedule
+        getDividendsFromProviders(symbol, from, addDays(today, DECLARED_LOOKAHEAD_DAYS), providers)
+    ]);
+    const events: CorporateEvents = { key, from, fetchedAt: Date.now(), splits, dividends };
+    await store.putEvents(events);
+    return events;
+};
+
+/**
+ * Restates split-adjusted bars as traded: each bar is scaled back up for every later split
+ * (price * ratio, volume / ratio), undoing the split part of `adjustBars`.
+ */
+export const unadjustSplits = (bars: PricePoint[], splits: ProviderSplit[]): PricePoint[] => {
+    const valid = splits.filter(s => s.date && s.ratio > 0);
+    if (valid.length === 0) return bars;
+    return bars.map(bar => {
+        const factor = valid.filter(s => s.date > bar.date).reduce((f, s) => f * s.ratio, 1);
+        if (factor === 1) return bar;
+        const scale = (price?: number) => (price === undefined ? undefined : price * factor);
+        return {
+            ...bar,
+            close: bar.close * factor,
+            open: scale(bar.open),
+            high: scale(bar.high),
+            low: scale(bar.low),
+            volume: bar.volume === undefined ? undefined : bar.volume / factor
+        };
+    });
+};
+
+const toBar = (p: PricePoint): OHLCVBar => ({
+    date: p.date,
+    open: p.open ?? p.close,
+    high: p.high ?? p.close,
+    low: p.low ?? p.close,
+    close: p.close,
+    volume: p.volume ?? 0
+});
+
+/**
+ * Back-adjusts bars so the latest bar stays as traded and earlier bars are scaled for every
+ * later split (price / ratio, volume * ratio) and dividend (price * (1 - amount / prior close)).
+ */
+export const adjustBars = (bars: OHLCVBar[], splits: ProviderSplit[], dividends: ProviderDividend[]): OHLCVBar[] => {
+    if (bars.length === 0) return bars;
+    const lastDate = bars[bars.length - 1].date;
+
+    // Newest first; events after the last bar (announced but not yet effective) are ignored
+    const events = [
+        ...splits.filter(s => s.ratio > 0).map(s => ({ date: s.date, split: s.ratio, dividend: 0 })),
+        ...dividends.filter(d => d.amount > 0).map(d => ({ date: d.exDate, split: 0, dividend: d.amount }))
+    ]
+        .filter(e => e.date && e.date <= lastDate)
+        .sort((a, b) => b.date.localeCompare(a.date));
+
+    let priceFactor = 1;
+    let volumeFactor = 1;
+    let e = 0;
+    const adjusted: OHLCVBar[] = new Array(bars.length);
+
+    for (let i = bars.length - 1; i >= 0; i--) {
+        const bar = bars[i];
+        while (e < events.length && events[e].date > bar.date) {
+            const event = events[e];
+            if (event.split) {
+                priceFactor /= event.split;
+                volumeFactor *= event.split;
+            } else if (bar.close > event.dividend) {
+                // This bar is the last close before the ex-date
+                priceFactor *= 1 - event.dividend / bar.close;
+            }
+            e++;
+        }
+        adjusted[i] = {
+            date: bar.date,
+            open: bar.open * priceFactor,
+            high: bar.high * priceFactor,
+            low: bar.low * priceFactor,
+            close: bar.close * priceFactor,
+            volume: bar.volume * volumeFactor
+        };
+    }
+    return adjusted;
+};
+
+/**
+ * Daily OHLCV for a symbol and date range, served from the IndexedDB cache and topped up
+ * from the provider list for any missing ranges. Returns [] when no source has data.
+ */
+export const getPriceHistory = async (symbol: string, from: string, to: string, providers: ProviderConfig[], { assetClass = 'stock', adjusted = true }: HistoryOptions = {}): Promise<OHLCVBar[]> => {
+    const key = `${assetClass}:${symbol.toUpperCase()}`;
+    const store = await openStore();
+    const wantsAdjustment = adjusted && assetClass === 'stock';
+
+    try {
+        // Adjustment factors depend on every bar up to today, so fill the whole tail
+        const today = toISODate(new Date());
+        const fetchTo = wantsAdjustment ? today : to;
+        await fillGaps(store, key, symbol, from, fetchTo, assetClass, providers);
+
+        if (!wantsAdjustment) return (await store.getBars(key, from, to)).map(toBar);
+
+        const bars = (await store.getBars(key, from, today)).map(toBar);
+        const { splits, dividends } = await loadCorporateEvents(store, key, symbol, from, providers);
+        return adjustBars(bars, splits, dividends).filter(b => b.date <= to);
+    } catch (e) {
+        console.warn(`Price history for ${symbol} failed`, e);
+        return [];
+    }
+};
+
+/**
+ * Dividend history for a stock from `from` onwards, including declared payments that are not
+ * yet ex. Shares the corporate-events cache with the adjusted price history.
+ */
+export const getDividendEvents = async (symbol: string, from: string, providers: ProviderConfig[]): Promise<ProviderDividend[]> => {
+    const key = `stock:${symbol.toUpperCase()}`;
+    try {
+        const store = await openStore();
+        const { dividends } = await loadCorporateEvents(store, key, symbol, from, providers);
+        return dividends.filter(d => d.exDate >= from);
+    } catch (e) {
+        console.warn(`Dividend history for ${symbol} failed`, e);
+        return [];
+    }
+};
+
+/** Splits for a stock from `from` onwards, from the same corporate-events cache. */
+export const getSplitEvents = async (symbol: string, from: string, providers: ProviderConfig[]): Promise<ProviderSplit[]> => {
+    const key = `stock:${symbol.toUpperCase()}`;
+    try {
+        const store = await openStore();
+        const { splits } = await loadCorporateEvents(store, key, symbol, from, providers);
+        return splits.filter(s => s.date >= from);
+    } catch (e) {
+        console.warn(`Split history for ${symbol} failed`, e);
+        return [];
+    }
+};
+
+export const clearPriceHistoryCache = async () => {
+    const store = await openStore();
+    await store.clear();
+    recentGapAttempts.clear();
+};
@@ -0,0 +1,141 @@
+import { MarketDataProvider, ProviderContext, ProviderQuote, ProviderRateLimitError, SymbolMatch, retryAfterMs } from './types';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+
+// Map common symbols to CoinGecko IDs
+const CRYPTO_MAP: Record<string, string> = {
+    'BTC': 'bitcoin',
+    'ETH': 'ethereum',
+    'SOL': 'solana',
+    'DOGE': 'dogecoin',
+    'ADA': 'cardano',
+    'XRP': 'ripple',
+    'DOT': 'polkadot',
+    'USDT': 'tether',
+    'BNB': 'binancecoin',
+    'MATIC': 'matic-network'
+};
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+
+// Optional pro key goes in the header CoinGecko documents for the demo/pro tiers
+const headersFor = (apiKey?: string): HeadersInit => apiKey ? { 'x-cg-demo-api-key': apiKey } : {};
+
+// Symbols /search could not resolve are not asked about again until this passes
+const LOOKUP_RETRY_MS = 60 * 60 * 1000;
+const failedLookups = new Map<string, number>();
+
+// Unmapped symbols are looked up once through /search and remembered for the session.
+// Each lookup spends a request from the scheduler's budget when one is attached.
+const resolveId = async (symbol: string, { apiKey, takeRequest }: ProviderContext): Promise<string | null> => {
+    const upper = symbol.toUpperCase();
+    if (CRYPTO_MAP[upper]) return CRYPTO_MAP[upper];
+    if ((failedLookups.get(upper) || 0) > Date.now()) return null;
+    if (takeRequest && !takeRequest()) return null;
+    try {
+        const res = await fetch(`${COINGECKO_API}/search?query=${encodeURIComponent(upper)}`, { headers: headersFor(apiKey) });
+        if (res.status === 429) throw new ProviderRateLimitError('coingecko', retryAfterMs(res));
+        if (!res.ok) throw new Error(`CoinGecko search failed (${res.status})`);
+        const data = await res.json();
+        const match = (data.coins || []).find((c: any) => String(c.symbol).toUpperCase() === upper);
+        if (!match) {
+            failedLookups.set(upper, Date.now() + LOOKUP_RETRY_MS);
+            return null;
+        }
+        CRYPTO_MAP[upper] = match.id;
+        return match.id;
+    } catch (e) {
+        if (e instanceof ProviderRateLimitError) throw e;
+        failedLookups.set(upper, Date.now() + LOOKUP_RETRY_MS);
+        return null;
+    }
+};
+
+export const coinGeckoProvider: MarketDataProvider = {
+    id: 'coingecko',
+    name: 'CoinGecko',
+    description: 'Free crypto prices and history. An API key is optional and raises rate limits.',
+    assetClasses: ['crypto'],
+    requiresApiKey: false,
+    signupUrl: 'https://www.coingecko.com/en/api',
+    rateLimit: { requestsPerMinute: 30 }, // Public / demo tier
+
+    getQuote: async (symbol, ctx) => {
+        const [quote] = await coinGeckoProvider.getQuotes!([symbol], ctx);
+        return quote || null;
+    },
+
+    // /simple/price takes a comma separated id list, so a whole watchlist costs one request
+    getQuotes: async (symbols, ctx) => {
+        const { apiKey } = ctx;
+        const ids = await Promise.all(symbols.map(s => resolveId(s, ctx)));
+        const idToSymbol = new Map<string, string>();
+        ids.forEach((id, i) => { if (id) idToSymbol.set(id, symbols[i]); });
+        if (idToSymbol.size === 0) return [];
+
+        try {
+            const res = await fetch(`${COINGECKO_API}/simple/price?ids=${Array.from(idToSymbol.keys()).join(',')}&vs_currencies=usd&include_24hr_change=true&include_last_updated_at=true`, { headers: headersFor(apiKey) });
+            if (res.status === 429) throw new ProviderRateLimitError('coingecko', retryAfterMs(res));
+            if (!res.ok) throw new Error("CoinGecko API Error");
+            const data = await res.json();
+
+            const quotes: ProviderQuote[] = [];
+            idToSymbol.forEach((symbol, id) => {
+                const price = data[id]?.usd;
+                if (price && price > 0) {
+                    quotes.push({
+                        symbol,
+                        price,
+                        timestamp: data[id].last_updated_at ? new Date(data[id].last_updated_at * 1000).toISOString() : new Date().toISOString(),
+                        provider: 'coingecko',
+                        changePercent: typeof data[id].usd_24h_change === 'number' ? data[id].usd_24h_change : undefined
+                    });
+                }
+            });
+            return quotes;
+        } catch (e) {
+            if (e instanceof ProviderRateLimitError) throw e;
+            console.warn("CoinGecko fetch failed:", e);
+            return [];
+        }
+    },
+
+    getHistory: async (symbol, from, to, ctx) => {
+        const { apiKey } = ctx;
+        // History callers treat no bars as "try the next provider", so a throttled lookup is just a miss here
+        const id = await resolveId(symbol, ctx).catch(() => null);
+        if (!id) return [];
+        const fromTs = Math.floor(new Date(from).getTime() / 1000);
+        const toTs = Math.floor(new Date(to).getTime() / 1000) + 86400;
+        try {
+            const res = await fetch(`${COINGECKO_API}/coins/${id}/market_chart/range?vs_currency=usd&from=${fromTs}&to=${toTs}`, { headers: headersFor(apiKey) });
+            if (!res.ok) return [];
+            const data = await res.json();
+            // CoinGecko returns intraday points for short ranges; keep the last one per day
+            const byDay = new Map<string, number>();
+            (data.prices || []).forEach(([ts, price]: [number, number]) => byDay.set(toISODate(new Date(ts)), price));
+            const volumeByDay = new Map<string, number>();
+            (data.total_volumes || []).forEach(([ts, volume]: [number, number]) => volumeByDay.set(toISODate(new Date(ts)), volume));
+            return Array.from(byDay.entries()).map(([date, close]) => ({ date, close, volume: volumeByDay.get(date) }));
+        } catch (e) {
+            console.warn("CoinGecko history fetch failed:", e);
+            return [];
+        }
+    },
+
+    searchSymbols: async (query, { apiKey }) => {
+        if (!query) return [];
+        try {
+            const res = await fetch(`${COINGECKO_API}/search?query=${encodeURIComponent(query)}`, { headers: headersFor(apiKey) });
+            if (!res.ok) return [];
+            const data = await res.json();
+            return (data.coins || []).slice(0, 10).map((c: any): SymbolMatch => ({
+                symbol: String(c.symbol).toUpperCase(),
+                name: c.name,
+                type: 'Crypto'
+            }));
+        } catch (e) {
+            return [];
+        }
+    }
+};
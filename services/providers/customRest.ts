@@ -0,0 +1,69 @@
+import { MarketDataProvider, PricePoint, ProviderRateLimitError, retryAfterMs } from './types';
+
+// Walks a dotted path such as "results.0.p" through a JSON payload
+const readPath = (data: any, path: string): any => {
+    return path.split('.').filter(Boolean).reduce((acc, key) => (acc === null || acc === undefined ? undefined : acc[key]), data);
+};
+
+const fillTemplate = (template: string, vars: Record<string, string>) => {
+    return template.replace(/\{(\w+)\}/g, (_, key) => encodeURIComponent(vars[key] ?? ''));
+};
+
+/**
+ * Generic JSON-over-HTTP adapter so paid feeds (Polygon, Twelve Data, EODHD, ...)
+ * can be wired up from Settings with URL templates instead of new code.
+ * Templates accept {symbol}, {apiKey}, {from} and {to}.
+ */
+export const customRestProvider: MarketDataProvider = {
+    id: 'custom',
+    name: 'Custom REST Feed',
+    description: 'Any JSON quote API. Example (Twelve Data): https://api.twelvedata.com/price?symbol={symbol}&apikey={apiKey} with price path "price".',
+    assetClasses: ['stock', 'crypto'],
+    requiresApiKey: false,
+    rateLimit: { requestsPerMinute: 60 },
+    optionFields: [
+        { key: 'quoteUrl', label: 'Quote URL Template', placeholder: 'https://api.example.com/quote/{symbol}?token={apiKey}' },
+        { key: 'pricePath', label: 'Price JSON Path', placeholder: 'price' },
+        { key: 'historyUrl', label: 'History URL Template (optional)', placeholder: 'https://api.example.com/eod/{symbol}?from={from}&to={to}&token={apiKey}' },
+        { key: 'historyListPath', label: 'History List Path', placeholder: 'values' },
+        { key: 'historyDateField', label: 'History Date Field', placeholder: 'date' },
+        { key: 'historyCloseField', label: 'History Close Field', placeholder: 'close' }
+    ],
+
+    getQuote: async (symbol, { apiKey, options }) => {
+        if (!options?.quoteUrl) return null;
+        try {
+            const res = await fetch(fillTemplate(options.quoteUrl, { symbol, apiKey: apiKey || '' }));
+            if (res.status === 429) throw new ProviderRateLimitError('custom', retryAfterMs(res));
+            if (!res.ok) return null;
+            const data = await res.json();
+            const price = parseFloat(readPath(data, options.pricePath || 'price'));
+            if (!Number.isFinite(price) || price <= 0) return null;
+            return { symbol, price, timestamp: new Date().toISOString(), provider: 'custom' };
+        } catch (e) {
+            if (e instanceof ProviderRateLimitError) throw e;
+            console.warn("Custom feed quote failed:", e);
+            return null;
+        }
+    },
+
+    getHistory: async (symbol, from, to, { apiKey, options }) => {
+        if (!options?.historyUrl) return [];
+        try {
+            const res = await fetch(fillTemplate(options.historyUrl, { symbol, apiKey: apiKey || '', from, to }));
+            if (!res.ok) return [];
+            const data = await res.json();
+            const rows = options.historyListPath ? readPath(data, options.historyListPath) : data;
+            if (!Array.isArray(rows)) return [];
+            const dateField = options.historyDateField || 'date';
+            const closeField = options.historyCloseField || 'close';
+            return rows
+                .map((r: any): PricePoint => ({ date: String(r[dateField]).split(/[T ]/)[0], close: parseFloat(r[closeField]) }))
+                .filter((p: PricePoint) => Number.isFinite(p.close) && p.close > 0)
+                .sort((a: PricePoint, b: PricePoint) => a.date.localeCompare(b.date));
+        } catch (e) {
+            console.warn("Custom feed history failed:", e);
+            return [];
+        }
+    }
+};
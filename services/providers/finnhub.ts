@@ -0,0 +1,122 @@
+import { MarketDataProvider, PricePoint, ProviderDividend, ProviderRateLimitError, ProviderSplit, SymbolMatch, retryAfterMs } from './types';
+
+const FINNHUB_API = 'https://finnhub.io/api/v1';
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const toUnix = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+export const finnhubProvider: MarketDataProvider = {
+    id: 'finnhub',
+    name: 'Finnhub',
+    description: 'Real-time US stock & ETF quotes, daily candles, dividends and symbol search.',
+    assetClasses: ['stock'],
+    requiresApiKey: true,
+    signupUrl: 'https://finnhub.io/register',
+    rateLimit: { requestsPerMinute: 60 }, // Free tier
+    historySplitAdjusted: true, // /stock/candle restates past bars for every split since
+
+    getQuote: async (symbol, { apiKey }) => {
+        if (!apiKey) return null;
+        try {
+            const res = await fetch(`${FINNHUB_API}/quote?symbol=${symbol}&token=${apiKey}`);
+            if (res.status === 429) throw new ProviderRateLimitError('finnhub', retryAfterMs(res));
+            if (res.status === 401 || res.status === 403) {
+                console.warn("Finnhub API Key Invalid.");
+                return null;
+            }
+            if (!res.ok) return null;
+
+            const data = await res.json();
+            // Finnhub 'c' is current price, 'dp' the percent change on the previous close, 't' the quote time. Ensure it's not 0.
+            if (!data.c || data.c <= 0) return null;
+            return {
+                symbol,
+                price: data.c,
+                timestamp: data.t ? new Date(data.t * 1000).toISOString() : new Date().toISOString(),
+                provider: 'finnhub',
+                changePercent: typeof data.dp === 'number' ? data.dp : undefined
+            };
+        } catch (e) {
+            if (e instanceof ProviderRateLimitError) throw e;
+            console.warn("Finnhub fetch failed:", e);
+            return null;
+        }
+    },
+
+    getHistory: async (symbol, from, to, { apiKey }) => {
+        if (!apiKey) return [];
+        try {
+            const res = await fetch(`${FINNHUB_API}/stock/candle?symbol=${symbol}&resolution=D&from=${toUnix(from)}&to=${toUnix(to) + 86400}&token=${apiKey}`);
+            if (!res.ok) {
+                console.warn(`Finnhub candle fetch failed for ${symbol}: ${res.status}`);
+                return [];
+            }
+            const data = await res.json();
+            if (data.s !== 'ok' || !Array.isArray(data.t)) return [];
+            return data.t.map((ts: number, i: number): PricePoint => ({
+                date: toISODate(new Date(ts * 1000)),
+                close: data.c[i],
+                open: data.o?.[i],
+                high: data.h?.[i],
+                low: data.l?.[i],
+                volume: data.v?.[i]
+            }));
+        } catch (e) {
+            console.warn("Finnhub history fetch failed:", e);
+            return [];
+        }
+    },
+
+    getDividends: async (symbol, from, to, { apiKey }) => {
+        if (!apiKey) return [];
+        try {
+            const res = await fetch(`${FINNHUB_API}/stock/dividend?symbol=${symbol}&from=${from}&to=${to}&token=${apiKey}`);
+            if (!res.ok) return [];
+            const data = await res.json();
+            if (!Array.isArray(data)) return [];
+            return data.map((d: any): ProviderDividend => ({
+                symbol,
+                amount: Number(d.amount),
+                exDate: d.exDate || d.date,
+                payDate: d.payDate || undefined,
+                declaredDate: d.declarationDate || undefined
+            }));
+        } catch (e) {
+            console.warn("Finnhub dividend fetch failed:", e);
+            return [];
+        }
+    },
+
+    getSplits: async (symbol, from, to, { apiKey }) => {
+        if (!apiKey) return [];
+        try {
+            const res = await fetch(`${FINNHUB_API}/stock/split?symbol=${symbol}&from=${from}&to=${to}&token=${apiKey}`);
+            if (!res.ok) return [];
+            const data = await res.json();
+            if (!Array.isArray(data)) return [];
+            return data
+                .filter((s: any) => Number(s.fromFactor) > 0 && Number(s.toFactor) > 0)
+                .map((s: any): ProviderSplit => ({ symbol, date: s.date, ratio: Number(s.toFactor) / Number(s.fromFactor) }));
+        } catch (e) {
+            console.warn("Finnhub split fetch failed:", e);
+            return [];
+        }
+    },
+
+    searchSymbols: async (query, { apiKey }) => {
+        if (!apiKey || !query) return [];
+        try {
+            const res = await fetch(`${FINNHUB_API}/search?q=${encodeURIComponent(query)}&token=${apiKey}`);
+            if (!res.ok) return [];
+            const data = await res.json();
+            return (data.result || []).map((r: any): SymbolMatch => ({
+                symbol: r.symbol,
+                name: r.description,
+                type: r.type
+            }));
+        } catch (e) {
+            console.warn("Finnhub search failed:", e);
+            return [];
+        }
+    }
+};
@@ -0,0 +1,50 @@
+import { MarketDataProvider, PricePoint, ProviderRateLimitError, retryAfterMs } from './types';
+
+const FRANKFURTER_API = 'https://api.frankfurter.dev/v1';
+
+// 'EURUSD' -> ['EUR', 'USD']
+const parsePair = (symbol: string): [string, string] | null => {
+    const pair = symbol.toUpperCase().replace(/[^A-Z]/g, '');
+    return pair.length === 6 ? [pair.slice(0, 3), pair.slice(3)] : null;
+};
+
+const fetchJson = async (url: string) => {
+    const res = await fetch(url);
+    if (res.status === 429) throw new ProviderRateLimitError('frankfurter', retryAfterMs(res));
+    if (!res.ok) return null;
+    return res.json();
+};
+
+export const frankfurterProvider: MarketDataProvider = {
+    id: 'frankfurter',
+    name: 'Frankfurter (ECB)',
+    description: 'Free daily reference exchange rates published by the European Central Bank. No API key.',
+    assetClasses: ['fx'],
+    requiresApiKey: false,
+    signupUrl: 'https://frankfurter.dev',
+
+    getQuote: async (symbol) => {
+        const pair = parsePair(symbol);
+        if (!pair) return null;
+        const [from, to] = pair;
+        if (from === to) return { symbol, price: 1, timestamp: new Date().toISOString(), provider: 'frankfurter' };
+        const data = await fetchJson(`${FRANKFURTER_API}/latest?base=${from}&symbols=${to}`);
+        const price = data?.rates?.[to];
+        if (typeof price !== 'number' || price <= 0) return null;
+        // ECB rates are fixed around 16:00 CET on the reported date
+        return { symbol, price, timestamp: new Date(`${data.date}T15:00:00Z`).toISOString(), provider: 'frankfurter' };
+    },
+
+    // One request covers the whole range; only ECB working days are returned
+    getHistory: async (symbol, from, to) => {
+        const pair = parsePair(symbol);
+        if (!pair) return [];
+        const [base, quote] = pair;
+        const data = await fetchJson(`${FRANKFURTER_API}/${from}..${to}?base=${base}&symbols=${quote}`);
+        if (!data?.rates) return [];
+        return Object.entries(data.rates as Record<string, Record<string, number>>)
+            .map(([date, rates]): PricePoint => ({ date, close: rates[quote] }))
+            .filter(p => typeof p.close === 'number' && p.close > 0)
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+};
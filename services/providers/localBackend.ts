@@ -0,0 +1,87 @@
+import { MarketDataProvider, PricePoint, ProviderDividend } from './types';
+
+const LOCAL_API = 'http://localhost:8000/api';
+
+// Using AbortController so the UI doesn't hang if the backend is down
+const fetchWithTimeout = async (url: string, timeoutMs: number): Promise<Response | null> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        return await fetch(url, { signal: controller.signal });
+    } catch (e) {
+        // Local backend likely not running or unreachable
+        return null;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+export const localBackendProvider: MarketDataProvider = {
+    id: 'local',
+    name: 'Local Backend (FastAPI)',
+    description: 'Self-hosted Python service on localhost:8000 (yfinance / FMP / EODHD).',
+    assetClasses: ['stock', 'crypto'],
+    requiresApiKey: false,
+    optionFields: [{ key: 'baseUrl', label: 'Base URL', placeholder: LOCAL_API }],
+
+    getQuote: async (symbol, { options }) => {
+        const base = options?.baseUrl || LOCAL_API;
+        const res = await fetchWithTimeout(`${base}/price/${symbol}`, 1000);
+        if (!res || !res.ok) return null;
+        try {
+            const data = await res.json();
+            if (!data.price || data.price === 'N/A') return null;
+            const price = typeof data.price === 'number' ? data.price : parseFloat(data.price);
+            if (!Number.isFinite(price) || price <= 0) return null;
+            return {
+                symbol,
+                price,
+                timestamp: data.timestamp || new Date().toISOString(),
+                provider: 'local'
+            };
+        } catch (e) {
+            return null;
+        }
+    },
+
+    // Expects raw daily bars; split/dividend adjustment is applied client-side by the history service
+    getHistory: async (symbol, from, to, { options }) => {
+        const base = options?.baseUrl || LOCAL_API;
+        const res = await fetchWithTimeout(`${base}/historical/${symbol}?start=${from}&end=${to}`, 2000);
+        if (!res || !res.ok) return [];
+        try {
+            const data = await res.json();
+            if (!Array.isArray(data)) return [];
+            return data
+                .map((p: any): PricePoint => ({
+                    date: String(p.date).split('T')[0],
+                    close: Number(p.close),
+                    open: p.open !== undefined ? Number(p.open) : undefined,
+                    high: p.high !== undefined ? Number(p.high) : undefined,
+                    low: p.low !== undefined ? Number(p.low) : undefined,
+                    volume: p.volume !== undefined ? Number(p.volume) : undefined
+                }))
+                .filter((p: PricePoint) => Number.isFinite(p.close) && p.close > 0);
+        } catch (e) {
+            return [];
+        }
+    },
+
+    getDividends: async (symbol, from, to, { options }) => {
+        const base = options?.baseUrl || LOCAL_API;
+        const res = await fetchWithTimeout(`${base}/dividends/${symbol}?start=${from}&end=${to}`, 2000);
+        if (!res || !res.ok) return [];
+        try {
+            const data = await res.json();
+            const rows = Array.isArray(data) ? data : (data.dividends || []);
+            return rows.map((d: any): ProviderDividend => ({
+                symbol,
+                amount: Number(d.amount ?? d.dividend),
+                exDate: String(d.exDate ?? d.ex_date ?? d.date).split('T')[0],
+                payDate: d.payDate ?? d.pay_date ?? undefined
+            }));
+        } catch (e) {
+            return [];
+        }
+    }
+};
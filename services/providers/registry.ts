@@ -0,0 +1,137 @@
+import { AssetClass, MarketDataProvider, PricePoint, ProviderConfig, ProviderContext, ProviderDividend, ProviderQuote, ProviderRateLimitError, ProviderSplit, SymbolMatch } from './types';
+import { localBackendProvider } from './localBackend';
+import { finnhubProvider } from './finnhub';
+import { coinGeckoProvider } from './coingecko';
+import { customRestProvider } from './customRest';
+import { frankfurterProvider } from './frankfurter';
+import { quoteSymbol } from '../symbolResolver';
+
+const CONFIG_STORAGE_KEY = 'wealthos_market_providers';
+const LEGACY_KEY_STORAGE_KEY = 'wealthos_market_key';
+
+const providers = new Map<string, MarketDataProvider>();
+
+export const registerProvider = (provider: MarketDataProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string) => providers.get(id);
+
+export const listProviders = (): MarketDataProvider[] => Array.from(providers.values());
+
+[localBackendProvider, finnhubProvider, coinGeckoProvider, customRestProvider, frankfurterProvider].forEach(registerProvider);
+
+// Default priority mirrors the old hard-coded chain: local backend, then Finnhub / CoinGecko
+export const DEFAULT_PROVIDER_CONFIGS: ProviderConfig[] = [
+    { id: 'local', enabled: true },
+    { id: 'finnhub', enabled: true, apiKey: '' },
+    { id: 'coingecko', enabled: true, apiKey: '' },
+    { id: 'custom', enabled: false, apiKey: '', options: {} },
+    { id: 'frankfurter', enabled: true }
+];
+
+/**
+ * Saved configs are merged with the registry so newly registered providers show up
+ * (disabled, at the bottom) without wiping the user's order.
+ */
+export const loadProviderConfigs = (): ProviderConfig[] => {
+    let saved: ProviderConfig[] | null = null;
+    try {
+        const raw = localStorage.getItem(CONFIG_STORAGE_KEY);
+        if (raw) saved = JSON.parse(raw);
+    } catch (e) {
+        console.warn("Failed to parse market data provider settings");
+    }
+
+    if (!saved || !Array.isArray(saved)) {
+        // Carry over the single Finnhub key from the old settings screen
+        const legacyKey = localStorage.getItem(LEGACY_KEY_STORAGE_KEY) || '';
+        saved = DEFAULT_PROVIDER_CONFIGS.map(c => c.id === 'finnhub' ? { ...c, apiKey: legacyKey } : c);
+    }
+
+    const known = saved.filter(c => providers.has(c.id));
+    const missing = listProviders()
+        .filter(p => !known.find(c => c.id === p.id))
+        .map(p => DEFAULT_PROVIDER_CONFIGS.find(c => c.id === p.id) || { id: p.id, enabled: false });
+    return [...known, ...missing];
+};
+
+export const saveProviderConfigs = (configs: ProviderConfig[]) => {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(configs));
+};
+
+const contextFor = (config: ProviderConfig): ProviderContext => ({ apiKey: config.apiKey, options: config.options });
+
+// Enabled providers for an asset class in priority order, skipping those missing a required key
+export const resolveProviders = (configs: ProviderConfig[], assetClass: AssetClass): { provider: MarketDataProvider; ctx: ProviderContext }[] => {
+    return configs
+        .filter(c => c.enabled)
+        .map(c => ({ provider: providers.get(c.id), ctx: contextFor(c) }))
+        .filter((entry): entry is { provider: MarketDataProvider; ctx: ProviderContext } =>
+            !!entry.provider &&
+            entry.provider.assetClasses.includes(assetClass) &&
+            (!entry.provider.requiresApiKey || !!entry.ctx.apiKey)
+        );
+};
+
+// Stocks are requested under their listing's provider symbol (VUSA as VUSA.L); results keep the app's symbol
+const listingFor = (symbol: string, assetClass: AssetClass) => (assetClass === 'stock' ? quoteSymbol(symbol) : symbol);
+
+export const getQuoteFromProviders = async (symbol: string, assetClass: AssetClass, configs: ProviderConfig[]): Promise<ProviderQuote | null> => {
+    const listing = listingFor(symbol, assetClass);
+    for (const { provider, ctx } of resolveProviders(configs, assetClass)) {
+        try {
+            const quote = await provider.getQuote(listing, ctx);
+            if (quote) return { ...quote, symbol };
+        } catch (e) {
+            // Rate limited: fall through to the next provider in the list
+            if (!(e instanceof ProviderRateLimitError)) console.warn(`${provider.name} quote failed`, e);
+        }
+    }
+    return null;
+};
+
+// Bars from the first provider with any, flagged when that provider adjusts them for splits
+export interface ProviderHistory {
+    bars: PricePoint[];
+    splitAdjusted: boolean;
+}
+
+export const getHistoryFromProviders = async (symbol: string, from: string, to: string, assetClass: AssetClass, configs: ProviderConfig[]): Promise<ProviderHistory> => {
+    const listing = listingFor(symbol, assetClass);
+    for (const { provider, ctx } of resolveProviders(configs, assetClass)) {
+        if (!provider.getHistory) continue;
+        const history = await provider.getHistory(listing, from, to, ctx);
+        if (history.length > 0) return { bars: history, splitAdjusted: !!provider.historySplitAdjusted };
+    }
+    return { bars: [], splitAdjusted: false };
+};
+
+export const getDividendsFromProviders = async (symbol: string, from: string, to: string, configs: ProviderConfig[]): Promise<ProviderDividend[]> => {
+    const listing = listingFor(symbol, 'stock');
+    for (const { provider, ctx } of resolveProviders(configs, 'stock')) {
+        if (!provider.getDividends) continue;
+        const dividends = await provider.getDividends(listing, from, to, ctx);
+        if (dividends.length > 0) return dividends.map(d => ({ ...d, symbol }));
+    }
+    return [];
+};
+
+export const getSplitsFromProviders = async (symbol: string, from: string, to: string, configs: ProviderConfig[]): Promise<ProviderSplit[]> => {
+    const listing = listingFor(symbol, 'stock');
+    for (const { provider, ctx } of resolveProviders(configs, 'stock')) {
+        if (!provider.getSplits) continue;
+        const splits = await provider.getSplits(listing, from, to, ctx);
+        if (splits.length > 0) return splits.map(s => ({ ...s, symbol }));
+    }
+    return [];
+};
+
+export const searchSymbolsFromProviders = async (query: string, assetClass: AssetClass, configs: ProviderConfig[]): Promise<SymbolMatch[]> => {
+    for (const { provider, ctx } of resolveProviders(configs, assetClass)) {
+        if (!provider.searchSymbols) continue;
+        const matches = await provider.searchSymbols(query, ctx);
+        if (matches.length > 0) return matches;
+    }
+    return [];
+};
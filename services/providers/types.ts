@@ -0,0 +1,105 @@
+// FX symbols are currency pairs such as EURUSD: the price of one EUR in USD
+export type AssetClass = 'stock' | 'crypto' | 'fx';
+
+// Daily bar as traded (not adjusted for splits or dividends); OHLV are optional
+// because some feeds only publish closes. Feeds that serve split-adjusted bars say so
+// with `historySplitAdjusted`, and the history service restates them as traded.
+export interface PricePoint {
+    date: string; // YYYY-MM-DD
+    close: number;
+    open?: number;
+    high?: number;
+    low?: number;
+    volume?: number;
+}
+
+export interface ProviderQuote {
+    symbol: string;
+    price: number;
+    timestamp: string; // ISO time the provider priced the quote
+    provider: string;  // Provider id that served the quote
+    changePercent?: number; // Move since the previous close (24h for crypto), when the provider reports it
+}
+
+export interface ProviderDividend {
+    symbol: string;
+    amount: number;
+    exDate: string;
+    payDate?: string;
+    declaredDate?: string;
+}
+
+export interface ProviderSplit {
+    symbol: string;
+    date: string;  // First trading day on the new share basis
+    ratio: number; // New shares per old share, e.g. 4 for a 4-for-1 split
+}
+
+export interface SymbolMatch {
+    symbol: string;
+    name: string;
+    exchange?: string;
+    type?: string;
+}
+
+// Per-provider user settings: priority is the position in the saved list
+export interface ProviderConfig {
+    id: string;
+    enabled: boolean;
+    apiKey?: string;
+    options?: Record<string, string>;
+}
+
+// Thrown by adapters on HTTP 429 so callers can back off instead of treating it as "no data"
+export class ProviderRateLimitError extends Error {
+    providerId: string;
+    retryAfterMs?: number;
+
+    constructor(providerId: string, retryAfterMs?: number) {
+        super(`${providerId} rate limit reached`);
+        this.name = 'ProviderRateLimitError';
+        this.providerId = providerId;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export const retryAfterMs = (res: Response): number | undefined => {
+    const header = res.headers.get('Retry-After');
+    const seconds = header ? parseFloat(header) : NaN;
+    return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+export interface ProviderContext {
+    apiKey?: string;
+    options?: Record<string, string>;
+    // Set by the quote scheduler: spends one request of the provider's budget for
+    // extra calls an adapter makes (e.g. symbol lookups); false when none is left
+    takeRequest?: () => boolean;
+}
+
+/**
+ * A market data source. Only `getQuote` is required; the registry skips
+ * providers that do not implement the capability being asked for.
+ */
+export interface MarketDataProvider {
+    id: string;
+    name: string;
+    description: string;
+    assetClasses: AssetClass[];
+    requiresApiKey: boolean;
+    signupUrl?: string;
+    // Request budget for the quote scheduler; omit for unmetered sources
+    rateLimit?: { requestsPerMinute: number };
+    // Extra settings rendered as text inputs in Settings (e.g. URL templates)
+    optionFields?: { key: string; label: string; placeholder?: string }[];
+    // getHistory returns prices already adjusted for later splits
+    historySplitAdjusted?: boolean;
+
+    getQuote: (symbol: string, ctx: ProviderContext) => Promise<ProviderQuote | null>;
+    // Batch quotes count as a single request against the rate limit
+    getQuotes?: (symbols: string[], ctx: ProviderContext) => Promise<ProviderQuote[]>;
+    getHistory?: (symbol: string, from: string, to: string, ctx: ProviderContext) => Promise<PricePoint[]>;
+    getDividends?: (symbol: string, from: string, to: string, ctx: ProviderContext) => Promise<ProviderDividend[]>;
+    getSplits?: (symbol: string, from: string, to: string, ctx: ProviderContext) => Promise<ProviderSplit[]>;
+    searchSymbols?: (query: string, ctx: ProviderContext) => Promise<SymbolMatch[]>;
+}
@@ -0,0 +1,208 @@
+import { resolveProviders } from './providers/registry';
+import { quoteSymbol } from './symbolResolver';
+import { AssetClass, MarketDataProvider, ProviderConfig, ProviderContext, ProviderQuote, ProviderRateLimitError } from './providers/types';
+
+export interface QuoteRequest {
+    symbol: string;
+    assetClass: AssetClass;
+}
+
+export interface QuoteSchedulerOptions {
+    intervalMs: number; // Every symbol is refreshed about once per interval, budget permitting
+    tickMs?: number;    // Refreshes are spread over the interval in ticks of this length
+    getConfigs: () => ProviderConfig[];
+    // `failed` lists symbols every provider was asked about and none could price
+    onQuotes: (quotes: ProviderQuote[], failed: string[]) => void;
+}
+
+export interface QuoteScheduler {
+    setSymbols: (requests: QuoteRequest[]) => void;
+    start: () => void;
+    stop: () => void;
+}
+
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+interface TokenBucket {
+    capacity: number;
+    tokens: number;
+    refillPerMs: number;
+    updatedAt: number;
+}
+
+const createBucket = (requestsPerMinute: number): TokenBucket => ({
+    capacity: requestsPerMinute,
+    tokens: requestsPerMinute,
+    refillPerMs: requestsPerMinute / 60000,
+    updatedAt: Date.now()
+});
+
+const takeToken = (bucket: TokenBucket): boolean => {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs);
+    bucket.updatedAt = now;
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+};
+
+/**
+ * Keeps a deduplicated symbol set fresh without blowing provider rate limits.
+ * Each tick refreshes the stalest slice of symbols so requests are spread across
+ * the interval; batch-capable providers get one request per slice, others are
+ * metered per symbol by a token bucket, and a 429 puts the provider into
+ * exponential backoff until its window passes.
+ */
+export const createQuoteScheduler = ({ intervalMs, tickMs = 1000, getConfigs, onQuotes }: QuoteSchedulerOptions): QuoteScheduler => {
+    let requests = new Map<string, AssetClass>();
+    const lastRefreshed = new Map<string, number>();
+    const buckets = new Map<string, TokenBucket>();
+    const backoff = new Map<string, { until: number; failures: number }>();
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let inFlight = false;
+
+    const bucketFor = (provider: MarketDataProvider): TokenBucket | null => {
+        if (!provider.rateLimit) return null;
+        let bucket = buckets.get(provider.id);
+        if (!bucket || bucket.capacity !== provider.rateLimit.requestsPerMinute) {
+            bucket = createBucket(provider.rateLimit.requestsPerMinute);
+            buckets.set(provider.id, bucket);
+        }
+        return bucket;
+    };
+
+    const isBackingOff = (providerId: string) => (backoff.get(providerId)?.until || 0) > Date.now();
+
+    const recordRateLimit = (error: ProviderRateLimitError) => {
+        const failures = (backoff.get(error.providerId)?.failures || 0) + 1;
+        const delay = error.retryAfterMs ?? Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, failures - 1));
+        backoff.set(error.providerId, { until: Date.now() + delay, failures });
+        console.warn(`${error.providerId} rate limited, backing off for ${Math.round(delay / 1000)}s`);
+    };
+
+    const recordSuccess = (providerId: string) => {
+        if (backoff.has(providerId)) backoff.delete(providerId);
+    };
+
+    const fetchWithProvider = async (provider: MarketDataProvider, ctx: ProviderContext, symbols: string[], assetClass: AssetClass): Promise<{ quotes: ProviderQuote[]; attempted: string[] }> => {
+        const bucket = bucketFor(provider);
+        const metered: ProviderContext = bucket ? { ...ctx, takeRequest: () => takeToken(bucket) } : ctx;
+
+        // Stocks are asked for by their listing (VUSA as VUSA.L) and answered under the symbol requested
+        const listings = new Map(symbols.map(s => [assetClass === 'stock' ? quoteSymbol(s) : s, s]));
+        const fromListing = (q: ProviderQuote): ProviderQuote => ({ ...q, symbol: listings.get(q.symbol.toUpperCase()) || listings.get(q.symbol) || q.symbol });
+
+        if (provider.getQuotes && symbols.length > 1) {
+            if (bucket && !takeToken(bucket)) return { quotes: [], attempted: [] };
+            const quotes = await provider.getQuotes(Array.from(listings.keys()), metered);
+            return { quotes: quotes.map(fromListing), attempted: symbols };
+        }
+
+        const quotes: ProviderQuote[] = [];
+        const attempted: string[] = [];
+        for (const [listing, symbol] of listings) {
+            if (bucket && !takeToken(bucket)) break;
+            try {
+                const quote = await provider.getQuote(listing, metered);
+                attempted.push(symbol);
+                if (quote) quotes.push({ ...quote, symbol });
+            } catch (e) {
+                // Keep what this provider already returned; the rest wait out the backoff
+                if (e instanceof ProviderRateLimitError) {
+                    recordRateLimit(e);
+                    break;
+                }
+                throw e;
+            }
+        }
+        return { quotes, attempted };
+    };
+
+    const refreshSlice = async (slice: QuoteRequest[]) => {
+        const configs = getConfigs();
+        const quotes: ProviderQuote[] = [];
+        const failed: string[] = [];
+
+        const byClass: Record<AssetClass, string[]> = { stock: [], crypto: [], fx: [] };
+        slice.forEach(r => byClass[r.assetClass].push(r.symbol));
+
+        for (const assetClass of Object.keys(byClass) as AssetClass[]) {
+            let pending = byClass[assetClass];
+            if (pending.length === 0) continue;
+
+            // A symbol only counts as failed once a provider actually tried it and nothing answered;
+            // symbols skipped for lack of budget or during backoff simply wait for a later tick.
+            const tried = new Set<string>();
+
+            for (const { provider, ctx } of resolveProviders(configs, assetClass)) {
+                if (pending.length === 0) break;
+                if (isBackingOff(provider.id)) continue;
+                try {
+                    const { quotes: received, attempted } = await fetchWithProvider(provider, ctx, pending, assetClass);
+                    attempted.forEach(s => tried.add(s));
+                    if (!isBackingOff(provider.id)) recordSuccess(provider.id);
+                    const got = new Set(received.map(q => q.symbol.toUpperCase()));
+                    quotes.push(...received);
+                    pending = pending.filter(s => !got.has(s));
+                } catch (e) {
+                    if (e instanceof ProviderRateLimitError) recordRateLimit(e);
+                    else console.warn(`${provider.name} quote batch failed`, e);
+                }
+            }
+
+            failed.push(...pending.filter(s => tried.has(s)));
+        }
+
+        const now = Date.now();
+        quotes.forEach(q => lastRefreshed.set(q.symbol.toUpperCase(), now));
+        failed.forEach(s => lastRefreshed.set(s, now));
+
+        if (quotes.length > 0 || failed.length > 0) onQuotes(quotes, failed);
+    };
+
+    const tick = async () => {
+        if (inFlight || requests.size === 0) return;
+        inFlight = true;
+        try {
+            const ticksPerInterval = Math.max(1, Math.round(intervalMs / tickMs));
+            const sliceSize = Math.ceil(requests.size / ticksPerInterval);
+            const now = Date.now();
+
+            // Stalest first; symbols refreshed within this interval wait their turn
+            const slice = Array.from(requests.entries())
+                .map(([symbol, assetClass]) => ({ symbol, assetClass, age: now - (lastRefreshed.get(symbol) || 0) }))
+                .filter(r => r.age >= intervalMs)
+                .sort((a, b) => b.age - a.age)
+                .slice(0, sliceSize)
+                .map(({ symbol, assetClass }) => ({ symbol, assetClass }));
+
+            if (slice.length > 0) await refreshSlice(slice);
+        } catch (e) {
+            console.warn("Quote scheduler tick failed", e);
+        } finally {
+            inFlight = false;
+        }
+    };
+
+    return {
+        setSymbols: (next) => {
+            const map = new Map<string, AssetClass>();
+            next.forEach(r => {
+                const symbol = r.symbol.toUpperCase();
+                // Same symbol requested twice (e.g. held and watched) is fetched once
+                if (!map.has(symbol)) map.set(symbol, r.assetClass);
+            });
+            requests = map;
+        },
+        start: () => {
+            if (timer) return;
+            timer = setInterval(tick, tickMs);
+            tick();
+        },
+        stop: () => {
+            if (timer) clearInterval(timer);
+            timer = null;
+        }
+    };
+};
@@ -0,0 +1,403 @@
+import { AssetType } from '../types';
+import { MOCK_MARKET_ASSETS } from '../constants';
+import { SymbolMatch } from './providers/types';
+
+const OVERRIDES_STORAGE_KEY = 'wealthos_symbol_overrides';
+const CACHE_STORAGE_KEY = 'wealthos_symbol_cache';
+const OPENFIGI_API = 'https://api.openfigi.com/v3/mapping';
+
+// A listing venue. `suffix` is how quote providers (Yahoo, Finnhub) name a listing there,
+// `aliases` the codes brokers, Bloomberg and MIC use for it.
+export interface ExchangeInfo {
+    code: string;
+    name: string;
+    suffix: string;
+    currency?: string;
+    aliases: string[];
+}
+
+// London lines trade in either pounds or pence, so the currency is left to the instrument
+export const EXCHANGES: ExchangeInfo[] = [
+    { code: 'US', name: 'US (NYSE / Nasdaq)', suffix: '', currency: 'USD', aliases: ['US', 'NYSE', 'NASDAQ', 'NYSEARCA', 'ARCA', 'AMEX', 'BATS', 'UN', 'UW', 'UQ', 'UR', 'UP', 'UA', 'XNYS', 'XNAS', 'XASE', 'ARCX'] },
+    { code: 'LSE', name: 'London', suffix: '.L', aliases: ['LSE', 'LON', 'LN', 'XLON', 'UK', 'GB'] },
+    { code: 'XETRA', name: 'Xetra', suffix: '.DE', currency: 'EUR', aliases: ['XETRA', 'XETR', 'GY', 'GR', 'DE', 'ETR'] },
+    { code: 'AMS', name: 'Euronext Amsterdam', suffix: '.AS', currency: 'EUR', aliases: ['AMS', 'AEX', 'NA', 'XAMS', 'NL'] },
+    { code: 'PAR', name: 'Euronext Paris', suffix: '.PA', currency: 'EUR', aliases: ['PAR', 'EPA', 'FP', 'XPAR', 'FR'] },
+    { code: 'BRU', name: 'Euronext Brussels', suffix: '.BR', currency: 'EUR', aliases: ['BRU', 'EBR', 'BB', 'XBRU', 'BE'] },
+    { code: 'MIL', name: 'Borsa Italiana', suffix: '.MI', currency: 'EUR', aliases: ['MIL', 'BIT', 'IM', 'XMIL', 'IT'] },
+    { code: 'BME', name: 'Madrid', suffix: '.MC', currency: 'EUR', aliases: ['BME', 'MCE', 'SM', 'XMAD', 'ES'] },
+    { code: 'SIX', name: 'SIX Swiss', suffix: '.SW', currency: 'CHF', aliases: ['SIX', 'SWX', 'SE', 'SW', 'VX', 'XSWX', 'CH'] },
+    { code: 'TSX', name: 'Toronto', suffix: '.TO', currency: 'CAD', aliases: ['TSX', 'TSE', 'CN', 'CT', 'XTSE', 'CA'] },
+    { code: 'ASX', name: 'Australia', suffix: '.AX', currency: 'AUD', aliases: ['ASX', 'AU', 'AT', 'XASX'] },
+    { code: 'HKEX', name: 'Hong Kong', suffix: '.HK', currency: 'HKD', aliases: ['HKEX', 'HKG', 'HK', 'XHKG'] }
+];
+
+// Trading 212 marks non-US listings with one lower-case letter before `_EQ` (VUSAl_EQ)
+const T212_EXCHANGE_LETTERS: Record<string, string> = { l: 'LSE', d: 'XETRA', a: 'AMS', p: 'PAR', b: 'BRU', m: 'MIL', e: 'BME', s: 'SIX' };
+
+// Where an ISIN's issuing country usually lists. Irish and Luxembourg funds are UCITS ETFs,
+// which UK investors mostly hold in London.
+const HOME_EXCHANGES: Record<string, string> = {
+    US: 'US', GB: 'LSE', IE: 'LSE', LU: 'LSE', JE: 'LSE', GG: 'LSE', DE: 'XETRA', NL: 'AMS', FR: 'PAR', BE: 'BRU', IT: 'MIL', ES: 'BME', CH: 'SIX', CA: 'TSX', AU: 'ASX', HK: 'HKEX'
+};
+
+const exchangeByCode = (code: string) => EXCHANGES.find(e => e.code === code);
+const exchangeByAlias = (alias: string) => EXCHANGES.find(e => e.aliases.includes(alias.toUpperCase()));
+const exchangeBySuffix = (suffix: string) => EXCHANGES.find(e => e.suffix && e.suffix === suffix.toUpperCase());
+
+// The venue a catalogue entry trades on, going by its currency; euro listings are ambiguous
+const CURRENCY_EXCHANGES: Record<string, string> = { USD: 'US', GBP: 'LSE', GBX: 'LSE', CAD: 'TSX', AUD: 'ASX', CHF: 'SIX', HKD: 'HKEX' };
+
+/** Where a symbol came from: a user override, an earlier lookup, the app's catalogue, its own text, or nowhere. */
+export type ResolutionSource = 'override' | 'cache' | 'catalogue' | 'parsed' | 'unresolved';
+
+/**
+ * One instrument as the app stores it. `symbol` is what holdings and transactions use;
+ * `quoteSymbol` is how price providers name the listing (VUSA on London is VUSA.L).
+ */
+export interface Instrument {
+    symbol: string;
+    quoteSymbol: string;
+    name?: string;
+    exchange?: string;
+    currency?: string;
+    assetType?: AssetType;
+    isin?: string;
+    cusip?: string;
+    figi?: string;
+    source: ResolutionSource;
+}
+
+export type IdentifierKind = 'isin' | 'cusip' | 'figi' | 'ticker';
+
+// A=10 ... Z=35, as ISIN and CUSIP check digits count letters
+const charValue = (ch: string) => (/\d/.test(ch) ? Number(ch) : ch.charCodeAt(0) - 55);
+
+/** An ISIN with a valid check digit (Luhn over the letters expanded to numbers). */
+export const isValidIsin = (raw: string): boolean => {
+    const isin = raw.trim().toUpperCase();
+    if (!/^[A-Z]{2}[A-Z0-9]{9}\d$/.test(isin)) return false;
+    const digits = isin.split('').map(charValue).join('');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let d = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            d *= 2;
+            if (d > 9) d -= 9;
+        }
+        sum += d;
+    }
+    return sum % 10 === 0;
+};
+
+/** A CUSIP with a valid check digit. One of the first eight characters must be a digit, which keeps long tickers out. */
+export const isValidCusip = (raw: string): boolean => {
+    const cusip = raw.trim().toUpperCase();
+    if (!/^[A-Z0-9*@#]{8}\d$/.test(cusip) || !/\d/.test(cusip.slice(0, 8))) return false;
+    let sum = 0;
+    for (let i = 0; i < 8; i++) {
+        const ch = cusip[i];
+        let v = ch === '*' ? 36 : ch === '@' ? 37 : ch === '#' ? 38 : charValue(ch);
+        if (i % 2 === 1) v *= 2;
+        sum += Math.floor(v / 10) + (v % 10);
+    }
+    return (10 - (sum % 10)) % 10 === Number(cusip[8]);
+};
+
+// The ISIN of a US security: its CUSIP with the country in front and a check digit after
+const usIsin = (cusip: string) => '0123456789'.split('').map(d => `US${cusip}${d}`).find(isValidIsin) || '';
+
+export const identifierKind = (raw: string): IdentifierKind => {
+    const id = raw.trim().toUpperCase();
+    if (isValidIsin(id)) return 'isin';
+    if (/^BBG[0-9A-Z]{9}$/.test(id)) return 'figi';
+    if (isValidCusip(id)) return 'cusip';
+    return 'ticker';
+};
+
+const withExchange = (base: string, exchange?: ExchangeInfo) => ({
+    symbol: `${base}${exchange?.suffix || ''}`,
+    base,
+    exchange
+});
+
+/**
+ * Reads the ticker notations brokers and data vendors use: Trading 212 (VUSA_UK_EQ, VUSAl_EQ),
+ * provider suffixes (VUSA.L), exchange prefixes or postfixes (LSE:VUSA, VUSA:LN) and Bloomberg
+ * (VUSA LN Equity). Share classes are written with a dot (BRK/B and BRK B become BRK.B).
+ * Returns null for text that is not a ticker.
+ */
+export const parseTicker = (raw: string): { symbol: string; base: string; exchange?: ExchangeInfo } | null => {
+    const text = raw.trim();
+    if (!text) return null;
+
+    const t212 = text.match(/^([A-Za-z0-9.]+?)(?:_([A-Z]{2})_EQ|([a-z])_EQ|_EQ)$/);
+    if (t212) {
+        const exchange = t212[2] ? exchangeByAlias(t212[2]) : t212[3] ? exchangeByCode(T212_EXCHANGE_LETTERS[t212[3]]) : undefined;
+        return withExchange(t212[1].toUpperCase(), exchange);
+    }
+
+    let symbol = text.toUpperCase().replace(/\s+EQUITY$/, '').replace(/\*/g, '');
+
+    const prefixed = symbol.match(/^([A-Z]+):([A-Z0-9./\-]+)$/);
+    if (prefixed) {
+        const before = exchangeByAlias(prefixed[1]);
+        if (before) return withExchange(prefixed[2].replace(/\//g, '.'), before);
+        const after = exchangeByAlias(prefixed[2]);
+        if (after) return withExchange(prefixed[1], after);
+    }
+
+    const bloomberg = symbol.match(/^([A-Z0-9./\-]+)\s+([A-Z]{2})$/);
+    if (bloomberg && exchangeByAlias(bloomberg[2])) return withExchange(bloomberg[1].replace(/\//g, '.'), exchangeByAlias(bloomberg[2]));
+
+    symbol = symbol.replace(/[\s/]+/g, '.');
+    if (!/^[A-Z0-9][A-Z0-9.\-^=]{0,14}$/.test(symbol)) return null;
+
+    const dot = symbol.lastIndexOf('.');
+    const suffixed = dot > 0 ? exchangeBySuffix(symbol.slice(dot)) : undefined;
+    if (suffixed) return withExchange(symbol.slice(0, dot), suffixed);
+    return { symbol, base: symbol };
+};
+
+// Catalogue entries name US and London listings without a suffix; the currency tells them apart
+const catalogueListing = (symbol: string, exchange?: ExchangeInfo) => {
+    const base = symbol.toUpperCase();
+    return MOCK_MARKET_ASSETS.find(a => {
+        if (a.symbol.toUpperCase() !== base) return false;
+        if (!exchange) return true;
+        return CURRENCY_EXCHANGES[(a.currency || 'USD').toUpperCase()] === exchange.code;
+    });
+};
+
+const fromCatalogue = (symbol: string, exchange?: ExchangeInfo): Instrument | null => {
+    const asset = catalogueListing(symbol, exchange);
+    if (!asset) return null;
+    const listing = exchange || exchangeByCode(CURRENCY_EXCHANGES[(asset.currency || 'USD').toUpperCase()] || '');
+    return {
+        symbol: asset.symbol,
+        quoteSymbol: `${asset.symbol}${listing?.suffix || ''}`,
+        name: asset.name,
+        exchange: listing?.code,
+        currency: asset.currency || listing?.currency,
+        assetType: asset.assetType,
+        source: 'catalogue'
+    };
+};
+
+// A ticker as an instrument: the catalogue's entry when it has the listing, else the ticker as read
+const fromTicker = (raw: string): Instrument | null => {
+    const parsed = parseTicker(raw);
+    if (!parsed) return null;
+    const known = fromCatalogue(parsed.base, parsed.exchange) || (!parsed.exchange ? null : fromCatalogue(parsed.symbol));
+    if (known) return known;
+    return {
+        symbol: parsed.symbol,
+        quoteSymbol: parsed.symbol,
+        exchange: parsed.exchange?.code,
+        currency: parsed.exchange?.currency,
+        source: 'parsed'
+    };
+};
+
+const keyOf = (identifier: string) => identifier.trim().toUpperCase();
+
+const loadStore = (storageKey: string, label: string): Record<string, Instrument> => {
+    try {
+        const raw = localStorage.getItem(storageKey);
+        return raw ? JSON.parse(raw) : {};
+    } catch (e) {
+        console.warn(`Failed to parse ${label}`);
+        return {};
+    }
+};
+
+const saveStore = (storageKey: string, store: Record<string, Instrument>) => {
+    try {
+        localStorage.setItem(storageKey, JSON.stringify(store));
+    } catch (e) {
+        console.warn(`Failed to save ${storageKey}`, e);
+    }
+};
+
+export const loadSymbolOverrides = (): Record<string, Instrument> => loadStore(OVERRIDES_STORAGE_KEY, 'symbol overrides');
+
+/**
+ * Maps an identifier (a broker ticker, ISIN, CUSIP or FIGI) to the instrument `target` names,
+ * written in any notation `parseTicker` reads. Overrides win over everything else.
+ */
+export const saveSymbolOverride = (identifier: string, target: string): Instrument | null => {
+    const instrument = fromTicker(target);
+    if (!instrument) return null;
+    const overrides = loadSymbolOverrides();
+    overrides[keyOf(identifier)] = { ...instrument, source: 'override' };
+    saveStore(OVERRIDES_STORAGE_KEY, overrides);
+    return overrides[keyOf(identifier)];
+};
+
+export const deleteSymbolOverride = (identifier: string) => {
+    const overrides = loadSymbolOverrides();
+    delete overrides[keyOf(identifier)];
+    saveStore(OVERRIDES_STORAGE_KEY, overrides);
+};
+
+const loadCache = () => loadStore(CACHE_STORAGE_KEY, 'symbol cache');
+
+const cacheInstrument = (identifiers: (string | undefined)[], instrument: Instrument) => {
+    const cache = loadCache();
+    identifiers.filter((id): id is string => !!id).forEach(id => { cache[keyOf(id)] = { ...instrument, source: 'cache' }; });
+    saveStore(CACHE_STORAGE_KEY, cache);
+};
+
+export interface ResolveHints {
+    isin?: string;
+    name?: string;
+}
+
+/**
+ * The instrument an identifier names, from what is known locally: the user's overrides, then
+ * earlier lookups, then the catalogue, then the ticker's own notation. An ISIN hint is tried
+ * alongside the identifier, since a bare ticker says nothing about the listing. ISINs, CUSIPs and
+ * FIGIs never looked up come back `unresolved`; `lookupInstrument` asks the providers.
+ */
+export const resolveSymbol = (raw: string, hints: ResolveHints = {}): Instrument => {
+    const key = keyOf(raw);
+    const isin = hints.isin ? keyOf(hints.isin) : identifierKind(key) === 'isin' ? key : undefined;
+    const keys = [key, isin].filter((k): k is string => !!k);
+
+    const overrides = loadSymbolOverrides();
+    const override = keys.map(k => overrides[k]).find(Boolean);
+    if (override) return { ...override, isin: override.isin || isin, source: 'override' };
+
+    // An ISIN names one security where a bare ticker may name several, so it is tried first
+    const cache = loadCache();
+    const cached = [...keys].reverse().map(k => cache[k]).find(c => c && (!isin || !c.isin || c.isin === isin));
+    if (cached) return { ...cached, source: 'cache' };
+
+    const kind = identifierKind(key);
+    if (kind !== 'ticker') {
+        return {
+            symbol: key,
+            quoteSymbol: key,
+            name: hints.name,
+            isin,
+            cusip: kind === 'cusip' ? key : undefined,
+            figi: kind === 'figi' ? key : undefined,
+            source: 'unresolved'
+        };
+    }
+    const instrument = fromTicker(raw);
+    if (!instrument) return { symbol: key, quoteSymbol: key, name: hints.name, isin, source: 'unresolved' };
+    return { ...instrument, name: instrument.name || hints.name, isin };
+};
+
+/** How price providers name a stored symbol, so an override or lookup also steers quotes. */
+export const quoteSymbol = (symbol: string): string => {
+    const instrument = resolveSymbol(symbol);
+    return instrument.source === 'unresolved' ? symbol : instrument.quoteSymbol;
+};
+
+const typeOf = (securityType?: string): AssetType | undefined => {
+    if (!securityType) return undefined;
+    return /ETP|ETF|FUND/i.test(securityType) ? AssetType.ETF : AssetType.STOCK;
+};
+
+// The listing to keep when a security trades in several places: the broker's own ticker if it
+// is among them, then the issuing country's home exchange, then the first
+const pickListing = <T>(listings: T[], exchangeOf: (l: T) => string | undefined, baseOf: (l: T) => string, isin?: string, ticker?: string): T | undefined => {
+    const home = isin ? HOME_EXCHANGES[isin.slice(0, 2)] : undefined;
+    const atHome = listings.filter(l => exchangeOf(l) === home);
+    const pool = atHome.length > 0 ? atHome : listings;
+    return (ticker && pool.find(l => baseOf(l) === ticker)) || pool[0];
+};
+
+// Symbol search across the configured providers, e.g. `searchSymbolsFromProviders` for stocks
+export type SymbolSearch = (query: string) => Promise<SymbolMatch[]>;
+
+const fromProviderSearch = async (id: string, search: SymbolSearch, isin?: string, ticker?: string): Promise<Instrument | null> => {
+    const matches = await search(id);
+    const listings = matches
+        .map(m => ({ match: m, parsed: parseTicker(m.symbol) }))
+        .filter((l): l is { match: SymbolMatch; parsed: NonNullable<ReturnType<typeof parseTicker>> } => !!l.parsed);
+    const chosen = pickListing(listings, l => l.parsed.exchange?.code || 'US', l => l.parsed.base, isin, ticker);
+    if (!chosen) return null;
+    const known = fromTicker(chosen.match.symbol);
+    return {
+        symbol: known?.symbol || chosen.parsed.symbol,
+        quoteSymbol: known?.quoteSymbol || chosen.parsed.symbol,
+        name: known?.name || chosen.match.name,
+        exchange: chosen.parsed.exchange?.code || 'US',
+        currency: known?.currency || chosen.parsed.exchange?.currency || 'USD',
+        assetType: known?.assetType || typeOf(chosen.match.type),
+        source: 'cache'
+    };
+};
+
+const OPENFIGI_ID_TYPES: Record<Exclude<IdentifierKind, 'ticker'>, string> = { isin: 'ID_ISIN', cusip: 'ID_CUSIP', figi: 'ID_BB_GLOBAL' };
+
+// OpenFIGI maps any of the three identifiers to its listings without a key, at a low rate
+const fromOpenFigi = async (id: string, kind: Exclude<IdentifierKind, 'ticker'>, isin?: string, ticker?: string): Promise<Instrument | null> => {
+    try {
+        const res = await fetch(OPENFIGI_API, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify([{ idType: OPENFIGI_ID_TYPES[kind], idValue: id }])
+        });
+        if (!res.ok) return null;
+        const [result] = await res.json();
+        const listings: any[] = (result?.data || []).filter((d: any) => d.ticker && exchangeByAlias(d.exchCode || ''));
+        const chosen = pickListing(listings, l => exchangeByAlias(l.exchCode)?.code, l => String(l.ticker).replace(/\//g, '.'), isin, ticker);
+        if (!chosen) return null;
+        const exchange = exchangeByAlias(chosen.exchCode);
+        const base = String(chosen.ticker).toUpperCase().replace(/[\s/]+/g, '.');
+        const known = fromCatalogue(base, exchange);
+        return {
+            symbol: known?.symbol || `${base}${exchange?.suffix || ''}`,
+            quoteSymbol: known?.quoteSymbol || `${base}${exchange?.suffix || ''}`,
+            name: known?.name || chosen.name,
+            exchange: exchange?.code,
+            currency: known?.currency || exchange?.currency,
+            assetType: known?.assetType || typeOf(chosen.securityType2 || chosen.securityType),
+            figi: chosen.figi,
+            source: 'cache'
+        };
+    } catch (e) {
+        console.warn('OpenFIGI lookup failed', e);
+        return null;
+    }
+};
+
+/**
+ * Resolves an identifier like `resolveSymbol`, asking the symbol search of the configured providers
+ * and then OpenFIGI when an ISIN, CUSIP or FIGI is not known locally. Found instruments are cached
+ * under their identifiers, so each is looked up once.
+ */
+export const lookupInstrument = async (raw: string, search: SymbolSearch, hints: ResolveHints = {}): Promise<Instrument> => {
+    const local = resolveSymbol(raw, hints);
+    if (local.source === 'override' || local.source === 'cache') return local;
+
+    const key = keyOf(raw);
+    const rawKind = identifierKind(key);
+    const id = rawKind !== 'ticker' ? key : hints.isin ? keyOf(hints.isin) : '';
+    if (!id) return local;
+    const kind = identifierKind(id);
+    if (kind === 'ticker') return local;
+
+    const isin = kind === 'isin' ? id : kind === 'cusip' ? usIsin(id) || undefined : local.isin;
+    // A US CUSIP is the middle of the ISIN, which provider searches understand more often
+    const searchId = kind === 'cusip' ? usIsin(id) : kind === 'isin' ? id : '';
+    const ticker = rawKind === 'ticker' ? parseTicker(raw)?.base : undefined;
+    const found = (searchId ? await fromProviderSearch(searchId, search, isin, ticker) : null)
+        || await fromOpenFigi(id, kind, isin, ticker);
+    if (!found) return local;
+
+    const instrument: Instrument = {
+        ...found,
+        name: found.name || hints.name,
+        isin,
+        cusip: kind === 'cusip' ? id : isin?.startsWith('US') ? isin.slice(2, 11) : undefined,
+        figi: found.figi || (kind === 'figi' ? id : undefined)
+    };
+    // Under its symbol too, so the symbol alone is then known
+    cacheInstrument([id, instrument.symbol], instrument);
+    return instrument;
+};
@@ -0,0 +1,347 @@
+import { CorporateAction, CostBasisMethod, Transaction } from '../types';
+import { mergerStockAllocation, sortCorporateActions, spinOffAllocation } from './corporateActions';
+import { isTradeTransaction } from './cashLedger';
+
+export type HoldingTerm = 'short' | 'long';
+
+export const COST_BASIS_METHODS: { id: CostBasisMethod; label: string; description: string }[] = [
+    { id: 'FIFO', label: 'FIFO', description: 'First in, first out. The oldest shares are sold first.' },
+    { id: 'LIFO', label: 'LIFO', description: 'Last in, first out. The newest shares are sold first.' },
+    { id: 'HIFO', label: 'HIFO', description: 'Highest cost first. Minimises realized gains.' },
+    { id: 'AVERAGE', label: 'Average Cost', description: 'Every share carries the pooled average cost. Holding periods still follow FIFO.' },
+    { id: 'SPECIFIC', label: 'Specific Lot', description: 'You choose the lots on each sale. Unassigned shares fall back to FIFO.' }
+];
+
+export interface TaxLot {
+    id: string; // The BUY (or positive ADJUST) transaction that opened the lot
+    symbol: string;
+    acquiredDate: string;
+    shares: number; // Remaining shares
+    costPerShare: number;
+    costBasis: number;
+    currentPrice: number;
+    marketValue: number;
+    unrealizedGain: number;
+    holdingDays: number;
+    term: HoldingTerm;
+}
+
+export interface RealizedLot {
+    lotId: string | null; // null when the sale exceeded the recorded lots
+    saleTransactionId: string; // Or the corporate action id for shares cashed out in a merger
+    symbol: string;
+    acquiredDate: string;
+    soldDate: string;
+    shares: number;
+    proceeds: number;
+    costBasis: number;
+    gain: number;
+    holdingDays: number;
+    term: HoldingTerm;
+    missingBasis?: boolean; // Shares sold that the ledger never bought (e.g. partial import history)
+}
+
+export interface LotSummary {
+    realizedShortTerm: number;
+    realizedLongTerm: number;
+    unrealizedShortTerm: number;
+    unrealizedLongTerm: number;
+    openCostBasis: number;
+    openMarketValue: number;
+}
+
+export interface LotReport {
+    method: CostBasisMethod;
+    openLots: TaxLot[];
+    realized: RealizedLot[];
+    summary: LotSummary;
+}
+
+interface WorkingLot {
+    id: string;
+    symbol: string;
+    acquiredDate: string;
+    shares: number;
+    costPerShare: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const parseDate = (iso: string) => new Date(`${iso.split('T')[0]}T00:00:00Z`);
+
+const daysBetween = (from: string, to: string) => Math.max(0, Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS));
+
+// Long-term means held for more than one year: disposed after the first anniversary of acquisition
+export const holdingTerm = (acquiredDate: string, disposedDate: string): HoldingTerm => {
+    const anniversary = parseDate(acquiredDate);
+    anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+    return parseDate(disposedDate).getTime() > anniversary.getTime() ? 'long' : 'short';
+};
+
+// Same-day buys are booked before sells so a day-trade has a lot to close
+const ledgerOrder = (a: Transaction, b: Transaction) => {
+    const byDate = a.date.split('T')[0].localeCompare(b.date.split('T')[0]);
+    if (byDate !== 0) return byDate;
+    const rank = (t: Transaction) => (t.type === 'SELL' || (t.type === 'ADJUST' && t.shares < 0) ? 1 : 0);
+    return rank(a) - rank(b);
+};
+
+const orderLotsForSale = (lots: WorkingLot[], method: CostBasisMethod): WorkingLot[] => {
+    switch (method) {
+        case 'LIFO':
+            return [...lots].reverse();
+        case 'HIFO':
+            return [...lots].sort((a, b) => b.costPerShare - a.costPerShare);
+        default:
+            return lots;
+    }
+};
+
+/**
+ * Picks which lots a disposal of `shares` draws from, as [lot, sharesTaken] pairs.
+ * Specific identification honours the transaction's selections first and uses FIFO for the rest.
+ */
+const pickLots = (lots: WorkingLot[], shares: number, method: CostBasisMethod, tx?: Transaction): [WorkingLot, number][] => {
+    const picks: [WorkingLot, number][] = [];
+    const taken = new Map<WorkingLot, number>();
+    let remaining = shares;
+
+    const take = (lot: WorkingLot, wanted: number) => {
+        const available = lot.shares - (taken.get(lot) || 0);
+        const qty = Math.min(available, wanted);
+        if (qty <= EPSILON) return 0;
+        taken.set(lot, (taken.get(lot) || 0) + qty);
+        picks.push([lot, qty]);
+        return qty;
+    };
+
+    if (method === 'SPECIFIC' && tx?.lotSelections) {
+        tx.lotSelections.forEach(sel => {
+            const lot = lots.find(l => l.id === sel.lotId);
+            if (lot && remaining > EPSILON) remaining -= take(lot, Math.min(sel.shares, remaining));
+        });
+    }
+
+    for (const lot of orderLotsForSale(lots, method)) {
+        if (remaining <= EPSILON) break;
+        remaining -= take(lot, remaining);
+    }
+    return picks;
+};
+
+const byAcquisition = (a: WorkingLot, b: WorkingLot) => a.acquiredDate.localeCompare(b.acquiredDate);
+
+/**
+ * Restates the open lots for a corporate action. Every lot keeps its acquisition date, so
+ * holding periods carry over to the new or spun-off shares.
+ */
+const applyCorporateAction = (lotsBySymbol: Record<string, WorkingLot[]>, action: CorporateAction, realized: RealizedLot[]) => {
+    const symbol = action.symbol.toUpperCase();
+    const lots = lotsBySymbol[symbol] || [];
+    if (lots.length === 0) return;
+
+    const date = action.date.split('T')[0];
+    const ratio = action.ratio || 0;
+    const target = action.newSymbol?.toUpperCase();
+    const moveTo = (moved: WorkingLot[]) => {
+        if (!target) return;
+        moved.forEach(l => { l.symbol = target; });
+        lotsBySymbol[target] = [...(lotsBySymbol[target] || []), ...moved].sort(byAcquisition);
+    };
+
+    switch (action.type) {
+        case 'SPLIT':
+            if (ratio > 0) lots.forEach(l => { l.shares *= ratio; l.costPerShare /= ratio; });
+            break;
+        case 'SYMBOL_CHANGE':
+            if (!target) return;
+            delete lotsBySymbol[symbol];
+            moveTo(lots);
+            break;
+        case 'MERGER': {
+            const cash = action.cashPerShare || 0;
+            const stockShare = mergerStockAllocation(action);
+            lots.forEach(lot => {
+                if (cash > 0) {
+                    const proceeds = lot.shares * cash;
+                    const costBasis = lot.shares * lot.costPerShare * (1 - stockShare);
+                    realized.push({
+                        lotId: lot.id,
+                        saleTransactionId: action.id,
+                        symbol,
+                        acquiredDate: lot.acquiredDate,
+                        soldDate: date,
+                        shares: lot.shares,
+                        proceeds,
+                        costBasis,
+                        gain: proceeds - costBasis,
+                        holdingDays: daysBetween(lot.acquiredDate, date),
+                        term: holdingTerm(lot.acquiredDate, date)
+                    });
+                }
+                if (ratio > 0) {
+                    lot.costPerShare = (lot.costPerShare * stockShare) / ratio;
+                    lot.shares *= ratio;
+                }
+            });
+            delete lotsBySymbol[symbol];
+            if (ratio > 0) moveTo(lots);
+            break;
+        }
+        case 'SPIN_OFF': {
+            if (!(ratio > 0) || !target) return;
+            const allocation = spinOffAllocation(action);
+            const spun = lots.map(lot => ({
+                id: `${lot.id}:${action.id}`,
+                symbol: target,
+                acquiredDate: lot.acquiredDate,
+                shares: lot.shares * ratio,
+                costPerShare: (lot.costPerShare * allocation) / ratio
+            }));
+            lots.forEach(l => { l.costPerShare *= 1 - allocation; });
+            moveTo(spun);
+            break;
+        }
+    }
+};
+
+/**
+ * Replays the transaction ledger into tax lots under the given cost-basis method and returns
+ * open lots with unrealized P&L plus every realized lot slice with its holding-period term.
+ * ADJUST entries with positive shares open a lot at their recorded price; negative ones remove
+ * shares without realizing a gain. Corporate actions take effect before trades on their date.
+ */
+export const buildLotReport = (
+    transactions: Transaction[],
+    method: CostBasisMethod = 'FIFO',
+    currentPrices: Record<string, number> = {},
+    asOf: string = toISODate(new Date()),
+    corporateActions: CorporateAction[] = []
+): LotReport => {
+    const lotsBySymbol: Record<string, WorkingLot[]> = {};
+    const realized: RealizedLot[] = [];
+
+    const ledger = transactions.filter(t => t.date && t.shares && isTradeTransaction(t)).sort(ledgerOrder);
+    const actions = sortCorporateActions(corporateActions);
+    let actionIdx = 0;
+    const applyActionsThrough = (date: string) => {
+        while (actionIdx < actions.length && actions[actionIdx].date.split('T')[0] <= date) {
+            applyCorporateAction(lotsBySymbol, actions[actionIdx], realized);
+            actionIdx++;
+        }
+    };
+
+    ledger.forEach(tx => {
+        const symbol = tx.symbol.toUpperCase();
+        const date = tx.date.split('T')[0];
+        applyActionsThrough(date);
+        const lots = lotsBySymbol[symbol] || (lotsBySymbol[symbol] = []);
+        const quantity = Math.abs(tx.shares);
+
+        const opensLot = tx.type === 'BUY' || (tx.type === 'ADJUST' && tx.shares > 0);
+        if (opensLot) {
+            const total = tx.type === 'BUY' ? (tx.totalValue || quantity * tx.price) : quantity * (tx.price || 0);
+            lots.push({ id: tx.id, symbol, acquiredDate: date, shares: quantity, costPerShare: total / quantity });
+            return;
+        }
+
+        // Average cost is pooled at the moment of sale
+        const openShares = lots.reduce((sum, l) => sum + l.shares, 0);
+        const averageCost = openShares > EPSILON ? lots.reduce((sum, l) => sum + l.shares * l.costPerShare, 0) / openShares : 0;
+
+        const picks = pickLots(lots, quantity, method, tx);
+        const proceedsPerShare = tx.type === 'SELL' ? (tx.totalValue || quantity * tx.price) / quantity : 0;
+
+        let matched = 0;
+        picks.forEach(([lot, qty]) => {
+            matched += qty;
+            lot.shares -= qty;
+            if (tx.type !== 'SELL') return;
+
+            const costPerShare = method === 'AVERAGE' ? averageCost : lot.costPerShare;
+            const proceeds = qty * proceedsPerShare;
+            const costBasis = qty * costPerShare;
+            realized.push({
+                lotId: lot.id,
+                saleTransactionId: tx.id,
+                symbol,
+                acquiredDate: lot.acquiredDate,
+                soldDate: date,
+                shares: qty,
+                proceeds,
+                costBasis,
+                gain: proceeds - costBasis,
+                holdingDays: daysBetween(lot.acquiredDate, date),
+                term: holdingTerm(lot.acquiredDate, date)
+            });
+        });
+
+        const unmatched = quantity - matched;
+        if (tx.type === 'SELL' && unmatched > EPSILON) {
+            const proceeds = unmatched * proceedsPerShare;
+            realized.push({
+                lotId: null,
+                saleTransactionId: tx.id,
+                symbol,
+                acquiredDate: date,
+                soldDate: date,
+                shares: unmatched,
+                proceeds,
+                costBasis: 0,
+                gain: proceeds,
+                holdingDays: 0,
+                term: 'short',
+                missingBasis: true
+            });
+        }
+
+        lotsBySymbol[symbol] = lots.filter(l => l.shares > EPSILON);
+        if (method === 'AVERAGE') lotsBySymbol[symbol].forEach(l => { l.costPerShare = averageCost; });
+    });
+
+    applyActionsThrough(asOf);
+
+    const openLots: TaxLot[] = [];
+    Object.values(lotsBySymbol).forEach(lots => lots.forEach(lot => {
+        const currentPrice = currentPrices[lot.symbol] ?? lot.costPerShare;
+        const costBasis = lot.shares * lot.costPerShare;
+        const marketValue = lot.shares * currentPrice;
+        openLots.push({
+            id: lot.id,
+            symbol: lot.symbol,
+            acquiredDate: lot.acquiredDate,
+            shares: lot.shares,
+            costPerShare: lot.costPerShare,
+            costBasis,
+            currentPrice,
+            marketValue,
+            unrealizedGain: marketValue - costBasis,
+            holdingDays: daysBetween(lot.acquiredDate, asOf),
+            term: holdingTerm(lot.acquiredDate, asOf)
+        });
+    }));
+    openLots.sort((a, b) => a.symbol.localeCompare(b.symbol) || a.acquiredDate.localeCompare(b.acquiredDate));
+
+    const summary: LotSummary = {
+        realizedShortTerm: 0,
+        realizedLongTerm: 0,
+        unrealizedShortTerm: 0,
+        unrealizedLongTerm: 0,
+        openCostBasis: 0,
+        openMarketValue: 0
+    };
+    realized.forEach(r => {
+        if (r.term === 'long') summary.realizedLongTerm += r.gain;
+        else summary.realizedShortTerm += r.gain;
+    });
+    openLots.forEach(l => {
+        if (l.term === 'long') summary.unrealizedLongTerm += l.unrealizedGain;
+        else summary.unrealizedShortTerm += l.unrealizedGain;
+        summary.openCostBasis += l.costBasis;
+        summary.openMarketValue += l.marketValue;
+    });
+
+    return { method, openLots, realized, summary };
+};
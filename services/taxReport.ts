@@ -0,0 +1,530 @@
+import { CorporateAction, CostBasisMethod, Transaction } from '../types';
+import { buildLotReport, holdingTerm, HoldingTerm, RealizedLot } from './taxLots';
+import { restatePosition, restateTransactions, sortCorporateActions, spinOffAllocation } from './corporateActions';
+
+export type TaxJurisdiction = 'US' | 'UK';
+
+export const TAX_JURISDICTIONS: { id: TaxJurisdiction; label: string }[] = [
+    { id: 'US', label: 'United States (Form 8949)' },
+    { id: 'UK', label: 'United Kingdom (CGT share pooling)' }
+];
+
+export interface TaxReportRow {
+    symbol: string;
+    description: string;
+    acquiredDate: string; // 'VARIOUS' when the cost comes from a pool or several acquisitions
+    soldDate: string;
+    shares: number;
+    proceeds: number;
+    costBasis: number;
+    adjustment: number;      // US column (g): disallowed wash-sale loss added back
+    adjustmentCode?: string; // US column (f): 'W' for wash sale
+    gain: number;
+    term?: HoldingTerm;      // US only; UK has no short/long split
+    matching?: string;       // UK only: which identification rules supplied the cost
+    missingBasis?: boolean;
+}
+
+export interface TaxReportTotals {
+    proceeds: number;
+    costBasis: number;
+    adjustments: number;
+    gains: number;
+    losses: number;
+    net: number;
+    shortTerm: number;
+    longTerm: number;
+}
+
+export interface TaxReport {
+    jurisdiction: TaxJurisdiction;
+    taxYear: number;
+    yearLabel: string;
+    periodStart: string;
+    periodEnd: string;
+    currency: string; // Every amount is in this currency
+    rows: TaxReportRow[];
+    totals: TaxReportTotals;
+    notes: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-9;
+const WASH_WINDOW_DAYS = 30;
+
+const parseDate = (iso: string) => new Date(`${iso.split('T')[0]}T00:00:00Z`);
+const toISODate = (d: Date) => d.toISOString().split('T')[0];
+const addDays = (iso: string, days: number) => toISODate(new Date(parseDate(iso).getTime() + days * DAY_MS));
+const dayOf = (tx: Transaction) => tx.date.split('T')[0];
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const formatShares = (n: number) => String(parseFloat(n.toFixed(6)));
+
+// US tax years are calendar years; UK tax years run 6 April to 5 April and are named by their start year
+export const taxYearPeriod = (jurisdiction: TaxJurisdiction, year: number) => {
+    if (jurisdiction === 'UK') {
+        return { start: `${year}-04-06`, end: `${year + 1}-04-05`, label: `${year}-${String(year + 1).slice(2)}` };
+    }
+    return { start: `${year}-01-01`, end: `${year}-12-31`, label: String(year) };
+};
+
+const taxYearOf = (jurisdiction: TaxJurisdiction, date: string) => {
+    const year = parseInt(date.slice(0, 4), 10);
+    if (jurisdiction === 'UK' && date.slice(5) < '04-06') return year - 1;
+    return year;
+};
+
+// Tax years that contain at least one sale (or cash merger), newest first
+export const availableTaxYears = (transactions: Transaction[], jurisdiction: TaxJurisdiction, corporateActions: CorporateAction[] = []): number[] => {
+    const years = new Set(transactions.filter(t => t.type === 'SELL' && t.date).map(t => taxYearOf(jurisdiction, dayOf(t))));
+    corporateActions
+        .filter(a => a.type === 'MERGER' && (a.cashPerShare || 0) > 0)
+        .forEach(a => years.add(taxYearOf(jurisdiction, a.date.split('T')[0])));
+    return Array.from(years).sort((a, b) => b - a);
+};
+
+// --- United States: Form 8949 with wash-sale adjustments ---
+
+interface WashCarry {
+    shares: number;
+    lossPerShare: number; // Disallowed loss added to the replacement shares' basis
+    extraDays: number;    // Holding period of the washed shares, tacked on to the replacement
+}
+
+/**
+ * A loss is disallowed to the extent substantially identical shares (same symbol) were bought
+ * within 30 days before or after the sale. The disallowed loss moves into the replacement
+ * shares' basis and their holding period absorbs the sold shares' holding period, so it
+ * surfaces again when the replacement is sold.
+ */
+const buildUSRows = (transactions: Transaction[], method: CostBasisMethod, actions: CorporateAction[]): TaxReportRow[] => {
+    const { realized } = buildLotReport(transactions, method, {}, undefined, actions);
+    const buys = transactions
+        .filter(t => t.type === 'BUY' && t.date && t.shares > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    const replacementUsed = new Map<string, number>();
+    const carries = new Map<string, WashCarry[]>();
+    const lotsSoldBySale = new Map<string, Set<string>>();
+    realized.forEach(r => {
+        if (!r.lotId) return;
+        const set = lotsSoldBySale.get(r.saleTransactionId) || new Set<string>();
+        set.add(r.lotId);
+        lotsSoldBySale.set(r.saleTransactionId, set);
+    });
+
+    // Split a realized slice into the part carrying earlier wash adjustments and the plain remainder
+    const applyCarries = (slice: RealizedLot): { shares: number; extraBasis: number; extraDays: number }[] => {
+        const parts: { shares: number; extraBasis: number; extraDays: number }[] = [];
+        let remaining = slice.shares;
+        const pending = slice.lotId ? carries.get(slice.lotId) || [] : [];
+        while (remaining > EPSILON && pending.length > 0) {
+            const carry = pending[0];
+            const qty = Math.min(carry.shares, remaining);
+            parts.push({ shares: qty, extraBasis: qty * carry.lossPerShare, extraDays: carry.extraDays });
+            carry.shares -= qty;
+            remaining -= qty;
+            if (carry.shares <= EPSILON) pending.shift();
+        }
+        if (remaining > EPSILON) parts.push({ shares: remaining, extraBasis: 0, extraDays: 0 });
+        return parts;
+    };
+
+    const rows: TaxReportRow[] = [];
+    realized.forEach(slice => {
+        applyCarries(slice).forEach(part => {
+            const share = part.shares / slice.shares;
+            const proceeds = slice.proceeds * share;
+            const costBasis = slice.costBasis * share + part.extraBasis;
+            const acquiredDate = part.extraDays > 0 ? addDays(slice.acquiredDate, -part.extraDays) : slice.acquiredDate;
+            const term = slice.missingBasis ? 'short' : holdingTerm(acquiredDate, slice.soldDate);
+            let adjustment = 0;
+            const loss = proceeds - costBasis;
+
+            if (loss < -EPSILON && !slice.missingBasis) {
+                const windowStart = addDays(slice.soldDate, -WASH_WINDOW_DAYS);
+                const windowEnd = addDays(slice.soldDate, WASH_WINDOW_DAYS);
+                const soldInThisSale = lotsSoldBySale.get(slice.saleTransactionId) || new Set<string>();
+                let toCover = part.shares;
+                const lossPerShare = -loss / part.shares;
+                const holdingDays = Math.max(0, Math.round((parseDate(slice.soldDate).getTime() - parseDate(acquiredDate).getTime()) / DAY_MS));
+
+                for (const buy of buys) {
+                    if (toCover <= EPSILON) break;
+                    const day = dayOf(buy);
+                    if (buy.symbol.toUpperCase() !== slice.symbol || day < windowStart || day > windowEnd) continue;
+                    if (buy.id === slice.lotId || soldInThisSale.has(buy.id)) continue;
+                    const available = buy.shares - (replacementUsed.get(buy.id) || 0);
+                    if (available <= EPSILON) continue;
+
+                    const qty = Math.min(available, toCover);
+                    replacementUsed.set(buy.id, (replacementUsed.get(buy.id) || 0) + qty);
+                    const list = carries.get(buy.id) || [];
+                    list.push({ shares: qty, lossPerShare, extraDays: holdingDays });
+                    carries.set(buy.id, list);
+                    adjustment += qty * lossPerShare;
+                    toCover -= qty;
+                }
+            }
+
+            rows.push({
+                symbol: slice.symbol,
+                description: `${formatShares(part.shares)} sh. ${slice.symbol}`,
+                acquiredDate: slice.missingBasis ? 'VARIOUS' : acquiredDate,
+                soldDate: slice.soldDate,
+                shares: part.shares,
+                proceeds,
+                costBasis,
+                adjustment,
+                adjustmentCode: adjustment > EPSILON ? 'W' : undefined,
+                gain: proceeds - costBasis + adjustment,
+                term,
+                missingBasis: slice.missingBasis
+            });
+        });
+    });
+    return rows;
+};
+
+// --- United Kingdom: same-day, 30-day (bed and breakfast) then Section 104 pool ---
+
+interface UKAcquisition {
+    date: string;
+    shares: number;
+    cost: number;
+    available: number;
+}
+
+interface UKDisposal {
+    date: string;
+    shares: number;
+    proceeds: number;
+    remaining: number;
+    sameDayCost: number;
+    bedAndBreakfastCost: number;
+}
+
+interface UKDemerger {
+    action: CorporateAction;
+    date: string;
+    parent: string;
+    parentFactor: number;
+    child: string;
+    childFactor: number;
+}
+
+const buildUKRows = (transactions: Transaction[], actions: CorporateAction[]): TaxReportRow[] => {
+    const rows: TaxReportRow[] = [];
+    // Splits, ticker changes and share-for-share mergers are reorganisations: the new holding
+    // stands in the shoes of the old one, so the ledger is restated into today's symbols
+    const restated = restateTransactions(transactions, actions);
+
+    // Demergers move part of the parent pool's cost into a new pool for the spun-off shares
+    const demergers: UKDemerger[] = sortCorporateActions(actions)
+        .filter(a => a.type === 'SPIN_OFF' && (a.ratio || 0) > 0 && a.newSymbol)
+        .map(a => {
+            const date = a.date.split('T')[0];
+            const parent = restatePosition(a.symbol, addDays(date, -1), actions);
+            const child = restatePosition(a.newSymbol as string, date, actions);
+            return { action: a, date, parent: parent.symbol, parentFactor: parent.factor, child: child.symbol, childFactor: child.factor };
+        });
+    const injections = new Map<string, { date: string; shares: number; cost: number }[]>();
+
+    // A demerged pool's cost is only known once its parent has been replayed
+    const pending = Array.from(new Set([...restated.map(t => t.symbol.toUpperCase()), ...demergers.map(d => d.child)]));
+    const symbols: string[] = [];
+    while (pending.length > 0) {
+        const ready = pending.findIndex(sym => demergers.every(d => d.child !== sym || d.parent === sym || symbols.includes(d.parent)));
+        symbols.push(pending.splice(Math.max(ready, 0), 1)[0]);
+    }
+
+    symbols.forEach(symbol => {
+        const ledger = restated.filter(t => t.symbol.toUpperCase() === symbol);
+
+        // HMRC treats all same-day acquisitions (and disposals) of a share as a single transaction
+        const acquisitions = new Map<string, UKAcquisition>();
+        const disposals = new Map<string, UKDisposal>();
+        const writeDowns = new Map<string, number>(); // Negative ADJUST: shares leave the pool without a disposal
+
+        ledger.forEach(tx => {
+            const date = dayOf(tx);
+            if (tx.type === 'BUY' || (tx.type === 'ADJUST' && tx.shares > 0)) {
+                const cost = tx.type === 'BUY' ? (tx.totalValue || tx.shares * tx.price) : tx.shares * (tx.price || 0);
+                const a = acquisitions.get(date) || { date, shares: 0, cost: 0, available: 0 };
+                a.shares += tx.shares;
+                a.available += tx.shares;
+                a.cost += cost;
+                acquisitions.set(date, a);
+            } else if (tx.type === 'SELL') {
+                const d = disposals.get(date) || { date, shares: 0, proceeds: 0, remaining: 0, sameDayCost: 0, bedAndBreakfastCost: 0 };
+                d.shares += tx.shares;
+                d.remaining += tx.shares;
+                d.proceeds += tx.totalValue || tx.shares * tx.price;
+                disposals.set(date, d);
+            } else if (tx.type === 'ADJUST' && tx.shares < 0) {
+                writeDowns.set(date, (writeDowns.get(date) || 0) + Math.abs(tx.shares));
+            }
+        });
+
+        const sortedDisposals = Array.from(disposals.values()).sort((a, b) => a.date.localeCompare(b.date));
+        const sortedAcquisitions = Array.from(acquisitions.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+        const match = (d: UKDisposal, a: UKAcquisition) => {
+            const qty = Math.min(d.remaining, a.available);
+            if (qty <= EPSILON) return 0;
+            const cost = a.cost * (qty / a.shares);
+            a.available -= qty;
+            d.remaining -= qty;
+            return cost;
+        };
+
+        // 1. Same-day rule
+        sortedDisposals.forEach(d => {
+            const a = acquisitions.get(d.date);
+            if (a) d.sameDayCost += match(d, a);
+        });
+
+        // 2. Acquisitions in the following 30 days, earliest first, disposals taken in date order
+        sortedDisposals.forEach(d => {
+            const windowEnd = addDays(d.date, WASH_WINDOW_DAYS);
+            sortedAcquisitions
+                .filter(a => a.date > d.date && a.date <= windowEnd)
+                .forEach(a => {
+                    if (d.remaining > EPSILON) d.bedAndBreakfastCost += match(d, a);
+                });
+        });
+
+        // 3. Section 104 pool, replayed in date order with whatever the first two rules left over
+        const spunOut = demergers.filter(d => d.parent === symbol);
+        const spunIn = injections.get(symbol) || [];
+        const dates = Array.from(new Set([
+            ...acquisitions.keys(), ...disposals.keys(), ...writeDowns.keys(),
+            ...spunOut.map(d => d.date), ...spunIn.map(i => i.date)
+        ])).sort();
+        const pool = { shares: 0, cost: 0 };
+
+        dates.forEach(date => {
+            spunIn.filter(i => i.date === date).forEach(i => {
+                pool.shares += i.shares;
+                pool.cost += i.cost;
+            });
+            spunOut.filter(d => d.date === date).forEach(d => {
+                const transferred = pool.cost * spinOffAllocation(d.action);
+                pool.cost -= transferred;
+                const list = injections.get(d.child) || [];
+                list.push({ date, shares: (pool.shares / d.parentFactor) * (d.action.ratio as number) * d.childFactor, cost: transferred });
+                injections.set(d.child, list);
+            });
+
+            const a = acquisitions.get(date);
+            if (a && a.available > EPSILON) {
+                pool.cost += a.cost * (a.available / a.shares);
+                pool.shares += a.available;
+            }
+
+            const writeDown = writeDowns.get(date);
+            if (writeDown && pool.shares > EPSILON) {
+                const qty = Math.min(writeDown, pool.shares);
+                pool.cost -= pool.cost * (qty / pool.shares);
+                pool.shares -= qty;
+            }
+
+            const d = disposals.get(date);
+            if (!d) return;
+
+            let poolCost = 0;
+            let missing = 0;
+            if (d.remaining > EPSILON) {
+                const fromPool = Math.min(d.remaining, pool.shares);
+                if (fromPool > EPSILON) {
+                    poolCost = pool.cost * (fromPool / pool.shares);
+                    pool.cost -= poolCost;
+                    pool.shares -= fromPool;
+                }
+                missing = d.remaining - fromPool;
+            }
+
+            const matching: string[] = [];
+            if (d.sameDayCost > 0 || acquisitions.get(date)) matching.push('Same day');
+            if (d.bedAndBreakfastCost > 0) matching.push('30 day');
+            if (poolCost > 0) matching.push('S104 pool');
+            if (missing > EPSILON) matching.push('No acquisition cost');
+
+            const costBasis = d.sameDayCost + d.bedAndBreakfastCost + poolCost;
+            rows.push({
+                symbol,
+                description: `${formatShares(d.shares)} ${symbol}`,
+                acquiredDate: 'VARIOUS',
+                soldDate: date,
+                shares: d.shares,
+                proceeds: d.proceeds,
+                costBasis,
+                adjustment: 0,
+                gain: d.proceeds - costBasis,
+                matching: matching.join(' + '),
+                missingBasis: missing > EPSILON
+            });
+        });
+    });
+
+    return rows.sort((a, b) => a.soldDate.localeCompare(b.soldDate) || a.symbol.localeCompare(b.symbol));
+};
+
+/**
+ * Realized capital gains schedule for one tax year. The whole ledger is replayed so that
+ * cost basis, wash sales and share matching can reach back (or forward) across year ends;
+ * only disposals inside the year are reported.
+ */
+export const buildTaxReport = (
+    transactions: Transaction[],
+    jurisdiction: TaxJurisdiction,
+    taxYear: number,
+    method: CostBasisMethod = 'FIFO',
+    corporateActions: CorporateAction[] = [],
+    currency = 'USD'
+): TaxReport => {
+    const period = taxYearPeriod(jurisdiction, taxYear);
+    const allRows = jurisdiction === 'US' ? buildUSRows(transactions, method, corporateActions) : buildUKRows(transactions, corporateActions);
+    const rows = allRows.filter(r => r.soldDate >= period.start && r.soldDate <= period.end);
+
+    const totals: TaxReportTotals = { proceeds: 0, costBasis: 0, adjustments: 0, gains: 0, losses: 0, net: 0, shortTerm: 0, longTerm: 0 };
+    rows.forEach(r => {
+        totals.proceeds += r.proceeds;
+        totals.costBasis += r.costBasis;
+        totals.adjustments += r.adjustment;
+        if (r.gain >= 0) totals.gains += r.gain;
+        else totals.losses += r.gain;
+        totals.net += r.gain;
+        if (r.term === 'long') totals.longTerm += r.gain;
+        else if (r.term === 'short') totals.shortTerm += r.gain;
+    });
+
+    const notes: string[] = [];
+    if (jurisdiction === 'US') {
+        notes.push(`Cost basis method: ${method === 'AVERAGE' ? 'average cost' : method === 'SPECIFIC' ? 'specific identification' : method}.`);
+        notes.push('Wash sales (code W) treat purchases of the same symbol within 30 days of a loss sale as replacement shares.');
+    } else {
+        notes.push('Disposals are matched to same-day acquisitions, then acquisitions in the next 30 days, then the Section 104 pool.');
+        notes.push('Gains are shown before the annual exempt amount.');
+    }
+    if (rows.some(r => r.missingBasis)) {
+        notes.push('Some disposals have no matching acquisition in the ledger and are reported with a zero cost for those shares.');
+    }
+    notes.push(`Amounts are in ${currency}, converted at the rate on each transaction's date.`);
+
+    return {
+        jurisdiction,
+        taxYear,
+        yearLabel: period.label,
+        periodStart: period.start,
+        periodEnd: period.end,
+        currency,
+        rows,
+        totals,
+        notes
+    };
+};
+
+// --- Output ---
+
+const csvCell = (value: string | number) => {
+    const text = typeof value === 'number' ? round2(value).toFixed(2) : value;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const taxReportToCSV = (report: TaxReport): string => {
+    const lines: string[] = [];
+    if (report.jurisdiction === 'US') {
+        lines.push(['Part', 'Description', 'Date Acquired', 'Date Sold', 'Proceeds', 'Cost Basis', 'Code', 'Adjustment', 'Gain or Loss'].join(','));
+        (['short', 'long'] as HoldingTerm[]).forEach(term => {
+            report.rows.filter(r => r.term === term).forEach(r => {
+                lines.push([
+                    term === 'short' ? 'I (Short-term)' : 'II (Long-term)',
+                    csvCell(r.description),
+                    r.acquiredDate,
+                    r.soldDate,
+                    csvCell(r.proceeds),
+                    csvCell(r.costBasis),
+                    r.adjustmentCode || '',
+                    r.adjustment ? csvCell(r.adjustment) : '',
+                    csvCell(r.gain)
+                ].join(','));
+            });
+        });
+    } else {
+        lines.push(['Asset', 'Date Disposed', 'Quantity', 'Disposal Proceeds', 'Allowable Costs', 'Gain or Loss', 'Matching'].join(','));
+        report.rows.forEach(r => {
+            lines.push([r.symbol, r.soldDate, formatShares(r.shares), csvCell(r.proceeds), csvCell(r.costBasis), csvCell(r.gain), csvCell(r.matching || '')].join(','));
+        });
+    }
+    lines.push('');
+    lines.push(`Currency,${report.currency}`);
+    lines.push(`Total Proceeds,${csvCell(report.totals.proceeds)}`);
+    lines.push(`Total Cost,${csvCell(report.totals.costBasis)}`);
+    if (report.jurisdiction === 'US') {
+        lines.push(`Wash Sale Adjustments,${csvCell(report.totals.adjustments)}`);
+        lines.push(`Net Short-term,${csvCell(report.totals.shortTerm)}`);
+        lines.push(`Net Long-term,${csvCell(report.totals.longTerm)}`);
+    } else {
+        lines.push(`Total Gains,${csvCell(report.totals.gains)}`);
+        lines.push(`Total Losses,${csvCell(report.totals.losses)}`);
+    }
+    lines.push(`Net Gain or Loss,${csvCell(report.totals.net)}`);
+    return lines.join('\n');
+};
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c] as string));
+
+const money = (n: number) => round2(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Standalone, print-ready HTML document for the browser's print dialog
+export const taxReportToHTML = (report: TaxReport, portfolioName: string): string => {
+    const title = report.jurisdiction === 'US'
+        ? `Form 8949 Worksheet – Tax Year ${report.yearLabel}`
+        : `Capital Gains Computation – Tax Year ${report.yearLabel}`;
+
+    const table = (rows: TaxReportRow[], heading?: string) => {
+        const head = report.jurisdiction === 'US'
+            ? '<tr><th>(a) Description</th><th>(b) Acquired</th><th>(c) Sold</th><th>(d) Proceeds</th><th>(e) Cost Basis</th><th>(f) Code</th><th>(g) Adjustment</th><th>(h) Gain or Loss</th></tr>'
+            : '<tr><th>Asset</th><th>Disposed</th><th>Quantity</th><th>Proceeds</th><th>Allowable Costs</th><th>Gain or Loss</th><th>Matching</th></tr>';
+        const body = rows.map(r => report.jurisdiction === 'US'
+            ? `<tr><td>${escapeHtml(r.description)}</td><td>${r.acquiredDate}</td><td>${r.soldDate}</td><td class="num">${money(r.proceeds)}</td><td class="num">${money(r.costBasis)}</td><td>${r.adjustmentCode || ''}</td><td class="num">${r.adjustment ? money(r.adjustment) : ''}</td><td class="num">${money(r.gain)}</td></tr>`
+            : `<tr><td>${escapeHtml(r.symbol)}</td><td>${r.soldDate}</td><td class="num">${formatShares(r.shares)}</td><td class="num">${money(r.proceeds)}</td><td class="num">${money(r.costBasis)}</td><td class="num">${money(r.gain)}</td><td>${escapeHtml(r.matching || '')}</td></tr>`
+        ).join('');
+        const empty = `<tr><td colspan="8" class="empty">No disposals</td></tr>`;
+        return `${heading ? `<h2>${heading}</h2>` : ''}<table><thead>${head}</thead><tbody>${body || empty}</tbody></table>`;
+    };
+
+    const sections = report.jurisdiction === 'US'
+        ? table(report.rows.filter(r => r.term === 'short'), 'Part I – Short-Term') + table(report.rows.filter(r => r.term === 'long'), 'Part II – Long-Term')
+        : table(report.rows);
+
+    const totals = report.jurisdiction === 'US'
+        ? `<tr><td>Net short-term</td><td class="num">${money(report.totals.shortTerm)}</td></tr><tr><td>Net long-term</td><td class="num">${money(report.totals.longTerm)}</td></tr><tr><td>Wash sale adjustments</td><td class="num">${money(report.totals.adjustments)}</td></tr>`
+        : `<tr><td>Total gains</td><td class="num">${money(report.totals.gains)}</td></tr><tr><td>Total losses</td><td class="num">${money(report.totals.losses)}</td></tr>`;
+
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+h1 { font-size: 18px; margin: 0 0 4px; } h2 { font-size: 14px; margin: 24px 0 8px; }
+.meta { color: #475569; margin-bottom: 16px; }
+table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+th, td { border: 1px solid #cbd5e1; padding: 4px 6px; text-align: left; }
+th { background: #f1f5f9; font-weight: 600; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.empty { text-align: center; color: #94a3b8; }
+.totals { width: auto; min-width: 320px; }
+ul { color: #475569; padding-left: 18px; }
+</style></head><body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${escapeHtml(portfolioName)} · ${report.periodStart} to ${report.periodEnd} · amounts in ${report.currency}</div>
+${sections}
+<h2>Summary</h2>
+<table class="totals"><tbody>
+<tr><td>Total proceeds</td><td class="num">${money(report.totals.proceeds)}</td></tr>
+<tr><td>Total cost</td><td class="num">${money(report.totals.costBasis)}</td></tr>
+${totals}
+<tr><th>Net gain or loss</th><th class="num">${money(report.totals.net)}</th></tr>
+</tbody></table>
+<ul>${report.notes.map(n => `<li>${escapeHtml(n)}</li>`).join('')}</ul>
+</body></html>`;
+};
@@ -0,0 +1,228 @@
+import { AccountType, Holding, Transaction } from '../types';
+
+// Where the investor is taxed and the kind of account the dividend lands in
+export interface TaxProfile {
+    residence: string; // ISO country code
+    accountType: AccountType;
+}
+
+// Rates as a fraction of the gross dividend
+export interface WithholdingRate {
+    sourceCountry: string | null; // Null when the holding's country is unknown (nothing is withheld)
+    withheld: number; // Deducted at payment
+    treaty: number; // What the source country may keep under the tax treaty
+    reclaimable: number; // Withheld above the treaty rate, refundable from the source country
+    creditable: number; // Usable against tax at home (foreign tax credit); zero in tax-advantaged accounts
+}
+
+export interface WithholdingBreakdown extends WithholdingRate {
+    gross: number;
+    withheldAmount: number;
+    net: number;
+    reclaimableAmount: number;
+    creditableAmount: number;
+}
+
+export interface ForeignTaxByCountry {
+    country: string;
+    gross: number;
+    withheld: number;
+    reclaimable: number;
+    creditable: number;
+    withheldRate: number;
+    treatyRate: number;
+}
+
+export interface ForeignTaxSummary {
+    gross: number;
+    withheld: number;
+    net: number;
+    reclaimable: number;
+    creditable: number;
+    byCountry: ForeignTaxByCountry[];
+}
+
+// Withholding actually deducted in one calendar year by one source country
+export interface RecordedForeignTax {
+    year: number;
+    country: string;
+    gross: number;
+    withheld: number;
+    reclaimable: number;
+}
+
+export const ACCOUNT_TYPES: { id: AccountType; label: string; description: string }[] = [
+    { id: 'TAXABLE', label: 'Taxable', description: 'Foreign tax at the treaty rate can be credited on your tax return' },
+    { id: 'IRA', label: 'IRA', description: 'US retirement account: no foreign tax credit; Canadian dividends are exempt' },
+    { id: 'ISA', label: 'ISA', description: 'UK tax-free account: foreign tax withheld cannot be credited' }
+];
+
+export const TAX_RESIDENCES: { id: string; label: string }[] = [
+    { id: 'US', label: 'United States' },
+    { id: 'GB', label: 'United Kingdom' },
+    { id: 'CA', label: 'Canada' },
+    { id: 'IE', label: 'Ireland' },
+    { id: 'DE', label: 'Germany' },
+    { id: 'NL', label: 'Netherlands' },
+    { id: 'FR', label: 'France' },
+    { id: 'CH', label: 'Switzerland' },
+    { id: 'AU', label: 'Australia' },
+    { id: 'JP', label: 'Japan' }
+];
+
+interface SourceRule {
+    statutory: number; // Non-resident rate without treaty relief, %
+    treaty: number; // Usual treaty rate for portfolio dividends, %
+    treatyByResidence?: Record<string, number>;
+    reliefAtSource?: boolean; // Brokers apply the treaty rate directly (W-8BEN, NR301)
+    withholdsOnResidents?: boolean; // Domestic investors are withheld too, creditable at home
+}
+
+// Portfolio dividend withholding for individuals by source country
+const SOURCE_RULES: Record<string, SourceRule> = {
+    US: { statutory: 30, treaty: 15, reliefAtSource: true },
+    GB: { statutory: 0, treaty: 0 },
+    CA: { statutory: 25, treaty: 15, reliefAtSource: true },
+    IE: { statutory: 25, treaty: 15, withholdsOnResidents: true },
+    NL: { statutory: 15, treaty: 15, withholdsOnResidents: true },
+    DE: { statutory: 26.375, treaty: 15, withholdsOnResidents: true },
+    FR: { statutory: 12.8, treaty: 12.8, withholdsOnResidents: true },
+    CH: { statutory: 35, treaty: 15, withholdsOnResidents: true },
+    IT: { statutory: 26, treaty: 15, withholdsOnResidents: true },
+    ES: { statutory: 19, treaty: 15, withholdsOnResidents: true },
+    BE: { statutory: 30, treaty: 15, withholdsOnResidents: true },
+    DK: { statutory: 27, treaty: 15, withholdsOnResidents: true },
+    SE: { statutory: 30, treaty: 15 },
+    NO: { statutory: 25, treaty: 15 },
+    FI: { statutory: 35, treaty: 15 },
+    AU: { statutory: 30, treaty: 15 },
+    JP: { statutory: 15.315, treaty: 15, treatyByResidence: { US: 10, GB: 10 }, withholdsOnResidents: true },
+    KR: { statutory: 22, treaty: 15 },
+    CN: { statutory: 10, treaty: 10 },
+    TW: { statutory: 21, treaty: 21, treatyByResidence: { GB: 10, NL: 10, DE: 10, FR: 10, CH: 10, AU: 10 } },
+    HK: { statutory: 0, treaty: 0 },
+    SG: { statutory: 0, treaty: 0 },
+    BR: { statutory: 0, treaty: 0 }
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+    USA: 'US', 'UNITED STATES': 'US', 'UNITED STATES OF AMERICA': 'US',
+    UK: 'GB', 'UNITED KINGDOM': 'GB', 'GREAT BRITAIN': 'GB', ENGLAND: 'GB',
+    CANADA: 'CA', IRELAND: 'IE', NETHERLANDS: 'NL', 'THE NETHERLANDS': 'NL', GERMANY: 'DE', FRANCE: 'FR',
+    SWITZERLAND: 'CH', ITALY: 'IT', SPAIN: 'ES', BELGIUM: 'BE', DENMARK: 'DK', SWEDEN: 'SE', NORWAY: 'NO',
+    FINLAND: 'FI', AUSTRALIA: 'AU', JAPAN: 'JP', 'SOUTH KOREA': 'KR', KOREA: 'KR', CHINA: 'CN', TAIWAN: 'TW',
+    'HONG KONG': 'HK', SINGAPORE: 'SG', BRAZIL: 'BR'
+};
+
+/** ISO code for a holding's country ('USA', 'United Kingdom', 'NL', ...); null when it is unknown or not a country. */
+export const countryCode = (country?: string): string | null => {
+    const key = (country || '').trim().toUpperCase();
+    if (!key) return null;
+    const code = COUNTRY_ALIASES[key] || key;
+    return SOURCE_RULES[code] ? code : null;
+};
+
+const NO_WITHHOLDING: WithholdingRate = { sourceCountry: null, withheld: 0, treaty: 0, reclaimable: 0, creditable: 0 };
+
+/** Withholding on a dividend from `country` for the given residence and account type. */
+export const withholdingRate = (country: string | undefined, profile: TaxProfile): WithholdingRate => {
+    const source = countryCode(country);
+    const rule = source ? SOURCE_RULES[source] : undefined;
+    if (!source || !rule) return NO_WITHHOLDING;
+    const taxable = profile.accountType === 'TAXABLE';
+
+    if (source === profile.residence) {
+        const withheld = rule.withholdsOnResidents ? rule.statutory / 100 : 0;
+        return { sourceCountry: source, withheld, treaty: withheld, reclaimable: 0, creditable: taxable ? withheld : 0 };
+    }
+
+    // The US-Canada treaty exempts dividends paid to retirement accounts
+    if (profile.accountType === 'IRA' && profile.residence === 'US' && source === 'CA') {
+        return { sourceCountry: source, withheld: 0, treaty: 0, reclaimable: 0, creditable: 0 };
+    }
+
+    const treaty = Math.min(rule.statutory, rule.treatyByResidence?.[profile.residence] ?? rule.treaty) / 100;
+    const withheld = rule.reliefAtSource ? treaty : rule.statutory / 100;
+    return {
+        sourceCountry: source,
+        withheld,
+        treaty,
+        reclaimable: Math.max(0, withheld - treaty),
+        creditable: taxable ? treaty : 0
+    };
+};
+
+export const applyWithholding = (gross: number, country: string | undefined, profile: TaxProfile): WithholdingBreakdown => {
+    const rate = withholdingRate(country, profile);
+    const withheldAmount = gross * rate.withheld;
+    return {
+        ...rate,
+        gross,
+        withheldAmount,
+        net: gross - withheldAmount,
+        reclaimableAmount: gross * rate.reclaimable,
+        creditableAmount: gross * rate.creditable
+    };
+};
+
+/** Gross, withheld and net income with the foreign tax that can be reclaimed or credited, by source country. */
+export const summarizeWithholding = (payments: { holding: Holding; income: number }[], profile: TaxProfile): ForeignTaxSummary => {
+    const byCountry = new Map<string, ForeignTaxByCountry>();
+    const summary: ForeignTaxSummary = { gross: 0, withheld: 0, net: 0, reclaimable: 0, creditable: 0, byCountry: [] };
+
+    payments.forEach(({ holding, income }) => {
+        const b = applyWithholding(income, holding.country, profile);
+        summary.gross += b.gross;
+        summary.withheld += b.withheldAmount;
+        summary.net += b.net;
+        summary.reclaimable += b.reclaimableAmount;
+        summary.creditable += b.creditableAmount;
+
+        const country = b.sourceCountry || 'Unknown';
+        const row = byCountry.get(country) || { country, gross: 0, withheld: 0, reclaimable: 0, creditable: 0, withheldRate: b.withheld, treatyRate: b.treaty };
+        row.gross += b.gross;
+        row.withheld += b.withheldAmount;
+        row.reclaimable += b.reclaimableAmount;
+        row.creditable += b.creditableAmount;
+        byCountry.set(country, row);
+    });
+
+    summary.byCountry = Array.from(byCountry.values()).sort((a, b) => b.withheld - a.withheld || b.gross - a.gross);
+    return summary;
+};
+
+/**
+ * Foreign tax withheld on recorded dividends, by calendar year and source country. What was taken
+ * above the treaty rate can be reclaimed from the source country, usually within a few years.
+ * Symbols no longer held have no known country and are left out.
+ */
+export const recordedForeignTax = (transactions: Transaction[], holdings: Holding[], profile: TaxProfile): RecordedForeignTax[] => {
+    const countries = new Map(holdings.map(h => [h.symbol.toUpperCase(), h.country]));
+    const bySymbolYear = new Map<string, { year: number; symbol: string; gross: number; withheld: number }>();
+
+    transactions
+        .filter(t => (t.type === 'DIVIDEND' || t.type === 'TAX_WITHHELD') && t.date && countries.has(t.symbol.toUpperCase()))
+        .forEach(t => {
+            const symbol = t.symbol.toUpperCase();
+            const year = parseInt(t.date.slice(0, 4), 10);
+            const key = `${year}|${symbol}`;
+            const row = bySymbolYear.get(key) || { year, symbol, gross: 0, withheld: 0 };
+            if (t.type === 'DIVIDEND') row.gross += Math.abs(t.totalValue);
+            else row.withheld += Math.abs(t.totalValue);
+            bySymbolYear.set(key, row);
+        });
+
+    const byCountryYear = new Map<string, RecordedForeignTax>();
+    bySymbolYear.forEach(({ year, symbol, gross, withheld }) => {
+        const rate = withholdingRate(countries.get(symbol), profile);
+        if (!rate.sourceCountry || rate.sourceCountry === profile.residence || withheld <= 0) return;
+        const key = `${year}|${rate.sourceCountry}`;
+        const row = byCountryYear.get(key) || { year, country: rate.sourceCountry, gross: 0, withheld: 0, reclaimable: 0 };
+        row.gross += gross;
+        row.withheld += withheld;
+        row.reclaimable += Math.max(0, withheld - gross * rate.treaty);
+        byCountryYear.set(key, row);
+    });
+
+    return Array.from(byCountryYear.values()).sort((a, b) => b.year - a.year || b.reclaimable - a.reclaimable);
+};
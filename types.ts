@@ -8,31 +8,54 @@ export enum AssetType {
 
 export type ManualAssetType = 'Real Estate' | 'Vehicle' | 'Art/Collectibles' | 'Private Equity' | 'Other';
 
+export interface ManualAssetValuation {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+// Moves the value on from the latest valuation: compounding growth (real estate), or depreciation
+// that is straight-line over a useful life or declining-balance at a yearly rate (vehicles)
+export type ValuationModel =
+  | { type: 'appreciation'; annualRate: number }
+  | { type: 'straight-line'; usefulLifeYears: number; salvageValue?: number }
+  | { type: 'declining-balance'; annualRate: number; salvageValue?: number };
+
 export interface ManualAsset {
   id: string;
   name: string;
   type: ManualAssetType;
-  value: number;
+  value: number; // The latest valuation
   currency: string;
   purchaseDate?: string;
   purchasePrice?: number;
+  valuations?: ManualAssetValuation[]; // Ascending by date; the last one is `value`
+  valuationModel?: ValuationModel;
 }
 
 export interface Liability {
   id: string;
   name: string;
   type: 'Mortgage' | 'Loan' | 'Credit Card' | 'Other';
-  amount: number;
+  amount: number; // Outstanding balance on `balanceDate`
   interestRate: number;
   monthlyPayment?: number;
+  balanceDate?: string; // YYYY-MM-DD; later balances are projected from the payment schedule. Static when unset
+  termMonths?: number; // Months left at `balanceDate`; sets the payment when `monthlyPayment` is unset
 }
 
+export type DividendFrequency = 'Monthly' | 'Quarterly' | 'Semi-Annually' | 'Annually';
+
+// 'paid' = pay date has passed, 'declared' = announced but not yet paid, 'projected' = extrapolated from the payment history
+export type DividendStatus = 'paid' | 'declared' | 'projected';
+
 export interface Dividend {
   symbol: string;
-  amount: number;
+  amount: number; // Per share, in the listing currency
   exDate: string;
   payDate: string;
-  frequency: 'Monthly' | 'Quarterly' | 'Annually';
+  frequency: DividendFrequency;
+  status?: DividendStatus;
+  declaredDate?: string;
 }
 
 export interface SnowflakeScore {
@@ -71,6 +94,11 @@ export interface NewsItem {
   relatedSymbols: string[];
 }
 
+// 'live' = fresh provider quote, 'stale' = last real price whose refresh failed,
+// 'simulated' = random-walk placeholder shown because no provider answered,
+// 'placeholder' = no quote yet; the price is the position's cost (or the catalogue's) until one arrives
+export type PriceStatus = 'live' | 'stale' | 'simulated' | 'placeholder';
+
 export interface Holding {
   id: string;
   symbol: string;
@@ -81,36 +109,102 @@ export interface Holding {
   assetType: AssetType;
   sector: string;
   country: string; // New field for Geo Analytics
+  currency?: string; // Listing currency of the prices (ISO code, or GBX for pence); USD when unset
   dividendYield: number;
   expenseRatio?: number; // New field for Fee Analysis (e.g., 0.03 for VOO)
   safetyScore: number; // 0-100
   snowflake: SnowflakeScore;
   targetAllocation?: number; // 0-100% for rebalancing
+  drip?: boolean; // Dividends are reinvested in the holding itself
   logoUrl?: string;
   // Extended Data for Research
   financials?: FinancialHealthData[];
   competitors?: Competitor[];
+  // Price provenance: where currentPrice came from and how much to trust it
+  priceSource?: string; // Provider id ('finnhub', 'coingecko', ...) or 'simulation'
+  priceAsOf?: string; // ISO timestamp of the quote
+  priceStatus?: PriceStatus; // Unset for prices loaded from storage that have not been refreshed yet
+}
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'HIFO' | 'AVERAGE' | 'SPECIFIC';
+
+// Decides how foreign dividend withholding can be recovered
+export type AccountType = 'TAXABLE' | 'IRA' | 'ISA';
+
+// Specific identification: how many shares of which buy lot (the BUY transaction id) a SELL disposes of
+export interface LotSelection {
+  lotId: string;
+  shares: number;
 }
 
+export type TradeTransactionType = 'BUY' | 'SELL' | 'ADJUST';
+export type CashTransactionType = 'DIVIDEND' | 'INTEREST' | 'FEE' | 'TAX_WITHHELD' | 'DEPOSIT' | 'WITHDRAWAL' | 'FX_CONVERSION';
+export type TransactionType = TradeTransactionType | CashTransactionType;
+
+// Cash entries carry their amount in `totalValue` (always positive; the type gives the direction).
+// `symbol` is the paying asset for dividends and withholding, and may be empty otherwise.
 export interface Transaction {
   id: string;
   date: string;
-  type: 'BUY' | 'SELL' | 'ADJUST';
+  type: TransactionType;
   symbol: string;
   shares: number;
   price: number;
   totalValue: number;
+  lotSelections?: LotSelection[]; // SELL only; used when the portfolio's method is SPECIFIC
+  currency?: string; // Currency of `price` and `totalValue` (USD when unset); for FX_CONVERSION, the currency sold
+  toCurrency?: string; // FX_CONVERSION: currency bought
+  fxRate?: number; // FX_CONVERSION: units of `toCurrency` per unit of `currency`
+  importId?: string; // Content hash of the imported row; importing the same file again skips it
+}
+
+export type CorporateActionType = 'SPLIT' | 'SYMBOL_CHANGE' | 'MERGER' | 'SPIN_OFF';
+
+// Restates every position in `symbol` from `date` (the first trading day on the new basis) onwards.
+// SPLIT: `ratio` new shares per old (0.1 for a 1-for-10 reverse split).
+// SYMBOL_CHANGE: shares carry over to `newSymbol` unchanged.
+// MERGER: each old share becomes `ratio` shares of `newSymbol` plus `cashPerShare`; ratio 0 is a cash takeover.
+// SPIN_OFF: each old share also receives `ratio` shares of `newSymbol`, which take `costBasisAllocation` of the basis.
+export interface CorporateAction {
+  id: string;
+  type: CorporateActionType;
+  symbol: string;
+  date: string;
+  ratio?: number;
+  newSymbol?: string;
+  newName?: string;
+  cashPerShare?: number;
+  costBasisAllocation?: number; // 0-1: share of the original basis that moves to the new shares (spin-off) or stays with the stock (part-cash merger)
+  source?: string; // 'manual' or the provider id it was pulled from
 }
 
 export interface Portfolio {
   id: string;
   name: string;
   totalValue: number;
-  cashBalance: number;
+  cashBalance: number; // Total of `cashBalances` in USD
+  cashBalances?: Record<string, number>; // Cash held in each currency; older portfolios only have `cashBalance`
   holdings: Holding[];
   transactions: Transaction[];
   manualAssets?: ManualAsset[]; // New: Real Estate, Cars
   liabilities?: Liability[]; // New: Mortgages
+  costBasisMethod?: CostBasisMethod; // Defaults to FIFO
+  accountType?: AccountType; // Defaults to TAXABLE
+  corporateActions?: CorporateAction[];
+}
+
+// One day's balance sheet, for a portfolio or (with no portfolioId) summed across the user's portfolios
+export interface NetWorthSnapshot {
+  date: string; // YYYY-MM-DD; one snapshot per scope per day
+  portfolioId?: string;
+  currency: string; // The base currency the values were recorded in
+  investments: number;
+  cash: number;
+  manualAssets: number;
+  liabilities: number;
+  totalAssets: number;
+  netWorth: number;
+  recordedAt: string;
 }
 
 export interface PortfolioSummary {
@@ -152,6 +246,8 @@ export interface AlertConfig {
   condition: 'ABOVE' | 'BELOW';
   createdAt: string;
   isActive: boolean;
+  cooldownMinutes?: number; // Re-arm after this many minutes instead of disarming once triggered
+  lastTriggeredAt?: string;
 }
 
 export type ViewState = 'dashboard' | 'holdings' | 'dividends' | 'analytics' | 'research' | 'community' | 'settings' | 'admin' | 'networth' | 'knowledge-base';
@@ -169,6 +265,8 @@ export interface User {
   plan: PlanTier;
   avatar?: string;
   joinedDate: string;
+  taxResidence?: string; // ISO country code, for dividend withholding
+  baseCurrency?: string; // Currency every total is reported in; USD when unset
 }
 
 export interface CryptoWallet {
@@ -206,6 +304,14 @@ export interface BrokerProvider {
   isEnabled: boolean;
 }
 
+// How far each of a broker's history feeds has been imported: the time of the newest entry read.
+// A sync asks only for what came after.
+export interface BrokerSyncCursor {
+  orders?: string;
+  dividends?: string;
+  transactions?: string;
+}
+
 // User Specific Connection
 export interface BrokerIntegration {
   id: string;
@@ -219,4 +325,8 @@ export interface BrokerIntegration {
     apiKey: string;
     apiSecret?: string;
   };
+  portfolioId?: string; // Portfolio the account's history syncs into; it mirrors the account's positions
+  syncedSymbols?: string[]; // Symbols the account has brought into that portfolio; only these are closed when the broker stops holding them
+  syncCursor?: BrokerSyncCursor;
+  lastError?: string; // Why the last sync failed while status is 'Error'; otherwise what it could not import
 }